@@ -3,6 +3,13 @@
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
+import AuditLog from "@/components/admin/AuditLog"
+import JobQueue from "@/components/admin/JobQueue"
+import NominationQueue from "@/components/admin/NominationQueue"
+import NotificationCampaigns from "@/components/admin/NotificationCampaigns"
+import NotificationRules from "@/components/admin/NotificationRules"
+import RecapCast from "@/components/admin/RecapCast"
+import WebhookEvents from "@/components/admin/WebhookEvents"
 import { useAdminAccess } from "@/lib/hooks/useAdminAccess"
 import { useFarcasterContext } from "@/lib/hooks/useFarcasterContext"
 import { sdk } from "@farcaster/miniapp-sdk"
@@ -20,7 +27,18 @@ interface LoserboardEntry {
 }
 
 export default function AdminPage() {
-  const { isAdmin, currentFid, isLoading: isLoadingAdmin } = useAdminAccess()
+  const {
+    isAdmin,
+    currentFid,
+    roles,
+    authMethod,
+    isInFarcaster,
+    isLoading: isLoadingAdmin,
+    signInError,
+    authFetch,
+    signInWithEthereum,
+    signOut
+  } = useAdminAccess()
   const { isLoading: isLoadingFarcaster } = useFarcasterContext()
 
   // Notification state
@@ -35,6 +53,8 @@ export default function AdminPage() {
   const [loserboardUsernameOrFid, setLoserboardUsernameOrFid] = useState("")
   const [sendNotificationOnAdd, setSendNotificationOnAdd] = useState(true)
   const [composeCastOnAdd, setComposeCastOnAdd] = useState(true)
+  const [loserEntryType, setLoserEntryType] = useState<"pin" | "override">("pin")
+  const [loserLossOverride, setLoserLossOverride] = useState("")
   const [isAddingLoser, setIsAddingLoser] = useState(false)
   const [loserboardEntries, setLoserboardEntries] = useState<LoserboardEntry[]>([])
   const [isLoadingEntries, setIsLoadingEntries] = useState(true)
@@ -42,12 +62,12 @@ export default function AdminPage() {
 
   // Eligibility cleanup state
   const [isRunningCleanup, setIsRunningCleanup] = useState(false)
-  const [cleanupMessage, setCleanupMessage] = useState<{ type: "success" | "error"; text: string; details?: any } | null>(null)
-  const [showCleanupDetails, setShowCleanupDetails] = useState(false)
+  const [cleanupMessage, setCleanupMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
   const [removeFromIndexing, setRemoveFromIndexing] = useState(true)
 
   // Voting period creation state
   const [votingEndDate, setVotingEndDate] = useState("")
+  const [votingWeighting, setVotingWeighting] = useState<"equal" | "balance">("equal")
   const [isCreatingVotingPeriod, setIsCreatingVotingPeriod] = useState(false)
   const [votingMessage, setVotingMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
 
@@ -56,6 +76,10 @@ export default function AdminPage() {
   const [contestTokenSymbol, setContestTokenSymbol] = useState("")
   const [contestStartDate, setContestStartDate] = useState("")
   const [contestEndDate, setContestEndDate] = useState("")
+  const [contestMinVolumeUsd, setContestMinVolumeUsd] = useState("")
+  const [contestWinnerCount, setContestWinnerCount] = useState("1")
+  const [contestMode, setContestMode] = useState<"live" | "replay">("live")
+  const [contestRegistrationEndsAt, setContestRegistrationEndsAt] = useState("")
   const [isCreatingContest, setIsCreatingContest] = useState(false)
   const [contestMessage, setContestMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
 
@@ -64,12 +88,13 @@ export default function AdminPage() {
   const [isLoadingContests, setIsLoadingContests] = useState(false)
   const [isArchivingContest, setIsArchivingContest] = useState(false)
   const [archiveMessage, setArchiveMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [settlingContestId, setSettlingContestId] = useState<number | null>(null)
 
   // PnL recalculation state
   const [recalcContestId, setRecalcContestId] = useState("")
   const [recalcRegistrationId, setRecalcRegistrationId] = useState("")
   const [isRecalculatingPnL, setIsRecalculatingPnL] = useState(false)
-  const [recalcMessage, setRecalcMessage] = useState<{ type: "success" | "error"; text: string; details?: any } | null>(null)
+  const [recalcMessage, setRecalcMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
 
   // Error tracking state
   const [miniappErrors, setMiniappErrors] = useState<Array<{
@@ -81,12 +106,15 @@ export default function AdminPage() {
   }>>([])
   const [isLoadingErrors, setIsLoadingErrors] = useState(false)
 
-  // Redirect if not admin
+  // Each section needs its own role; 'admin' sees everything
+  const can = (role: string) => roles.includes("admin") || roles.includes(role)
+
+  // Redirect if signed in but not admin - website visitors without a session get the sign-in card instead
   useEffect(() => {
-    if (!isLoadingAdmin && !isLoadingFarcaster && !isAdmin) {
+    if (!isLoadingAdmin && !isLoadingFarcaster && !isAdmin && (isInFarcaster || authMethod)) {
       window.location.href = "/"
     }
-  }, [isAdmin, isLoadingAdmin, isLoadingFarcaster])
+  }, [isAdmin, isLoadingAdmin, isLoadingFarcaster, isInFarcaster, authMethod])
 
   // Set up error tracking for miniapp errors
   useEffect(() => {
@@ -186,7 +214,7 @@ export default function AdminPage() {
     const loadErrors = async () => {
       try {
         setIsLoadingErrors(true)
-        const response = await fetch('/api/admin/errors')
+        const response = await authFetch('/api/admin/errors')
         if (response.ok) {
           const data = await response.json()
           if (data.errors && Array.isArray(data.errors)) {
@@ -248,7 +276,7 @@ export default function AdminPage() {
 
     if (!currentFid) {
       console.error('❌ No currentFid')
-      setNotificationMessage({ type: "error", text: "Unable to get your FID. Please ensure you're logged in via Farcaster." })
+      setNotificationMessage({ type: "error", text: "Not signed in. Open the admin panel in Farcaster or sign in with Ethereum." })
       return
     }
 
@@ -269,7 +297,7 @@ export default function AdminPage() {
       const targetFid = notificationTarget === "specific" ? parseInt(notificationTargetFid.trim(), 10) : undefined
 
       console.log('📤 Sending notification request:', {
-        url: `/api/admin/notifications/send?fid=${currentFid}`,
+        url: '/api/admin/notifications/send',
         method: 'POST',
         title: notificationTitle,
         body: notificationBody.substring(0, 50) + '...',
@@ -277,8 +305,8 @@ export default function AdminPage() {
         currentFid
       })
 
-      const response = await fetch(
-        `/api/admin/notifications/send?fid=${currentFid}`,
+      const response = await authFetch(
+        '/api/admin/notifications/send',
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -349,7 +377,7 @@ export default function AdminPage() {
     setLoserboardMessage(null)
 
     if (!currentFid) {
-      setLoserboardMessage({ type: "error", text: "Unable to get your FID. Please ensure you're logged in via Farcaster." })
+      setLoserboardMessage({ type: "error", text: "Not signed in. Open the admin panel in Farcaster or sign in with Ethereum." })
       return
     }
 
@@ -360,15 +388,17 @@ export default function AdminPage() {
 
     setIsAddingLoser(true)
     try {
-      const response = await fetch(
-        `/api/admin/loserboard/add?fid=${currentFid}`,
+      const response = await authFetch(
+        '/api/admin/loserboard/add',
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             usernameOrFid: loserboardUsernameOrFid.trim(),
             sendNotification: sendNotificationOnAdd,
-            composeCast: composeCastOnAdd
+            composeCast: composeCastOnAdd,
+            entryType: loserEntryType,
+            lossOverrideUsd: loserEntryType === "override" && loserLossOverride.trim() ? parseFloat(loserLossOverride) : undefined
           })
         }
       )
@@ -400,6 +430,7 @@ export default function AdminPage() {
 
         setLoserboardMessage({ type: "success", text: "Loser added successfully!" })
         setLoserboardUsernameOrFid("")
+        setLoserLossOverride("")
         // Clear message after 5 seconds
         setTimeout(() => setLoserboardMessage(null), 5000)
 
@@ -433,14 +464,14 @@ export default function AdminPage() {
     setCleanupMessage(null)
 
     if (!currentFid) {
-      setCleanupMessage({ type: "error", text: "Unable to get your FID. Please ensure you're logged in via Farcaster." })
+      setCleanupMessage({ type: "error", text: "Not signed in. Open the admin panel in Farcaster or sign in with Ethereum." })
       return
     }
 
     setIsRunningCleanup(true)
     try {
-      const response = await fetch(
-        `/api/admin/cleanup-eligibility?fid=${currentFid}`,
+      const response = await authFetch(
+        '/api/admin/cleanup-eligibility',
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -455,10 +486,8 @@ export default function AdminPage() {
       if (response.ok) {
         setCleanupMessage({
           type: "success",
-          text: data.message || "Cleanup completed successfully!",
-          details: data.result
+          text: data.message || "Cleanup queued"
         })
-        setShowCleanupDetails(false) // Collapse details initially
         // Message stays visible until user closes it
       } else {
         setCleanupMessage({ type: "error", text: `Failed to run cleanup: ${data.error || "Unknown error"}` })
@@ -475,7 +504,7 @@ export default function AdminPage() {
     setContestMessage(null)
 
     if (!currentFid) {
-      setContestMessage({ type: "error", text: "Unable to get your FID. Please ensure you're logged in via Farcaster." })
+      setContestMessage({ type: "error", text: "Not signed in. Open the admin panel in Farcaster or sign in with Ethereum." })
       return
     }
 
@@ -484,10 +513,15 @@ export default function AdminPage() {
       return
     }
 
+    if (contestMode === "replay" && !contestRegistrationEndsAt) {
+      setContestMessage({ type: "error", text: "A replay needs a date when entries close" })
+      return
+    }
+
     setIsCreatingContest(true)
     try {
-      const response = await fetch(
-        `/api/admin/contests/create?fid=${currentFid}`,
+      const response = await authFetch(
+        '/api/admin/contests/create',
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -495,7 +529,11 @@ export default function AdminPage() {
             tokenAddress: contestTokenAddress,
             tokenSymbol: contestTokenSymbol || null,
             startDate: contestStartDate,
-            endDate: contestEndDate
+            endDate: contestEndDate,
+            minVolumeUsd: contestMinVolumeUsd || undefined,
+            winnerCount: contestWinnerCount || undefined,
+            mode: contestMode,
+            registrationEndsAt: contestMode === "replay" ? contestRegistrationEndsAt : undefined
           })
         }
       )
@@ -508,6 +546,10 @@ export default function AdminPage() {
         setContestTokenSymbol("")
         setContestStartDate("")
         setContestEndDate("")
+        setContestMinVolumeUsd("")
+        setContestWinnerCount("1")
+        setContestMode("live")
+        setContestRegistrationEndsAt("")
         setTimeout(() => setContestMessage(null), 5000)
         // Reload contests list
         loadContests()
@@ -551,7 +593,7 @@ export default function AdminPage() {
     setArchiveMessage(null)
 
     if (!currentFid) {
-      setArchiveMessage({ type: "error", text: "Unable to get your FID. Please ensure you're logged in via Farcaster." })
+      setArchiveMessage({ type: "error", text: "Not signed in. Open the admin panel in Farcaster or sign in with Ethereum." })
       return
     }
 
@@ -561,8 +603,8 @@ export default function AdminPage() {
 
     setIsArchivingContest(true)
     try {
-      const response = await fetch(
-        `/api/admin/contests/archive?fid=${currentFid}`,
+      const response = await authFetch(
+        '/api/admin/contests/archive',
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -588,11 +630,108 @@ export default function AdminPage() {
     }
   }
 
+  const handleFinalizeContest = async (contestId: number) => {
+    setArchiveMessage(null)
+
+    if (!confirm(`Finalize contest #${contestId}? Final PnL, ranking and winners will be locked.`)) {
+      return
+    }
+
+    setSettlingContestId(contestId)
+    try {
+      const response = await authFetch('/api/admin/contests/finalize', {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contestId })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setArchiveMessage({ type: "success", text: data.message || "Finalization queued" })
+        setTimeout(() => setArchiveMessage(null), 5000)
+        loadContests()
+      } else {
+        setArchiveMessage({ type: "error", text: `Failed to finalize contest: ${data.message || data.error || "Unknown error"}` })
+      }
+    } catch (error: any) {
+      console.error("Error finalizing contest:", error)
+      setArchiveMessage({ type: "error", text: `Error: ${error.message || "Failed to finalize contest"}` })
+    } finally {
+      setSettlingContestId(null)
+    }
+  }
+
+  const handleReopenContest = async (contestId: number) => {
+    setArchiveMessage(null)
+
+    const reason = prompt(`Why is contest #${contestId} being reopened? This is kept with the results.`)
+    if (!reason?.trim()) {
+      return
+    }
+
+    setSettlingContestId(contestId)
+    try {
+      const response = await authFetch('/api/admin/contests/reopen', {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contestId, reason })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setArchiveMessage({ type: "success", text: data.message || "Contest reopened" })
+        setTimeout(() => setArchiveMessage(null), 5000)
+        loadContests()
+      } else {
+        setArchiveMessage({ type: "error", text: `Failed to reopen contest: ${data.error || "Unknown error"}` })
+      }
+    } catch (error: any) {
+      console.error("Error reopening contest:", error)
+      setArchiveMessage({ type: "error", text: `Error: ${error.message || "Failed to reopen contest"}` })
+    } finally {
+      setSettlingContestId(null)
+    }
+  }
+
+  const loadResultsAnnouncement = async (contestId: number) => {
+    const response = await fetch(`/api/contests/results?contestId=${contestId}`)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load results")
+    }
+    return data.announcement as { castText: string; notificationTitle: string; notificationBody: string }
+  }
+
+  const handleUseResultsInNotification = async (contestId: number) => {
+    try {
+      const announcement = await loadResultsAnnouncement(contestId)
+      setNotificationTitle(announcement.notificationTitle)
+      setNotificationBody(announcement.notificationBody)
+      setArchiveMessage({ type: "success", text: "Results copied into the notification form" })
+      setTimeout(() => setArchiveMessage(null), 5000)
+    } catch (error: any) {
+      setArchiveMessage({ type: "error", text: `Error: ${error.message}` })
+    }
+  }
+
+  const handleComposeResultsCast = async (contestId: number) => {
+    try {
+      const announcement = await loadResultsAnnouncement(contestId)
+      await sdk.actions.composeCast({
+        text: announcement.castText,
+        embeds: [`${window.location.origin}/contests`]
+      })
+    } catch (error: any) {
+      console.error("Error composing results cast:", error)
+      setArchiveMessage({ type: "error", text: `Error: ${error.message || "Failed to compose cast"}` })
+    }
+  }
+
   const handleRecalculatePnL = async () => {
     setRecalcMessage(null)
 
     if (!currentFid) {
-      setRecalcMessage({ type: "error", text: "Unable to get your FID. Please ensure you're logged in via Farcaster." })
+      setRecalcMessage({ type: "error", text: "Not signed in. Open the admin panel in Farcaster or sign in with Ethereum." })
       return
     }
 
@@ -603,8 +742,8 @@ export default function AdminPage() {
 
     setIsRecalculatingPnL(true)
     try {
-      const response = await fetch(
-        `/api/admin/contests/recalculate-pnl?fid=${currentFid}`,
+      const response = await authFetch(
+        '/api/admin/contests/recalculate-pnl',
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -620,12 +759,11 @@ export default function AdminPage() {
       if (response.ok) {
         setRecalcMessage({
           type: "success",
-          text: data.message || "PnL recalculated successfully!",
-          details: data.results
+          text: data.message || "PnL recalculation queued"
         })
         setRecalcContestId("")
         setRecalcRegistrationId("")
-        setTimeout(() => setRecalcMessage(null), 10000) // Keep visible longer since it has details
+        setTimeout(() => setRecalcMessage(null), 10000)
       } else {
         setRecalcMessage({ type: "error", text: `Failed to recalculate PnL: ${data.error || "Unknown error"}` })
       }
@@ -648,7 +786,7 @@ export default function AdminPage() {
     setVotingMessage(null)
 
     if (!currentFid) {
-      setVotingMessage({ type: "error", text: "Unable to get your FID. Please ensure you're logged in via Farcaster." })
+      setVotingMessage({ type: "error", text: "Not signed in. Open the admin panel in Farcaster or sign in with Ethereum." })
       return
     }
 
@@ -660,13 +798,14 @@ export default function AdminPage() {
     setIsCreatingVotingPeriod(true)
     try {
       // Create voting period with BadTraders token as the first option
-      const response = await fetch(
-        `/api/admin/votes/create-period?fid=${currentFid}`,
+      const response = await authFetch(
+        '/api/admin/votes/create-period',
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             endDate: votingEndDate,
+            weighting: votingWeighting,
             options: [
               {
                 tokenAddress: "0x0774409cda69a47f272907fd5d0d80173167bb07", // BadTraders token
@@ -686,7 +825,7 @@ export default function AdminPage() {
         setVotingEndDate("")
         setTimeout(() => setVotingMessage(null), 5000)
       } else {
-        setVotingMessage({ type: "error", text: `Failed to create voting period: ${data.error || "Unknown error"}` })
+        setVotingMessage({ type: "error", text: `Failed to create voting period: ${data.message || data.error || "Unknown error"}` })
       }
     } catch (error: any) {
       console.error("Error creating voting period:", error)
@@ -710,6 +849,27 @@ export default function AdminPage() {
   }
 
 
+  if (!isAdmin && !isInFarcaster && !authMethod) {
+    return (
+      <div className="min-h-screen bg-background pt-20 pb-10 px-4">
+        <div className="max-w-4xl mx-auto">
+          <Card className="p-6 space-y-4">
+            <h2 className="text-2xl font-bold text-primary uppercase">Admin Sign In</h2>
+            <p className="text-sm text-muted-foreground">
+              Sign a message with a wallet verified on your Farcaster account to access the admin panel.
+            </p>
+            <Button onClick={signInWithEthereum} className="w-full">
+              Sign in with Ethereum
+            </Button>
+            {signInError && (
+              <p className="text-sm text-red-500">{signInError}</p>
+            )}
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
   if (!isAdmin) {
     return (
       <div className="min-h-screen bg-background pt-20 pb-10 px-4">
@@ -725,671 +885,777 @@ export default function AdminPage() {
   return (
     <div className="min-h-screen bg-background pt-20 pb-10 px-4">
       <div className="max-w-4xl mx-auto space-y-6">
-        <h1 className="text-3xl font-bold text-primary uppercase">Admin Panel</h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-primary uppercase">Admin Panel</h1>
+          {authMethod === "siwe" && (
+            <Button variant="outline" onClick={signOut}>
+              Sign out (FID {currentFid})
+            </Button>
+          )}
+        </div>
 
         {/* Notification Section */}
-        <Card className="p-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Send Notification</h2>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">Title (max 32 chars)</label>
-              <Input
-                type="text"
-                value={notificationTitle}
-                onChange={(e) => setNotificationTitle(e.target.value)}
-                placeholder="Notification title"
-                maxLength={32}
-              />
-            </div>
+        {can("notifier") && (
+          <Card className="p-6">
+            <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Send Notification</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Title (max 32 chars)</label>
+                <Input
+                  type="text"
+                  value={notificationTitle}
+                  onChange={(e) => setNotificationTitle(e.target.value)}
+                  placeholder="Notification title"
+                  maxLength={32}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Body (max 128 chars)</label>
+                <textarea
+                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  value={notificationBody}
+                  onChange={(e) => setNotificationBody(e.target.value)}
+                  placeholder="Notification body"
+                  maxLength={128}
+                  rows={3}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Target</label>
+                <div className="flex gap-4">
+                  <label className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={notificationTarget === "broadcast"}
+                      onChange={() => setNotificationTarget("broadcast")}
+                      className="mr-2"
+                    />
+                    Broadcast to all
+                  </label>
+                  <label className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={notificationTarget === "specific"}
+                      onChange={() => setNotificationTarget("specific")}
+                      className="mr-2"
+                    />
+                    Specific FID
+                  </label>
+                </div>
+              </div>
+
+              {notificationTarget === "specific" && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Target FID</label>
+                  <Input
+                    type="number"
+                    value={notificationTargetFid}
+                    onChange={(e) => setNotificationTargetFid(e.target.value)}
+                    placeholder="Enter FID"
+                  />
+                </div>
+              )}
+
+              <Button
+                onClick={handleSendNotification}
+                disabled={isSendingNotification}
+                className="w-full"
+              >
+                {isSendingNotification ? "Sending..." : "Send Notification"}
+              </Button>
 
-            <div>
-              <label className="block text-sm font-medium mb-2">Body (max 128 chars)</label>
-              <textarea
-                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                value={notificationBody}
-                onChange={(e) => setNotificationBody(e.target.value)}
-                placeholder="Notification body"
-                maxLength={128}
-                rows={3}
-              />
+              {notificationMessage && (
+                <div
+                  className={`p-3 rounded-md ${
+                    notificationMessage.type === "success"
+                      ? "bg-green-500/20 text-green-400 border border-green-500/50"
+                      : "bg-red-500/20 text-red-400 border border-red-500/50"
+                  }`}
+                >
+                  <p className="text-sm font-medium">
+                    {notificationMessage.type === "success" ? "✓ " : "✗ "}
+                    {notificationMessage.text}
+                  </p>
+                </div>
+              )}
             </div>
+          </Card>
+        )}
+
+        {can("notifier") && <NotificationCampaigns authFetch={authFetch} />}
+
+        {can("notifier") && <NotificationRules authFetch={authFetch} />}
+
+        {can("notifier") && <WebhookEvents authFetch={authFetch} />}
+
+        {can("notifier") && <RecapCast authFetch={authFetch} />}
+
+        {/* Loserboard Management Section */}
+        {can("loserboard_curator") && (
+          <Card className="p-6">
+            <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Loserboard Management</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Username or FID <span className="text-xs text-muted-foreground">(username preferred)</span>
+                </label>
+                <Input
+                  type="text"
+                  value={loserboardUsernameOrFid}
+                  onChange={(e) => setLoserboardUsernameOrFid(e.target.value)}
+                  placeholder="Enter username (e.g., username or @username) or FID (e.g., 12345)"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !isAddingLoser && loserboardUsernameOrFid.trim()) {
+                      handleAddLoser()
+                    }
+                  }}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Username lookup is preferred. You can use @username or just username. FID will be used as fallback.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Entry type</label>
+                <div className="flex gap-4">
+                  <label className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={loserEntryType === "pin"}
+                      onChange={() => setLoserEntryType("pin")}
+                      className="mr-2"
+                    />
+                    Pin to top
+                  </label>
+                  <label className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={loserEntryType === "override"}
+                      onChange={() => setLoserEntryType("override")}
+                      className="mr-2"
+                    />
+                    Override loss
+                  </label>
+                </div>
+                {loserEntryType === "override" && (
+                  <Input
+                    type="number"
+                    min="0"
+                    value={loserLossOverride}
+                    onChange={(e) => setLoserLossOverride(e.target.value)}
+                    placeholder="Loss in USD (leave empty to keep the computed loss)"
+                    className="mt-2"
+                  />
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  The loserboard is computed from indexed trades. Pinned users are always listed first; overrides replace the computed loss.
+                </p>
+              </div>
 
-            <div>
-              <label className="block text-sm font-medium mb-2">Target</label>
-              <div className="flex gap-4">
+              <div className="space-y-2">
                 <label className="flex items-center">
                   <input
-                    type="radio"
-                    checked={notificationTarget === "broadcast"}
-                    onChange={() => setNotificationTarget("broadcast")}
+                    type="checkbox"
+                    checked={sendNotificationOnAdd}
+                    onChange={(e) => setSendNotificationOnAdd(e.target.checked)}
                     className="mr-2"
                   />
-                  Broadcast to all
+                  Send notification when adding
                 </label>
                 <label className="flex items-center">
                   <input
-                    type="radio"
-                    checked={notificationTarget === "specific"}
-                    onChange={() => setNotificationTarget("specific")}
+                    type="checkbox"
+                    checked={composeCastOnAdd}
+                    onChange={(e) => setComposeCastOnAdd(e.target.checked)}
                     className="mr-2"
                   />
-                  Specific FID
+                  Compose cast announcing loser
                 </label>
               </div>
-            </div>
-
-            {notificationTarget === "specific" && (
-              <div>
-                <label className="block text-sm font-medium mb-2">Target FID</label>
-                <Input
-                  type="number"
-                  value={notificationTargetFid}
-                  onChange={(e) => setNotificationTargetFid(e.target.value)}
-                  placeholder="Enter FID"
-                />
-              </div>
-            )}
-
-            <Button
-              onClick={handleSendNotification}
-              disabled={isSendingNotification}
-              className="w-full"
-            >
-              {isSendingNotification ? "Sending..." : "Send Notification"}
-            </Button>
 
-            {notificationMessage && (
-              <div
-                className={`p-3 rounded-md ${
-                  notificationMessage.type === "success"
-                    ? "bg-green-500/20 text-green-400 border border-green-500/50"
-                    : "bg-red-500/20 text-red-400 border border-red-500/50"
-                }`}
+              <Button
+                onClick={handleAddLoser}
+                disabled={isAddingLoser}
+                className="w-full"
               >
-                <p className="text-sm font-medium">
-                  {notificationMessage.type === "success" ? "✓ " : "✗ "}
-                  {notificationMessage.text}
-                </p>
-              </div>
-            )}
-          </div>
-        </Card>
-
-        {/* Loserboard Management Section */}
-        <Card className="p-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Loserboard Management</h2>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">
-                Username or FID <span className="text-xs text-muted-foreground">(username preferred)</span>
-              </label>
-              <Input
-                type="text"
-                value={loserboardUsernameOrFid}
-                onChange={(e) => setLoserboardUsernameOrFid(e.target.value)}
-                placeholder="Enter username (e.g., username or @username) or FID (e.g., 12345)"
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !isAddingLoser && loserboardUsernameOrFid.trim()) {
-                    handleAddLoser()
-                  }
-                }}
-              />
-              <p className="text-xs text-muted-foreground mt-1">
-                Username lookup is preferred. You can use @username or just username. FID will be used as fallback.
-              </p>
-            </div>
+                {isAddingLoser ? "Adding..." : "Add to Loserboard"}
+              </Button>
 
-            <div className="space-y-2">
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={sendNotificationOnAdd}
-                  onChange={(e) => setSendNotificationOnAdd(e.target.checked)}
-                  className="mr-2"
-                />
-                Send notification when adding
-              </label>
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={composeCastOnAdd}
-                  onChange={(e) => setComposeCastOnAdd(e.target.checked)}
-                  className="mr-2"
-                />
-                Compose cast announcing loser
-              </label>
+              {loserboardMessage && (
+                <div
+                  className={`p-3 rounded-md ${
+                    loserboardMessage.type === "success"
+                      ? "bg-green-500/20 text-green-400 border border-green-500/50"
+                      : "bg-red-500/20 text-red-400 border border-red-500/50"
+                  }`}
+                >
+                  <p className="text-sm font-medium">
+                    {loserboardMessage.type === "success" ? "✓ " : "✗ "}
+                    {loserboardMessage.text}
+                  </p>
+                </div>
+              )}
             </div>
+          </Card>
+        )}
 
-            <Button
-              onClick={handleAddLoser}
-              disabled={isAddingLoser}
-              className="w-full"
-            >
-              {isAddingLoser ? "Adding..." : "Add to Loserboard"}
-            </Button>
+        {/* Contest Management Section */}
+        {can("contest_manager") && (
+          <>
+            <Card className="p-6 mb-6">
+              <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Create Contest</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Create a new weekly contest. Users need 5M BadTraders tokens to enter.
+              </p>
 
-            {loserboardMessage && (
-              <div
-                className={`p-3 rounded-md ${
-                  loserboardMessage.type === "success"
-                    ? "bg-green-500/20 text-green-400 border border-green-500/50"
-                    : "bg-red-500/20 text-red-400 border border-red-500/50"
-                }`}
-              >
-                <p className="text-sm font-medium">
-                  {loserboardMessage.type === "success" ? "✓ " : "✗ "}
-                  {loserboardMessage.text}
-                </p>
-              </div>
-            )}
-          </div>
-        </Card>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Token Address *</label>
+                  <input
+                    type="text"
+                    value={contestTokenAddress}
+                    onChange={(e) => setContestTokenAddress(e.target.value)}
+                    placeholder="0x..."
+                    className="w-full px-3 py-2 border-2 border-primary rounded bg-background font-mono text-sm"
+                  />
+                </div>
 
-        {/* Contest Management Section */}
-        <Card className="p-6 mb-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Create Contest</h2>
-          <p className="text-sm text-muted-foreground mb-4">
-            Create a new weekly contest. Users need 5M BadTraders tokens to enter.
-          </p>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">Token Address *</label>
-              <input
-                type="text"
-                value={contestTokenAddress}
-                onChange={(e) => setContestTokenAddress(e.target.value)}
-                placeholder="0x..."
-                className="w-full px-3 py-2 border-2 border-primary rounded bg-background font-mono text-sm"
-              />
-            </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Token Symbol (optional)</label>
+                  <input
+                    type="text"
+                    value={contestTokenSymbol}
+                    onChange={(e) => setContestTokenSymbol(e.target.value)}
+                    placeholder="BADTRADERS"
+                    className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                  />
+                </div>
 
-            <div>
-              <label className="block text-sm font-medium mb-2">Token Symbol (optional)</label>
-              <input
-                type="text"
-                value={contestTokenSymbol}
-                onChange={(e) => setContestTokenSymbol(e.target.value)}
-                placeholder="BADTRADERS"
-                className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
-              />
-            </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Mode</label>
+                  <select
+                    value={contestMode}
+                    onChange={(e) => setContestMode(e.target.value as "live" | "replay")}
+                    className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                  >
+                    <option value="live">Live - trades made during the contest</option>
+                    <option value="replay">Replay - trades made in a past week</option>
+                  </select>
+                </div>
 
-            <div>
-              <label className="block text-sm font-medium mb-2">Start Date *</label>
-              <input
-                type="datetime-local"
-                value={contestStartDate}
-                onChange={(e) => setContestStartDate(e.target.value)}
-                className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
-              />
-            </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Start Date *</label>
+                  <input
+                    type="datetime-local"
+                    value={contestStartDate}
+                    onChange={(e) => setContestStartDate(e.target.value)}
+                    className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                  />
+                </div>
 
-            <div>
-              <label className="block text-sm font-medium mb-2">End Date *</label>
-              <input
-                type="datetime-local"
-                value={contestEndDate}
-                onChange={(e) => setContestEndDate(e.target.value)}
-                className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
-              />
-            </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">End Date *</label>
+                  <input
+                    type="datetime-local"
+                    value={contestEndDate}
+                    onChange={(e) => setContestEndDate(e.target.value)}
+                    className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                  />
+                </div>
 
-            <Button
-              onClick={handleCreateContest}
-              disabled={isCreatingContest || !contestTokenAddress || !contestStartDate || !contestEndDate}
-              className="w-full"
-            >
-              {isCreatingContest ? "Creating..." : "Create Contest"}
-            </Button>
+                {contestMode === "replay" && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Entries Close *</label>
+                    <input
+                      type="datetime-local"
+                      value={contestRegistrationEndsAt}
+                      onChange={(e) => setContestRegistrationEndsAt(e.target.value)}
+                      className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      The week must already be over. The replay is finalized when entries close.
+                    </p>
+                  </div>
+                )}
 
-            {contestMessage && (
-              <div
-                className={`p-3 rounded-md ${
-                  contestMessage.type === "success"
-                    ? "bg-green-500/20 text-green-400 border border-green-500/50"
-                    : "bg-red-500/20 text-red-400 border border-red-500/50"
-                }`}
-              >
-                <p className="text-sm font-medium">
-                  {contestMessage.type === "success" ? "✓ " : "✗ "}
-                  {contestMessage.text}
-                </p>
-              </div>
-            )}
-          </div>
-        </Card>
-
-        {/* Contest Management - List and Archive */}
-        <Card className="p-6 mb-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Manage Contests</h2>
-          <p className="text-sm text-muted-foreground mb-4">
-            View and archive existing contests.
-          </p>
-
-          <div className="space-y-4">
-            <Button
-              onClick={loadContests}
-              disabled={isLoadingContests}
-              variant="outline"
-              className="w-full"
-            >
-              {isLoadingContests ? "Loading..." : "Refresh Contests"}
-            </Button>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Min Volume (USD)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={contestMinVolumeUsd}
+                      onChange={(e) => setContestMinVolumeUsd(e.target.value)}
+                      placeholder="0"
+                      className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Winners</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={contestWinnerCount}
+                      onChange={(e) => setContestWinnerCount(e.target.value)}
+                      className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                    />
+                  </div>
+                </div>
 
-            {archiveMessage && (
-              <div
-                className={`p-3 rounded-md ${
-                  archiveMessage.type === "success"
-                    ? "bg-green-500/20 text-green-400 border border-green-500/50"
-                    : "bg-red-500/20 text-red-400 border border-red-500/50"
-                }`}
-              >
-                <p className="text-sm font-medium">
-                  {archiveMessage.type === "success" ? "✓ " : "✗ "}
-                  {archiveMessage.text}
-                </p>
-              </div>
-            )}
+                <Button
+                  onClick={handleCreateContest}
+                  disabled={isCreatingContest || !contestTokenAddress || !contestStartDate || !contestEndDate}
+                  className="w-full"
+                >
+                  {isCreatingContest ? "Creating..." : "Create Contest"}
+                </Button>
 
-            {isLoadingContests ? (
-              <p className="text-center text-sm text-muted-foreground">Loading contests...</p>
-            ) : contests.length === 0 ? (
-              <p className="text-center text-sm text-muted-foreground">No contests found.</p>
-            ) : (
-              <div className="space-y-2">
-                {contests.map((contest) => (
+                {contestMessage && (
                   <div
-                    key={contest.id}
-                    className="flex items-center justify-between p-3 border-2 rounded-md"
+                    className={`p-3 rounded-md ${
+                      contestMessage.type === "success"
+                        ? "bg-green-500/20 text-green-400 border border-green-500/50"
+                        : "bg-red-500/20 text-red-400 border border-red-500/50"
+                    }`}
                   >
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <p className="font-bold">Contest #{contest.id}</p>
-                        <span
-                          className={`text-xs px-2 py-1 rounded ${
-                            contest.status === 'active'
-                              ? 'bg-green-500/20 text-green-400 border border-green-500/50'
-                              : contest.status === 'completed'
-                              ? 'bg-gray-500/20 text-gray-400 border border-gray-500/50'
-                              : 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/50'
-                          }`}
-                        >
-                          {contest.status.toUpperCase()}
-                        </span>
-                      </div>
-                      <p className="text-sm text-muted-foreground">
-                        {contest.tokenSymbol || contest.tokenAddress?.slice(0, 10) + '...'}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(contest.startDate).toLocaleDateString()} - {new Date(contest.endDate).toLocaleDateString()}
-                      </p>
-                    </div>
-                    {contest.status === 'active' && (
-                      <Button
-                        onClick={() => handleArchiveContest(contest.id)}
-                        disabled={isArchivingContest}
-                        variant="destructive"
-                        size="sm"
-                      >
-                        {isArchivingContest ? "Archiving..." : "Archive"}
-                      </Button>
-                    )}
+                    <p className="text-sm font-medium">
+                      {contestMessage.type === "success" ? "✓ " : "✗ "}
+                      {contestMessage.text}
+                    </p>
                   </div>
-                ))}
+                )}
               </div>
-            )}
-          </div>
-        </Card>
-
-        {/* PnL Recalculation Section */}
-        <Card className="p-6 mb-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Recalculate Contest PnL</h2>
-          <p className="text-sm text-muted-foreground mb-4">
-            Manually recalculate PnL for contest registrations. Use Contest ID to recalculate all registrations for that contest, or Registration ID for a specific registration.
-          </p>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">Contest ID (optional)</label>
-              <Input
-                type="number"
-                value={recalcContestId}
-                onChange={(e) => setRecalcContestId(e.target.value)}
-                placeholder="Enter contest ID"
-                className="font-mono"
-              />
-            </div>
+            </Card>
 
-            <div>
-              <label className="block text-sm font-medium mb-2">Registration ID (optional)</label>
-              <Input
-                type="number"
-                value={recalcRegistrationId}
-                onChange={(e) => setRecalcRegistrationId(e.target.value)}
-                placeholder="Enter registration ID"
-                className="font-mono"
-              />
-            </div>
+            {/* Contest Management - List and Archive */}
+            <Card className="p-6 mb-6">
+              <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Manage Contests</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                View, archive and finalize contests. Ended contests are finalized automatically; reopening one requires a reason.
+              </p>
 
-            <Button
-              onClick={handleRecalculatePnL}
-              disabled={isRecalculatingPnL || (!recalcContestId && !recalcRegistrationId)}
-              className="w-full"
-              variant="outline"
-            >
-              {isRecalculatingPnL ? "Recalculating..." : "Recalculate PnL"}
-            </Button>
+              <div className="space-y-4">
+                <Button
+                  onClick={loadContests}
+                  disabled={isLoadingContests}
+                  variant="outline"
+                  className="w-full"
+                >
+                  {isLoadingContests ? "Loading..." : "Refresh Contests"}
+                </Button>
 
-            {recalcMessage && (
-              <div
-                className={`p-4 rounded-md ${
-                  recalcMessage.type === "success"
-                    ? "bg-green-500/20 text-green-400 border border-green-500/50"
-                    : "bg-red-500/20 text-red-400 border border-red-500/50"
-                }`}
-              >
-                <p className="text-sm font-medium mb-2">
-                  {recalcMessage.type === "success" ? "✓ " : "✗ "}
-                  {recalcMessage.text}
-                </p>
-                {recalcMessage.details && (
-                  <div className="text-xs space-y-1 mt-2">
-                    <p><strong>Total:</strong> {recalcMessage.details.total}</p>
-                    <p><strong>Successful:</strong> {recalcMessage.details.successful}</p>
-                    <p><strong>Failed:</strong> {recalcMessage.details.failed}</p>
-                    {recalcMessage.details.errors && recalcMessage.details.errors.length > 0 && (
-                      <div className="mt-2 pt-2 border-t border-current/20">
-                        <p className="font-bold">Errors:</p>
-                        {recalcMessage.details.errors.slice(0, 5).map((err: any, idx: number) => (
-                          <p key={idx} className="text-red-300">
-                            Registration {err.registrationId}: {err.error}
+                {archiveMessage && (
+                  <div
+                    className={`p-3 rounded-md ${
+                      archiveMessage.type === "success"
+                        ? "bg-green-500/20 text-green-400 border border-green-500/50"
+                        : "bg-red-500/20 text-red-400 border border-red-500/50"
+                    }`}
+                  >
+                    <p className="text-sm font-medium">
+                      {archiveMessage.type === "success" ? "✓ " : "✗ "}
+                      {archiveMessage.text}
+                    </p>
+                  </div>
+                )}
+
+                {isLoadingContests ? (
+                  <p className="text-center text-sm text-muted-foreground">Loading contests...</p>
+                ) : contests.length === 0 ? (
+                  <p className="text-center text-sm text-muted-foreground">No contests found.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {contests.map((contest) => (
+                      <div
+                        key={contest.id}
+                        className="flex items-center justify-between p-3 border-2 rounded-md"
+                      >
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <p className="font-bold">Contest #{contest.id}</p>
+                            <span
+                              className={`text-xs px-2 py-1 rounded ${
+                                contest.status === 'active'
+                                  ? 'bg-green-500/20 text-green-400 border border-green-500/50'
+                                  : contest.status === 'completed'
+                                  ? 'bg-gray-500/20 text-gray-400 border border-gray-500/50'
+                                  : 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/50'
+                              }`}
+                            >
+                              {contest.status.toUpperCase()}
+                            </span>
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {contest.tokenSymbol || contest.tokenAddress?.slice(0, 10) + '...'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(contest.startDate).toLocaleDateString()} - {new Date(contest.endDate).toLocaleDateString()}
                           </p>
-                        ))}
+                          {contest.finalizedAt && (
+                            <p className="text-xs text-green-400">
+                              Finalized {new Date(contest.finalizedAt).toLocaleString()}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex flex-col gap-2">
+                          {contest.status === 'active' && (
+                            <Button
+                              onClick={() => handleArchiveContest(contest.id)}
+                              disabled={isArchivingContest}
+                              variant="destructive"
+                              size="sm"
+                            >
+                              {isArchivingContest ? "Archiving..." : "Archive"}
+                            </Button>
+                          )}
+                          {!contest.finalizedAt && new Date(contest.endDate).getTime() <= Date.now() && (
+                            <Button
+                              onClick={() => handleFinalizeContest(contest.id)}
+                              disabled={settlingContestId === contest.id}
+                              size="sm"
+                            >
+                              Finalize
+                            </Button>
+                          )}
+                          {contest.finalizedAt && (
+                            <>
+                              {can("notifier") && (
+                                <Button
+                                  onClick={() => handleUseResultsInNotification(contest.id)}
+                                  variant="outline"
+                                  size="sm"
+                                >
+                                  Use in Notification
+                                </Button>
+                              )}
+                              <Button
+                                onClick={() => handleComposeResultsCast(contest.id)}
+                                variant="outline"
+                                size="sm"
+                              >
+                                Compose Cast
+                              </Button>
+                              <Button
+                                onClick={() => handleReopenContest(contest.id)}
+                                disabled={settlingContestId === contest.id}
+                                variant="destructive"
+                                size="sm"
+                              >
+                                Reopen
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       </div>
-                    )}
+                    ))}
                   </div>
                 )}
               </div>
-            )}
-          </div>
-        </Card>
-
-        {/* Voting Period Management Section */}
-        <Card className="p-6 mb-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Create Voting Period</h2>
-          <p className="text-sm text-muted-foreground mb-4">
-            Create a new voting period for users to vote on the next contest token.
-          </p>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">Voting End Date</label>
-              <input
-                type="datetime-local"
-                value={votingEndDate}
-                onChange={(e) => setVotingEndDate(e.target.value)}
-                className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
-              />
-            </div>
+            </Card>
 
-            <div className="bg-primary/10 border-2 border-primary p-4 rounded">
-              <p className="text-sm font-bold text-primary uppercase mb-2">Default Option:</p>
-              <p className="text-sm text-muted-foreground">
-                BadTraders Token (0x0774...bb07) will be added automatically as the first voting option.
+            {/* PnL Recalculation Section */}
+            <Card className="p-6 mb-6">
+              <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Recalculate Contest PnL</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Manually recalculate PnL for contest registrations. Use Contest ID to recalculate all registrations for that contest, or Registration ID for a specific registration.
               </p>
-            </div>
 
-            <Button
-              onClick={handleCreateVotingPeriod}
-              disabled={isCreatingVotingPeriod || !votingEndDate}
-              className="w-full"
-            >
-              {isCreatingVotingPeriod ? "Creating..." : "Create Voting Period"}
-            </Button>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Contest ID (optional)</label>
+                  <Input
+                    type="number"
+                    value={recalcContestId}
+                    onChange={(e) => setRecalcContestId(e.target.value)}
+                    placeholder="Enter contest ID"
+                    className="font-mono"
+                  />
+                </div>
 
-            {votingMessage && (
-              <div
-                className={`p-3 rounded-md ${
-                  votingMessage.type === "success"
-                    ? "bg-green-500/20 text-green-400 border border-green-500/50"
-                    : "bg-red-500/20 text-red-400 border border-red-500/50"
-                }`}
-              >
-                <p className="text-sm font-medium">
-                  {votingMessage.type === "success" ? "✓ " : "✗ "}
-                  {votingMessage.text}
-                </p>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Registration ID (optional)</label>
+                  <Input
+                    type="number"
+                    value={recalcRegistrationId}
+                    onChange={(e) => setRecalcRegistrationId(e.target.value)}
+                    placeholder="Enter registration ID"
+                    className="font-mono"
+                  />
+                </div>
+
+                <Button
+                  onClick={handleRecalculatePnL}
+                  disabled={isRecalculatingPnL || (!recalcContestId && !recalcRegistrationId)}
+                  className="w-full"
+                  variant="outline"
+                >
+                  {isRecalculatingPnL ? "Queueing..." : "Recalculate PnL"}
+                </Button>
+
+                {recalcMessage && (
+                  <div
+                    className={`p-4 rounded-md ${
+                      recalcMessage.type === "success"
+                        ? "bg-green-500/20 text-green-400 border border-green-500/50"
+                        : "bg-red-500/20 text-red-400 border border-red-500/50"
+                    }`}
+                  >
+                    <p className="text-sm font-medium mb-2">
+                      {recalcMessage.type === "success" ? "✓ " : "✗ "}
+                      {recalcMessage.text}
+                    </p>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </Card>
+            </Card>
 
-        {/* Eligibility Cleanup Section */}
-        <Card className="p-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Eligibility Cleanup</h2>
-          <p className="text-sm text-muted-foreground mb-4">
-            Check all registered users' token balances and remove those who no longer hold the required amount.
-          </p>
-
-          <div className="space-y-4">
-            <div>
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={removeFromIndexing}
-                  onChange={(e) => setRemoveFromIndexing(e.target.checked)}
-                  className="mr-2"
-                />
-                Remove ineligible users from indexing (opt_in_status = false)
-              </label>
-              <p className="text-xs text-muted-foreground mt-1 ml-6">
-                If unchecked, only eligibility_status will be updated, but users will remain in indexing.
+            {/* Voting Period Management Section */}
+            <Card className="p-6 mb-6">
+              <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Create Voting Period</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Create a new voting period for users to vote on the next contest token. When it ends, the winning token gets the next weekly contest automatically.
               </p>
-            </div>
 
-            <Button
-              onClick={handleRunCleanup}
-              disabled={isRunningCleanup}
-              className="w-full"
-              variant="destructive"
-            >
-              {isRunningCleanup ? "Running Cleanup..." : "Run Eligibility Cleanup"}
-            </Button>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Voting End Date</label>
+                  <input
+                    type="datetime-local"
+                    value={votingEndDate}
+                    onChange={(e) => setVotingEndDate(e.target.value)}
+                    className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                  />
+                </div>
 
-            {cleanupMessage && (
-              <div
-                className={`p-4 rounded-md relative ${
-                  cleanupMessage.type === "success"
-                    ? "bg-green-500/20 text-green-400 border border-green-500/50"
-                    : "bg-red-500/20 text-red-400 border border-red-500/50"
-                }`}
-              >
-                <button
-                  onClick={() => setCleanupMessage(null)}
-                  className="absolute top-2 right-2 text-muted-foreground hover:text-foreground"
-                  aria-label="Close"
+                <div>
+                  <label className="block text-sm font-medium mb-2">Vote Weighting</label>
+                  <select
+                    value={votingWeighting}
+                    onChange={(e) => setVotingWeighting(e.target.value as "equal" | "balance")}
+                    className="w-full px-3 py-2 border-2 border-primary rounded bg-background"
+                  >
+                    <option value="equal">One wallet, one vote</option>
+                    <option value="balance">Weighted by $BADTRADERS balance at period start</option>
+                  </select>
+                </div>
+
+                <div className="bg-primary/10 border-2 border-primary p-4 rounded">
+                  <p className="text-sm font-bold text-primary uppercase mb-2">Default Option:</p>
+                  <p className="text-sm text-muted-foreground">
+                    BadTraders Token (0x0774...bb07) will be added automatically as the first voting option.
+                  </p>
+                </div>
+
+                <Button
+                  onClick={handleCreateVotingPeriod}
+                  disabled={isCreatingVotingPeriod || !votingEndDate}
+                  className="w-full"
                 >
-                  ✕
-                </button>
-                <p className="text-sm font-medium mb-2 pr-6">
-                  {cleanupMessage.type === "success" ? "✓ " : "✗ "}
-                  {cleanupMessage.text}
-                </p>
-                {cleanupMessage.details && (
-                  <div className="text-xs mt-2 space-y-2">
-                    <div className="space-y-1">
-                      <p><strong>Total checked:</strong> {cleanupMessage.details.totalChecked}</p>
-                      <p><strong>Still eligible:</strong> {cleanupMessage.details.stillEligible}</p>
-                      <p><strong>No longer eligible:</strong> {cleanupMessage.details.noLongerEligible}</p>
-                      {removeFromIndexing && (
-                        <p><strong>Removed from indexing:</strong> {cleanupMessage.details.removedFromIndexing}</p>
-                      )}
-                      {cleanupMessage.details.errors > 0 && (
-                        <p className="text-yellow-400"><strong>Errors:</strong> {cleanupMessage.details.errors}</p>
-                      )}
-                    </div>
+                  {isCreatingVotingPeriod ? "Creating..." : "Create Voting Period"}
+                </Button>
 
-                    {cleanupMessage.details.details && cleanupMessage.details.details.length > 0 && (
-                      <div className="mt-3 pt-3 border-t border-current/20">
-                        <button
-                          onClick={() => setShowCleanupDetails(!showCleanupDetails)}
-                          className="text-xs underline hover:no-underline mb-2"
-                        >
-                          {showCleanupDetails ? "▼ Hide" : "▶ Show"} detailed results ({cleanupMessage.details.details.length} users)
-                        </button>
-                        {showCleanupDetails && (
-                          <div className="mt-2 space-y-2 max-h-96 overflow-y-auto">
-                            {cleanupMessage.details.details.map((detail: any, index: number) => (
-                              <div
-                                key={index}
-                                className={`p-2 rounded text-xs border ${
-                                  detail.action === 'removed'
-                                    ? 'bg-red-500/10 border-red-500/30'
-                                    : detail.action === 'kept'
-                                    ? 'bg-green-500/10 border-green-500/30'
-                                    : 'bg-yellow-500/10 border-yellow-500/30'
-                                }`}
-                              >
-                                <div className="flex items-start justify-between gap-2">
-                                  <div className="flex-1">
-                                    <p className="font-bold">
-                                      {detail.action === 'removed' ? '❌ Removed' : detail.action === 'kept' ? '✅ Kept' : '⚠️ Error'}:
-                                      FID {detail.fid} {detail.username ? `(@${detail.username})` : ''}
-                                    </p>
-                                    <p className="text-muted-foreground mt-1">
-                                      Wallet: <code className="text-xs">{detail.walletAddress}</code>
-                                    </p>
-                                    <p className="mt-1">
-                                      Balance: <strong>{detail.currentBalance.toLocaleString()}</strong> /
-                                      Threshold: <strong>{detail.threshold.toLocaleString()}</strong>
-                                    </p>
-                                  </div>
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    )}
+                {votingMessage && (
+                  <div
+                    className={`p-3 rounded-md ${
+                      votingMessage.type === "success"
+                        ? "bg-green-500/20 text-green-400 border border-green-500/50"
+                        : "bg-red-500/20 text-red-400 border border-red-500/50"
+                    }`}
+                  >
+                    <p className="text-sm font-medium">
+                      {votingMessage.type === "success" ? "✓ " : "✗ "}
+                      {votingMessage.text}
+                    </p>
                   </div>
                 )}
               </div>
-            )}
-          </div>
-        </Card>
+            </Card>
 
-        {/* Miniapp Errors Section */}
-        <Card className="p-6 border-2 border-red-500/50">
-          <h2 className="text-2xl font-bold mb-4 text-red-400 uppercase">⚠️ Miniapp Errors</h2>
-          <p className="text-sm text-muted-foreground mb-4">
-            Recent errors from the miniapp. Check here if the app is having trouble with anything.
-          </p>
-
-          {isLoadingErrors ? (
-            <p className="text-center text-muted-foreground">Loading errors...</p>
-          ) : miniappErrors.length === 0 ? (
-            <div className="bg-green-500/10 border border-green-500/50 p-4 rounded text-center">
-              <p className="text-green-400 font-medium">✅ No errors detected!</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              <div className="flex justify-between items-center mb-2">
-                <p className="text-sm text-muted-foreground">
-                  Showing {miniappErrors.length} error{miniappErrors.length !== 1 ? 's' : ''}
+            <NominationQueue authFetch={authFetch} />
+          </>
+        )}
+
+        {/* Eligibility Cleanup Section */}
+        {can("indexer_operator") && (
+          <Card className="p-6">
+            <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Eligibility Cleanup</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Check all registered users' token balances and remove those who no longer hold the required amount.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={removeFromIndexing}
+                    onChange={(e) => setRemoveFromIndexing(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Remove ineligible users from indexing (opt_in_status = false)
+                </label>
+                <p className="text-xs text-muted-foreground mt-1 ml-6">
+                  If unchecked, only eligibility_status will be updated, but users will remain in indexing.
                 </p>
-                <Button
-                  onClick={() => setMiniappErrors([])}
-                  variant="outline"
-                  size="sm"
-                  className="text-xs"
+              </div>
+
+              <Button
+                onClick={handleRunCleanup}
+                disabled={isRunningCleanup}
+                className="w-full"
+                variant="destructive"
+              >
+                {isRunningCleanup ? "Queueing Cleanup..." : "Run Eligibility Cleanup"}
+              </Button>
+
+              {cleanupMessage && (
+                <div
+                  className={`p-4 rounded-md relative ${
+                    cleanupMessage.type === "success"
+                      ? "bg-green-500/20 text-green-400 border border-green-500/50"
+                      : "bg-red-500/20 text-red-400 border border-red-500/50"
+                  }`}
                 >
-                  Clear All
-                </Button>
+                  <button
+                    onClick={() => setCleanupMessage(null)}
+                    className="absolute top-2 right-2 text-muted-foreground hover:text-foreground"
+                    aria-label="Close"
+                  >
+                    ✕
+                  </button>
+                  <p className="text-sm font-medium mb-2 pr-6">
+                    {cleanupMessage.type === "success" ? "✓ " : "✗ "}
+                    {cleanupMessage.text}
+                  </p>
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {/* Job Queue Section */}
+        {can("indexer_operator") && <JobQueue authFetch={authFetch} />}
+
+        {/* Miniapp Errors Section */}
+        {can("admin") && (
+          <Card className="p-6 border-2 border-red-500/50">
+            <h2 className="text-2xl font-bold mb-4 text-red-400 uppercase">⚠️ Miniapp Errors</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Recent errors from the miniapp. Check here if the app is having trouble with anything.
+            </p>
+
+            {isLoadingErrors ? (
+              <p className="text-center text-muted-foreground">Loading errors...</p>
+            ) : miniappErrors.length === 0 ? (
+              <div className="bg-green-500/10 border border-green-500/50 p-4 rounded text-center">
+                <p className="text-green-400 font-medium">✅ No errors detected!</p>
               </div>
-              <div className="max-h-96 overflow-y-auto space-y-2">
-                {miniappErrors.slice().reverse().map((error, index) => (
-                  <div
-                    key={index}
-                    className="bg-red-500/10 border border-red-500/30 p-3 rounded text-sm"
+            ) : (
+              <div className="space-y-3">
+                <div className="flex justify-between items-center mb-2">
+                  <p className="text-sm text-muted-foreground">
+                    Showing {miniappErrors.length} error{miniappErrors.length !== 1 ? 's' : ''}
+                  </p>
+                  <Button
+                    onClick={() => setMiniappErrors([])}
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
                   >
-                    <div className="flex justify-between items-start mb-2">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="font-bold text-red-400 uppercase text-xs">
-                            {error.type}
-                          </span>
-                          <span className="text-xs text-muted-foreground">
-                            {new Date(error.timestamp).toLocaleString()}
-                          </span>
-                        </div>
-                        <p className="text-red-300 font-mono text-xs break-all">
-                          {error.message}
-                        </p>
-                        {error.source && (
-                          <p className="text-xs text-muted-foreground mt-1">
-                            Source: {error.source}
+                    Clear All
+                  </Button>
+                </div>
+                <div className="max-h-96 overflow-y-auto space-y-2">
+                  {miniappErrors.slice().reverse().map((error, index) => (
+                    <div
+                      key={index}
+                      className="bg-red-500/10 border border-red-500/30 p-3 rounded text-sm"
+                    >
+                      <div className="flex justify-between items-start mb-2">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="font-bold text-red-400 uppercase text-xs">
+                              {error.type}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(error.timestamp).toLocaleString()}
+                            </span>
+                          </div>
+                          <p className="text-red-300 font-mono text-xs break-all">
+                            {error.message}
                           </p>
-                        )}
-                        {error.stack && (
-                          <details className="mt-2">
-                            <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
-                              Show stack trace
-                            </summary>
-                            <pre className="mt-2 text-xs text-muted-foreground font-mono bg-black/20 p-2 rounded overflow-x-auto">
-                              {error.stack}
-                            </pre>
-                          </details>
-                        )}
+                          {error.source && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Source: {error.source}
+                            </p>
+                          )}
+                          {error.stack && (
+                            <details className="mt-2">
+                              <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
+                                Show stack trace
+                              </summary>
+                              <pre className="mt-2 text-xs text-muted-foreground font-mono bg-black/20 p-2 rounded overflow-x-auto">
+                                {error.stack}
+                              </pre>
+                            </details>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
-        </Card>
+            )}
+          </Card>
+        )}
 
         {/* Current Loserboard Entries */}
-        <Card className="p-6">
-          <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Current Loserboard Entries</h2>
+        {can("loserboard_curator") && (
+          <Card className="p-6">
+            <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Current Loserboard Entries</h2>
 
-          {isLoadingEntries ? (
-            <p className="text-center">Loading...</p>
-          ) : loserboardEntries.length === 0 ? (
-            <p className="text-center text-muted-foreground">No entries yet. Add your first loser above!</p>
-          ) : (
-            <div className="space-y-2">
-              {loserboardEntries.map((entry, index) => (
-                <div
-                  key={entry.fid || index}
-                  className="flex items-center justify-between p-3 border rounded-md"
-                >
-                  <div className="flex items-center gap-3">
-                    {entry.pfp_url && (
-                      <img
-                        src={entry.pfp_url}
-                        alt={entry.username}
-                        className="w-10 h-10 rounded-full"
-                      />
-                    )}
-                    <div>
-                      <p className="font-medium">@{entry.username}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {entry.display_name} (FID: {entry.fid})
-                      </p>
+            {isLoadingEntries ? (
+              <p className="text-center">Loading...</p>
+            ) : loserboardEntries.length === 0 ? (
+              <p className="text-center text-muted-foreground">No entries yet. Add your first loser above!</p>
+            ) : (
+              <div className="space-y-2">
+                {loserboardEntries.map((entry, index) => (
+                  <div
+                    key={entry.fid || index}
+                    className="flex items-center justify-between p-3 border rounded-md"
+                  >
+                    <div className="flex items-center gap-3">
+                      {entry.pfp_url && (
+                        <img
+                          src={entry.pfp_url}
+                          alt={entry.username}
+                          className="w-10 h-10 rounded-full"
+                        />
+                      )}
+                      <div>
+                        <p className="font-medium">@{entry.username}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {entry.display_name} (FID: {entry.fid})
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      Rank #{index + 1}
                     </div>
                   </div>
-                  <div className="text-sm text-muted-foreground">
-                    Rank #{index + 1}
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </Card>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Audit Log */}
+        {can("admin") && <AuditLog authFetch={authFetch} />}
       </div>
     </div>
   )
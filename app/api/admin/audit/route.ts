@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { getAuditLog } from '@/lib/services/adminAuditService';
+
+/**
+ * GET /api/admin/audit
+ *
+ * List admin actions, newest first
+ * Requires the admin role
+ *
+ * Query params (all optional):
+ *   actorFid  - only actions by this FID
+ *   action    - exact action ('contest.create') or a prefix ending in '.' ('contest.')
+ *   targetType
+ *   since, until - ISO dates
+ *   limit (default 50, max 500), offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const actorFidParam = searchParams.get('actorFid');
+    const sinceParam = searchParams.get('since');
+    const untilParam = searchParams.get('until');
+
+    const actorFid = actorFidParam ? parseInt(actorFidParam, 10) : undefined;
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+    const until = untilParam ? new Date(untilParam) : undefined;
+
+    if ((actorFid !== undefined && isNaN(actorFid)) ||
+        (since && isNaN(since.getTime())) ||
+        (until && isNaN(until.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid filter', message: 'actorFid must be a number and since/until valid dates' },
+        { status: 400 }
+      );
+    }
+
+    const { entries, total } = await getAuditLog({
+      actorFid,
+      action: searchParams.get('action') || undefined,
+      targetType: searchParams.get('targetType') || undefined,
+      since,
+      until,
+      limit: parseInt(searchParams.get('limit') || '50', 10),
+      offset: parseInt(searchParams.get('offset') || '0', 10)
+    });
+
+    return NextResponse.json({ success: true, entries, total });
+  } catch (error: any) {
+    console.error('[Admin Audit] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load audit log', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
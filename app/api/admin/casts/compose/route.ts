@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
 import { Configuration, NeynarAPIClient } from '@neynar/nodejs-sdk';
 
-// Hardcoded admin FIDs
-const ADMIN_FIDS = [474867, 7212];
-
 /**
  * POST /api/admin/casts/compose
  *
  * Compose and publish a cast via Neynar API
- * Requires admin access (FID check) and NEYNAR_SIGNER_UUID
+ * Requires the notifier role and NEYNAR_SIGNER_UUID
  *
  * Request body:
  * {
@@ -22,30 +21,8 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { text, embeds, mentions } = body;
 
-    // Get FID from query param (passed from client)
-    const fidParam = request.nextUrl.searchParams.get('fid');
-    if (!fidParam) {
-      return NextResponse.json(
-        { error: 'FID is required. Pass ?fid=123 in the query string.' },
-        { status: 400 }
-      );
-    }
-
-    const fid = parseInt(fidParam, 10);
-    if (isNaN(fid)) {
-      return NextResponse.json(
-        { error: 'Invalid FID' },
-        { status: 400 }
-      );
-    }
-
-    // Check admin access
-    if (!ADMIN_FIDS.includes(fid)) {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
 
     // Validate required fields
     if (!text || typeof text !== 'string') {
@@ -110,6 +87,12 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Cast published successfully:', response);
 
+    await recordAdminAction(auth, 'cast.compose', {
+      targetType: 'cast',
+      targetId: response.cast?.hash,
+      payload: { text, embeds, mentions }
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Cast published successfully',
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { getLatestFinalizedContestId } from '@/lib/services/contestResultsService';
+import { RecapError, previewRecap, publishRecap } from '@/lib/services/recapService';
+
+/**
+ * GET /api/admin/casts/recap?contestId=1
+ *
+ * Generated recap thread for a finalized contest (latest finalized contest when contestId is
+ * omitted), what it was built from, and the casts already published for it
+ * Requires the notifier role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const contestIdParam = request.nextUrl.searchParams.get('contestId');
+    if (contestIdParam && isNaN(parseInt(contestIdParam, 10))) {
+      return NextResponse.json({ error: 'Invalid contestId' }, { status: 400 });
+    }
+
+    const contestId = contestIdParam ? parseInt(contestIdParam, 10) : await getLatestFinalizedContestId();
+    if (contestId === null) {
+      return NextResponse.json({ error: 'No finalized contest yet' }, { status: 404 });
+    }
+
+    const recap = await previewRecap(contestId);
+    return NextResponse.json({ success: true, contestId, ...recap });
+  } catch (error: any) {
+    if (error instanceof RecapError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error generating recap cast:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate recap cast', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/casts/recap
+ *
+ * Publish the (edited) recap as a thread and store the cast hashes against the contest
+ * Body: { contestId, thread: [{ text, embeds? }] }
+ * Requires the notifier role and NEYNAR_SIGNER_UUID
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const contestId = parseInt(body.contestId, 10);
+    if (isNaN(contestId)) {
+      return NextResponse.json({ error: 'contestId is required' }, { status: 400 });
+    }
+
+    const casts = await publishRecap(contestId, body.thread, auth.fid);
+
+    await recordAdminAction(auth, 'cast.recap', {
+      targetType: 'contest',
+      targetId: contestId,
+      payload: { hashes: casts.map(cast => cast.hash) }
+    });
+
+    return NextResponse.json({ success: true, casts });
+  } catch (error: any) {
+    if (error instanceof RecapError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error publishing recap cast:', error);
+    return NextResponse.json(
+      { error: 'Failed to publish recap cast', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,40 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Hardcoded admin FIDs
-const ADMIN_FIDS = [474867, 7212];
+import { authenticateRequest, getAdminRoles } from '@/lib/services/authService';
 
 /**
  * GET /api/admin/check
  *
- * Checks if the provided FID is an admin
- * Query param: ?fid=123
+ * Checks if the signed-in user has any admin role, and which ones
+ * Auth: `Authorization: Bearer <Quick Auth JWT>` or the SIWE session cookie
  */
 export async function GET(request: NextRequest) {
   try {
-    const fidParam = request.nextUrl.searchParams.get('fid');
-
-    if (!fidParam) {
-      return NextResponse.json(
-        { error: 'FID is required. Pass ?fid=123 in the query string.' },
-        { status: 400 }
-      );
-    }
-
-    const fid = parseInt(fidParam, 10);
-
-    if (isNaN(fid)) {
-      return NextResponse.json(
-        { error: 'Invalid FID' },
-        { status: 400 }
-      );
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      return NextResponse.json({
+        authenticated: false,
+        isAdmin: false,
+        fid: null,
+        roles: []
+      });
     }
 
-    const isAdmin = ADMIN_FIDS.includes(fid);
+    const roles = await getAdminRoles(auth.fid);
 
     return NextResponse.json({
-      isAdmin,
-      fid,
-      adminFids: ADMIN_FIDS
+      authenticated: true,
+      isAdmin: roles.length > 0, // Any role opens the admin panel; each section checks its own role
+      fid: auth.fid,
+      method: auth.method,
+      roles
     });
   } catch (error: any) {
     console.error('[Admin Check] Error:', error);
@@ -44,4 +37,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
@@ -1,45 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cleanupIneligibleUsers } from '@/lib/services/eligibilityCleanupService';
-
-// Hardcoded admin FIDs (matches other admin routes)
-const ADMIN_FIDS = [474867, 7212];
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { enqueueJob } from '@/lib/services/jobQueueService';
 
 export async function POST(request: NextRequest) {
   try {
-    // Get FID from query param or header
-    const searchParams = request.nextUrl.searchParams;
-    const fidParam = searchParams.get('fid');
-    const fid = fidParam ? parseInt(fidParam, 10) : null;
-
-    if (!fid || !ADMIN_FIDS.includes(fid)) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Admin access required.' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'indexer_operator');
+    if (auth instanceof NextResponse) return auth;
+    const fid = auth.fid;
 
     // Get optional parameter for whether to remove from indexing
     const body = await request.json().catch(() => ({}));
     const removeFromIndexing = body.removeFromIndexing !== false; // Default to true
 
-    console.log(`[Admin] Starting eligibility cleanup (FID: ${fid}, removeFromIndexing: ${removeFromIndexing})...`);
+    console.log(`[Admin] Queueing eligibility cleanup (FID: ${fid}, removeFromIndexing: ${removeFromIndexing})...`);
 
-    // Run cleanup
-    const result = await cleanupIneligibleUsers(removeFromIndexing);
+    // Checking every registered balance outlives a request - run it on the job queue
+    const job = await enqueueJob(
+      'eligibility.cleanup',
+      { removeFromIndexing, requestedByFid: fid },
+      { dedupeKey: 'eligibility.cleanup', maxAttempts: 2 }
+    );
+
+    await recordAdminAction(auth, 'eligibility.cleanup', {
+      targetType: 'job',
+      targetId: job.id,
+      payload: { removeFromIndexing }
+    });
 
     return NextResponse.json({
       success: true,
-      result: {
-        totalChecked: result.totalChecked,
-        stillEligible: result.stillEligible,
-        noLongerEligible: result.noLongerEligible,
-        removedFromIndexing: result.removedFromIndexing,
-        errors: result.errors,
-        // Only return first 50 details to avoid huge response
-        details: result.details.slice(0, 50)
-      },
-      message: `Checked ${result.totalChecked} users. ${result.noLongerEligible} no longer eligible. ${result.removedFromIndexing} removed from indexing.`
-    });
+      job: { id: job.id, status: job.status },
+      message: `Eligibility cleanup queued as job #${job.id}. Results appear in the job queue when it finishes.`
+    }, { status: 202 });
 
   } catch (error: any) {
     console.error('Error in eligibility cleanup:', error);
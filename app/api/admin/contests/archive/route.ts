@@ -1,27 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
 import { query } from '@/lib/db/connection';
-
-// Hardcoded admin FIDs (matches other admin routes)
-const ADMIN_FIDS = [474867, 7212];
+import { enqueueJob } from '@/lib/services/jobQueueService';
 
 /**
  * POST /api/admin/contests/archive
  *
  * Archive a contest by updating its status to 'completed'
- * Admin only
+ * A contest past its end date (replays: past registration close) is finalized instead (queued), so it gets a ranked result
+ * Requires the contest_manager role
  */
 export async function POST(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const fidParam = searchParams.get('fid');
-    const fid = fidParam ? parseInt(fidParam, 10) : null;
-
-    if (!fid || !ADMIN_FIDS.includes(fid)) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Admin access required.' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
 
     const body = await request.json();
     const { contestId } = body;
@@ -48,6 +41,34 @@ export async function POST(request: NextRequest) {
 
     const contest = contestResult.rows[0];
 
+    const closesAt = new Date(contest.registration_ends_at ?? contest.end_date).getTime();
+    if (!contest.finalized_at && contest.status === 'active'
+        && new Date(contest.end_date).getTime() <= Date.now() && closesAt <= Date.now()) {
+      const job = await enqueueJob(
+        'contest.finalize',
+        { contestId: contest.id, finalizedByFid: auth.fid },
+        { dedupeKey: `contest.finalize:${contest.id}`, maxAttempts: 10 }
+      );
+
+      await recordAdminAction(auth, 'contest.finalize', {
+        targetType: 'contest',
+        targetId: contest.id,
+        payload: { contestId, jobId: job.id, via: 'archive' }
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: 'Contest has ended - finalization queued',
+        job: { id: job.id, status: job.status },
+        contest: {
+          id: contest.id,
+          tokenAddress: contest.token_address,
+          tokenSymbol: contest.token_symbol,
+          status: contest.status
+        }
+      }, { status: 202 });
+    }
+
     // Update contest status to 'completed'
     await query(
       `UPDATE weekly_contests
@@ -56,6 +77,14 @@ export async function POST(request: NextRequest) {
       [contestId]
     );
 
+    await recordAdminAction(auth, 'contest.archive', {
+      targetType: 'contest',
+      targetId: contest.id,
+      payload: { contestId },
+      before: { status: contest.status },
+      after: { status: 'completed' }
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Contest archived successfully',
@@ -1,30 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
 import { query } from '@/lib/db/connection';
-
-// Hardcoded admin FIDs (matches other admin routes)
-const ADMIN_FIDS = [474867, 7212];
+import { blockAt } from '@/lib/services/blockTimeService';
 
 /**
  * POST /api/admin/contests/create
  *
  * Create a new weekly contest
- * Admin only
+ * Optional settlement rules: minVolumeUsd (minimum trade volume to be ranked) and winnerCount
+ * mode 'replay' creates a historical contest over a past window: wallets are scored on their trades in
+ * that window and registrationEndsAt (required) closes entries before it is finalized
+ * Requires the contest_manager role
  */
 export async function POST(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const fidParam = searchParams.get('fid');
-    const fid = fidParam ? parseInt(fidParam, 10) : null;
-
-    if (!fid || !ADMIN_FIDS.includes(fid)) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Admin access required.' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
 
     const body = await request.json();
     const { tokenAddress, tokenSymbol, startDate, endDate } = body;
+    const minVolumeUsd = body.minVolumeUsd !== undefined && body.minVolumeUsd !== '' ? Number(body.minVolumeUsd) : 0;
+    const winnerCount = body.winnerCount !== undefined && body.winnerCount !== '' ? Number(body.winnerCount) : 1;
+    const mode = body.mode || 'live';
 
     if (!tokenAddress || !startDate || !endDate) {
       return NextResponse.json(
@@ -33,23 +31,94 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!Number.isFinite(minVolumeUsd) || minVolumeUsd < 0) {
+      return NextResponse.json(
+        { error: 'minVolumeUsd must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(winnerCount) || winnerCount < 1) {
+      return NextResponse.json(
+        { error: 'winnerCount must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== 'live' && mode !== 'replay') {
+      return NextResponse.json(
+        { error: "mode must be 'live' or 'replay'" },
+        { status: 400 }
+      );
+    }
+
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must be valid dates with startDate before endDate' },
+        { status: 400 }
+      );
+    }
+
+    let registrationEndsAt: Date | null = null;
+    let startBlock: number | null = null;
+    let endBlock: number | null = null;
+
+    if (mode === 'replay') {
+      registrationEndsAt = body.registrationEndsAt ? new Date(body.registrationEndsAt) : null;
+
+      if (end.getTime() > Date.now()) {
+        return NextResponse.json(
+          { error: 'A replay must cover a window that has already ended' },
+          { status: 400 }
+        );
+      }
+
+      if (!registrationEndsAt || isNaN(registrationEndsAt.getTime()) || registrationEndsAt.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'registrationEndsAt must be a future date for a replay' },
+          { status: 400 }
+        );
+      }
+
+      // The window is in the past, so its blocks never change
+      startBlock = await blockAt(start);
+      endBlock = await blockAt(end);
+    }
+
     // Create contest
-    // Note: start_block and end_block columns don't exist in the table schema
     const result = await query(
       `INSERT INTO weekly_contests
-       (token_address, token_symbol, start_date, end_date, status, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, 'active', NOW(), NOW())
-       RETURNING id, token_address, token_symbol, start_date, end_date, status`,
+       (token_address, token_symbol, start_date, end_date, min_volume_usd, winner_count, mode,
+        start_block, end_block, registration_ends_at, status, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'active', NOW(), NOW())
+       RETURNING id, token_address, token_symbol, start_date, end_date, min_volume_usd, winner_count, mode,
+                 start_block, end_block, registration_ends_at, status`,
       [
         tokenAddress,
         tokenSymbol || null,
-        new Date(startDate),
-        new Date(endDate)
+        start,
+        end,
+        minVolumeUsd,
+        winnerCount,
+        mode,
+        startBlock,
+        endBlock,
+        registrationEndsAt
       ]
     );
 
     const contest = result.rows[0];
 
+    await recordAdminAction(auth, 'contest.create', {
+      targetType: 'contest',
+      targetId: contest.id,
+      payload: { tokenAddress, tokenSymbol, startDate, endDate, minVolumeUsd, winnerCount, mode, registrationEndsAt },
+      before: null,
+      after: contest
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Contest created successfully',
@@ -59,6 +128,12 @@ export async function POST(request: NextRequest) {
         tokenSymbol: contest.token_symbol,
         startDate: contest.start_date,
         endDate: contest.end_date,
+        minVolumeUsd: parseFloat(contest.min_volume_usd),
+        winnerCount: contest.winner_count,
+        mode: contest.mode,
+        startBlock: contest.start_block !== null ? Number(contest.start_block) : null,
+        endBlock: contest.end_block !== null ? Number(contest.end_block) : null,
+        registrationEndsAt: contest.registration_ends_at,
         status: contest.status
       }
     });
@@ -0,0 +1,100 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { query } from '@/lib/db/connection';
+import { runJobWorker } from '@/lib/services/jobHandlers';
+import { enqueueJob } from '@/lib/services/jobQueueService';
+
+/**
+ * POST /api/admin/contests/finalize
+ *
+ * Queue finalization of an ended contest: freeze PnL at the end-of-contest price, rank
+ * participants and record winners (see contestResultsService). Contests are also finalized
+ * automatically by /api/cron/contest-pnl; this is for running it now, or again after a reopen.
+ * Requires the contest_manager role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const { contestId } = body;
+
+    if (!contestId) {
+      return NextResponse.json(
+        { error: 'contestId is required' },
+        { status: 400 }
+      );
+    }
+
+    const contestResult = await query(
+      'SELECT id, end_date, registration_ends_at, finalized_at FROM weekly_contests WHERE id = $1',
+      [contestId]
+    );
+
+    if (contestResult.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Contest not found' },
+        { status: 404 }
+      );
+    }
+
+    const contest = contestResult.rows[0];
+
+    if (contest.finalized_at) {
+      return NextResponse.json(
+        { error: 'Contest is already finalized', message: 'Reopen it with a reason to finalize again' },
+        { status: 409 }
+      );
+    }
+
+    if (new Date(contest.end_date).getTime() > Date.now()) {
+      return NextResponse.json(
+        { error: 'Contest has not ended yet' },
+        { status: 400 }
+      );
+    }
+
+    if (contest.registration_ends_at && new Date(contest.registration_ends_at).getTime() > Date.now()) {
+      return NextResponse.json(
+        { error: 'Replay is still taking entries' },
+        { status: 400 }
+      );
+    }
+
+    const job = await enqueueJob(
+      'contest.finalize',
+      { contestId: contest.id, finalizedByFid: auth.fid },
+      { dedupeKey: `contest.finalize:${contest.id}`, maxAttempts: 10 }
+    );
+
+    await recordAdminAction(auth, 'contest.finalize', {
+      targetType: 'contest',
+      targetId: contest.id,
+      payload: { contestId, jobId: job.id }
+    });
+
+    // Start right after responding; the cron drain picks it up if this function dies
+    after(async () => {
+      try {
+        await runJobWorker({ types: ['contest.finalize'], maxJobs: 1 });
+      } catch (error) {
+        console.error('[Contest Finalize] Error draining finalization queue:', error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Finalization queued',
+      job: { id: job.id, status: job.status }
+    }, { status: 202 });
+
+  } catch (error: any) {
+    console.error('Error finalizing contest:', error);
+    return NextResponse.json(
+      { error: 'Failed to finalize contest', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,29 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
 import { query } from '@/lib/db/connection';
-import { calculateUserPnL } from '@/lib/services/userIndexerService';
-
-// Hardcoded admin FIDs (matches other admin routes)
-const ADMIN_FIDS = [474867, 7212];
+import { enqueuePnLRecalculation } from '@/lib/services/jobHandlers';
+import { assertContestNotFinalized, ContestFinalizedError } from '@/lib/services/contestResultsService';
 
 /**
  * POST /api/admin/contests/recalculate-pnl
  *
- * Manually recalculate PnL for contest registrations
+ * Queue a PnL recalculation for contest registrations (one job each, drained by /api/cron/jobs)
  * Can recalculate all registrations for a contest, or a specific registration
- * Admin only
+ * Finalized contests are rejected with 409 until an admin reopens them
+ * Requires the contest_manager role
  */
 export async function POST(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const fidParam = searchParams.get('fid');
-    const fid = fidParam ? parseInt(fidParam, 10) : null;
-
-    if (!fid || !ADMIN_FIDS.includes(fid)) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Admin access required.' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
 
     const body = await request.json();
     const { contestId, registrationId } = body;
@@ -40,9 +33,8 @@ export async function POST(request: NextRequest) {
     if (registrationId) {
       // Recalculate specific registration
       const regResult = await query(
-        `SELECT cr.*, wc.token_address
+        `SELECT cr.id, cr.contest_id
          FROM contest_registrations cr
-         JOIN weekly_contests wc ON cr.contest_id = wc.id
          WHERE cr.id = $1`,
         [registrationId]
       );
@@ -54,13 +46,14 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      await assertContestNotFinalized(regResult.rows[0].contest_id);
       registrationsToProcess = regResult.rows;
     } else {
       // Recalculate all registrations for a contest
+      await assertContestNotFinalized(contestId);
       const regResult = await query(
-        `SELECT cr.*, wc.token_address
+        `SELECT cr.id
          FROM contest_registrations cr
-         JOIN weekly_contests wc ON cr.contest_id = wc.id
          WHERE cr.contest_id = $1`,
         [contestId]
       );
@@ -68,56 +61,32 @@ export async function POST(request: NextRequest) {
       registrationsToProcess = regResult.rows;
     }
 
-    const results = {
-      total: registrationsToProcess.length,
-      successful: 0,
-      failed: 0,
-      updated: [] as any[],
-      errors: [] as any[]
-    };
-
-    // Recalculate PnL for each registration
-    for (const reg of registrationsToProcess) {
-      try {
-        // Get token address from registration
-        const tokenAddress = reg.token_address;
-
-        // Recalculate PnL
-        const pnl = await calculateUserPnL(reg.id, tokenAddress);
-
-        // Update registration with new PnL
-        await query(
-          `UPDATE contest_registrations
-           SET pnl_calculated_at = NOW(), current_pnl = $1, updated_at = NOW()
-           WHERE id = $2`,
-          [pnl, reg.id]
-        );
+    const jobs = await enqueuePnLRecalculation(registrationsToProcess.map(reg => reg.id));
 
-        results.successful++;
-        results.updated.push({
-          registrationId: reg.id,
-          walletAddress: reg.wallet_address,
-          previousPnL: reg.current_pnl ? parseFloat(reg.current_pnl.toString()) : null,
-          newPnL: pnl
-        });
-      } catch (error: any) {
-        results.failed++;
-        results.errors.push({
-          registrationId: reg.id,
-          walletAddress: reg.wallet_address,
-          error: error.message
-        });
-        console.error(`Error recalculating PnL for registration ${reg.id}:`, error);
-      }
-    }
+    await recordAdminAction(auth, 'contest.recalculate_pnl', {
+      targetType: registrationId ? 'contest_registration' : 'contest',
+      targetId: registrationId || contestId,
+      payload: { contestId, registrationId, jobIds: jobs.map(job => job.id) }
+    });
 
     return NextResponse.json({
       success: true,
-      message: `Recalculated PnL for ${results.successful} registration(s)`,
-      results
-    });
+      message: `Queued PnL recalculation for ${jobs.length} registration(s)`,
+      jobs: jobs.map(job => ({
+        id: job.id,
+        registrationId: job.payload.registrationId,
+        status: job.status
+      }))
+    }, { status: 202 });
 
   } catch (error: any) {
+    if (error instanceof ContestFinalizedError) {
+      return NextResponse.json(
+        { error: 'Contest is finalized', message: error.message },
+        { status: 409 }
+      );
+    }
+
     console.error('Error recalculating PnL:', error);
     return NextResponse.json(
       { error: 'Failed to recalculate PnL', message: error.message },
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { getContestResult, reopenContest } from '@/lib/services/contestResultsService';
+
+/**
+ * POST /api/admin/contests/reopen
+ *
+ * Reopen a finalized contest so its PnL can be recalculated. The current result stays on
+ * record, marked as reopened with the reason; finalizing again writes a new result version.
+ * Requires the contest_manager role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const { contestId } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!contestId || !reason) {
+      return NextResponse.json(
+        { error: 'contestId and reason are required' },
+        { status: 400 }
+      );
+    }
+
+    const current = await getContestResult(contestId);
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Contest is not finalized' },
+        { status: 409 }
+      );
+    }
+
+    const { resultId } = await reopenContest(contestId, reason, auth.fid);
+
+    await recordAdminAction(auth, 'contest.reopen', {
+      targetType: 'contest',
+      targetId: contestId,
+      payload: { contestId, reason, resultId },
+      before: { finalizedAt: current.finalizedAt, version: current.version },
+      after: { finalizedAt: null }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Contest reopened (result v${current.version} kept on record)`
+    });
+
+  } catch (error: any) {
+    console.error('Error reopening contest:', error);
+    return NextResponse.json(
+      { error: 'Failed to reopen contest', message: error.message },
+      { status: 500 }
+    );
+  }
+}
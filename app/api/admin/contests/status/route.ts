@@ -1,27 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
 import { query } from '@/lib/db/connection';
 
-// Hardcoded admin FIDs (matches other admin routes)
-const ADMIN_FIDS = [474867, 7212];
-
 /**
- * GET /api/admin/contests/status?fid=...
+ * GET /api/admin/contests/status
  *
  * Get status of contest registrations and PnL calculations
- * Admin only - used for investigation
+ * Requires the contest_manager role - used for investigation
  */
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const fidParam = searchParams.get('fid');
-    const fid = fidParam ? parseInt(fidParam, 10) : null;
-
-    if (!fid || !ADMIN_FIDS.includes(fid)) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Admin access required.' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
 
     // Get overall statistics
     const statsResult = await query(`
@@ -31,7 +21,8 @@ export async function GET(request: NextRequest) {
         COUNT(pnl_calculated_at) as pnl_calculated_count,
         COUNT(CASE WHEN indexed_at IS NULL THEN 1 END) as pending_indexing,
         COUNT(CASE WHEN indexed_at IS NOT NULL AND pnl_calculated_at IS NULL THEN 1 END) as indexed_but_no_pnl,
-        COUNT(CASE WHEN current_pnl IS NOT NULL THEN 1 END) as has_pnl_value
+        COUNT(CASE WHEN current_pnl IS NOT NULL THEN 1 END) as has_pnl_value,
+        COUNT(CASE WHEN index_status = 'failed' THEN 1 END) as failed_indexing
       FROM contest_registrations
     `);
 
@@ -53,7 +44,7 @@ export async function GET(request: NextRequest) {
       ORDER BY wc.created_at DESC
     `);
 
-    // Get stuck registrations (created more than 10 minutes ago but not indexed)
+    // Get stuck registrations (failed, or created more than 10 minutes ago but not indexed) with their indexing job
     const stuckResult = await query(`
       SELECT
         cr.id,
@@ -63,12 +54,19 @@ export async function GET(request: NextRequest) {
         cr.indexed_at,
         cr.pnl_calculated_at,
         cr.current_pnl,
+        cr.index_status,
+        cr.index_error,
+        j.id as job_id,
+        j.status as job_status,
+        j.attempts as job_attempts,
+        j.run_at as job_run_at,
         wc.token_address,
         wc.token_symbol
       FROM contest_registrations cr
       JOIN weekly_contests wc ON cr.contest_id = wc.id
+      LEFT JOIN jobs j ON cr.index_job_id = j.id
       WHERE cr.indexed_at IS NULL
-        AND cr.created_at < NOW() - INTERVAL '10 minutes'
+        AND (cr.index_status = 'failed' OR cr.created_at < NOW() - INTERVAL '10 minutes')
       ORDER BY cr.created_at ASC
       LIMIT 20
     `);
@@ -107,7 +105,8 @@ export async function GET(request: NextRequest) {
         pnlCalculatedCount: parseInt(stats.pnl_calculated_count, 10),
         pendingIndexing: parseInt(stats.pending_indexing, 10),
         indexedButNoPnL: parseInt(stats.indexed_but_no_pnl, 10),
-        hasPnLValue: parseInt(stats.has_pnl_value, 10)
+        hasPnLValue: parseInt(stats.has_pnl_value, 10),
+        failedIndexing: parseInt(stats.failed_indexing, 10)
       },
       contestBreakdown: contestBreakdown.map(row => ({
         contestId: row.contest_id,
@@ -128,6 +127,14 @@ export async function GET(request: NextRequest) {
         indexedAt: row.indexed_at,
         pnlCalculatedAt: row.pnl_calculated_at,
         currentPnL: row.current_pnl ? parseFloat(row.current_pnl) : null,
+        indexStatus: row.index_status,
+        indexError: row.index_error,
+        job: row.job_id ? {
+          id: Number(row.job_id),
+          status: row.job_status,
+          attempts: row.job_attempts,
+          runAt: row.job_run_at
+        } : null,
         tokenAddress: row.token_address,
         tokenSymbol: row.token_symbol
       })),
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
 
 /**
  * GET /api/admin/errors
@@ -16,6 +17,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const auth = await requireAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+
     // For now, return empty array - errors are tracked client-side
     // In the future, we could store errors in a database table
     return NextResponse.json({
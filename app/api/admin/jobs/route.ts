@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { retryDeadJob } from '@/lib/services/jobHandlers';
+import {
+  getQueueStats,
+  JOB_TYPES,
+  JobStatus,
+  JobType,
+  listJobs
+} from '@/lib/services/jobQueueService';
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'succeeded', 'dead'];
+
+/**
+ * GET /api/admin/jobs
+ *
+ * Job queue counts and the most recent jobs
+ * Requires the indexer_operator role
+ *
+ * Query params (all optional):
+ *   type   - job type ('contest.index_wallet', ...)
+ *   status - 'pending', 'running', 'succeeded' or 'dead'
+ *   limit  - default 50, max 200
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'indexer_operator');
+    if (auth instanceof NextResponse) return auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get('type') || undefined;
+    const status = searchParams.get('status') || undefined;
+    const limitParam = searchParams.get('limit');
+
+    if ((type && !JOB_TYPES.includes(type as JobType)) ||
+        (status && !JOB_STATUSES.includes(status as JobStatus))) {
+      return NextResponse.json(
+        { error: 'Invalid filter', message: `type must be one of ${JOB_TYPES.join(', ')}; status one of ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [stats, jobs] = await Promise.all([
+      getQueueStats(),
+      listJobs({
+        type: type as JobType | undefined,
+        status: status as JobStatus | undefined,
+        limit: limitParam ? parseInt(limitParam, 10) : undefined
+      })
+    ]);
+
+    return NextResponse.json({ success: true, stats, jobs });
+  } catch (error: any) {
+    console.error('Error fetching job queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch job queue', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/jobs
+ *
+ * Retry a dead job with a fresh set of attempts
+ * Body: { jobId }
+ * Requires the indexer_operator role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'indexer_operator');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const jobId = parseInt(body.jobId, 10);
+
+    if (isNaN(jobId)) {
+      return NextResponse.json(
+        { error: 'jobId is required' },
+        { status: 400 }
+      );
+    }
+
+    const job = await retryDeadJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found or not dead' },
+        { status: 404 }
+      );
+    }
+
+    await recordAdminAction(auth, 'job.retry', {
+      targetType: 'job',
+      targetId: job.id,
+      payload: { type: job.type, jobPayload: job.payload }
+    });
+
+    return NextResponse.json({ success: true, job });
+  } catch (error: any) {
+    console.error('Error retrying job:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry job', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,59 +1,78 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
 import { query } from '@/lib/db/connection';
-
-// Hardcoded admin FIDs
-const ADMIN_FIDS = [474867, 7212];
+import { getWeekStart } from '@/lib/services/leaderboardService';
+import { sendNotification } from '@/app/services/notifications';
 
 /**
  * POST /api/admin/loserboard/add
  *
  * Add a user to the manual loserboard
- * Requires admin access (FID check)
+ * Requires the loserboard_curator role
  *
  * Request body:
  * {
  *   usernameOrFid: string,      // Username or FID to add
  *   sendNotification: boolean,   // Whether to send notification
- *   composeCast: boolean        // Whether to compose and publish a cast
+ *   composeCast: boolean,       // Whether to compose and publish a cast
+ *   entryType?: 'pin' | 'override', // pin: always listed on top (default); override: replaces the computed loss
+ *   lossOverrideUsd?: number,   // Loss shown for an override entry
+ *   weekOf?: string             // Any date in the week the entry is for (default: this week)
  * }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { usernameOrFid, sendNotification, composeCast } = body;
+    const { usernameOrFid, sendNotification: shouldNotify, composeCast } = body;
+    const entryType = body.entryType || 'pin';
+    const lossOverrideUsd = body.lossOverrideUsd !== undefined && body.lossOverrideUsd !== null && body.lossOverrideUsd !== ''
+      ? Number(body.lossOverrideUsd)
+      : null;
+
+    const auth = await requireAdmin(request, 'loserboard_curator');
+    if (auth instanceof NextResponse) return auth;
+    const fid = auth.fid;
 
-    // Get FID from query param (passed from client)
-    const fidParam = request.nextUrl.searchParams.get('fid');
-    if (!fidParam) {
+    // Validate required fields
+    if (!usernameOrFid || typeof usernameOrFid !== 'string') {
       return NextResponse.json(
-        { error: 'FID is required. Pass ?fid=123 in the query string.' },
+        { error: 'usernameOrFid is required and must be a string' },
         { status: 400 }
       );
     }
 
-    const fid = parseInt(fidParam, 10);
-    if (isNaN(fid)) {
+    if (entryType !== 'pin' && entryType !== 'override') {
       return NextResponse.json(
-        { error: 'Invalid FID' },
+        { error: "entryType must be 'pin' or 'override'" },
         { status: 400 }
       );
     }
 
-    // Check admin access
-    if (!ADMIN_FIDS.includes(fid)) {
+    if (lossOverrideUsd !== null && (!isFinite(lossOverrideUsd) || lossOverrideUsd < 0)) {
       return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
+        { error: 'lossOverrideUsd must be a non-negative number' },
+        { status: 400 }
       );
     }
 
-    // Validate required fields
-    if (!usernameOrFid || typeof usernameOrFid !== 'string') {
+    const weekOf = body.weekOf ? new Date(body.weekOf) : new Date();
+    if (isNaN(weekOf.getTime())) {
       return NextResponse.json(
-        { error: 'usernameOrFid is required and must be a string' },
+        { error: 'weekOf must be a date' },
         { status: 400 }
       );
     }
+    const weekStart = getWeekStart(weekOf);
+
+    // Frozen weeks are immutable
+    const frozen = await query('SELECT id FROM loserboard_snapshots WHERE week_start = $1', [weekStart]);
+    if (frozen.rows.length > 0) {
+      return NextResponse.json(
+        { error: `The week of ${weekStart.toISOString().slice(0, 10)} is already frozen` },
+        { status: 409 }
+      );
+    }
 
     // Look up user via Neynar API
     // Prefer username lookup, fall back to FID if username fails or input is numeric
@@ -174,13 +193,13 @@ export async function POST(request: NextRequest) {
 
     // Check if user already exists in loserboard
     const existingCheck = await query(
-      'SELECT id FROM manual_loserboard_entries WHERE fid = $1',
-      [userFid]
+      'SELECT id FROM manual_loserboard_entries WHERE fid = $1 AND week_start = $2',
+      [userFid, weekStart]
     );
 
     if (existingCheck.rows.length > 0) {
       return NextResponse.json(
-        { error: 'User is already in the loserboard' },
+        { error: 'User is already in the loserboard this week' },
         { status: 400 }
       );
     }
@@ -188,14 +207,22 @@ export async function POST(request: NextRequest) {
     // Insert into database
     const insertResult = await query(
       `INSERT INTO manual_loserboard_entries
-       (fid, username, display_name, address, pfp_url, added_by_fid)
-       VALUES ($1, $2, $3, $4, $5, $6)
+       (fid, username, display_name, address, pfp_url, added_by_fid, entry_type, loss_override_usd, week_start)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
        RETURNING id, added_at`,
-      [userFid, userUsername, displayName, address, pfpUrl, fid]
+      [userFid, userUsername, displayName, address, pfpUrl, fid, entryType, lossOverrideUsd, weekStart]
     );
 
     const entry = insertResult.rows[0];
 
+    await recordAdminAction(auth, 'loserboard.add', {
+      targetType: 'loserboard_entry',
+      targetId: entry.id,
+      payload: { usernameOrFid, sendNotification: shouldNotify, composeCast, entryType, lossOverrideUsd, weekOf: body.weekOf },
+      before: null,
+      after: { fid: userFid, username: userUsername, displayName, address, entryType, lossOverrideUsd, weekStart }
+    });
+
     console.log('✅ Added user to loserboard:', {
       fid: userFid,
       username: userUsername,
@@ -204,28 +231,15 @@ export async function POST(request: NextRequest) {
 
     // Send notification if requested
     let notificationResult = null;
-    if (sendNotification) {
+    if (shouldNotify) {
       try {
-        const notificationResponse = await fetch(
-          `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/admin/notifications/send?fid=${fid}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              title: '🏆 New Loser Added!',
-              body: `@${userUsername} has been added to the loserboard!`,
-              targetFid: userFid,
-              url: `${process.env.NEXT_PUBLIC_APP_URL || 'https://badtraders.xyz'}/leaderboard`
-            })
-          }
+        await sendNotification(
+          [userFid],
+          '🏆 New Loser Added!',
+          `@${userUsername} has been added to the loserboard!`,
+          `${process.env.NEXT_PUBLIC_APP_URL || 'https://badtraders.xyz'}/leaderboard`
         );
-
-        if (notificationResponse.ok) {
-          notificationResult = { success: true };
-        } else {
-          const errorData = await notificationResponse.json();
-          notificationResult = { success: false, error: errorData.error };
-        }
+        notificationResult = { success: true };
       } catch (notifError: any) {
         console.error('❌ Error sending notification:', notifError);
         notificationResult = { success: false, error: notifError.message };
@@ -251,7 +265,9 @@ export async function POST(request: NextRequest) {
         address,
         pfpUrl,
         addedAt: entry.added_at,
-        addedBy: fid
+        addedBy: fid,
+        entryType,
+        lossOverrideUsd
       },
       notification: notificationResult,
       cast: castResult
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { CampaignError, cancelCampaign } from '@/lib/services/campaignService';
+
+/**
+ * POST /api/admin/notifications/campaigns/cancel
+ *
+ * Cancel a scheduled campaign, or stop one part-way through (sent batches stay sent)
+ * Body: { campaignId }
+ * Requires the notifier role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const campaignId = parseInt(body.campaignId, 10);
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: 'campaignId is required' }, { status: 400 });
+    }
+
+    const campaign = await cancelCampaign(campaignId);
+
+    await recordAdminAction(auth, 'notification.campaign_cancel', {
+      targetType: 'notification_campaign',
+      targetId: campaignId,
+      payload: { sentCount: campaign.stats.sentCount, audienceSize: campaign.stats.audienceSize }
+    });
+
+    return NextResponse.json({ success: true, campaign });
+  } catch (error: any) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error cancelling notification campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel notification campaign', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { CampaignError, parseSegment, previewAudience } from '@/lib/services/campaignService';
+
+/**
+ * POST /api/admin/notifications/campaigns/preview
+ *
+ * How many FIDs a segment reaches right now (the audience is fixed when the campaign starts sending)
+ * Balance and Bag segments return an upper bound (upperBound: true) - their balances are only read on send
+ * Body: { segment: { type, contestId? | votingPeriodId? | minBalance? } }
+ * Requires the notifier role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const segment = parseSegment(body.segment);
+    const audience = await previewAudience(segment);
+
+    return NextResponse.json({ success: true, segment, ...audience });
+  } catch (error: any) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error previewing campaign audience:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview campaign audience', message: error.message },
+      { status: 500 }
+    );
+  }
+}
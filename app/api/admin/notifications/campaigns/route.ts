@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { CampaignError, createCampaign, listCampaigns, parseSegment } from '@/lib/services/campaignService';
+
+/**
+ * GET /api/admin/notifications/campaigns
+ *
+ * Recent notification campaigns with their status and delivery stats
+ * Requires the notifier role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    return NextResponse.json({ success: true, campaigns: await listCampaigns() });
+  } catch (error: any) {
+    console.error('Error fetching notification campaigns:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification campaigns', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/notifications/campaigns
+ *
+ * Schedule a campaign for a segment; /api/cron/notifications sends it once scheduledFor has passed
+ * Body: { title, body, targetUrl?, segment: { type, contestId? | votingPeriodId? | minBalance? }, scheduledFor? }
+ * Requires the notifier role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const segment = parseSegment(body.segment);
+    const scheduledFor = body.scheduledFor ? new Date(body.scheduledFor) : null;
+
+    const campaign = await createCampaign(
+      {
+        title: body.title,
+        body: body.body,
+        targetUrl: body.targetUrl || process.env.NEXT_PUBLIC_APP_URL || 'https://badtraders.xyz'
+      },
+      segment,
+      scheduledFor,
+      auth.fid
+    );
+
+    await recordAdminAction(auth, 'notification.campaign_create', {
+      targetType: 'notification_campaign',
+      targetId: campaign.id,
+      payload: { title: campaign.title, body: campaign.body, segment, scheduledFor: campaign.scheduledFor }
+    });
+
+    return NextResponse.json({ success: true, campaign });
+  } catch (error: any) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating notification campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to create notification campaign', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import {
+  dispatchNotificationEvent,
+  getRecentNotificationSends,
+  NotificationRuleError,
+  parseNotificationEvent,
+  previewScheduledNotifications
+} from '@/lib/services/notificationRules';
+
+/**
+ * GET /api/admin/notifications/rules
+ *
+ * Dry run of the time-based rules due now (contest open/closing, top 10 worst PnL), and the
+ * latest notifications the rules sent
+ * Requires the notifier role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const [preview, recentSends] = await Promise.all([
+      previewScheduledNotifications(),
+      getRecentNotificationSends()
+    ]);
+
+    return NextResponse.json({ success: true, preview, recentSends });
+  } catch (error: any) {
+    console.error('Error previewing notification rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview notification rules', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/notifications/rules
+ *
+ * Run one event's rule - a dry run unless dryRun is false
+ * Body: { event: { type, contestId | registrationId | votingPeriodId | fid, ... }, dryRun?: boolean }
+ * Requires the notifier role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const event = parseNotificationEvent(body.event);
+    const dryRun = body.dryRun !== false;
+
+    const dispatches = await dispatchNotificationEvent(event, { dryRun });
+
+    if (!dryRun) {
+      await recordAdminAction(auth, 'notification.rule_run', {
+        targetType: 'notification_event',
+        targetId: event.type,
+        payload: {
+          event,
+          notifications: dispatches.map(dispatch => ({ dedupKey: dispatch.dedupKey, sent: dispatch.sent }))
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, dryRun, dispatches });
+  } catch (error: any) {
+    if (error instanceof NotificationRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error running notification rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to run notification rule', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sendNotification } from '@/app/services/notifications';
-
-// Hardcoded admin FIDs
-const ADMIN_FIDS = [474867, 7212];
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { getNotificationBackend, sendNotification } from '@/app/services/notifications';
 
 /**
  * POST /api/admin/notifications/send
  *
- * Send a notification to users via Neynar API
- * Requires admin access (FID check)
+ * Send a notification to users via the configured backend (NOTIFICATION_BACKEND: native or neynar)
+ * Requires the notifier role
  *
  * Request body:
  * {
@@ -35,33 +34,8 @@ export async function POST(request: NextRequest) {
       url
     });
 
-    // Get FID from query param (passed from client)
-    const fidParam = request.nextUrl.searchParams.get('fid');
-    if (!fidParam) {
-      console.error('❌ No FID in query params');
-      return NextResponse.json(
-        { error: 'FID is required. Pass ?fid=123 in the query string.' },
-        { status: 400 }
-      );
-    }
-
-    const fid = parseInt(fidParam, 10);
-    if (isNaN(fid)) {
-      console.error('❌ Invalid FID:', fidParam);
-      return NextResponse.json(
-        { error: 'Invalid FID' },
-        { status: 400 }
-      );
-    }
-
-    // Check admin access
-    if (!ADMIN_FIDS.includes(fid)) {
-      console.error('❌ Admin access denied for FID:', fid);
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
 
     // Validate required fields
     if (!title || !bodyText) {
@@ -72,11 +46,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if Neynar API key is configured
-    if (!process.env.NEYNAR_API_KEY) {
-      console.error('❌ NEYNAR_API_KEY environment variable is missing');
+    // Check the notification backend is configured
+    const backend = getNotificationBackend();
+    if (!backend.isConfigured()) {
+      const missing = backend.name === 'neynar' ? 'NEYNAR_API_KEY' : 'DATABASE_URL';
+      console.error(`❌ ${missing} environment variable is missing`);
       return NextResponse.json(
-        { error: 'NEYNAR_API_KEY not configured. Please set it in Vercel environment variables.' },
+        { error: `${missing} not configured. Please set it in Vercel environment variables.` },
         { status: 500 }
       );
     }
@@ -87,17 +63,24 @@ export async function POST(request: NextRequest) {
     // Determine target URL
     const targetUrl = url || process.env.NEXT_PUBLIC_APP_URL || 'https://badtraders.xyz';
 
-    console.log('🚀 Sending notification via Neynar:', {
+    console.log(`🚀 Sending notification via ${backend.name}:`, {
       targetFids: targetFids.length === 0 ? 'ALL_USERS' : targetFids,
       title,
       body: bodyText.substring(0, 50) + '...',
       targetUrl
     });
 
-    // Send notification using Neynar API
+    // Send notification through the backend
+    let delivery;
     try {
-      await sendNotification(targetFids, title, bodyText, targetUrl);
+      delivery = await sendNotification(targetFids, title, bodyText, targetUrl);
       console.log('✅ Notification sent successfully');
+
+      await recordAdminAction(auth, 'notification.send', {
+        targetType: targetFid ? 'user' : 'broadcast',
+        targetId: targetFid || null,
+        payload: { title, body: bodyText, targetFid, url: targetUrl }
+      });
     } catch (notificationError: any) {
       // Extract detailed error information
       const errorDetails = notificationError?.message || 'Unknown error';
@@ -121,7 +104,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'Notification sent successfully',
-      method: 'Neynar API',
+      method: backend.name,
+      delivery,
       targetFids: targetFids.length === 0 ? 'ALL_USERS' : targetFids
     });
   } catch (error: any) {
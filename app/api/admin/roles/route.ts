@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db/connection';
+import {
+  ADMIN_ROLES,
+  AdminRole,
+  grantAdminRole,
+  requireAdmin,
+  revokeAdminRole
+} from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+
+function parseRoleChange(body: any): { fid: number; role: AdminRole } | NextResponse {
+  const fid = parseInt(String(body?.fid), 10);
+  const role = body?.role;
+
+  if (isNaN(fid) || !ADMIN_ROLES.includes(role)) {
+    return NextResponse.json(
+      { error: 'Invalid role change', message: `fid must be a number and role one of: ${ADMIN_ROLES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  return { fid, role };
+}
+
+/**
+ * GET /api/admin/roles
+ *
+ * List every FID with an admin role
+ * Requires the admin role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+
+    const result = await query(
+      `SELECT fid, role, granted_by_fid, created_at
+       FROM admin_roles
+       ORDER BY fid, role`
+    );
+
+    return NextResponse.json({
+      success: true,
+      availableRoles: ADMIN_ROLES,
+      roles: result.rows.map(row => ({
+        fid: Number(row.fid),
+        role: row.role,
+        grantedByFid: row.granted_by_fid !== null ? Number(row.granted_by_fid) : null,
+        grantedAt: row.created_at
+      }))
+    });
+  } catch (error: any) {
+    console.error('[Admin Roles] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load roles', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/roles
+ *
+ * Grant a role. Body: { fid: number, role: string }
+ * Requires the admin role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+
+    const change = parseRoleChange(await request.json().catch(() => ({})));
+    if (change instanceof NextResponse) return change;
+
+    const granted = await grantAdminRole(change.fid, change.role, auth.fid);
+    if (granted) {
+      await recordAdminAction(auth, 'role.grant', {
+        targetType: 'admin_role',
+        targetId: change.fid,
+        payload: change,
+        before: { [change.role]: false },
+        after: { [change.role]: true }
+      });
+    }
+
+    return NextResponse.json({ success: true, changed: granted, ...change });
+  } catch (error: any) {
+    console.error('[Admin Roles] Grant error:', error);
+    return NextResponse.json(
+      { error: 'Failed to grant role', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/roles
+ *
+ * Revoke a role. Body: { fid: number, role: string }
+ * Requires the admin role; admins cannot revoke their own 'admin' role
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+
+    const change = parseRoleChange(await request.json().catch(() => ({})));
+    if (change instanceof NextResponse) return change;
+
+    if (change.fid === auth.fid && change.role === 'admin') {
+      return NextResponse.json(
+        { error: 'You cannot revoke your own admin role' },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokeAdminRole(change.fid, change.role);
+    if (revoked) {
+      await recordAdminAction(auth, 'role.revoke', {
+        targetType: 'admin_role',
+        targetId: change.fid,
+        payload: change,
+        before: { [change.role]: true },
+        after: { [change.role]: false }
+      });
+    }
+
+    return NextResponse.json({ success: true, changed: revoked, ...change });
+  } catch (error: any) {
+    console.error('[Admin Roles] Revoke error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke role', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,30 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
 import { query } from '@/lib/db/connection';
-
-// Hardcoded admin FIDs (matches other admin routes)
-const ADMIN_FIDS = [474867, 7212];
+import { getCurrentBlockNumber } from '@/lib/services/providers';
+import { scheduleVotingPeriodClose } from '@/lib/services/votingService';
+import { addApprovedNominationsToPeriod } from '@/lib/services/nominationService';
 
 /**
  * POST /api/admin/votes/create-period
  *
  * Create a new voting period with options
- * Admin only
+ * Approved community nominations are added as options too
+ * weighting: 'equal' (one wallet, one vote - default) or 'balance' (votes weighted by the voter's
+ * $BADTRADERS balance at the block the period starts)
+ * Rejected while another period is still open; ended periods are closed by the voting.close_period job
+ * Requires the contest_manager role
  */
 export async function POST(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const fidParam = searchParams.get('fid');
-    const fid = fidParam ? parseInt(fidParam, 10) : null;
-
-    if (!fid || !ADMIN_FIDS.includes(fid)) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Admin access required.' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
 
     const body = await request.json();
     const { endDate, options } = body;
+    const weighting = body.weighting || 'equal';
 
     if (!endDate || !options || !Array.isArray(options) || options.length === 0) {
       return NextResponse.json(
@@ -33,19 +32,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Close any existing active voting periods
-    await query(
-      `UPDATE voting_periods
-       SET status = 'completed', updated_at = NOW()
-       WHERE status = 'active'`
+    if (weighting !== 'equal' && weighting !== 'balance') {
+      return NextResponse.json(
+        { error: "weighting must be 'equal' or 'balance'" },
+        { status: 400 }
+      );
+    }
+
+    const openResult = await query(
+      `SELECT id, end_date FROM voting_periods
+       WHERE status = 'active' AND end_date > NOW()
+       ORDER BY end_date DESC
+       LIMIT 1`
     );
 
+    if (openResult.rows.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'A voting period is still open',
+          message: `Voting period #${openResult.rows[0].id} runs until ${new Date(openResult.rows[0].end_date).toISOString()}`
+        },
+        { status: 409 }
+      );
+    }
+
+    // Make sure ended periods get their winner and contest before a new period takes over
+    await scheduleVotingPeriodClose();
+
+    // Balances are read at this block for weighted periods
+    const snapshotBlock = await getCurrentBlockNumber();
+
     // Create new voting period
     const periodResult = await query(
-      `INSERT INTO voting_periods (end_date, status, created_at, updated_at)
-       VALUES ($1, 'active', NOW(), NOW())
+      `INSERT INTO voting_periods (end_date, weighting, snapshot_block, status, created_at, updated_at)
+       VALUES ($1, $2, $3, 'active', NOW(), NOW())
        RETURNING id`,
-      [new Date(endDate)]
+      [new Date(endDate), weighting, snapshotBlock]
     );
 
     const periodId = periodResult.rows[0].id;
@@ -55,8 +77,8 @@ export async function POST(request: NextRequest) {
     for (const option of options) {
       const optionResult = await query(
         `INSERT INTO voting_options
-         (voting_period_id, token_address, token_symbol, token_name, description, vote_count)
-         VALUES ($1, $2, $3, $4, $5, 0)
+         (voting_period_id, token_address, token_symbol, token_name, description)
+         VALUES ($1, $2, $3, $4, $5)
          RETURNING id, token_address, token_symbol, token_name`,
         [
           periodId,
@@ -69,20 +91,39 @@ export async function POST(request: NextRequest) {
       insertedOptions.push(optionResult.rows[0]);
     }
 
+    const nominated = await addApprovedNominationsToPeriod(periodId);
+
+    await recordAdminAction(auth, 'voting_period.create', {
+      targetType: 'voting_period',
+      targetId: periodId,
+      payload: { endDate, weighting, snapshotBlock, options, nominationIds: nominated.map(n => n.id) }
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Voting period created successfully',
       votingPeriod: {
         id: periodId,
         endDate,
+        weighting,
+        snapshotBlock,
         status: 'active'
       },
-      options: insertedOptions.map(opt => ({
-        id: opt.id,
-        tokenAddress: opt.token_address,
-        tokenSymbol: opt.token_symbol,
-        tokenName: opt.token_name
-      }))
+      options: [
+        ...insertedOptions.map(opt => ({
+          id: opt.id,
+          tokenAddress: opt.token_address,
+          tokenSymbol: opt.token_symbol,
+          tokenName: opt.token_name
+        })),
+        ...nominated.map(nomination => ({
+          id: nomination.votingOptionId,
+          tokenAddress: nomination.tokenAddress,
+          tokenSymbol: nomination.tokenSymbol,
+          tokenName: nomination.tokenName,
+          nominationId: nomination.id
+        }))
+      ]
     });
 
   } catch (error: any) {
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { listNominations, NominationStatus, reviewNomination } from '@/lib/services/nominationService';
+
+const NOMINATION_STATUSES: NominationStatus[] = ['pending', 'approved', 'rejected', 'used'];
+
+/**
+ * GET /api/admin/votes/nominations
+ *
+ * Token nominations for the moderation queue (oldest first)
+ * Requires the contest_manager role
+ *
+ * Query params (optional):
+ *   status - 'pending' (default), 'approved', 'rejected' or 'used'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
+
+    const status = (request.nextUrl.searchParams.get('status') || 'pending') as NominationStatus;
+
+    if (!NOMINATION_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status', message: `status must be one of ${NOMINATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const nominations = await listNominations(status);
+
+    return NextResponse.json({ success: true, nominations });
+  } catch (error: any) {
+    console.error('Error fetching nominations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch nominations', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/votes/nominations
+ *
+ * Approve or reject a pending nomination; approved ones join the next voting period
+ * Body: { nominationId, decision: 'approve' | 'reject', note? }
+ * Requires the contest_manager role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'contest_manager');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const nominationId = parseInt(body.nominationId, 10);
+    const { decision } = body;
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+
+    if (isNaN(nominationId) || (decision !== 'approve' && decision !== 'reject')) {
+      return NextResponse.json(
+        { error: "nominationId and decision ('approve' or 'reject') are required" },
+        { status: 400 }
+      );
+    }
+
+    const nomination = await reviewNomination(
+      nominationId,
+      decision === 'approve' ? 'approved' : 'rejected',
+      auth.fid,
+      note
+    );
+
+    if (!nomination) {
+      return NextResponse.json(
+        { error: 'Nomination not found or already reviewed' },
+        { status: 404 }
+      );
+    }
+
+    await recordAdminAction(auth, `nomination.${decision}`, {
+      targetType: 'token_nomination',
+      targetId: nomination.id,
+      payload: { tokenAddress: nomination.tokenAddress, tokenSymbol: nomination.tokenSymbol, note },
+      before: { status: 'pending' },
+      after: { status: nomination.status }
+    });
+
+    return NextResponse.json({ success: true, nomination });
+  } catch (error: any) {
+    console.error('Error reviewing nomination:', error);
+    return NextResponse.json(
+      { error: 'Failed to review nomination', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import {
+  WebhookError,
+  WebhookEventStatus,
+  listWebhookEvents,
+  replayWebhookEvent
+} from '@/lib/services/webhookService';
+
+const STATUSES: WebhookEventStatus[] = ['processed', 'rejected', 'failed'];
+
+/**
+ * GET /api/admin/webhooks?status=failed&limit=100
+ *
+ * Latest Farcaster webhook events with their outcome
+ * Requires the notifier role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status');
+    const status = STATUSES.find(value => value === statusParam);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100', 10) || 100, 1), 500);
+
+    const events = await listWebhookEvents({ status, limit });
+    return NextResponse.json({ events });
+  } catch (error: any) {
+    console.error('Error loading webhook events:', error);
+    return NextResponse.json(
+      { error: 'Failed to load webhook events', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/webhooks
+ *
+ * Replay a failed webhook event
+ * Body: { eventId }
+ * Requires the notifier role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, 'notifier');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const eventId = parseInt(body.eventId, 10);
+    if (isNaN(eventId)) {
+      return NextResponse.json({ error: 'eventId is required' }, { status: 400 });
+    }
+
+    const replay = await replayWebhookEvent(eventId, auth.fid);
+
+    await recordAdminAction(auth, 'webhook.replay', {
+      targetType: 'webhook_event',
+      targetId: eventId,
+      payload: { replayId: replay.id, status: replay.status, error: replay.error }
+    });
+
+    return NextResponse.json({ success: replay.status === 'processed', replay });
+  } catch (error: any) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error replaying webhook event:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay webhook event', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { createNonce } from '@/lib/services/authService';
+
+/**
+ * GET /api/auth/nonce
+ *
+ * Issue a single-use nonce for a Sign-In With Ethereum message (valid for 10 minutes)
+ */
+export async function GET() {
+  try {
+    const nonce = await createNonce();
+    return NextResponse.json({ nonce });
+  } catch (error: any) {
+    console.error('[Auth Nonce] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create nonce', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
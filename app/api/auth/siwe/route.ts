@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AuthError,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  getAuthDomain,
+  revokeSession,
+  signInWithEthereum
+} from '@/lib/services/authService';
+
+/**
+ * POST /api/auth/siwe
+ *
+ * Verify a signed Sign-In With Ethereum message and open a session
+ * The session token is set as an HttpOnly cookie and also returned for Bearer use
+ *
+ * Request body:
+ * {
+ *   message: string,    // EIP-4361 message (nonce from GET /api/auth/nonce)
+ *   signature: string   // personal_sign signature of the message
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { message, signature } = body;
+
+    if (!message || typeof message !== 'string' || !signature || typeof signature !== 'string') {
+      return NextResponse.json(
+        { error: 'message and signature are required' },
+        { status: 400 }
+      );
+    }
+
+    const session = await signInWithEthereum(message, signature, getAuthDomain(request));
+
+    const response = NextResponse.json({
+      success: true,
+      fid: session.fid,
+      walletAddress: session.walletAddress,
+      token: session.token,
+      expiresAt: session.expiresAt.toISOString()
+    });
+
+    response.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS
+    });
+
+    return response;
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[Auth SIWE] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/siwe
+ *
+ * Sign out - revokes the current session and clears the cookie
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await revokeSession(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error: any) {
+    console.error('[Auth SIWE] Sign out error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
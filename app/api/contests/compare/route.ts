@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getContestResult,
+  getFinalizedContestIds,
+  summarizeContestResult
+} from '@/lib/services/contestResultsService';
+
+/**
+ * GET /api/contests/compare?contestId=1&liveCount=4
+ *
+ * Compare a finalized replay contest (latest finalized replay when contestId is omitted) with the
+ * most recent finalized live contests
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const contestIdParam = searchParams.get('contestId');
+    const liveCount = Math.min(Math.max(parseInt(searchParams.get('liveCount') || '4', 10) || 4, 1), 12);
+
+    if (contestIdParam && isNaN(parseInt(contestIdParam, 10))) {
+      return NextResponse.json(
+        { error: 'Invalid contestId' },
+        { status: 400 }
+      );
+    }
+
+    const contestId = contestIdParam
+      ? parseInt(contestIdParam, 10)
+      : (await getFinalizedContestIds('replay', 1))[0] ?? null;
+    const replay = contestId !== null ? await getContestResult(contestId) : null;
+
+    if (!replay || replay.mode !== 'replay') {
+      return NextResponse.json(
+        { error: 'No finalized replay to compare yet' },
+        { status: 404 }
+      );
+    }
+
+    const live = [];
+    for (const liveId of await getFinalizedContestIds('live', liveCount)) {
+      const result = await getContestResult(liveId);
+      if (result) {
+        live.push(summarizeContestResult(result));
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      replay: summarizeContestResult(replay),
+      live
+    });
+  } catch (error: any) {
+    console.error('Error comparing contests:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare contests', message: error.message },
+      { status: 500 }
+    );
+  }
+}
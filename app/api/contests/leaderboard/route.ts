@@ -6,6 +6,7 @@ import { query } from '@/lib/db/connection';
  *
  * Get leaderboard for a specific contest
  * Returns users sorted by PnL (worst first - most negative)
+ * PnL is live during the contest - refreshed on a schedule by /api/cron/contest-pnl
  */
 export async function GET(request: NextRequest) {
   try {
@@ -59,9 +60,15 @@ export async function GET(request: NextRequest) {
       fid: row.fid,
       username: row.username,
       pnl: parseFloat(row.current_pnl || 0),
-      indexedAt: row.indexed_at
+      indexedAt: row.indexed_at,
+      pnlUpdatedAt: row.pnl_calculated_at
     }));
 
+    const lastUpdatedAt = leaderboardResult.rows.reduce<Date | null>((latest, row) => {
+      const updatedAt = row.pnl_calculated_at ? new Date(row.pnl_calculated_at) : null;
+      return updatedAt && (!latest || updatedAt > latest) ? updatedAt : latest;
+    }, null);
+
     return NextResponse.json({
       success: true,
       contest: {
@@ -73,7 +80,8 @@ export async function GET(request: NextRequest) {
         status: contest.status
       },
       leaderboard,
-      totalParticipants: leaderboard.length
+      totalParticipants: leaderboard.length,
+      lastUpdatedAt
     });
 
   } catch (error: any) {
@@ -4,7 +4,7 @@ import { query } from '@/lib/db/connection';
 /**
  * GET /api/contests/list
  *
- * Get list of active contests
+ * Get list of active contests (live and replay)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -19,6 +19,11 @@ export async function GET(request: NextRequest) {
         start_date,
         end_date,
         status,
+        min_volume_usd,
+        winner_count,
+        mode,
+        registration_ends_at,
+        finalized_at,
         created_at
       FROM weekly_contests
       WHERE status = $1
@@ -34,6 +39,11 @@ export async function GET(request: NextRequest) {
       startDate: row.start_date,
       endDate: row.end_date,
       status: row.status,
+      minVolumeUsd: parseFloat(row.min_volume_usd),
+      winnerCount: row.winner_count,
+      mode: row.mode,
+      registrationEndsAt: row.registration_ends_at,
+      finalizedAt: row.finalized_at,
       createdAt: row.created_at
     }));
 
@@ -27,8 +27,14 @@ export async function GET(request: NextRequest) {
         cr.wallet_address,
         cr.current_pnl,
         cr.indexed_at,
-        COUNT(*) OVER() as total_participants
+        cr.pnl_calculated_at,
+        cr.index_status,
+        cr.index_error,
+        j.attempts as job_attempts,
+        j.max_attempts as job_max_attempts,
+        j.run_at as job_run_at
       FROM contest_registrations cr
+      LEFT JOIN jobs j ON cr.index_job_id = j.id
       WHERE cr.contest_id = $1 AND cr.wallet_address = $2`,
       [contestId, walletAddress.toLowerCase()]
     );
@@ -71,7 +77,13 @@ export async function GET(request: NextRequest) {
         rank: isIndexed ? rank : null, // Only show rank if indexed
         totalParticipants,
         pnl: parseFloat(registration.current_pnl || 0),
-        status: isIndexed ? 'indexed' : 'indexing',
+        pnlUpdatedAt: registration.pnl_calculated_at,
+        registrationId: registration.id,
+        status: isIndexed ? 'indexed' : registration.index_status,
+        error: isIndexed ? null : registration.index_error,
+        attempts: registration.job_attempts ?? null,
+        maxAttempts: registration.job_max_attempts ?? null,
+        nextAttemptAt: !isIndexed && registration.index_status === 'queued' ? registration.job_run_at : null
       }
     });
 
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db/connection';
+import { getContestPnLHistory, getRegistrationPnLHistory } from '@/lib/services/contestPnLService';
+
+/**
+ * GET /api/contests/pnl-history?contestId=1&walletAddress=0x...
+ *
+ * PnL curve (snapshots, oldest first) for a wallet's contest registration
+ * Without walletAddress, returns the curves of every participant keyed by registration id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const contestId = searchParams.get('contestId');
+    const walletAddress = searchParams.get('walletAddress');
+
+    if (!contestId || isNaN(parseInt(contestId, 10))) {
+      return NextResponse.json(
+        { error: 'contestId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!walletAddress) {
+      const series = await getContestPnLHistory(parseInt(contestId, 10));
+      return NextResponse.json({ success: true, series });
+    }
+
+    const regResult = await query(
+      'SELECT id FROM contest_registrations WHERE contest_id = $1 AND wallet_address = $2',
+      [contestId, walletAddress.toLowerCase()]
+    );
+
+    if (regResult.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Not registered for this contest' },
+        { status: 404 }
+      );
+    }
+
+    const registrationId = regResult.rows[0].id;
+    const points = await getRegistrationPnLHistory(registrationId);
+
+    return NextResponse.json({ success: true, registrationId, points });
+  } catch (error: any) {
+    console.error('Error fetching PnL history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PnL history', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,32 @@
-import { CONTEST_ELIGIBILITY_THRESHOLD } from '@/lib/config/eligibility';
 import { query } from '@/lib/db/connection';
-import { getBadTradersBalance } from '@/lib/services/tokenService';
-import { indexUserWalletForToken } from '@/lib/services/userIndexerService';
+import { getEligibility } from '@/lib/services/eligibilityService';
+import { getWalletFid } from '@/lib/services/identityService';
+import { enqueueRegistrationIndexing, runJobWorker } from '@/lib/services/jobHandlers';
 import { ethers } from 'ethers';
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
+
+// Start on the queued job right after responding; if this function dies, the cron drain picks it up
+function drainIndexingAfterResponse() {
+  after(async () => {
+    try {
+      await runJobWorker({ types: ['contest.index_wallet'], maxJobs: 1 });
+    } catch (error) {
+      console.error('[Contest Register] Error draining indexing queue:', error);
+    }
+  });
+}
 
 /**
  * POST /api/contests/register
  *
  * Register a user for a weekly contest by signing a message
- * This triggers on-demand indexing of their wallet for the contest token
+ * This queues indexing of their wallet for the contest token (see /api/contests/my-position for status)
+ * Balance and entry are per identity: linked wallets count towards the balance and share one entry
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { contestId, walletAddress, signedMessage, message, fid } = body;
+    const { contestId, walletAddress, signedMessage, message } = body;
 
     if (!contestId || !walletAddress || !signedMessage || !message) {
       return NextResponse.json(
@@ -50,9 +62,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get contest details
+    // Check the contest is active
     const contestResult = await query(
-      'SELECT * FROM weekly_contests WHERE id = $1 AND status = $2',
+      'SELECT id, registration_ends_at FROM weekly_contests WHERE id = $1 AND status = $2',
       [contestId, 'active']
     );
 
@@ -63,25 +75,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const contest = contestResult.rows[0];
+    // Replays stop taking entries before they are finalized
+    const registrationEndsAt = contestResult.rows[0].registration_ends_at;
+    if (registrationEndsAt && new Date(registrationEndsAt).getTime() <= Date.now()) {
+      return NextResponse.json(
+        { error: 'Entries for this replay have closed' },
+        { status: 409 }
+      );
+    }
 
-    // Check token balance eligibility (5M tokens required)
-    const balance = await getBadTradersBalance(walletAddress);
-    if (balance < CONTEST_ELIGIBILITY_THRESHOLD) {
+    // Check token balance eligibility across the signing wallet's identity and LP positions (5M tokens required)
+    // The identity comes from the wallet, not the unverified fid in the body
+    const eligibility = await getEligibility(walletAddress, 'contest');
+    if (!eligibility.isEligible) {
       return NextResponse.json(
         {
-          error: `Insufficient token balance. You need at least ${CONTEST_ELIGIBILITY_THRESHOLD.toLocaleString()} BadTraders tokens to enter contests.`,
-          balance,
-          required: CONTEST_ELIGIBILITY_THRESHOLD
+          error: `Insufficient token balance. You need at least ${eligibility.threshold.toLocaleString()} BadTraders tokens to enter contests.`,
+          balance: eligibility.total,
+          required: eligibility.threshold,
+          breakdown: eligibility.items
         },
         { status: 403 }
       );
     }
 
-    // Check if user is already registered
+    // Check if user is already registered, from this or a linked wallet
     const existingReg = await query(
-      'SELECT * FROM contest_registrations WHERE contest_id = $1 AND wallet_address = $2',
-      [contestId, walletAddress.toLowerCase()]
+      `SELECT * FROM contest_registrations
+       WHERE contest_id = $1 AND wallet_address = ANY($2::text[])
+       ORDER BY created_at ASC
+       LIMIT 1`,
+      [contestId, eligibility.wallets]
     );
 
     if (existingReg.rows.length > 0) {
@@ -97,12 +121,31 @@ export async function POST(request: NextRequest) {
             contestId: registration.contest_id,
             walletAddress: registration.wallet_address,
             currentPnL: registration.current_pnl,
-            indexedAt: registration.indexed_at
+            indexedAt: registration.indexed_at,
+            status: 'indexed'
           }
         });
       }
 
-      // If registered but not indexed yet, return pending status
+      // Indexing gave up - registering again queues a fresh attempt
+      if (registration.index_status === 'failed') {
+        const job = await enqueueRegistrationIndexing(registration.id);
+        drainIndexingAfterResponse();
+
+        return NextResponse.json({
+          success: true,
+          message: 'Indexing re-queued',
+          registration: {
+            id: registration.id,
+            contestId: registration.contest_id,
+            walletAddress: registration.wallet_address,
+            status: 'queued',
+            jobId: job.id
+          }
+        });
+      }
+
+      // Registered but not indexed yet, return the current status
       return NextResponse.json({
         success: true,
         message: 'Registration pending indexing',
@@ -110,42 +153,38 @@ export async function POST(request: NextRequest) {
           id: registration.id,
           contestId: registration.contest_id,
           walletAddress: registration.wallet_address,
-          status: 'indexing'
+          status: registration.index_status,
+          error: registration.index_error
         }
       });
     }
 
     // Create registration
     const messageHash = ethers.id(message);
+    // Only a verified or signed wallet ties the entry to an FID; a body fid is never trusted
+    const registrantFid = await getWalletFid(walletAddress);
     const insertResult = await query(
       `INSERT INTO contest_registrations
        (contest_id, wallet_address, fid, signed_message, message_hash, created_at)
        VALUES ($1, $2, $3, $4, $5, NOW())
        RETURNING id`,
-      [contestId, walletAddress.toLowerCase(), fid || null, signedMessage, messageHash]
+      [contestId, walletAddress.toLowerCase(), registrantFid || null, signedMessage, messageHash]
     );
 
     const registrationId = insertResult.rows[0].id;
 
-    // Start indexing in background (don't wait for it)
-    indexUserWalletForToken(
-      walletAddress,
-      contest.token_address,
-      contestId,
-      registrationId
-    ).catch((error) => {
-      console.error(`[Contest Register] Error indexing wallet ${walletAddress}:`, error);
-      // Update registration with error status (could add error field to table)
-    });
+    const job = await enqueueRegistrationIndexing(registrationId);
+    drainIndexingAfterResponse();
 
     return NextResponse.json({
       success: true,
-      message: 'Registration successful. Indexing started.',
+      message: 'Registration successful. Indexing queued.',
       registration: {
         id: registrationId,
         contestId,
         walletAddress,
-        status: 'indexing'
+        status: 'queued',
+        jobId: job.id
       }
     });
 
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db/connection';
+import {
+  buildResultsAnnouncement,
+  getContestResult,
+  getLatestFinalizedContestId
+} from '@/lib/services/contestResultsService';
+
+/**
+ * GET /api/contests/results?contestId=1
+ *
+ * Final, ranked results of a finalized contest (latest finalized contest when contestId is omitted),
+ * with ready-made cast and notification copy
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const contestIdParam = request.nextUrl.searchParams.get('contestId');
+
+    if (contestIdParam && isNaN(parseInt(contestIdParam, 10))) {
+      return NextResponse.json(
+        { error: 'Invalid contestId' },
+        { status: 400 }
+      );
+    }
+
+    const contestId = contestIdParam ? parseInt(contestIdParam, 10) : await getLatestFinalizedContestId();
+    const result = contestId !== null ? await getContestResult(contestId) : null;
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'No results for this contest yet' },
+        { status: 404 }
+      );
+    }
+
+    const fids = result.entries.map(entry => entry.fid).filter((fid): fid is number => fid !== null);
+    const usernames: Record<number, string> = {};
+    if (fids.length > 0) {
+      const userResult = await query(
+        'SELECT fid, username FROM users WHERE fid = ANY($1) AND username IS NOT NULL',
+        [fids]
+      );
+      for (const row of userResult.rows) {
+        usernames[Number(row.fid)] = row.username;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      result: {
+        ...result,
+        entries: result.entries.map(entry => ({
+          ...entry,
+          username: entry.fid !== null ? usernames[entry.fid] || null : null
+        }))
+      },
+      announcement: buildResultsAnnouncement(result, usernames)
+    });
+  } catch (error: any) {
+    console.error('Error fetching contest results:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch contest results', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { scheduleContestPnLRefresh } from '@/lib/services/contestPnLService';
+import { scheduleContestFinalization } from '@/lib/services/contestResultsService';
+import { runJobWorker } from '@/lib/services/jobHandlers';
+import { createWorkerId } from '@/lib/services/jobQueueService';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Leave headroom under the serverless timeout; unfinished refreshes stay queued for /api/cron/jobs
+const TIME_BUDGET_MS = 40 * 1000;
+
+/**
+ * Vercel Cron endpoint that keeps contest PnL live
+ * Queues a contest.refresh_pnl job for each stale registration in an active contest
+ * (new trades since its last indexed block + fresh price mark + PnL snapshot), then starts on them.
+ * Contests past their end date are queued for finalization (contest.finalize) in the same run.
+ * Schedule every 15 minutes.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!CRON_SECRET) {
+      console.error('CRON_SECRET not set in environment variables');
+      return NextResponse.json(
+        { error: 'Cron secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Vercel Cron sends secret in Authorization header: "Bearer <secret>"
+    if (request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+      console.warn('Unauthorized cron request');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const finalizing = await scheduleContestFinalization();
+    const scheduled = await scheduleContestPnLRefresh();
+
+    const result = await runJobWorker({
+      workerId: createWorkerId('cron-pnl'),
+      types: ['contest.finalize', 'contest.refresh_pnl'],
+      timeBudgetMs: TIME_BUDGET_MS
+    });
+
+    console.log(`[ContestPnL] Scheduled ${scheduled} refresh(es), ${finalizing} finalization(s); ${result.succeeded} done, ${result.retried} retrying`);
+
+    return NextResponse.json({
+      success: true,
+      scheduled,
+      finalizing,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('Error in contest PnL cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh contest PnL', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Also allow POST for manual triggers (optional)
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runJobWorker } from '@/lib/services/jobHandlers';
+import { createWorkerId } from '@/lib/services/jobQueueService';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Stop claiming new jobs well before the serverless timeout; a job cut off mid-run is re-claimed after its lease expires
+const TIME_BUDGET_MS = 45 * 1000;
+
+/**
+ * Vercel Cron endpoint that drains the job queue
+ * (contest wallet indexing, PnL recalculation, eligibility cleanup)
+ * Schedule every few minutes.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!CRON_SECRET) {
+      console.error('CRON_SECRET not set in environment variables');
+      return NextResponse.json(
+        { error: 'Cron secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Vercel Cron sends secret in Authorization header: "Bearer <secret>"
+    if (request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+      console.warn('Unauthorized cron request');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await runJobWorker({
+      workerId: createWorkerId('cron'),
+      timeBudgetMs: TIME_BUDGET_MS
+    });
+
+    console.log(`[Jobs] Cron drain: ${result.claimed} claimed, ${result.succeeded} succeeded, ${result.retried} retrying, ${result.dead} dead`);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('Error in jobs cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to drain job queue', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Also allow POST for manual triggers (optional)
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
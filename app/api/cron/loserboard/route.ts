@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { freezeWeeklySnapshot, getWeekStart } from '@/lib/services/leaderboardService';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Vercel Cron endpoint that freezes last week's loserboard
+ * Schedule weekly, shortly after Monday 00:00 UTC. Safe to re-run: frozen weeks are never rewritten.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!CRON_SECRET) {
+      console.error('CRON_SECRET not set in environment variables');
+      return NextResponse.json(
+        { error: 'Cron secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Vercel Cron sends secret in Authorization header: "Bearer <secret>"
+    if (request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+      console.warn('Unauthorized cron request');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const lastWeek = new Date(getWeekStart(new Date()).getTime() - 7 * 24 * 60 * 60 * 1000);
+    const snapshot = await freezeWeeklySnapshot(lastWeek);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Loserboard snapshot frozen',
+      snapshot
+    });
+  } catch (error: any) {
+    console.error('Error in loserboard cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to freeze loserboard', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Also allow POST for manual triggers (optional)
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
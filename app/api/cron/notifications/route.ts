@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runJobWorker } from '@/lib/services/jobHandlers';
+import { createWorkerId } from '@/lib/services/jobQueueService';
+import { scheduleDueCampaigns } from '@/lib/services/campaignService';
+import { scheduleNotificationEvents } from '@/lib/services/notificationRules';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Leave headroom under the serverless timeout; unfinished dispatches stay queued for /api/cron/jobs
+const TIME_BUDGET_MS = 40 * 1000;
+
+/**
+ * Vercel Cron endpoint for the time-based notification rules
+ * Queues a notifications.dispatch job for each contest that just opened, is within 24h of closing,
+ * or has live rankings (top 10 worst PnL), then runs them. Notifications queued where something
+ * happened (indexing done, eligibility lost) are run here too, as are campaigns that are due
+ * (notifications.campaign - a few batches per run until the whole audience has it).
+ * Schedule hourly.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!CRON_SECRET) {
+      console.error('CRON_SECRET not set in environment variables');
+      return NextResponse.json(
+        { error: 'Cron secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Vercel Cron sends secret in Authorization header: "Bearer <secret>"
+    if (request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+      console.warn('Unauthorized cron request');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const scheduled = await scheduleNotificationEvents();
+    const campaigns = await scheduleDueCampaigns();
+
+    const result = await runJobWorker({
+      workerId: createWorkerId('cron-notifications'),
+      types: ['notifications.dispatch', 'notifications.campaign'],
+      timeBudgetMs: TIME_BUDGET_MS
+    });
+
+    console.log(`[Notifications] Scheduled ${scheduled} event(s), ${campaigns} campaign(s); ${result.succeeded} done, ${result.retried} retrying`);
+
+    return NextResponse.json({
+      success: true,
+      scheduled,
+      campaigns,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('Error in notifications cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to dispatch notifications', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Also allow POST for manual triggers (optional)
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runJobWorker } from '@/lib/services/jobHandlers';
+import { createWorkerId } from '@/lib/services/jobQueueService';
+import { scheduleVotingPeriodClose } from '@/lib/services/votingService';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Leave headroom under the serverless timeout; an unfinished close stays queued for /api/cron/jobs
+const TIME_BUDGET_MS = 40 * 1000;
+
+/**
+ * Vercel Cron endpoint that closes ended voting periods
+ * Queues a voting.close_period job for each active period past its end date (tally, winner,
+ * next contest for the winning token, tracked token, voter notifications), then runs them.
+ * Schedule hourly.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!CRON_SECRET) {
+      console.error('CRON_SECRET not set in environment variables');
+      return NextResponse.json(
+        { error: 'Cron secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Vercel Cron sends secret in Authorization header: "Bearer <secret>"
+    if (request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+      console.warn('Unauthorized cron request');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const scheduled = await scheduleVotingPeriodClose();
+
+    const result = await runJobWorker({
+      workerId: createWorkerId('cron-voting'),
+      types: ['voting.close_period'],
+      timeBudgetMs: TIME_BUDGET_MS
+    });
+
+    console.log(`[Voting] Scheduled ${scheduled} close(s); ${result.succeeded} done, ${result.retried} retrying`);
+
+    return NextResponse.json({
+      success: true,
+      scheduled,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('Error in voting cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to close voting periods', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Also allow POST for manual triggers (optional)
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
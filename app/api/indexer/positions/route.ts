@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db/connection';
 import { getCurrentPrice } from '@/lib/services/priceService';
-import { calculateUnrealizedPnL } from '@/lib/services/fifoAccounting';
+import { calculateUnrealizedPnL, getCostBasisMethod, getLotBreakdown } from '@/lib/services/fifoAccounting';
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,11 +9,14 @@ export async function GET(request: NextRequest) {
     const walletAddress = searchParams.get('wallet_address');
     const tokenAddress = searchParams.get('token_address');
     const includeUnrealized = searchParams.get('include_unrealized') === 'true';
+    const includeLots = searchParams.get('include_lots') === 'true';
+    const includeClosedLots = searchParams.get('include_closed_lots') === 'true';
 
     let sql = `
       SELECT
         p.*,
-        tt.symbol as token_symbol
+        tt.symbol as token_symbol,
+        tt.decimals as token_decimals
       FROM positions p
       LEFT JOIN tracked_tokens tt ON p.token_address = tt.token_address
       WHERE 1=1
@@ -81,6 +84,34 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Per-lot breakdown (acquisition price/time, remaining amount, realized/unrealized PnL per lot)
+    if (includeLots) {
+      positions = await Promise.all(
+        positions.map(async (position: any) => {
+          try {
+            const currentPrice = position.current_price_usd
+              ? parseFloat(position.current_price_usd)
+              : null;
+            const lots = await getLotBreakdown(
+              position.wallet_address,
+              position.token_address,
+              currentPrice,
+              position.token_decimals ?? 18,
+              includeClosedLots
+            );
+            return {
+              ...position,
+              cost_basis_method: await getCostBasisMethod(position.token_address),
+              lots
+            };
+          } catch (error) {
+            console.error(`Error fetching lots for position:`, error);
+            return { ...position, lots: [] };
+          }
+        })
+      );
+    }
+
     return NextResponse.json({
       success: true,
       positions,
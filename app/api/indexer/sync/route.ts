@@ -1,6 +1,8 @@
 // app/api/indexer/sync/route.ts
 // Unified sync flow using Bitquery as the ONLY source for swaps
 import { query } from '@/lib/db/connection';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
+import { authenticateRequest, getAdminRoles, hasRole } from '@/lib/services/authService';
 import { discoverHoldersParallel } from '@/lib/services/holderDiscoveryService';
 import { logError, logInfo, logSuccess, logWarn } from '@/lib/services/indexerLogger';
 import { addError, getStatus, markComplete, markFailed, resetStatus, setActiveWorkers, updateOverallProgress, updateWorkerStatusWithTiming } from '@/lib/services/indexerMetrics';
@@ -26,8 +28,11 @@ export async function POST(request: NextRequest) {
     const providedSecret = authHeader?.replace('Bearer ', '') || body.secret;
     const providedPassword = body.password;
 
-    // If CRON_SECRET is provided, verify it matches (for cron jobs)
-    if (providedSecret && CRON_SECRET && providedSecret !== CRON_SECRET) {
+    // The Authorization header carries either CRON_SECRET (cron jobs) or an admin's Quick Auth / SIWE token
+    const isCron = !!providedSecret && !!CRON_SECRET && providedSecret === CRON_SECRET;
+    const auth = isCron ? null : await authenticateRequest(request);
+
+    if (providedSecret && !isCron && !auth) {
       logError('Invalid CRON_SECRET provided');
       return NextResponse.json(
         { error: 'Invalid secret' },
@@ -35,8 +40,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // If SYNC_PASSWORD is set, require it for manual syncs (unless CRON_SECRET is provided)
-    if (!providedSecret && SYNC_PASSWORD && providedPassword !== SYNC_PASSWORD) {
+    // If SYNC_PASSWORD is set, require it for manual syncs (unless CRON_SECRET or a signed-in admin)
+    if (!isCron && !auth && SYNC_PASSWORD && providedPassword !== SYNC_PASSWORD) {
       logError('Invalid sync password provided');
       return NextResponse.json(
         { error: 'Invalid password', requiresPassword: true },
@@ -63,16 +68,63 @@ export async function POST(request: NextRequest) {
     } else {
       logInfo(`Starting sync - Sync Type: ${syncType}...`);
     }
+    // Full sync truncates every indexer table - only cron or an indexer operator, and always audited
+    if (syncType === 'full') {
+      const roles = auth ? await getAdminRoles(auth.fid) : [];
+      if (!isCron && !hasRole(roles, 'indexer_operator')) {
+        logError(`Full sync rejected for ${auth ? `FID ${auth.fid}` : 'anonymous caller'}`);
+        return NextResponse.json(
+          { error: 'Full sync requires the indexer_operator role' },
+          { status: auth ? 403 : 401 }
+        );
+      }
+
+      const counts = await query(
+        `SELECT
+          (SELECT COUNT(*) FROM trades) AS trades,
+          (SELECT COUNT(*) FROM positions) AS positions,
+          (SELECT COUNT(*) FROM position_lots) AS position_lots,
+          (SELECT COUNT(*) FROM wallets) AS wallets`
+      );
+      const before = counts.rows[0];
+
+      const auditId = await recordAdminAction(
+        auth ? auth : { fid: null, method: 'cron_secret' },
+        'indexer.full_sync',
+        {
+          targetType: 'indexer',
+          targetId: tokenAddress || null,
+          payload: { syncType, tokenAddress: tokenAddress || null },
+          before: {
+            trades: Number(before.trades),
+            positions: Number(before.positions),
+            position_lots: Number(before.position_lots),
+            wallets: Number(before.wallets)
+          },
+          after: { trades: 0, positions: 0, position_lots: 0, wallets: 0 }
+        }
+      );
+
+      if (auditId === null) {
+        logError('Full sync aborted: could not write audit record');
+        return NextResponse.json(
+          { error: 'Full sync aborted: audit log unavailable' },
+          { status: 500 }
+        );
+      }
+    }
+
     resetStatus();
 
     let indexerRunId: number | null = null;
 
     // Full sync: Clear all indexer data
     if (syncType === 'full') {
-      logInfo('Full sync: Clearing all existing indexer data...');
+      logInfo(`Full sync: Clearing all existing indexer data (triggered by ${auth ? `FID ${auth.fid}` : 'cron'})...`);
       try {
         await query('TRUNCATE TABLE trades CASCADE');
         await query('TRUNCATE TABLE positions CASCADE');
+        await query('TRUNCATE TABLE position_lots CASCADE');
         await query('TRUNCATE TABLE wallets CASCADE');
         logSuccess('All indexer data cleared. Starting fresh sync...');
       } catch (error: any) {
@@ -97,7 +149,7 @@ export async function POST(request: NextRequest) {
       }
 
       try {
-        const initiator = providedSecret ? 'cron' : 'manual';
+        const initiator = isCron ? 'cron' : 'manual';
         const runInsert = await query(
           `INSERT INTO indexer_runs (
             initiator, sync_type, tokens_scanned, status, started_at
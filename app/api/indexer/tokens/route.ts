@@ -2,19 +2,29 @@ import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db/connection';
 import { ethers } from 'ethers';
 import { getProvider } from '@/lib/services/apiProviderManager';
+import { COST_BASIS_METHODS, TRANSFER_BASIS_POLICIES } from '@/lib/services/fifoAccounting';
+import { refreshTokenPools } from '@/lib/services/poolPriceService';
+import { requireAdmin } from '@/lib/services/authService';
+import { recordAdminAction } from '@/lib/services/adminAuditService';
 
 export async function GET(request: NextRequest) {
   try {
     const result = await query(
       `SELECT
-        token_address,
-        symbol,
-        decimals,
-        created_at,
-        updated_at,
-        (SELECT COUNT(*) FROM trades WHERE token_address = tt.token_address) as trade_count
+        tt.token_address,
+        tt.symbol,
+        tt.decimals,
+        tt.cost_basis_method,
+        tt.transfer_basis_policy,
+        tt.created_at,
+        tt.updated_at,
+        (SELECT COUNT(*) FROM trades WHERE token_address = tt.token_address) as trade_count,
+        tp.pool_address as primary_pool_address,
+        tp.protocol as primary_pool_protocol,
+        tp.liquidity_usd as primary_pool_liquidity_usd
       FROM tracked_tokens tt
-      ORDER BY created_at DESC`
+      LEFT JOIN token_pools tp ON tp.token_address = tt.token_address AND tp.is_primary
+      ORDER BY tt.created_at DESC`
     );
 
     return NextResponse.json({
@@ -43,8 +53,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const auth = await requireAdmin(request, 'indexer_operator');
+    if (auth instanceof NextResponse) return auth;
+
     const body = await request.json();
-    const { token_address, symbol, decimals } = body;
+    const { token_address, symbol, decimals, cost_basis_method, transfer_basis_policy } = body;
 
     // Validate required fields - only token_address is required
     if (!token_address) {
@@ -68,6 +81,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (cost_basis_method && !COST_BASIS_METHODS.includes(cost_basis_method)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid cost basis method',
+          message: `cost_basis_method must be one of: ${COST_BASIS_METHODS.join(', ')}`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (transfer_basis_policy && !TRANSFER_BASIS_POLICIES.includes(transfer_basis_policy)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid transfer basis policy',
+          message: `transfer_basis_policy must be one of: ${TRANSFER_BASIS_POLICIES.join(', ')}`
+        },
+        { status: 400 }
+      );
+    }
+
     const tokenAddr = token_address.toLowerCase();
 
     // Auto-fetch symbol and decimals from contract if not provided
@@ -115,26 +148,67 @@ export async function POST(request: NextRequest) {
       if (!tokenDecimals) tokenDecimals = decimals || 18;
     }
 
+    const existing = await query(
+      'SELECT symbol, decimals, cost_basis_method, transfer_basis_policy FROM tracked_tokens WHERE token_address = $1',
+      [tokenAddr]
+    );
+
     // Insert or update token
     await query(
-      `INSERT INTO tracked_tokens (token_address, symbol, decimals, created_at, updated_at)
-       VALUES ($1, $2, $3, NOW(), NOW())
+      `INSERT INTO tracked_tokens (token_address, symbol, decimals, cost_basis_method, transfer_basis_policy, created_at, updated_at)
+       VALUES ($1, $2, $3, COALESCE($4, 'fifo'), COALESCE($5, 'carry_over'), NOW(), NOW())
        ON CONFLICT (token_address)
        DO UPDATE SET
          symbol = EXCLUDED.symbol,
          decimals = EXCLUDED.decimals,
+         cost_basis_method = COALESCE($4, tracked_tokens.cost_basis_method),
+         transfer_basis_policy = COALESCE($5, tracked_tokens.transfer_basis_policy),
          updated_at = NOW()`,
-      [tokenAddr, tokenSymbol, tokenDecimals]
+      [tokenAddr, tokenSymbol, tokenDecimals, cost_basis_method || null, transfer_basis_policy || null]
     );
 
+    await recordAdminAction(auth, existing.rows.length > 0 ? 'tracked_token.update' : 'tracked_token.add', {
+      targetType: 'tracked_token',
+      targetId: tokenAddr,
+      payload: { token_address, symbol, decimals, cost_basis_method, transfer_basis_policy },
+      before: existing.rows[0] || null,
+      after: {
+        symbol: tokenSymbol,
+        decimals: tokenDecimals,
+        cost_basis_method: cost_basis_method || existing.rows[0]?.cost_basis_method || 'fifo',
+        transfer_basis_policy: transfer_basis_policy || existing.rows[0]?.transfer_basis_policy || 'carry_over'
+      }
+    });
+
+    // Discover pools so the token can be priced on-chain
+    let pools: Awaited<ReturnType<typeof refreshTokenPools>> = [];
+    try {
+      pools = await refreshTokenPools(tokenAddr);
+    } catch (error: any) {
+      console.warn(`Pool discovery failed for ${tokenAddr}: ${error.message}`);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Token added successfully',
       token: {
         token_address: tokenAddr,
         symbol: tokenSymbol,
-        decimals: tokenDecimals
-      }
+        decimals: tokenDecimals,
+        cost_basis_method: cost_basis_method || null,
+        transfer_basis_policy: transfer_basis_policy || null
+      },
+      pools: pools.map(pool => ({
+        pool_address: pool.poolAddress,
+        protocol: pool.protocol,
+        quote_token: pool.quoteToken,
+        fee: pool.fee,
+        tick_spacing: pool.tickSpacing,
+        stable: pool.stable,
+        liquidity: pool.liquidity.toString(),
+        liquidity_usd: pool.liquidityUsd
+      })),
+      primary_pool: pools[0]?.poolAddress ?? null
     });
   } catch (error: any) {
     console.error('Error adding token:', error);
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db/connection';
-import { calculateUnrealizedPnL } from '@/lib/services/fifoAccounting';
+import { calculateUnrealizedPnL, getLotBreakdown } from '@/lib/services/fifoAccounting';
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,6 +9,7 @@ export async function GET(request: NextRequest) {
     const walletFilter = searchParams.get('wallet_filter'); // 'registered' or null
     const limit = parseInt(searchParams.get('limit') || '100');
     const offset = parseInt(searchParams.get('offset') || '0');
+    const includeLots = searchParams.get('include_lots') === 'true';
 
     let sql = `
       SELECT
@@ -137,6 +138,35 @@ export async function GET(request: NextRequest) {
         const soldUsd = parseFloat(row.sold_usd || '0');
         const realizedPnL = soldUsd - boughtUsd;
 
+        // Realized PnL from consumed lots (respects each token's cost basis method)
+        let lotSql = `
+          SELECT COALESCE(SUM(realized_pnl_usd), 0) as realized_pnl_usd
+          FROM lot_disposals
+          WHERE wallet_address = $1
+        `;
+        const lotParams = [walletAddress.toLowerCase()];
+
+        if (tokenAddress) {
+          lotSql += ` AND token_address = $2`;
+          lotParams.push(tokenAddress.toLowerCase());
+        }
+
+        const lotResult = await query(lotSql, lotParams);
+        const lotRealizedPnL = parseFloat(lotResult.rows[0]?.realized_pnl_usd || '0');
+
+        let lots: any[] | undefined;
+        if (includeLots) {
+          try {
+            lots = [];
+            for (const position of positionResult.rows) {
+              const positionLots = await getLotBreakdown(walletAddress, position.token_address);
+              lots.push(...positionLots.map(lot => ({ ...lot, token_address: position.token_address })));
+            }
+          } catch (error) {
+            console.error(`Error fetching lots for ${walletAddress}:`, error);
+          }
+        }
+
         return {
           rank,
           wallet_address: walletAddress,
@@ -151,6 +181,8 @@ export async function GET(request: NextRequest) {
           unrealized_pnl: unrealizedPnL,
           balance: balance,
           balance_usd: balanceUsd,
+          lot_realized_pnl: lotRealizedPnL,
+          ...(lots ? { lots } : {}),
         };
       })
     );
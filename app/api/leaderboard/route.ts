@@ -1,42 +1,48 @@
 // app/api/leaderboard/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { query } from '@/lib/db/connection';
-import { LeaderboardEntry } from '@/types/leaderboard';
+import { generateLeaderboard, getRollingWindow, getSnapshotEntries } from '@/lib/services/leaderboardService';
 
-const DEFAULT_PFP = 'https://i.imgur.com/sB02Hbz.png'; // Default PFP for users without one
+const MAX_WINDOW_DAYS = 90;
 
+/**
+ * GET /api/leaderboard
+ *
+ * Loserboard computed from indexed trades, with manual pins/overrides applied
+ *
+ * Query params (optional):
+ *   days - rolling window in days (default LOSERBOARD_WINDOW_DAYS or 7, max 90)
+ *   week - any date in a past week (e.g. 2025-06-02) to read that week's frozen snapshot
+ */
 export async function GET(req: NextRequest) {
   try {
-    // Since automated PnL isn't working yet, return manual loserboard entries
-    console.log("Fetching manual loserboard entries...");
+    const searchParams = req.nextUrl.searchParams;
+    const weekParam = searchParams.get('week');
 
-    const result = await query(
-      `SELECT
-        id,
-        fid,
-        username,
-        display_name,
-        address,
-        pfp_url,
-        added_at,
-        added_by_fid
-       FROM manual_loserboard_entries
-       ORDER BY added_at DESC`,
-      []
-    );
+    if (weekParam) {
+      const weekOf = new Date(weekParam);
+      if (isNaN(weekOf.getTime())) {
+        return NextResponse.json({ error: 'Invalid week date' }, { status: 400 });
+      }
 
-    // Format entries to match LeaderboardEntry interface
-    const leaderboard: LeaderboardEntry[] = result.rows.map((row, index) => ({
-      rank: index + 1,
-      fid: row.fid || 0,
-      username: row.username || '',
-      display_name: row.display_name || row.username || '',
-      pfpUrl: row.pfp_url || DEFAULT_PFP,
-      address: row.address || '',
-      loss: 0 // Manual entries don't have loss amounts tracked
-    }));
+      const snapshot = await getSnapshotEntries(weekOf);
+      if (!snapshot) {
+        return NextResponse.json({ error: 'No frozen loserboard for that week' }, { status: 404 });
+      }
+      return NextResponse.json(snapshot.entries);
+    }
 
-    console.log(`Returning ${leaderboard.length} manual loserboard entries.`);
+    const daysParam = searchParams.get('days');
+    const days = daysParam ? parseInt(daysParam, 10) : undefined;
+    if (days !== undefined && (isNaN(days) || days < 1 || days > MAX_WINDOW_DAYS)) {
+      return NextResponse.json(
+        { error: `days must be between 1 and ${MAX_WINDOW_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const leaderboard = await generateLeaderboard(getRollingWindow(days));
+
+    console.log(`Returning ${leaderboard.length} loserboard entries.`);
     return NextResponse.json(leaderboard);
   } catch (error) {
     console.error("Error fetching leaderboard:", error);
@@ -44,4 +50,3 @@ export async function GET(req: NextRequest) {
     return NextResponse.json([]);
   }
 }
-
@@ -0,0 +1,22 @@
+// app/api/leaderboard/snapshots/route.ts
+import { NextResponse } from 'next/server';
+import { listSnapshots } from '@/lib/services/leaderboardService';
+
+/**
+ * GET /api/leaderboard/snapshots
+ *
+ * List frozen weekly loserboards, newest first
+ * Read a week's entries with GET /api/leaderboard?week=<weekStart>
+ */
+export async function GET() {
+  try {
+    const snapshots = await listSnapshots();
+    return NextResponse.json({ success: true, snapshots });
+  } catch (error: any) {
+    console.error('Error listing loserboard snapshots:', error);
+    return NextResponse.json(
+      { error: 'Failed to list loserboard snapshots', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/services/authService';
+import {
+  getNotificationPreferences,
+  NotificationRuleError,
+  setNotificationPreference
+} from '@/lib/services/notificationRules';
+
+/**
+ * GET /api/notifications/preferences
+ *
+ * Which notification categories the signed-in user (Quick Auth or SIWE session) gets
+ * (all on unless turned off)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Sign in to see notification settings' }, { status: 401 });
+    }
+
+    return NextResponse.json({ fid: auth.fid, preferences: await getNotificationPreferences(auth.fid) });
+  } catch (error: any) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/notifications/preferences
+ *
+ * Turn a category on or off for the signed-in user (Quick Auth or SIWE session)
+ *
+ * Request body:
+ * {
+ *   category: string,  // contest_open, contest_closing, loserboard, indexing_complete, vote_won, eligibility_lost
+ *   enabled: boolean
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Sign in to change notification settings' }, { status: 401 });
+    }
+
+    const { category, enabled } = await request.json();
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be true or false' }, { status: 400 });
+    }
+
+    const preferences = await setNotificationPreference(auth.fid, category, enabled);
+    return NextResponse.json({ fid: auth.fid, preferences });
+  } catch (error: any) {
+    if (error instanceof NotificationRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences', message: error?.message },
+      { status: 500 }
+    );
+  }
+}
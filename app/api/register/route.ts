@@ -1,41 +1,52 @@
-import { getEligibilityThreshold } from '@/lib/config/eligibility';
-import { getBadTradersBalance } from '@/lib/services/tokenService';
+import { authenticateRequest } from '@/lib/services/authService';
+import { getEligibility } from '@/lib/services/eligibilityService';
 import { registerUser } from '@/lib/services/userService';
 import { NextRequest, NextResponse } from 'next/server';
 
+/**
+ * POST /api/register
+ *
+ * Opt the signed-in Farcaster user (Quick Auth or SIWE session) into the competition
+ * The FID always comes from the credential; a body fid is only accepted when it matches
+ */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Sign in with Farcaster to register' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { fid, walletAddress } = body;
+    const { walletAddress } = body;
 
-    if (!fid || !walletAddress) {
+    if (!walletAddress) {
       return NextResponse.json(
-        { error: 'FID and wallet address are required' },
+        { error: 'Wallet address is required' },
         { status: 400 }
       );
     }
 
-    // Validate eligibility by checking token balance directly via Alchemy
-    // Skip Neynar - we know BadTraders token isn't in Neynar response
-    let balance = 0;
-    try {
-      balance = await getBadTradersBalance(walletAddress);
-    } catch (error) {
-      console.error('Error checking token balance:', error);
-      // Still allow registration, but mark as ineligible
-      balance = 0;
+    if (body.fid !== undefined && body.fid !== null && parseInt(body.fid, 10) !== auth.fid) {
+      return NextResponse.json(
+        { error: 'FID does not match the signed-in user' },
+        { status: 403 }
+      );
     }
 
-    // FID present = Farcaster user = 1M threshold, otherwise 2M for website
-    const threshold = getEligibilityThreshold(!!fid);
-    const isEligible = balance >= threshold;
+    const fid = auth.fid;
+
+    // Validate eligibility across the user's linked wallets and LP positions (balances via Alchemy)
+    // Farcaster users get the 1M threshold
+    const eligibility = await getEligibility(walletAddress, 'register', { fid });
+    const { total: balance, threshold, isEligible } = eligibility;
 
     if (!isEligible) {
       return NextResponse.json(
         {
-          error: `Not eligible. You must hold at least ${threshold.toLocaleString()} $BADTRADERS tokens to register.${!fid ? ' Join Farcaster to lower the requirement to 1,000,000 tokens!' : ''}`,
+          error: `Not eligible. You must hold at least ${threshold.toLocaleString()} $BADTRADERS tokens to register.`,
           balance,
-          threshold
+          threshold,
+          breakdown: eligibility.items
         },
         { status: 403 }
       );
@@ -47,7 +58,7 @@ export async function POST(request: NextRequest) {
 
     // Register the user
     const user = await registerUser(
-      parseInt(fid, 10),
+      fid,
       walletAddress,
       username,
       isEligible
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseWalletLink } from '@/lib/utils/walletLink';
+import { enqueueWalletBackfill } from '@/lib/services/jobHandlers';
+import {
+  getIdentityWallets,
+  getWalletFid,
+  IdentityError,
+  linkWallet,
+  syncFarcasterWallets
+} from '@/lib/services/identityService';
+
+/**
+ * GET /api/users/wallets?fid=123 (or ?address=0x...)
+ *
+ * List the wallets on a Farcaster user's identity, refreshing its Neynar-verified addresses first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const fidParam = searchParams.get('fid');
+    const addressParam = searchParams.get('address');
+
+    let fid: number | null = null;
+    if (fidParam) {
+      fid = parseInt(fidParam, 10);
+      if (isNaN(fid) || fid < 1) {
+        return NextResponse.json({ error: 'Invalid FID parameter' }, { status: 400 });
+      }
+    } else if (addressParam) {
+      if (!/^0x[a-fA-F0-9]{40}$/.test(addressParam)) {
+        return NextResponse.json({ error: 'Invalid Ethereum address format' }, { status: 400 });
+      }
+      fid = await getWalletFid(addressParam);
+      if (fid === null) {
+        return NextResponse.json({ fid: null, wallets: [] });
+      }
+    } else {
+      return NextResponse.json({ error: 'Either fid or address parameter is required' }, { status: 400 });
+    }
+
+    let wallets;
+    try {
+      wallets = await syncFarcasterWallets(fid);
+    } catch (error) {
+      console.warn(`Error syncing Farcaster wallets for FID ${fid}:`, error);
+      wallets = await getIdentityWallets(fid);
+    }
+
+    return NextResponse.json({ fid, wallets });
+  } catch (error: any) {
+    console.error('Error listing identity wallets:', error);
+    return NextResponse.json(
+      { error: 'Failed to list wallets', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users/wallets
+ *
+ * Link a wallet (e.g. one not verified on Farcaster) to a user's identity
+ * Both the new wallet and a wallet already on the identity sign the same link. Open contest
+ * registrations of the identity are backfilled so the new wallet's trades since the start count.
+ *
+ * Request body:
+ * {
+ *   link: WalletLink,            // see lib/utils/walletLink.ts (fid, wallet, identityWallet, issuedAt)
+ *   walletSignature: string,     // EIP-712 signature of the link by link.wallet
+ *   identitySignature: string    // EIP-712 signature of the link by link.identityWallet
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const link = parseWalletLink(body.link);
+    const { walletSignature, identitySignature } = body;
+
+    if (!link || typeof walletSignature !== 'string' || typeof identitySignature !== 'string') {
+      return NextResponse.json(
+        { error: 'A wallet link signed by both wallets is required' },
+        { status: 400 }
+      );
+    }
+
+    const wallets = await linkWallet(link, walletSignature, identitySignature);
+
+    // Open contests only re-index new blocks; pick up the new wallet's earlier trades in the window
+    await enqueueWalletBackfill(link.fid, link.wallet);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Wallet linked',
+      fid: link.fid,
+      wallets
+    });
+
+  } catch (error: any) {
+    if (error instanceof IdentityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error linking wallet:', error);
+    return NextResponse.json(
+      { error: 'Failed to link wallet', message: error.message },
+      { status: 500 }
+    );
+  }
+}
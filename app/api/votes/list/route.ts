@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db/connection';
+import { getVotingTallies } from '@/lib/services/votingService';
 
 /**
  * GET /api/votes/list
  *
- * Get current active voting period and options
+ * Get current active voting period and options with their tallies
+ * voteWeight equals voteCount unless the period weights votes by balance
  */
 export async function GET(request: NextRequest) {
   try {
@@ -26,29 +28,8 @@ export async function GET(request: NextRequest) {
 
     const period = periodResult.rows[0];
 
-    // Get voting options for this period
-    const optionsResult = await query(
-      `SELECT
-        id,
-        token_address,
-        token_symbol,
-        token_name,
-        description,
-        vote_count
-      FROM voting_options
-      WHERE voting_period_id = $1
-      ORDER BY vote_count DESC, token_symbol ASC`,
-      [period.id]
-    );
-
-    const options = optionsResult.rows.map(row => ({
-      id: row.id,
-      tokenAddress: row.token_address,
-      tokenSymbol: row.token_symbol,
-      tokenName: row.token_name,
-      description: row.description,
-      voteCount: parseInt(row.vote_count, 10)
-    }));
+    // Tallies are derived from the recorded votes
+    const options = await getVotingTallies(period.id);
 
     return NextResponse.json({
       success: true,
@@ -57,10 +38,12 @@ export async function GET(request: NextRequest) {
         id: period.id,
         startDate: period.start_date,
         endDate: period.end_date,
-        status: period.status
+        status: period.status,
+        weighting: period.weighting
       },
       options,
-      totalVotes: options.reduce((sum, opt) => sum + opt.voteCount, 0)
+      totalVotes: options.reduce((sum, opt) => sum + opt.voteCount, 0),
+      totalWeight: options.reduce((sum, opt) => sum + opt.voteWeight, 0)
     });
 
   } catch (error: any) {
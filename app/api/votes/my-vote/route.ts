@@ -64,6 +64,7 @@ export async function GET(request: NextRequest) {
         tokenAddress: vote.token_address,
         tokenSymbol: vote.token_symbol,
         tokenName: vote.token_name,
+        weight: parseFloat(vote.weight),
         votedAt: vote.voted_at
       }
     });
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseNomination } from '@/lib/utils/ballot';
+import { getWalletNomination, NominationError, submitNomination } from '@/lib/services/nominationService';
+
+const MAX_REASON_LENGTH = 280;
+
+/**
+ * POST /api/votes/nominate
+ *
+ * Nominate a token for the next voting period (registered holders, one open nomination per wallet)
+ * The token must be an ERC-20 on Base with a DEX pool of minimum liquidity; admins review nominations
+ * before they are added to the ballot
+ *
+ * Request body:
+ * {
+ *   nomination: Nomination, // see lib/utils/ballot.ts (tokenAddress, nominator, issuedAt)
+ *   signature: string,      // EIP-712 signature of the nomination
+ *   reason?: string         // Why this token (shown as the option description)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const nomination = parseNomination(body.nomination);
+    const { signature } = body;
+    const reason = typeof body.reason === 'string' && body.reason.trim()
+      ? body.reason.trim().slice(0, MAX_REASON_LENGTH)
+      : null;
+
+    if (!nomination || !signature || typeof signature !== 'string') {
+      return NextResponse.json(
+        { error: 'A signed nomination is required' },
+        { status: 400 }
+      );
+    }
+
+    const created = await submitNomination(nomination, signature, reason);
+
+    return NextResponse.json({
+      success: true,
+      message: `${created.tokenSymbol} nominated - it will be on the next ballot once approved`,
+      nomination: created
+    }, { status: 201 });
+
+  } catch (error: any) {
+    if (error instanceof NominationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error submitting nomination:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit nomination', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/votes/nominate?walletAddress=0x...
+ *
+ * The wallet's latest nomination and its review status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const walletAddress = request.nextUrl.searchParams.get('walletAddress');
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { error: 'walletAddress is required' },
+        { status: 400 }
+      );
+    }
+
+    const nomination = await getWalletNomination(walletAddress);
+
+    return NextResponse.json({ success: true, nomination });
+  } catch (error: any) {
+    console.error('Error fetching nomination:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch nomination', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -41,9 +41,15 @@ export default function ComingNextPage() {
                 through some of the most volatile periods.
               </p>
               <p>
-                <span className="font-bold text-primary">Vote on weeks</span> to replay, choose
-                which tokens to assess, and compete against historical data to see if you can
-                trade worse than the legends who came before you. 😂
+                <span className="font-bold text-primary">Replays are live:</span> enter a replay contest
+                and your real trades from that past week are scored against everyone else's. See how each
+                replayed week stacks up on the{' '}
+                <Link href="/contests/replays" className="underline hover:text-primary/80">Historical Bad Weeks page</Link>.
+              </p>
+              <p>
+                Next up: <span className="font-bold text-primary">vote on weeks</span> to replay and
+                compete against historical data to see if you can trade worse than the legends who came
+                before you. 😂
               </p>
             </div>
           </Card>
@@ -2,10 +2,17 @@
 
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import ContestResults from '@/components/contests/ContestResults';
+import LinkedWallets from '@/components/contests/LinkedWallets';
+import NominateToken from '@/components/contests/NominateToken';
+import NotificationSettings from '@/components/contests/NotificationSettings';
+import PnLChart from '@/components/contests/PnLChart';
 import { CONTEST_ELIGIBILITY_THRESHOLD } from '@/lib/config/eligibility';
 import { useFarcasterContext } from '@/lib/hooks/useFarcasterContext';
+import { BALLOT_DOMAIN, BALLOT_TYPES, buildBallot } from '@/lib/utils/ballot';
 import { sdk } from '@farcaster/miniapp-sdk';
 import { ethers } from 'ethers';
+import Link from 'next/link';
 import { useEffect, useRef, useState } from 'react';
 
 interface Contest {
@@ -15,6 +22,8 @@ interface Contest {
   startDate: string;
   endDate: string;
   status: string;
+  mode: 'live' | 'replay';
+  registrationEndsAt: string | null;
   tokenName?: string | null;
   tokenLogo?: string | null;
 }
@@ -23,7 +32,12 @@ interface Position {
   rank: number;
   totalParticipants: number;
   pnl: number;
-  status: 'indexing' | 'indexed';
+  pnlUpdatedAt?: string | null;
+  status: 'queued' | 'indexing' | 'indexed' | 'failed';
+  error?: string | null;
+  attempts?: number | null;
+  maxAttempts?: number | null;
+  nextAttemptAt?: string | null;
 }
 
 interface VotingOption {
@@ -33,6 +47,7 @@ interface VotingOption {
   tokenName: string | null;
   description: string | null;
   voteCount: number;
+  voteWeight: number;
 }
 
 interface VotingPeriod {
@@ -40,6 +55,7 @@ interface VotingPeriod {
   startDate: string;
   endDate: string;
   status: string;
+  weighting: 'equal' | 'balance';
 }
 
 export default function ContestsPage() {
@@ -60,6 +76,7 @@ export default function ContestsPage() {
   const [votingPeriod, setVotingPeriod] = useState<VotingPeriod | null>(null);
   const [votingOptions, setVotingOptions] = useState<VotingOption[]>([]);
   const [totalVotes, setTotalVotes] = useState(0);
+  const [totalWeight, setTotalWeight] = useState(0);
   const [myVote, setMyVote] = useState<number | null>(null);
   const [isVoting, setIsVoting] = useState(false);
   const [isLoadingVoting, setIsLoadingVoting] = useState(true);
@@ -77,10 +94,12 @@ export default function ContestsPage() {
     }
   }, [walletAddress, currentFid, votingPeriod]);
 
-  // Load position when contest or wallet changes
+  // Load position when contest or wallet changes, then keep it live (PnL is refreshed server-side on a schedule)
   useEffect(() => {
     if (selectedContest && walletAddress) {
       loadPosition();
+      const interval = setInterval(loadPosition, 60 * 1000);
+      return () => clearInterval(interval);
     }
   }, [selectedContest, walletAddress]);
 
@@ -211,6 +230,7 @@ export default function ContestsPage() {
         setVotingPeriod(data.votingPeriod);
         setVotingOptions(data.options);
         setTotalVotes(data.totalVotes);
+        setTotalWeight(data.totalWeight);
       }
     } catch (error) {
       console.error('Error loading voting data:', error);
@@ -240,8 +260,8 @@ export default function ContestsPage() {
     }
   };
 
-  const submitVote = async (optionId: number) => {
-    if (!walletAddress && !currentFid) {
+  const submitVote = async (option: VotingOption) => {
+    if (!votingPeriod || (!walletAddress && !currentFid)) {
       setMessage({ type: 'error', text: 'Please connect your wallet or log in with Farcaster' });
       return;
     }
@@ -250,21 +270,36 @@ export default function ContestsPage() {
     setMessage(null);
 
     try {
+      let ethereumProvider;
+      if (isInFarcaster) {
+        ethereumProvider = await sdk.wallet.getEthereumProvider();
+      } else if (window.ethereum) {
+        ethereumProvider = window.ethereum;
+      } else {
+        throw new Error('Wallet not connected');
+      }
+
+      // The vote counts for the wallet that signs the ballot
+      const signer = await new ethers.BrowserProvider(ethereumProvider).getSigner();
+      const ballot = buildBallot({
+        votingPeriodId: votingPeriod.id,
+        optionId: option.id,
+        tokenAddress: option.tokenAddress,
+        voter: await signer.getAddress()
+      });
+      const signature = await signer.signTypedData(BALLOT_DOMAIN, BALLOT_TYPES, ballot);
+
       const response = await fetch('/api/votes/vote', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          walletAddress,
-          optionId,
-          fid: currentFid
-        })
+        body: JSON.stringify({ ballot, signature })
       });
 
       const data = await response.json();
 
       if (response.ok) {
         setMessage({ type: 'success', text: data.message || 'Vote submitted successfully!' });
-        setMyVote(optionId);
+        setMyVote(option.id);
         // Reload voting data to update counts
         await loadVotingData();
       } else {
@@ -278,9 +313,9 @@ export default function ContestsPage() {
     }
   };
 
-  const getVotePercentage = (voteCount: number): number => {
-    if (totalVotes === 0) return 0;
-    return Math.round((voteCount / totalVotes) * 100);
+  const getVotePercentage = (voteWeight: number): number => {
+    if (totalWeight === 0) return 0;
+    return Math.round((voteWeight / totalWeight) * 100);
   };
 
   const checkTokenBalance = async () => {
@@ -391,7 +426,7 @@ export default function ContestsPage() {
         // Show success message with clear notification
         setMessage({
           type: 'success',
-          text: `✅ Successfully entered contest! Your wallet is being indexed. This may take a few moments...`
+          text: `✅ Successfully entered contest! Your wallet is queued for indexing. This may take a few moments...`
         });
 
         // Immediately load position to show "indexing" status
@@ -414,6 +449,12 @@ export default function ContestsPage() {
                   text: `🎉 Indexing complete! Your trades have been analyzed. Check your position below.`
                 });
                 await loadPosition(); // Refresh position display
+              } else if (checkData.position?.status === 'failed') {
+                clearInterval(pollInterval);
+                setMessage({
+                  type: 'error',
+                  text: `Indexing failed: ${checkData.position.error || 'Unknown error'}. Enter the contest again to retry.`
+                });
               }
             }
           }, 5000);
@@ -460,7 +501,9 @@ export default function ContestsPage() {
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-sm md:text-base font-bold text-primary uppercase">Vote for Next Token</h3>
               <span className="text-xs text-muted-foreground">
-                Ends: {new Date(votingPeriod.endDate).toLocaleDateString()}
+                {totalVotes} vote{totalVotes === 1 ? '' : 's'}
+                {votingPeriod.weighting === 'balance' && ' · weighted by balance'}
+                {' · '}Ends: {new Date(votingPeriod.endDate).toLocaleDateString()}
               </span>
             </div>
             <div className="flex gap-2 overflow-x-auto pb-2">
@@ -469,7 +512,7 @@ export default function ContestsPage() {
                 return (
                   <button
                     key={option.id}
-                    onClick={() => submitVote(option.id)}
+                    onClick={() => submitVote(option)}
                     disabled={isVoting || (!walletAddress && !currentFid)}
                     className={`flex-shrink-0 px-3 py-1.5 text-xs font-bold border-2 rounded transition-all ${
                       isMyVote
@@ -478,7 +521,8 @@ export default function ContestsPage() {
                     }`}
                   >
                     {isMyVote ? '✓ ' : ''}
-                    {option.tokenSymbol || option.tokenAddress.slice(0, 6)}... ({option.voteCount})
+                    {option.tokenSymbol || option.tokenAddress.slice(0, 6)}... (
+                    {votingPeriod.weighting === 'balance' ? `${getVotePercentage(option.voteWeight)}%` : option.voteCount})
                   </button>
                 );
               })}
@@ -486,6 +530,18 @@ export default function ContestsPage() {
           </Card>
         )}
 
+        {walletAddress && (
+          <NominateToken walletAddress={walletAddress} isInFarcaster={isInFarcaster} />
+        )}
+
+        {walletAddress && (
+          <LinkedWallets walletAddress={walletAddress} fid={currentFid} isInFarcaster={isInFarcaster} />
+        )}
+
+        {isInFarcaster && currentFid && (
+          <NotificationSettings fid={currentFid} />
+        )}
+
         {/* Contest Selection */}
         <Card className="p-4 md:p-6 mb-4 md:mb-6 border-4 border-primary">
           <h2 className="text-xl md:text-2xl font-bold mb-3 md:mb-4 text-primary uppercase">Active Contests</h2>
@@ -535,8 +591,14 @@ export default function ContestsPage() {
                             <p className="text-xs text-muted-foreground uppercase">{contest.tokenSymbol}</p>
                           )}
                           <p className="text-xs md:text-sm text-muted-foreground mt-0.5">
+                            {contest.mode === 'replay' && '📼 Replay of '}
                             {new Date(contest.startDate).toLocaleDateString()} - {new Date(contest.endDate).toLocaleDateString()}
                           </p>
+                          {contest.mode === 'replay' && contest.registrationEndsAt && (
+                            <p className="text-xs text-muted-foreground">
+                              Your real trades from that week count · entries close {new Date(contest.registrationEndsAt).toLocaleDateString()}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="flex-shrink-0 flex items-center gap-2">
@@ -557,6 +619,14 @@ export default function ContestsPage() {
           )}
         </Card>
 
+        <ContestResults walletAddress={walletAddress} />
+
+        <p className="text-sm text-center mb-4 md:mb-6">
+          <Link href="/contests/replays" className="text-primary underline hover:text-primary/80">
+            📅 See how replayed bad weeks compare with live ones
+          </Link>
+        </p>
+
         {/* Wallet Connection - Only show for non-Farcaster users */}
         {!walletAddress && !isInFarcaster && (
           <Card className="p-6 mb-6 border-4 border-primary">
@@ -650,12 +720,34 @@ export default function ContestsPage() {
           <Card className="p-4 md:p-6 border-4 border-primary">
             <h2 className="text-xl md:text-2xl font-bold mb-3 md:mb-4 text-primary uppercase">Your Position</h2>
 
-            {position.status === 'indexing' ? (
+            {position.status === 'failed' ? (
               <div className="text-center py-4">
-                <p className="text-base md:text-lg mb-2">⏳ Indexing your trades...</p>
+                <p className="text-base md:text-lg mb-2">❌ Indexing failed</p>
+                <p className="text-xs md:text-sm text-muted-foreground break-words">
+                  {position.error || 'Unknown error'}
+                </p>
+                <Button
+                  onClick={registerForContest}
+                  disabled={isRegistering}
+                  className="mt-4 text-sm md:text-base"
+                >
+                  {isRegistering ? 'Retrying...' : 'Retry Indexing'}
+                </Button>
+              </div>
+            ) : position.status !== 'indexed' ? (
+              <div className="text-center py-4">
+                <p className="text-base md:text-lg mb-2">
+                  {position.status === 'queued' ? '⏳ Queued for indexing...' : '⏳ Indexing your trades...'}
+                </p>
                 <p className="text-xs md:text-sm text-muted-foreground">
                   Fetching your transactions and calculating PnL. This may take a few moments.
                 </p>
+                {position.error && (
+                  <p className="text-xs text-yellow-500 mt-2 break-words">
+                    Last attempt failed ({position.attempts}/{position.maxAttempts}): {position.error}
+                    {position.nextAttemptAt && ` · retrying at ${new Date(position.nextAttemptAt).toLocaleTimeString()}`}
+                  </p>
+                )}
                 <div className="mt-4">
                   <div className="w-full bg-muted h-2 rounded-full overflow-hidden">
                     <div className="h-full bg-primary animate-pulse" style={{ width: '60%' }} />
@@ -680,8 +772,21 @@ export default function ContestsPage() {
                   <p className="text-xs md:text-sm text-muted-foreground">
                     {position.pnl < 0 ? 'You\'re losing! 🎉' : position.pnl > 0 ? 'You\'re winning... 😢' : 'Break even 🤷'}
                   </p>
+                  {position.pnlUpdatedAt && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Updated {new Date(position.pnlUpdatedAt).toLocaleString()}
+                    </p>
+                  )}
                 </div>
 
+                {walletAddress && (
+                  <PnLChart
+                    contestId={selectedContest.id}
+                    walletAddress={walletAddress}
+                    refreshKey={position.pnlUpdatedAt}
+                  />
+                )}
+
                 <Button
                   onClick={() => window.location.href = `/contests/leaderboard?contestId=${selectedContest?.id}`}
                   className="w-full text-sm md:text-base"
@@ -0,0 +1,153 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card } from '@/components/ui/card'
+
+interface ContestSummary {
+  contestId: number
+  mode: 'live' | 'replay'
+  tokenAddress: string
+  tokenSymbol: string | null
+  startDate: string
+  endDate: string
+  participantCount: number
+  rankedCount: number
+  worstPnlUsd: number | null
+  medianPnlUsd: number | null
+  totalPnlUsd: number
+  totalVolumeUsd: number
+  lossRate: number | null
+  biggestLoser: { walletAddress: string; pnlUsd: number } | null
+}
+
+function formatUsd(value: number | null): string {
+  if (value === null) return '—'
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+}
+
+function formatWindow(summary: ContestSummary): string {
+  return `${new Date(summary.startDate).toLocaleDateString()} – ${new Date(summary.endDate).toLocaleDateString()}`
+}
+
+function tokenLabel(summary: ContestSummary): string {
+  return summary.tokenSymbol ? `$${summary.tokenSymbol}` : `${summary.tokenAddress.slice(0, 8)}...`
+}
+
+/**
+ * Historical bad weeks: how a replayed week stacks up against recent live contests
+ */
+export default function ReplaysPage() {
+  const [replay, setReplay] = useState<ContestSummary | null>(null)
+  const [live, setLive] = useState<ContestSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const contestId = new URLSearchParams(window.location.search).get('contestId')
+
+    fetch(`/api/contests/compare${contestId ? `?contestId=${contestId}` : ''}`)
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load replay')
+        }
+        setReplay(data.replay)
+        setLive(data.live)
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const rows = replay ? [replay, ...live] : []
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pt-20">
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <h1 className="text-4xl md:text-6xl font-bold text-primary uppercase tracking-tighter mb-4">
+          Historical Bad Weeks 📅
+        </h1>
+        <p className="text-muted-foreground mb-8">
+          Replays score registered wallets on the trades they actually made in a past week.
+          Here is how the replayed week compares with the latest live contests.
+        </p>
+
+        {loading && <p className="text-muted-foreground">Loading...</p>}
+
+        {error && (
+          <Card className="p-6 border-4 border-primary">
+            <p className="mb-2">{error}</p>
+            <Link href="/contests" className="text-primary underline">Back to contests</Link>
+          </Card>
+        )}
+
+        {replay && (
+          <>
+            <Card className="p-4 md:p-6 mb-6 border-4 border-primary shadow-[8px_8px_0px_0px_rgba(147,51,234,1)]">
+              <h2 className="text-2xl font-bold uppercase text-primary mb-1">
+                Replay: {tokenLabel(replay)}
+              </h2>
+              <p className="text-xs text-muted-foreground mb-4">{formatWindow(replay)} · {replay.participantCount} traders</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs uppercase text-muted-foreground">Worst PnL</p>
+                  <p className="text-xl font-bold font-mono text-red-400">{formatUsd(replay.worstPnlUsd)}</p>
+                </div>
+                <div>
+                  <p className="text-xs uppercase text-muted-foreground">Median PnL</p>
+                  <p className="text-xl font-bold font-mono">{formatUsd(replay.medianPnlUsd)}</p>
+                </div>
+                <div>
+                  <p className="text-xs uppercase text-muted-foreground">Lost money</p>
+                  <p className="text-xl font-bold">{replay.lossRate !== null ? `${Math.round(replay.lossRate * 100)}%` : '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs uppercase text-muted-foreground">Volume</p>
+                  <p className="text-xl font-bold font-mono">{formatUsd(replay.totalVolumeUsd)}</p>
+                </div>
+              </div>
+            </Card>
+
+            <Card className="p-4 md:p-6 border-4 border-primary overflow-x-auto">
+              <h2 className="text-xl font-bold uppercase mb-4">Replay vs Live Weeks</h2>
+              {live.length === 0 && (
+                <p className="text-sm text-muted-foreground mb-4">No live contest has been finalized yet.</p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-muted-foreground">
+                    <th className="py-2 pr-4">Contest</th>
+                    <th className="py-2 pr-4">Week</th>
+                    <th className="py-2 pr-4">Traders</th>
+                    <th className="py-2 pr-4">Worst PnL</th>
+                    <th className="py-2 pr-4">Median PnL</th>
+                    <th className="py-2 pr-4">Total PnL</th>
+                    <th className="py-2">Lost money</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(summary => (
+                    <tr
+                      key={summary.contestId}
+                      className={`border-t border-primary/20 ${summary.mode === 'replay' ? 'font-bold text-primary' : ''}`}
+                    >
+                      <td className="py-2 pr-4">
+                        {summary.mode === 'replay' ? '📼 ' : ''}{tokenLabel(summary)} #{summary.contestId}
+                      </td>
+                      <td className="py-2 pr-4">{formatWindow(summary)}</td>
+                      <td className="py-2 pr-4">{summary.rankedCount}/{summary.participantCount}</td>
+                      <td className="py-2 pr-4 font-mono text-red-400">{formatUsd(summary.worstPnlUsd)}</td>
+                      <td className="py-2 pr-4 font-mono">{formatUsd(summary.medianPnlUsd)}</td>
+                      <td className="py-2 pr-4 font-mono">{formatUsd(summary.totalPnlUsd)}</td>
+                      <td className="py-2">{summary.lossRate !== null ? `${Math.round(summary.lossRate * 100)}%` : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
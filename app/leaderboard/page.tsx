@@ -6,7 +6,7 @@ import Leaderboard from '@/components/leaderboard/Leaderboard';
 import MyStatus from '@/components/leaderboard/MyStatus';
 import { Button } from '@/components/ui/button';
 import { WEBSITE_ELIGIBILITY_THRESHOLD, getEligibilityThreshold } from '@/lib/config/eligibility';
-import { LeaderboardEntry } from '@/types/leaderboard';
+import { LeaderboardEntry, LoserboardSnapshot } from '@/types/leaderboard';
 import { sdk } from '@farcaster/miniapp-sdk';
 import { useCallback, useEffect, useRef, useState } from 'react';
 const BADTRADERS_CONTRACT = '0x0774409Cda69A47f272907fd5D0d80173167BB07';
@@ -14,6 +14,8 @@ const BADTRADERS_CONTRACT = '0x0774409Cda69A47f272907fd5D0d80173167BB07';
 export default function LeaderboardPage() {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [isLoadingLeaderboard, setIsLoadingLeaderboard] = useState<boolean>(true);
+  const [weeks, setWeeks] = useState<LoserboardSnapshot[]>([]);
+  const [selectedWeek, setSelectedWeek] = useState<string | null>(null);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const [userFid, setUserFid] = useState<number | null>(null);
   const [userBalance, setUserBalance] = useState<number>(0);
@@ -163,7 +165,9 @@ export default function LeaderboardPage() {
       setIsLoadingLeaderboard(true);
       setError(null);
       try {
-        const response = await fetch('/api/leaderboard');
+        const response = await fetch(
+          selectedWeek ? `/api/leaderboard?week=${encodeURIComponent(selectedWeek)}` : '/api/leaderboard'
+        );
         if (!response.ok) {
           const errorData = await response.json();
           throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
@@ -178,6 +182,14 @@ export default function LeaderboardPage() {
       }
     };
     loadLeaderboard();
+  }, [selectedWeek]);
+
+  // Frozen past weeks for the week picker
+  useEffect(() => {
+    fetch('/api/leaderboard/snapshots')
+      .then(response => response.ok ? response.json() : { snapshots: [] })
+      .then(data => setWeeks(data.snapshots || []))
+      .catch(() => setWeeks([]));
   }, []);
 
   const handleConnectWallet = useCallback(async () => {
@@ -267,7 +279,13 @@ export default function LeaderboardPage() {
             )}
             <main className="mt-12 grid grid-cols-1 lg:grid-cols-3 gap-8 items-start">
               <div className="lg:col-span-2">
-                <Leaderboard data={leaderboard} isLoading={isLoadingLeaderboard} />
+                <Leaderboard
+                  data={leaderboard}
+                  isLoading={isLoadingLeaderboard}
+                  weeks={weeks}
+                  selectedWeek={selectedWeek}
+                  onWeekChange={setSelectedWeek}
+                />
               </div>
               <div className="flex flex-col gap-8">
                 <MyStatus
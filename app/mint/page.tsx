@@ -31,11 +31,11 @@ export default function MintPage() {
   const loadTokenBalance = useCallback(async (fid: number | null, address: string | null = null) => {
     setIsLoadingBalance(true);
     try {
-      // Prefer FID-based lookup via Neynar API
+      // Prefer FID-based lookup (all linked wallets and LP positions count towards the mint threshold)
       const url = fid
-        ? `/api/token-balance?fid=${fid}`
+        ? `/api/token-balance?fid=${fid}&purpose=mint`
         : address
-          ? `/api/token-balance?address=${address}`
+          ? `/api/token-balance?address=${address}&purpose=mint`
           : null
 
       if (!url) {
@@ -1,23 +1,137 @@
 /**
- * Notification Service using Neynar's managed notification API
+ * Notification Service with pluggable delivery backends
  *
- * Uses Neynar's publishFrameNotifications API - no database needed.
- * Neynar handles all token management, batching, and delivery.
- * According to Neynar docs: https://docs.neynar.com/docs/send-notifications-to-mini-app-users
+ * - native: POSTs to the Farcaster clients directly, using the tokens stored by the webhook
+ *   (see lib/services/notificationDelivery.ts)
+ * - neynar: Neynar's managed publishFrameNotifications API - Neynar keeps the tokens
+ *   According to Neynar docs: https://docs.neynar.com/docs/send-notifications-to-mini-app-users
+ *
+ * NOTIFICATION_BACKEND picks the backend (default: neynar).
  */
 
 import { Configuration, NeynarAPIClient } from '@neynar/nodejs-sdk';
+import type { NotificationDelivery, SendFrameNotificationsResponse } from '@neynar/nodejs-sdk/build/api';
 import { randomUUID } from 'crypto';
+import {
+  deliverNotification,
+  normalizeNotification,
+  NotificationBackendName,
+  NotificationContent,
+  NotificationDeliveryResult
+} from '@/lib/services/notificationDelivery';
+
+export interface NotificationBackend {
+  name: NotificationBackendName;
+  isConfigured(): boolean;
+  send(targetFids: number[], notification: NotificationContent): Promise<NotificationDeliveryResult>;
+}
+
+const nativeBackend: NotificationBackend = {
+  name: 'native',
+  isConfigured: () => !!process.env.DATABASE_URL,
+  send: (targetFids, notification) => deliverNotification(targetFids, notification)
+};
+
+const neynarBackend: NotificationBackend = {
+  name: 'neynar',
+  isConfigured: () => !!process.env.NEYNAR_API_KEY,
+  async send(targetFids, notification) {
+    const content = normalizeNotification(notification);
+
+    try {
+      if (!process.env.NEYNAR_API_KEY) {
+        throw new Error('NEYNAR_API_KEY environment variable is required');
+      }
+
+      const neynarConfig = new Configuration({ apiKey: process.env.NEYNAR_API_KEY });
+      const neynarClient = new NeynarAPIClient(neynarConfig);
+
+      // Prepare request body (SDK will convert targetFids to target_fids)
+      const requestBody = {
+        targetFids: targetFids,
+        notification: {
+          title: content.title,
+          body: content.body,
+          target_url: content.targetUrl,
+          uuid: content.notificationId
+        }
+      };
+
+      console.log('📤 Request body (before SDK conversion):', JSON.stringify(requestBody, null, 2));
+
+      const response: SendFrameNotificationsResponse = await neynarClient.publishFrameNotifications(requestBody);
+
+      console.log(`✅ Notification sent successfully via Neynar`);
+
+      // Neynar reports one delivery per token it tried, so the counts come from their statuses
+      const deliveries: NotificationDelivery[] = response.notification_deliveries ?? [];
+      const withStatus = (...statuses: NotificationDelivery['status'][]) =>
+        deliveries.filter(delivery => statuses.includes(delivery.status));
+
+      return {
+        backend: 'neynar',
+        notificationId: content.notificationId,
+        targeted: targetFids.length,
+        successful: withStatus('success').length,
+        invalid: withStatus('token_not_found', 'token_disabled').length,
+        rateLimited: 0,
+        failed: withStatus('failed').length,
+        skipped: 0,
+        deliveredFids: withStatus('success').map(delivery => Number(delivery.fid))
+      };
+    } catch (error: any) {
+      // Extract full error details for Neynar support
+      const errorDetails = {
+        apiError: {
+          message: error.response?.data?.message || error.message,
+          code: error.response?.data?.code,
+          status: error.response?.status,
+          statusText: error.response?.statusText,
+          errors: error.response?.data?.errors || []
+        },
+        requestSent: {
+          targetFids: targetFids.length === 0 ? '[] (broadcast to all)' : targetFids,
+          notification: content
+        },
+        sdkVersion: '@neynar/nodejs-sdk@3.34.0',
+        clientId: process.env.NEYNAR_CLIENT_ID || 'not-set',
+        domain: 'badtraders.xyz'
+      };
+
+      console.error('❌ Failed to send notifications via Neynar:', errorDetails);
+      console.error('❌ Full error response for Neynar support:', JSON.stringify(errorDetails, null, 2));
+
+      throw error;
+    }
+  }
+};
+
+const BACKENDS: Record<NotificationBackendName, NotificationBackend> = {
+  native: nativeBackend,
+  neynar: neynarBackend
+};
+
+/**
+ * The notification backend to deliver with
+ * @param name Backend name (default: NOTIFICATION_BACKEND, then neynar)
+ */
+export function getNotificationBackend(name: string | undefined = process.env.NOTIFICATION_BACKEND): NotificationBackend {
+  const backend = BACKENDS[(name || 'neynar') as NotificationBackendName];
+  if (!backend) {
+    throw new Error(`Unknown notification backend: ${name} (expected ${Object.keys(BACKENDS).join(' or ')})`);
+  }
+  return backend;
+}
 
 /**
- * Send notification using Neynar's managed notification API
- * Neynar handles all token management - no database needed
+ * Send a notification through the configured backend
  *
  * @param targetFids Array of FIDs to notify (empty array = all users with notifications enabled)
  * @param title Notification title (max 32 chars)
  * @param body Notification body (max 128 chars)
  * @param targetUrl URL to open when clicked (must be same domain as miniapp)
  * @param notificationId Optional UUID for idempotency. If not provided, generates one.
+ *   Sending again with the same id does not notify anyone twice.
  */
 export async function sendNotification(
   targetFids: number[],
@@ -25,72 +139,20 @@ export async function sendNotification(
   body: string,
   targetUrl: string,
   notificationId?: string
-): Promise<void> {
-  // Declare finalUuid outside try block so it's accessible in catch
+): Promise<NotificationDeliveryResult> {
   // Neynar requires a valid UUID format (xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)
   const finalUuid = notificationId || randomUUID();
+  const backend = getNotificationBackend();
 
-  try {
-    if (!process.env.NEYNAR_API_KEY) {
-      throw new Error('NEYNAR_API_KEY environment variable is required');
-    }
-
-    const neynarConfig = new Configuration({ apiKey: process.env.NEYNAR_API_KEY });
-    const neynarClient = new NeynarAPIClient(neynarConfig);
-
-    console.log(`🚀 Sending notifications via Neynar API:`, {
-      targetFids: targetFids.length === 0 ? 'ALL_USERS' : targetFids,
-      title,
-      body,
-      targetUrl,
-      uuid: finalUuid
-    });
-
-    // Prepare request body (SDK will convert targetFids to target_fids)
-    const requestBody = {
-      targetFids: targetFids,
-      notification: {
-        title: title.substring(0, 32),
-        body: body.substring(0, 128),
-        target_url: targetUrl,
-        uuid: finalUuid.substring(0, 128)
-      }
-    };
-
-    console.log('📤 Request body (before SDK conversion):', JSON.stringify(requestBody, null, 2));
-
-    await neynarClient.publishFrameNotifications(requestBody);
-
-    console.log(`✅ Notification sent successfully via Neynar`);
-  } catch (error: any) {
-    // Extract full error details for Neynar support
-    const errorDetails = {
-      apiError: {
-        message: error.response?.data?.message || error.message,
-        code: error.response?.data?.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        errors: error.response?.data?.errors || []
-      },
-      requestSent: {
-        targetFids: targetFids.length === 0 ? '[] (broadcast to all)' : targetFids,
-        notification: {
-          title: title.substring(0, 32),
-          body: body.substring(0, 128),
-          target_url: targetUrl,
-          uuid: finalUuid.substring(0, 128)
-        }
-      },
-      sdkVersion: '@neynar/nodejs-sdk@3.34.0',
-      clientId: process.env.NEYNAR_CLIENT_ID || 'not-set',
-      domain: 'badtraders.xyz'
-    };
-
-    console.error('❌ Failed to send notifications via Neynar:', errorDetails);
-    console.error('❌ Full error response for Neynar support:', JSON.stringify(errorDetails, null, 2));
+  console.log(`🚀 Sending notifications via ${backend.name}:`, {
+    targetFids: targetFids.length === 0 ? 'ALL_USERS' : targetFids,
+    title,
+    body,
+    targetUrl,
+    uuid: finalUuid
+  });
 
-    throw error;
-  }
+  return backend.send(targetFids, { notificationId: finalUuid, title, body, targetUrl });
 }
 
 /**
@@ -107,7 +169,6 @@ export async function broadcastNotification(
   body: string,
   targetUrl: string,
   notificationId?: string
-): Promise<void> {
-  await sendNotification([], title, body, targetUrl, notificationId);
+): Promise<NotificationDeliveryResult> {
+  return sendNotification([], title, body, targetUrl, notificationId);
 }
-
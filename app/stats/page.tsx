@@ -3,6 +3,7 @@
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
+import { useAdminAccess } from "@/lib/hooks/useAdminAccess"
 import { USDC_ADDRESS, WETH_ADDRESS } from "@/lib/utils/constants"
 import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronUp, ExternalLink, Plus, RefreshCw, Terminal, TrendingDown, TrendingUp } from "lucide-react"
 import Link from "next/link"
@@ -129,6 +130,8 @@ type MainTabType = 'contest-data' | 'indexer-analytics'
 export default function StatsPage() {
   // Check if admin mode is enabled via environment variable
   const isAdminMode = process.env.NEXT_PUBLIC_ENABLE_ADMIN_MODE === 'true'
+  // Adding tokens and full syncs need a signed-in indexer operator
+  const { authFetch } = useAdminAccess()
 
   // Main tab: Contest Data or Indexer Analytics
   const [mainTab, setMainTab] = useState<MainTabType>('contest-data')
@@ -268,7 +271,7 @@ export default function StatsPage() {
       )
       if (!hasMainToken) {
         // Silently add it in the background
-        fetch('/api/indexer/tokens', {
+        authFetch('/api/indexer/tokens', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ token_address: MAIN_TOKEN_ADDRESS })
@@ -597,7 +600,7 @@ export default function StatsPage() {
       setIsSyncing(true)
       setError(null)
 
-      const response = await fetch('/api/indexer/sync', {
+      const response = await authFetch('/api/indexer/sync', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -688,7 +691,7 @@ export default function StatsPage() {
       setIsSyncing(true)
       setError(null)
 
-      const response = await fetch('/api/indexer/sync', {
+      const response = await authFetch('/api/indexer/sync', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -1817,7 +1820,7 @@ export default function StatsPage() {
                   {isAdminMode && (
                     <div className="mb-6 p-4 bg-secondary/50 border border-primary rounded">
                       <h3 className="text-lg font-bold uppercase mb-4">Add New Token</h3>
-                      <TokenForm onSuccess={fetchTokens} />
+                      <TokenForm onSuccess={fetchTokens} authFetch={authFetch} />
                     </div>
                   )}
 
@@ -2300,7 +2303,13 @@ function ContestDataTab() {
 }
 
 // Token Form Component
-function TokenForm({ onSuccess }: { onSuccess: () => void }) {
+function TokenForm({
+  onSuccess,
+  authFetch
+}: {
+  onSuccess: () => void
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}) {
   const [tokenAddress, setTokenAddress] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -2313,7 +2322,7 @@ function TokenForm({ onSuccess }: { onSuccess: () => void }) {
     setSuccess(null)
 
     try {
-      const response = await fetch('/api/indexer/tokens', {
+      const response = await authFetch('/api/indexer/tokens', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
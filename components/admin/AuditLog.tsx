@@ -0,0 +1,179 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface AuditEntry {
+  id: number
+  actorFid: number | null
+  authMethod: string
+  action: string
+  targetType: string | null
+  targetId: string | null
+  payload: Record<string, unknown> | null
+  diff: Record<string, { before: unknown; after: unknown }> | null
+  createdAt: string
+}
+
+interface AuditLogProps {
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+const ACTION_FILTERS = [
+  { value: '', label: 'All actions' },
+  { value: 'contest.', label: 'Contests' },
+  { value: 'voting_period.', label: 'Voting periods' },
+  { value: 'nomination.', label: 'Nominations' },
+  { value: 'loserboard.', label: 'Loserboard' },
+  { value: 'notification.', label: 'Notifications' },
+  { value: 'cast.', label: 'Casts' },
+  { value: 'indexer.', label: 'Indexer' },
+  { value: 'tracked_token.', label: 'Tracked tokens' },
+  { value: 'eligibility.', label: 'Eligibility' },
+  { value: 'job.', label: 'Jobs' },
+  { value: 'role.', label: 'Roles' }
+]
+
+const PAGE_SIZE = 25
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Filterable view of admin_audit_log (admin role only)
+ */
+export default function AuditLog({ authFetch }: AuditLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
+  const [actionFilter, setActionFilter] = useState('')
+  const [actorFidFilter, setActorFidFilter] = useState('')
+  const [sinceFilter, setSinceFilter] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) })
+      if (actionFilter) params.set('action', actionFilter)
+      if (actorFidFilter.trim()) params.set('actorFid', actorFidFilter.trim())
+      if (sinceFilter) params.set('since', new Date(sinceFilter).toISOString())
+
+      const response = await authFetch(`/api/admin/audit?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load audit log')
+      }
+
+      setEntries(data.entries || [])
+      setTotal(data.total || 0)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load audit log')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, page, actionFilter, actorFidFilter, sinceFilter])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-2xl font-bold mb-4 text-primary uppercase">Audit Log</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        <select
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          value={actionFilter}
+          onChange={(e) => { setPage(0); setActionFilter(e.target.value) }}
+        >
+          {ACTION_FILTERS.map(filter => (
+            <option key={filter.value} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <Input
+          type="text"
+          value={actorFidFilter}
+          onChange={(e) => { setPage(0); setActorFidFilter(e.target.value) }}
+          placeholder="Actor FID"
+        />
+        <Input
+          type="date"
+          value={sinceFilter}
+          onChange={(e) => { setPage(0); setSinceFilter(e.target.value) }}
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md mb-4 bg-red-500/20 text-red-500">{error}</div>
+      )}
+
+      {isLoading ? (
+        <p className="text-center">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-center text-muted-foreground">No matching admin actions.</p>
+      ) : (
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {entries.map(entry => (
+            <div key={entry.id} className="p-3 border rounded-md text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-mono font-bold">{entry.action}</span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {entry.actorFid !== null ? `FID ${entry.actorFid}` : 'cron'} via {entry.authMethod}
+                {entry.targetType && ` · ${entry.targetType}${entry.targetId ? ` ${entry.targetId}` : ''}`}
+              </p>
+              {entry.diff && Object.keys(entry.diff).length > 0 && (
+                <table className="mt-2 w-full text-xs font-mono">
+                  <tbody>
+                    {Object.entries(entry.diff).map(([field, change]) => (
+                      <tr key={field}>
+                        <td className="pr-2 text-muted-foreground">{field}</td>
+                        <td className="pr-2 text-red-400 break-all">{formatValue(change.before)}</td>
+                        <td className="text-green-400 break-all">{formatValue(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {entry.payload && (
+                <details className="mt-2">
+                  <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
+                    Show payload
+                  </summary>
+                  <pre className="mt-2 text-xs text-muted-foreground font-mono bg-black/20 p-2 rounded overflow-x-auto">
+                    {JSON.stringify(entry.payload, null, 2)}
+                  </pre>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4">
+        <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+          Previous
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Page {page + 1} of {totalPages} ({total} actions)
+        </span>
+        <Button variant="outline" size="sm" disabled={page + 1 >= totalPages} onClick={() => setPage(page + 1)}>
+          Next
+        </Button>
+      </div>
+    </Card>
+  )
+}
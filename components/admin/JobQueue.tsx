@@ -0,0 +1,182 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+
+interface QueueJob {
+  id: number
+  type: string
+  payload: Record<string, unknown>
+  status: 'pending' | 'running' | 'succeeded' | 'dead'
+  attempts: number
+  maxAttempts: number
+  runAt: string
+  lastError: string | null
+  result: Record<string, unknown> | null
+  createdAt: string
+  completedAt: string | null
+}
+
+interface QueueStat {
+  type: string
+  status: string
+  count: number
+}
+
+interface JobQueueProps {
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+const STATUS_FILTERS = ['', 'pending', 'running', 'succeeded', 'dead']
+
+const STATUS_STYLES: Record<QueueJob['status'], string> = {
+  pending: 'text-yellow-400',
+  running: 'text-blue-400',
+  succeeded: 'text-green-400',
+  dead: 'text-red-400'
+}
+
+/**
+ * Background job queue: counts per type/status, recent jobs, and retry for dead jobs (indexer_operator role)
+ */
+export default function JobQueue({ authFetch }: JobQueueProps) {
+  const [jobs, setJobs] = useState<QueueJob[]>([])
+  const [stats, setStats] = useState<QueueStat[]>([])
+  const [statusFilter, setStatusFilter] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [retryingId, setRetryingId] = useState<number | null>(null)
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: '50' })
+      if (statusFilter) params.set('status', statusFilter)
+
+      const response = await authFetch(`/api/admin/jobs?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load jobs')
+      }
+
+      setJobs(data.jobs || [])
+      setStats(data.stats || [])
+    } catch (err: any) {
+      setError(err.message || 'Failed to load jobs')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, statusFilter])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs])
+
+  const handleRetry = async (jobId: number) => {
+    setRetryingId(jobId)
+    try {
+      const response = await authFetch('/api/admin/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry job')
+      }
+      await loadJobs()
+    } catch (err: any) {
+      setError(err.message || 'Failed to retry job')
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-primary uppercase">Job Queue</h2>
+        <Button variant="outline" size="sm" onClick={loadJobs} disabled={isLoading}>
+          Refresh
+        </Button>
+      </div>
+
+      {stats.length > 0 && (
+        <table className="w-full text-xs font-mono mb-4">
+          <tbody>
+            {stats.map(stat => (
+              <tr key={`${stat.type}-${stat.status}`}>
+                <td className="pr-2">{stat.type}</td>
+                <td className={`pr-2 ${STATUS_STYLES[stat.status as QueueJob['status']] || ''}`}>{stat.status}</td>
+                <td className="text-right">{stat.count}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <select
+        className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm mb-4"
+        value={statusFilter}
+        onChange={(e) => setStatusFilter(e.target.value)}
+      >
+        {STATUS_FILTERS.map(status => (
+          <option key={status} value={status}>{status || 'All statuses'}</option>
+        ))}
+      </select>
+
+      {error && (
+        <div className="p-3 rounded-md mb-4 bg-red-500/20 text-red-500">{error}</div>
+      )}
+
+      {isLoading ? (
+        <p className="text-center">Loading...</p>
+      ) : jobs.length === 0 ? (
+        <p className="text-center text-muted-foreground">No jobs.</p>
+      ) : (
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {jobs.map(job => (
+            <div key={job.id} className="p-3 border rounded-md text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-mono font-bold">#{job.id} {job.type}</span>
+                <span className={`text-xs font-bold uppercase ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Attempt {job.attempts}/{job.maxAttempts} · created {new Date(job.createdAt).toLocaleString()}
+                {job.status === 'pending' && ` · next run ${new Date(job.runAt).toLocaleString()}`}
+                {job.completedAt && ` · finished ${new Date(job.completedAt).toLocaleString()}`}
+              </p>
+              <p className="text-xs font-mono text-muted-foreground mt-1 break-all">{JSON.stringify(job.payload)}</p>
+              {job.lastError && (
+                <p className="text-xs text-red-400 mt-1 break-words">{job.lastError}</p>
+              )}
+              {job.result && (
+                <details className="mt-2">
+                  <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
+                    Show result
+                  </summary>
+                  <pre className="mt-2 text-xs text-muted-foreground font-mono bg-black/20 p-2 rounded overflow-x-auto">
+                    {JSON.stringify(job.result, null, 2)}
+                  </pre>
+                </details>
+              )}
+              {job.status === 'dead' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2"
+                  disabled={retryingId === job.id}
+                  onClick={() => handleRetry(job.id)}
+                >
+                  {retryingId === job.id ? 'Retrying...' : 'Retry'}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
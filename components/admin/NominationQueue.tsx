@@ -0,0 +1,164 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+
+interface TokenNomination {
+  id: number
+  tokenAddress: string
+  tokenSymbol: string | null
+  tokenName: string | null
+  reason: string | null
+  nominatorWallet: string
+  nominatorFid: number | null
+  poolAddress: string | null
+  liquidityUsd: number
+  status: 'pending' | 'approved' | 'rejected' | 'used'
+  reviewNote: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+interface NominationQueueProps {
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+const STATUS_FILTERS: TokenNomination['status'][] = ['pending', 'approved', 'rejected', 'used']
+
+/**
+ * Moderation queue for community token nominations (contest_manager role)
+ * Approved nominations are added to the ballot when the next voting period is created
+ */
+export default function NominationQueue({ authFetch }: NominationQueueProps) {
+  const [nominations, setNominations] = useState<TokenNomination[]>([])
+  const [statusFilter, setStatusFilter] = useState<TokenNomination['status']>('pending')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reviewingId, setReviewingId] = useState<number | null>(null)
+
+  const loadNominations = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await authFetch(`/api/admin/votes/nominations?status=${statusFilter}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load nominations')
+      }
+      setNominations(data.nominations || [])
+    } catch (err: any) {
+      setError(err.message || 'Failed to load nominations')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, statusFilter])
+
+  useEffect(() => {
+    loadNominations()
+  }, [loadNominations])
+
+  const handleReview = async (nomination: TokenNomination, decision: 'approve' | 'reject') => {
+    let note: string | null = null
+    if (decision === 'reject') {
+      note = prompt(`Why is ${nomination.tokenSymbol || nomination.tokenAddress} rejected? (optional)`)
+      if (note === null) return
+    }
+
+    setReviewingId(nomination.id)
+    try {
+      const response = await authFetch('/api/admin/votes/nominations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nominationId: nomination.id, decision, note })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to review nomination')
+      }
+      await loadNominations()
+    } catch (err: any) {
+      setError(err.message || 'Failed to review nomination')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  return (
+    <Card className="p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-primary uppercase">Token Nominations</h2>
+        <Button variant="outline" size="sm" onClick={loadNominations} disabled={isLoading}>
+          Refresh
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Tokens nominated by holders. Approved tokens are added to the next voting period.
+      </p>
+
+      <select
+        className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm mb-4"
+        value={statusFilter}
+        onChange={(e) => setStatusFilter(e.target.value as TokenNomination['status'])}
+      >
+        {STATUS_FILTERS.map(status => (
+          <option key={status} value={status}>{status}</option>
+        ))}
+      </select>
+
+      {error && (
+        <div className="p-3 rounded-md mb-4 bg-red-500/20 text-red-500">{error}</div>
+      )}
+
+      {isLoading ? (
+        <p className="text-center">Loading...</p>
+      ) : nominations.length === 0 ? (
+        <p className="text-center text-muted-foreground">No {statusFilter} nominations.</p>
+      ) : (
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {nominations.map(nomination => (
+            <div key={nomination.id} className="p-3 border rounded-md text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-bold">
+                  ${nomination.tokenSymbol}{nomination.tokenName && ` · ${nomination.tokenName}`}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  ${Math.round(nomination.liquidityUsd).toLocaleString()} liquidity
+                </span>
+              </div>
+              <p className="text-xs font-mono text-muted-foreground mt-1 break-all">{nomination.tokenAddress}</p>
+              {nomination.reason && (
+                <p className="text-xs mt-1 break-words">&ldquo;{nomination.reason}&rdquo;</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-1">
+                By {nomination.nominatorFid ? `FID ${nomination.nominatorFid}` : nomination.nominatorWallet} · {new Date(nomination.createdAt).toLocaleString()}
+              </p>
+              {nomination.reviewNote && (
+                <p className="text-xs text-muted-foreground mt-1">Note: {nomination.reviewNote}</p>
+              )}
+              {nomination.status === 'pending' && (
+                <div className="flex gap-2 mt-2">
+                  <Button
+                    size="sm"
+                    disabled={reviewingId === nomination.id}
+                    onClick={() => handleReview(nomination, 'approve')}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={reviewingId === nomination.id}
+                    onClick={() => handleReview(nomination, 'reject')}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,275 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+type SegmentType = 'registered' | 'contest_participants' | 'voters' | 'holders' | 'bag_holders'
+
+interface Campaign {
+  id: number
+  title: string
+  body: string
+  targetUrl: string
+  segment: { type: SegmentType; contestId?: number; votingPeriodId?: number; minBalance?: number }
+  status: 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed'
+  scheduledFor: string
+  stats: {
+    audienceSize: number | null
+    sentCount: number
+    successful: number
+    invalid: number
+    rateLimited: number
+    failed: number
+    skipped: number
+  }
+  error: string | null
+}
+
+interface NotificationCampaignsProps {
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+// Segment types and the parameter each one needs
+const SEGMENTS: Array<{ type: SegmentType; label: string; param?: 'contestId' | 'votingPeriodId' | 'minBalance' }> = [
+  { type: 'registered', label: 'Registered users' },
+  { type: 'contest_participants', label: "A contest's participants", param: 'contestId' },
+  { type: 'voters', label: 'Voters in a period', param: 'votingPeriodId' },
+  { type: 'holders', label: 'Holders above X tokens', param: 'minBalance' },
+  { type: 'bag_holders', label: 'Bag NFT holders' }
+]
+
+const PARAM_LABELS = { contestId: 'Contest id', votingPeriodId: 'Voting period id', minBalance: 'Minimum $BADTRADERS' }
+
+function describeSegment(segment: Campaign['segment']): string {
+  const label = SEGMENTS.find(option => option.type === segment.type)?.label ?? segment.type
+  const value = segment.contestId ?? segment.votingPeriodId ?? segment.minBalance
+  return value !== undefined ? `${label}: ${value.toLocaleString()}` : label
+}
+
+/**
+ * Notification campaigns (notifier role): write a message for a segment, check the audience size,
+ * schedule it, and follow its delivery stats
+ */
+export default function NotificationCampaigns({ authFetch }: NotificationCampaignsProps) {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [targetUrl, setTargetUrl] = useState('')
+  const [segmentType, setSegmentType] = useState<SegmentType>('registered')
+  const [segmentParam, setSegmentParam] = useState('')
+  const [scheduledFor, setScheduledFor] = useState('')
+  const [audience, setAudience] = useState<{ size: number; sample: number[]; upperBound: boolean } | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const param = SEGMENTS.find(option => option.type === segmentType)?.param
+
+  const loadCampaigns = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/admin/notifications/campaigns')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load campaigns')
+      }
+      setCampaigns(data.campaigns || [])
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to load campaigns' })
+    }
+  }, [authFetch])
+
+  useEffect(() => {
+    loadCampaigns()
+  }, [loadCampaigns])
+
+  const buildSegment = () => (param ? { type: segmentType, [param]: Number(segmentParam) } : { type: segmentType })
+
+  const post = async (url: string, payload: unknown) => {
+    const response = await authFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Request failed')
+    }
+    return data
+  }
+
+  const handlePreview = async () => {
+    setIsBusy(true)
+    setMessage(null)
+    setAudience(null)
+    try {
+      const data = await post('/api/admin/notifications/campaigns/preview', { segment: buildSegment() })
+      setAudience({ size: data.size, sample: data.sample, upperBound: data.upperBound })
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleSchedule = async () => {
+    setIsBusy(true)
+    setMessage(null)
+    try {
+      const data = await post('/api/admin/notifications/campaigns', {
+        title,
+        body,
+        targetUrl: targetUrl || undefined,
+        segment: buildSegment(),
+        scheduledFor: scheduledFor ? new Date(scheduledFor).toISOString() : undefined
+      })
+      setMessage({
+        type: 'success',
+        text: `Campaign #${data.campaign.id} scheduled for ${new Date(data.campaign.scheduledFor).toLocaleString()}`
+      })
+      setTitle('')
+      setBody('')
+      setAudience(null)
+      await loadCampaigns()
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCancel = async (campaign: Campaign) => {
+    if (!confirm(`Cancel campaign #${campaign.id} "${campaign.title}"?`)) return
+    try {
+      await post('/api/admin/notifications/campaigns/cancel', { campaignId: campaign.id })
+      await loadCampaigns()
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message })
+    }
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-primary uppercase">Notification Campaigns</h2>
+        <Button variant="outline" size="sm" onClick={loadCampaigns}>
+          Refresh
+        </Button>
+      </div>
+
+      <div className="space-y-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium mb-2">Title ({title.length}/32)</label>
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} maxLength={32} placeholder="Campaign title" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Body ({body.length}/128)</label>
+          <textarea
+            className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={128}
+            rows={3}
+            placeholder="Campaign body"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">URL (optional, defaults to the app)</label>
+          <Input value={targetUrl} onChange={(e) => setTargetUrl(e.target.value)} placeholder="https://badtraders.xyz/contests" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Segment</label>
+          <select
+            className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+            value={segmentType}
+            onChange={(e) => {
+              setSegmentType(e.target.value as SegmentType)
+              setSegmentParam('')
+              setAudience(null)
+            }}
+          >
+            {SEGMENTS.map(option => (
+              <option key={option.type} value={option.type}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {param && (
+          <div>
+            <label className="block text-sm font-medium mb-2">{PARAM_LABELS[param]}</label>
+            <Input type="number" value={segmentParam} onChange={(e) => setSegmentParam(e.target.value)} />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium mb-2">Send at (empty = next cron run)</label>
+          <Input type="datetime-local" value={scheduledFor} onChange={(e) => setScheduledFor(e.target.value)} />
+        </div>
+
+        {audience && (
+          <p className="text-sm">
+            {audience.upperBound ? 'Up to ' : 'Reaches '}
+            <span className="font-bold">{audience.size.toLocaleString()}</span> FID(s) right now
+            {audience.upperBound && (
+              <span className="text-muted-foreground"> (identities with a linked wallet; balances are read when sending starts)</span>
+            )}
+            {audience.sample.length > 0 && (
+              <span className="text-muted-foreground"> (e.g. {audience.sample.slice(0, 5).join(', ')})</span>
+            )}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={handlePreview} disabled={isBusy}>
+            Preview audience
+          </Button>
+          <Button className="flex-1" onClick={handleSchedule} disabled={isBusy || !title.trim() || !body.trim()}>
+            Schedule
+          </Button>
+        </div>
+
+        {message && (
+          <div
+            className={`p-3 rounded-md ${
+              message.type === 'success'
+                ? 'bg-green-500/20 text-green-400 border border-green-500/50'
+                : 'bg-red-500/20 text-red-400 border border-red-500/50'
+            }`}
+          >
+            <p className="text-sm font-medium">{message.text}</p>
+          </div>
+        )}
+      </div>
+
+      {campaigns.length === 0 ? (
+        <p className="text-center text-muted-foreground">No campaigns yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {campaigns.map(campaign => (
+            <div key={campaign.id} className="p-3 border rounded-md text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-bold">#{campaign.id} {campaign.title}</span>
+                <span className="text-xs uppercase text-muted-foreground">{campaign.status}</span>
+              </div>
+              <p className="text-xs mt-1 break-words">{campaign.body}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {describeSegment(campaign.segment)} · {new Date(campaign.scheduledFor).toLocaleString()}
+              </p>
+              {campaign.stats.audienceSize !== null && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {campaign.stats.sentCount}/{campaign.stats.audienceSize} sent · {campaign.stats.successful} delivered ·{' '}
+                  {campaign.stats.failed} failed · {campaign.stats.rateLimited} rate limited · {campaign.stats.invalid} invalid ·{' '}
+                  {campaign.stats.skipped} skipped
+                </p>
+              )}
+              {campaign.error && <p className="text-xs text-red-400 mt-1">{campaign.error}</p>}
+              {(campaign.status === 'scheduled' || campaign.status === 'sending') && (
+                <Button variant="destructive" size="sm" className="mt-2" onClick={() => handleCancel(campaign)}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
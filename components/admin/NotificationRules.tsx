@@ -0,0 +1,216 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface NotificationDispatch {
+  category: string
+  dedupKey: string
+  notificationId: string
+  title: string
+  body: string
+  targetUrl: string
+  fids: number[]
+  recipients: number[]
+  optedOut: number
+  alreadySent: number
+  sent: number
+  dryRun: boolean
+}
+
+interface NotificationSend {
+  category: string
+  dedupKey: string
+  notificationId: string
+  title: string
+  body: string
+  recipients: number
+  lastSentAt: string
+}
+
+interface NotificationRulesProps {
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+// Events that can be run by id from here; eligibility.lost is only raised by the cleanup job
+const EVENT_TYPES = [
+  { type: 'contest.opened', idField: 'contestId', label: 'Contest opened (contest id)' },
+  { type: 'contest.closing', idField: 'contestId', label: 'Contest closing (contest id)' },
+  { type: 'contest.ranked', idField: 'contestId', label: 'Top 10 worst PnL (contest id)' },
+  { type: 'registration.indexed', idField: 'registrationId', label: 'Registration indexed (registration id)' },
+  { type: 'voting.closed', idField: 'votingPeriodId', label: 'Vote won (voting period id)' }
+] as const
+
+function DispatchRow({ dispatch }: { dispatch: NotificationDispatch }) {
+  return (
+    <div className="p-3 border rounded-md text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-bold">{dispatch.title}</span>
+        <span className="text-xs text-muted-foreground">{dispatch.category}</span>
+      </div>
+      <p className="text-xs mt-1 break-words">{dispatch.body}</p>
+      <p className="text-xs text-muted-foreground mt-1">
+        {dispatch.recipients.length} recipient(s) · {dispatch.optedOut} opted out · {dispatch.alreadySent} already sent
+        {!dispatch.dryRun && ` · ${dispatch.sent} sent now`}
+      </p>
+      <p className="text-xs font-mono text-muted-foreground mt-1 break-all">{dispatch.dedupKey}</p>
+    </div>
+  )
+}
+
+/**
+ * Notification rules (notifier role): dry run of what the rules would send now, running one
+ * event's rule by hand, and the sent log
+ */
+export default function NotificationRules({ authFetch }: NotificationRulesProps) {
+  const [preview, setPreview] = useState<NotificationDispatch[]>([])
+  const [recentSends, setRecentSends] = useState<NotificationSend[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [eventType, setEventType] = useState<typeof EVENT_TYPES[number]['type']>('contest.opened')
+  const [eventId, setEventId] = useState('')
+  const [eventResult, setEventResult] = useState<NotificationDispatch[] | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await authFetch('/api/admin/notifications/rules')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load notification rules')
+      }
+      setPreview(data.preview || [])
+      setRecentSends(data.recentSends || [])
+    } catch (err: any) {
+      setError(err.message || 'Failed to load notification rules')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const runEvent = async (dryRun: boolean) => {
+    const id = parseInt(eventId, 10)
+    if (isNaN(id)) {
+      setError('Enter an id for the event')
+      return
+    }
+    const idField = EVENT_TYPES.find(option => option.type === eventType)!.idField
+    if (!dryRun && !confirm(`Send ${eventType} notifications for ${idField} ${id}?`)) return
+
+    setIsRunning(true)
+    setError(null)
+    try {
+      const response = await authFetch('/api/admin/notifications/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event: { type: eventType, [idField]: id }, dryRun })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to run notification rule')
+      }
+      setEventResult(data.dispatches || [])
+      if (!dryRun) {
+        await loadRules()
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to run notification rule')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-primary uppercase">Notification Rules</h2>
+        <Button variant="outline" size="sm" onClick={loadRules} disabled={isLoading}>
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md mb-4 bg-red-500/20 text-red-500">{error}</div>
+      )}
+
+      <h3 className="text-lg font-bold mb-2">Due now (dry run)</h3>
+      {isLoading ? (
+        <p className="text-center">Loading...</p>
+      ) : preview.length === 0 ? (
+        <p className="text-center text-muted-foreground mb-4">Nothing due.</p>
+      ) : (
+        <div className="space-y-2 max-h-[24rem] overflow-y-auto mb-4">
+          {preview.map(dispatch => (
+            <DispatchRow key={dispatch.dedupKey} dispatch={dispatch} />
+          ))}
+        </div>
+      )}
+
+      <h3 className="text-lg font-bold mb-2">Run an event</h3>
+      <div className="space-y-2 mb-4">
+        <select
+          className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+          value={eventType}
+          onChange={(e) => setEventType(e.target.value as typeof eventType)}
+        >
+          {EVENT_TYPES.map(option => (
+            <option key={option.type} value={option.type}>{option.label}</option>
+          ))}
+        </select>
+        <Input
+          type="number"
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+          placeholder="Id"
+        />
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" disabled={isRunning} onClick={() => runEvent(true)}>
+            Preview
+          </Button>
+          <Button className="flex-1" disabled={isRunning} onClick={() => runEvent(false)}>
+            Send
+          </Button>
+        </div>
+        {eventResult && (
+          eventResult.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The rule has nothing to send for this event.</p>
+          ) : (
+            <div className="space-y-2">
+              {eventResult.map(dispatch => (
+                <DispatchRow key={dispatch.dedupKey} dispatch={dispatch} />
+              ))}
+            </div>
+          )
+        )}
+      </div>
+
+      <h3 className="text-lg font-bold mb-2">Sent</h3>
+      {recentSends.length === 0 ? (
+        <p className="text-center text-muted-foreground">Nothing sent yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-[24rem] overflow-y-auto">
+          {recentSends.map(send => (
+            <div key={send.dedupKey} className="p-3 border rounded-md text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-bold">{send.title}</span>
+                <span className="text-xs text-muted-foreground">
+                  {send.recipients} FID(s) · {new Date(send.lastSentAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-xs mt-1 break-words">{send.body}</p>
+              <p className="text-xs font-mono text-muted-foreground mt-1 break-all">{send.dedupKey}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
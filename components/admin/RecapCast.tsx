@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+const CAST_MAX_BYTES = 320
+
+interface RecapCastDraft {
+  text: string
+  embeds: string[]
+}
+
+interface PublishedCast extends RecapCastDraft {
+  position: number
+  hash: string
+  publishedAt: string
+}
+
+interface RecapCastProps {
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text.trim()).length
+
+/**
+ * Weekly recap cast (notifier role): generate the thread from a finalized contest, edit each cast,
+ * then publish it as a thread
+ */
+export default function RecapCast({ authFetch }: RecapCastProps) {
+  const [contestIdInput, setContestIdInput] = useState('')
+  const [contestId, setContestId] = useState<number | null>(null)
+  const [thread, setThread] = useState<RecapCastDraft[]>([])
+  const [published, setPublished] = useState<PublishedCast[]>([])
+  const [publishedAt, setPublishedAt] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleGenerate = async () => {
+    setIsBusy(true)
+    setMessage(null)
+    try {
+      const query = contestIdInput ? `?contestId=${encodeURIComponent(contestIdInput)}` : ''
+      const response = await authFetch(`/api/admin/casts/recap${query}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to generate recap')
+      }
+      setContestId(data.contestId)
+      setThread(data.thread)
+      setPublished(data.published || [])
+      setPublishedAt(data.publishedAt)
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const updateCast = (index: number, text: string) => {
+    setThread(current => current.map((cast, i) => (i === index ? { ...cast, text } : cast)))
+  }
+
+  const handlePublish = async () => {
+    if (contestId === null) return
+    if (!confirm(`Publish the contest #${contestId} recap as a ${thread.length}-cast thread?`)) return
+
+    setIsBusy(true)
+    setMessage(null)
+    try {
+      const response = await authFetch('/api/admin/casts/recap', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contestId, thread })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to publish recap')
+      }
+      setPublished(data.casts)
+      setPublishedAt(new Date().toISOString())
+      setMessage({ type: 'success', text: `Recap published (${data.casts.length} casts)` })
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const tooLong = thread.some(cast => byteLength(cast.text) > CAST_MAX_BYTES || !cast.text.trim())
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-2xl font-bold text-primary uppercase mb-4">Weekly Recap Cast</h2>
+
+      <div className="flex gap-2 mb-4">
+        <Input
+          type="number"
+          value={contestIdInput}
+          onChange={(e) => setContestIdInput(e.target.value)}
+          placeholder="Contest id (empty = latest finalized)"
+        />
+        <Button onClick={handleGenerate} disabled={isBusy}>
+          Generate
+        </Button>
+      </div>
+
+      {contestId !== null && (
+        <div className="space-y-4">
+          {thread.map((cast, index) => {
+            const bytes = byteLength(cast.text)
+            const isPublished = index < published.length
+            return (
+              <div key={index}>
+                <label className="block text-sm font-medium mb-2">
+                  {index === 0 ? 'Cast' : `Reply ${index}`} ({bytes}/{CAST_MAX_BYTES} bytes)
+                  {isPublished && <span className="text-green-400"> · published</span>}
+                </label>
+                <textarea
+                  className={`flex min-h-[120px] w-full rounded-md border bg-background px-3 py-2 text-sm ${
+                    bytes > CAST_MAX_BYTES ? 'border-red-500' : 'border-input'
+                  }`}
+                  value={cast.text}
+                  onChange={(e) => updateCast(index, e.target.value)}
+                  disabled={isPublished || isBusy}
+                  rows={6}
+                />
+                {cast.embeds.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1 break-all">Embeds: {cast.embeds.join(', ')}</p>
+                )}
+              </div>
+            )
+          })}
+
+          {published.length > 0 && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              {published.map(cast => (
+                <p key={cast.hash} className="font-mono break-all">
+                  {cast.position + 1}. {cast.hash}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {publishedAt ? (
+            <p className="text-sm text-green-400">Published {new Date(publishedAt).toLocaleString()}</p>
+          ) : (
+            <Button className="w-full" onClick={handlePublish} disabled={isBusy || thread.length === 0 || tooLong}>
+              {published.length > 0 ? 'Continue publishing thread' : 'Publish thread'}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`p-3 mt-4 rounded-md ${
+            message.type === 'success'
+              ? 'bg-green-500/20 text-green-400 border border-green-500/50'
+              : 'bg-red-500/20 text-red-400 border border-red-500/50'
+          }`}
+        >
+          <p className="text-sm font-medium">{message.text}</p>
+        </div>
+      )}
+    </Card>
+  )
+}
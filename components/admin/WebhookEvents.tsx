@@ -0,0 +1,157 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+
+type WebhookEventStatus = 'processed' | 'rejected' | 'failed'
+
+interface WebhookEvent {
+  id: number
+  source: 'farcaster' | 'neynar'
+  fid: number | null
+  appFid: number | null
+  event: string | null
+  status: WebhookEventStatus
+  error: string | null
+  replayOf: number | null
+  replayedByFid: number | null
+  replayed: boolean
+  receivedAt: string
+}
+
+interface WebhookEventsProps {
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+const STATUS_CLASSES: Record<WebhookEventStatus, string> = {
+  processed: 'text-green-400',
+  rejected: 'text-yellow-400',
+  failed: 'text-red-400'
+}
+
+/**
+ * Farcaster webhook log (notifier role): every received event with its outcome, and replay for
+ * failed ones
+ */
+export default function WebhookEvents({ authFetch }: WebhookEventsProps) {
+  const [events, setEvents] = useState<WebhookEvent[]>([])
+  const [statusFilter, setStatusFilter] = useState<WebhookEventStatus | ''>('failed')
+  const [replayingId, setReplayingId] = useState<number | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const response = await authFetch(`/api/admin/webhooks${statusFilter ? `?status=${statusFilter}` : ''}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load webhook events')
+      }
+      setEvents(data.events || [])
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to load webhook events' })
+    }
+  }, [authFetch, statusFilter])
+
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents])
+
+  const handleReplay = async (event: WebhookEvent) => {
+    setReplayingId(event.id)
+    setMessage(null)
+    try {
+      const response = await authFetch('/api/admin/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId: event.id })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Replay failed')
+      }
+      setMessage(
+        data.success
+          ? { type: 'success', text: `Event #${event.id} replayed (#${data.replay.id})` }
+          : { type: 'error', text: `Replay #${data.replay.id} failed: ${data.replay.error}` }
+      )
+      await loadEvents()
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message })
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h2 className="text-2xl font-bold text-primary uppercase">Webhook Events</h2>
+        <div className="flex gap-2">
+          <select
+            className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as WebhookEventStatus | '')}
+          >
+            <option value="failed">Failed</option>
+            <option value="rejected">Rejected</option>
+            <option value="processed">Processed</option>
+            <option value="">All</option>
+          </select>
+          <Button variant="outline" size="sm" onClick={loadEvents}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 mb-4 rounded-md ${
+            message.type === 'success'
+              ? 'bg-green-500/20 text-green-400 border border-green-500/50'
+              : 'bg-red-500/20 text-red-400 border border-red-500/50'
+          }`}
+        >
+          <p className="text-sm font-medium">{message.text}</p>
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-center text-muted-foreground">No webhook events.</p>
+      ) : (
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {events.map(event => (
+            <div key={event.id} className="p-3 border rounded-md text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-bold">
+                  #{event.id} {event.event ?? 'unparsed'}
+                  {event.fid !== null && ` · FID ${event.fid}`}
+                </span>
+                <span className={`text-xs uppercase ${STATUS_CLASSES[event.status]}`}>{event.status}</span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {event.source} · client {event.appFid ?? 'unknown'} · {new Date(event.receivedAt).toLocaleString()}
+                {event.replayOf !== null && ` · replay of #${event.replayOf} by FID ${event.replayedByFid}`}
+              </p>
+              {event.error && <p className="text-xs text-red-400 mt-1 break-words">{event.error}</p>}
+              {event.status === 'failed' && (
+                event.replayed ? (
+                  <p className="text-xs text-green-400 mt-1">Replayed</p>
+                ) : (
+                  <Button
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => handleReplay(event)}
+                    disabled={replayingId !== null}
+                  >
+                    {replayingId === event.id ? 'Replaying...' : 'Replay'}
+                  </Button>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Card } from '@/components/ui/card'
+
+interface ResultEntry {
+  registrationId: number
+  walletAddress: string
+  username: string | null
+  rank: number | null
+  isWinner: boolean
+  pnlUsd: number
+  volumeUsd: number
+  disqualifiedReason: 'below_min_volume' | 'not_indexed' | null
+}
+
+interface ContestResult {
+  contestId: number
+  version: number
+  tokenSymbol: string | null
+  tokenAddress: string
+  endPriceUsd: number
+  minVolumeUsd: number
+  participantCount: number
+  finalizedAt: string
+  entries: ResultEntry[]
+}
+
+interface ContestResultsProps {
+  walletAddress?: string | null
+}
+
+const DISQUALIFIED_LABELS: Record<NonNullable<ResultEntry['disqualifiedReason']>, string> = {
+  below_min_volume: 'Below min volume',
+  not_indexed: 'Not indexed'
+}
+
+function formatUsd(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
+}
+
+/**
+ * Final standings of the most recently finalized contest
+ */
+export default function ContestResults({ walletAddress }: ContestResultsProps) {
+  const [result, setResult] = useState<ContestResult | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch('/api/contests/results')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data?.success) {
+          setResult(data.result)
+        }
+      })
+      .catch(error => console.error('Error loading contest results:', error))
+
+    return () => { cancelled = true }
+  }, [])
+
+  if (!result) {
+    return null
+  }
+
+  const wallet = walletAddress?.toLowerCase()
+  const myEntry = wallet ? result.entries.find(entry => entry.walletAddress.toLowerCase() === wallet) : undefined
+  const podium = result.entries.filter(entry => entry.rank !== null && entry.rank <= 5)
+  const token = result.tokenSymbol ? `$${result.tokenSymbol}` : `${result.tokenAddress.slice(0, 8)}...`
+
+  return (
+    <Card className="p-4 md:p-6 mb-4 md:mb-6 border-4 border-primary">
+      <h2 className="text-xl md:text-2xl font-bold mb-1 text-primary uppercase">Final Results: {token}</h2>
+      <p className="text-xs text-muted-foreground mb-3">
+        Finalized {new Date(result.finalizedAt).toLocaleString()} · {result.participantCount} traders · closing price {formatUsd(result.endPriceUsd)}
+        {result.minVolumeUsd > 0 && ` · min volume ${formatUsd(result.minVolumeUsd)}`}
+      </p>
+
+      {podium.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nobody qualified.</p>
+      ) : (
+        <div className="space-y-2">
+          {podium.map(entry => (
+            <div
+              key={entry.registrationId}
+              className={`flex items-center justify-between p-2 rounded-md border-2 ${
+                entry.isWinner ? 'border-yellow-500 bg-yellow-500/10' : 'border-primary/30'
+              }`}
+            >
+              <span className="text-sm font-bold">
+                #{entry.rank} {entry.isWinner && '🏆 '}
+                {entry.username ? `@${entry.username}` : `${entry.walletAddress.slice(0, 6)}...${entry.walletAddress.slice(-4)}`}
+              </span>
+              <span className="text-sm font-mono text-red-400">{formatUsd(entry.pnlUsd)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {myEntry && (
+        <p className="text-sm mt-3">
+          You finished{' '}
+          {myEntry.rank !== null
+            ? <span className="font-bold">#{myEntry.rank}</span>
+            : <span className="font-bold">unranked ({DISQUALIFIED_LABELS[myEntry.disqualifiedReason!]})</span>}
+          {' '}with {formatUsd(myEntry.pnlUsd)}.
+        </p>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,182 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { sdk } from '@farcaster/miniapp-sdk'
+import { ethers } from 'ethers'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { WALLET_LINK_DOMAIN, WALLET_LINK_TYPES, WalletLink } from '@/lib/utils/walletLink'
+
+interface IdentityWallet {
+  walletAddress: string
+  source: 'farcaster' | 'signed'
+}
+
+interface LinkedWalletsProps {
+  walletAddress: string
+  fid: number | null
+  isInFarcaster: boolean
+}
+
+const SOURCE_TEXT: Record<IdentityWallet['source'], string> = {
+  farcaster: 'verified',
+  signed: 'linked'
+}
+
+/**
+ * Wallets counted towards the user's PnL, balance and contest score, and linking another one
+ * Linking takes two signatures of the same message: this wallet first, then the wallet being added
+ */
+export default function LinkedWallets({ walletAddress, fid, isInFarcaster }: LinkedWalletsProps) {
+  const [identityFid, setIdentityFid] = useState<number | null>(fid)
+  const [wallets, setWallets] = useState<IdentityWallet[]>([])
+  const [newWallet, setNewWallet] = useState('')
+  const [pending, setPending] = useState<{ link: WalletLink; identitySignature: string } | null>(null)
+  const [isSigning, setIsSigning] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadWallets = async () => {
+    try {
+      const query = fid ? `fid=${fid}` : `address=${walletAddress}`
+      const response = await fetch(`/api/users/wallets?${query}`)
+      const data = await response.json()
+      if (response.ok) {
+        setIdentityFid(data.fid)
+        setWallets(data.wallets)
+      }
+    } catch (error) {
+      console.error('Error loading linked wallets:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadWallets()
+  }, [walletAddress, fid])
+
+  const getSigner = async () => {
+    const ethereumProvider = isInFarcaster ? await sdk.wallet.getEthereumProvider() : window.ethereum
+    if (!ethereumProvider) {
+      throw new Error('Wallet not connected')
+    }
+    return new ethers.BrowserProvider(ethereumProvider).getSigner()
+  }
+
+  // Step 1: the wallet already on the identity countersigns the link
+  const signWithIdentityWallet = async () => {
+    if (!identityFid) {
+      return
+    }
+    if (!ethers.isAddress(newWallet)) {
+      setMessage({ type: 'error', text: 'Enter the wallet address to link (0x...)' })
+      return
+    }
+
+    setIsSigning(true)
+    setMessage(null)
+    try {
+      const signer = await getSigner()
+      const link: WalletLink = {
+        fid: identityFid,
+        wallet: ethers.getAddress(newWallet),
+        identityWallet: await signer.getAddress(),
+        issuedAt: Math.floor(Date.now() / 1000)
+      }
+      const identitySignature = await signer.signTypedData(WALLET_LINK_DOMAIN, WALLET_LINK_TYPES, link)
+      setPending({ link, identitySignature })
+      setMessage({ type: 'success', text: 'Now switch your wallet app to the new wallet and sign again' })
+    } catch (error: any) {
+      console.error('Error signing wallet link:', error)
+      setMessage({ type: 'error', text: error.message || 'Failed to sign' })
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  // Step 2: the wallet being added signs the same link
+  const signWithNewWallet = async () => {
+    if (!pending) {
+      return
+    }
+
+    setIsSigning(true)
+    setMessage(null)
+    try {
+      const signer = await getSigner()
+      if ((await signer.getAddress()).toLowerCase() !== pending.link.wallet.toLowerCase()) {
+        throw new Error(`Switch to ${pending.link.wallet.slice(0, 8)}... before signing`)
+      }
+      const walletSignature = await signer.signTypedData(WALLET_LINK_DOMAIN, WALLET_LINK_TYPES, pending.link)
+
+      const response = await fetch('/api/users/wallets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ link: pending.link, walletSignature, identitySignature: pending.identitySignature })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setWallets(data.wallets)
+        setNewWallet('')
+        setPending(null)
+        setMessage({ type: 'success', text: data.message })
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to link wallet' })
+      }
+    } catch (error: any) {
+      console.error('Error linking wallet:', error)
+      setMessage({ type: 'error', text: error.message || 'Failed to link wallet' })
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  if (!identityFid) {
+    return null
+  }
+
+  return (
+    <Card className="p-3 md:p-4 mb-4 border-2 border-primary">
+      <h3 className="text-sm md:text-base font-bold text-primary uppercase mb-2">Your Wallets</h3>
+
+      <ul className="text-xs font-mono mb-2 space-y-1">
+        {wallets.map((wallet) => (
+          <li key={wallet.walletAddress}>
+            {wallet.walletAddress.slice(0, 8)}...{wallet.walletAddress.slice(-6)}
+            <span className="text-muted-foreground font-sans"> - {SOURCE_TEXT[wallet.source]}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={newWallet}
+          onChange={(e) => setNewWallet(e.target.value.trim())}
+          disabled={!!pending}
+          placeholder="Another wallet you trade from (0x...)"
+          className="w-full px-3 py-2 border-2 border-primary rounded bg-background font-mono text-xs"
+        />
+        {pending ? (
+          <div className="flex gap-2">
+            <Button onClick={signWithNewWallet} disabled={isSigning} size="sm" className="flex-1">
+              {isSigning ? 'Linking...' : 'Sign with new wallet'}
+            </Button>
+            <Button onClick={() => setPending(null)} disabled={isSigning} size="sm" variant="outline">
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={signWithIdentityWallet} disabled={isSigning || !newWallet} size="sm" className="w-full">
+            {isSigning ? 'Signing...' : 'Link wallet'}
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-xs mt-2 ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { sdk } from '@farcaster/miniapp-sdk'
+import { ethers } from 'ethers'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { BALLOT_DOMAIN, NOMINATION_TYPES } from '@/lib/utils/ballot'
+
+interface MyNomination {
+  tokenAddress: string
+  tokenSymbol: string | null
+  status: 'pending' | 'approved' | 'rejected' | 'used'
+  reviewNote: string | null
+}
+
+interface NominateTokenProps {
+  walletAddress: string
+  isInFarcaster: boolean
+}
+
+const STATUS_TEXT: Record<MyNomination['status'], string> = {
+  pending: 'waiting for review',
+  approved: 'approved - it will be on the next ballot',
+  rejected: 'not approved',
+  used: 'on the ballot'
+}
+
+/**
+ * Nominate a token for the next vote (one open nomination per wallet)
+ */
+export default function NominateToken({ walletAddress, isInFarcaster }: NominateTokenProps) {
+  const [tokenAddress, setTokenAddress] = useState('')
+  const [reason, setReason] = useState('')
+  const [myNomination, setMyNomination] = useState<MyNomination | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadMyNomination = async () => {
+    try {
+      const response = await fetch(`/api/votes/nominate?walletAddress=${walletAddress}`)
+      const data = await response.json()
+      if (data.success) {
+        setMyNomination(data.nomination)
+      }
+    } catch (error) {
+      console.error('Error loading nomination:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadMyNomination()
+  }, [walletAddress])
+
+  const submitNomination = async () => {
+    if (!ethers.isAddress(tokenAddress)) {
+      setMessage({ type: 'error', text: 'Enter a token contract address (0x...)' })
+      return
+    }
+
+    setIsSubmitting(true)
+    setMessage(null)
+    try {
+      const ethereumProvider = isInFarcaster ? await sdk.wallet.getEthereumProvider() : window.ethereum
+      if (!ethereumProvider) {
+        throw new Error('Wallet not connected')
+      }
+
+      const signer = await new ethers.BrowserProvider(ethereumProvider).getSigner()
+      const nomination = {
+        tokenAddress,
+        nominator: await signer.getAddress(),
+        issuedAt: Math.floor(Date.now() / 1000)
+      }
+      const signature = await signer.signTypedData(BALLOT_DOMAIN, NOMINATION_TYPES, nomination)
+
+      const response = await fetch('/api/votes/nominate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nomination, signature, reason })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: data.message })
+        setTokenAddress('')
+        setReason('')
+        await loadMyNomination()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to nominate token' })
+      }
+    } catch (error: any) {
+      console.error('Error nominating token:', error)
+      setMessage({ type: 'error', text: error.message || 'Failed to nominate token' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const hasOpenNomination = myNomination?.status === 'pending' || myNomination?.status === 'approved'
+
+  return (
+    <Card className="p-3 md:p-4 mb-4 border-2 border-primary">
+      <h3 className="text-sm md:text-base font-bold text-primary uppercase mb-2">Nominate a Token</h3>
+
+      {myNomination && (
+        <p className="text-xs text-muted-foreground mb-2">
+          Your nomination: ${myNomination.tokenSymbol || myNomination.tokenAddress.slice(0, 8)} - {STATUS_TEXT[myNomination.status]}
+          {myNomination.status === 'rejected' && myNomination.reviewNote && ` (${myNomination.reviewNote})`}
+        </p>
+      )}
+
+      {!hasOpenNomination && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={tokenAddress}
+            onChange={(e) => setTokenAddress(e.target.value.trim())}
+            placeholder="Token address on Base (0x...)"
+            className="w-full px-3 py-2 border-2 border-primary rounded bg-background font-mono text-xs"
+          />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={280}
+            placeholder="Why this token? (optional)"
+            className="w-full px-3 py-2 border-2 border-primary rounded bg-background text-xs"
+          />
+          <Button
+            onClick={submitNomination}
+            disabled={isSubmitting || !tokenAddress}
+            size="sm"
+            className="w-full"
+          >
+            {isSubmitting ? 'Checking token...' : 'Nominate'}
+          </Button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs mt-2 ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </Card>
+  )
+}
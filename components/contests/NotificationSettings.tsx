@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { sdk } from '@farcaster/miniapp-sdk'
+import { Card } from '@/components/ui/card'
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NotificationCategory
+} from '@/lib/config/notifications'
+
+interface NotificationSettingsProps {
+  fid: number
+}
+
+/**
+ * Per-category notification opt-outs for a Farcaster user
+ * Reads and changes are signed with Quick Auth, so this only renders inside Farcaster
+ */
+export default function NotificationSettings({ fid }: NotificationSettingsProps) {
+  const [preferences, setPreferences] = useState<Record<NotificationCategory, boolean> | null>(null)
+  const [saving, setSaving] = useState<NotificationCategory | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const { token } = await sdk.quickAuth.getToken()
+        const response = await fetch('/api/notifications/preferences', {
+          headers: { Authorization: `Bearer ${token}` }
+        })
+        const data = await response.json()
+        if (response.ok) {
+          setPreferences(data.preferences)
+        }
+      } catch (err) {
+        console.error('Error loading notification preferences:', err)
+      }
+    }
+    loadPreferences()
+  }, [fid])
+
+  const toggle = async (category: NotificationCategory, enabled: boolean) => {
+    setSaving(category)
+    setError(null)
+    try {
+      const { token } = await sdk.quickAuth.getToken()
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ category, enabled })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save')
+      }
+      setPreferences(data.preferences)
+    } catch (err: any) {
+      console.error('Error saving notification preference:', err)
+      setError(err.message || 'Failed to save')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  if (!preferences) {
+    return null
+  }
+
+  return (
+    <Card className="p-3 md:p-4 mb-4 border-2 border-primary">
+      <h3 className="text-sm md:text-base font-bold text-primary uppercase mb-2">Notify Me When</h3>
+      <div className="space-y-1">
+        {NOTIFICATION_CATEGORIES.map((category) => (
+          <label key={category} className="flex items-center gap-2 text-xs md:text-sm">
+            <input
+              type="checkbox"
+              checked={preferences[category]}
+              disabled={saving === category}
+              onChange={(e) => toggle(category, e.target.checked)}
+            />
+            {NOTIFICATION_CATEGORY_LABELS[category]}
+          </label>
+        ))}
+      </div>
+      {error && <p className="text-xs mt-2 text-red-400">{error}</p>}
+    </Card>
+  )
+}
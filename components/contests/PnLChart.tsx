@@ -0,0 +1,74 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+
+interface PnLPoint {
+  capturedAt: string
+  pnlUsd: number
+}
+
+interface PnLChartProps {
+  contestId: number
+  walletAddress: string
+  refreshKey?: string | null // Refetch when this changes (e.g. the position's pnlUpdatedAt)
+}
+
+function formatUsd(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
+}
+
+/**
+ * PnL curve for the connected wallet's contest registration
+ */
+export default function PnLChart({ contestId, walletAddress, refreshKey }: PnLChartProps) {
+  const [points, setPoints] = useState<PnLPoint[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch(`/api/contests/pnl-history?contestId=${contestId}&walletAddress=${walletAddress}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data?.success) {
+          setPoints(data.points || [])
+        }
+      })
+      .catch(error => console.error('Error loading PnL history:', error))
+
+    return () => { cancelled = true }
+  }, [contestId, walletAddress, refreshKey])
+
+  if (points.length < 2) {
+    return null
+  }
+
+  const data = points.map(point => ({ time: new Date(point.capturedAt).getTime(), pnl: point.pnlUsd }))
+
+  return (
+    <div className="p-3 md:p-4 bg-card rounded-lg border-2 border-primary/50">
+      <p className="text-xs md:text-sm text-muted-foreground mb-2 uppercase">PnL this week</p>
+      <div className="h-40 md:h-48 text-primary">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(time: number) => new Date(time).toLocaleDateString(undefined, { weekday: 'short' })}
+              tick={{ fontSize: 10 }}
+            />
+            <YAxis tickFormatter={formatUsd} tick={{ fontSize: 10 }} width={60} />
+            <Tooltip
+              labelFormatter={(time: number) => new Date(time).toLocaleString()}
+              formatter={(value: number) => [formatUsd(value), 'PnL']}
+            />
+            <ReferenceLine y={0} strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="pnl" stroke="currentColor" dot={false} strokeWidth={2} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
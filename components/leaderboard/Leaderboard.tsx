@@ -1,6 +1,6 @@
 "use client"
 
-import { LeaderboardEntry } from '@/types/leaderboard';
+import { LeaderboardEntry, LoserboardSnapshot } from '@/types/leaderboard';
 import { Card } from '@/components/ui/card';
 
 const SkeletonRow = () => (
@@ -29,10 +29,12 @@ const LeaderboardRow = ({ entry }: { entry: LeaderboardEntry }) => {
           <img src={entry.pfpUrl} alt={entry.username} className="w-10 h-10 rounded-full object-cover border-4 border-primary" />
           <div>
             <div className="font-bold text-foreground uppercase">
+              {entry.source === 'pin' && <span title="Pinned by admins">📌 </span>}
               {entry.username || entry.display_name}
             </div>
             <div className="text-sm text-muted-foreground font-mono">
               {entry.fid > 0 ? `FID: ${entry.fid}` : shortAddress}
+              {entry.wallets && entry.wallets.length > 1 && ` · ${entry.wallets.length} wallets`}
             </div>
           </div>
         </div>
@@ -47,12 +49,31 @@ const LeaderboardRow = ({ entry }: { entry: LeaderboardEntry }) => {
 interface LeaderboardProps {
   data: LeaderboardEntry[];
   isLoading: boolean;
+  weeks?: LoserboardSnapshot[]; // Frozen past weeks
+  selectedWeek?: string | null; // weekStart of the shown snapshot, null for the live board
+  onWeekChange?: (weekStart: string | null) => void;
 }
 
-export default function Leaderboard({ data, isLoading }: LeaderboardProps) {
+export default function Leaderboard({ data, isLoading, weeks = [], selectedWeek = null, onWeekChange }: LeaderboardProps) {
   return (
     <Card className="bg-card border-4 border-primary p-8 shadow-[12px_12px_0px_0px_rgba(147,51,234,1)]">
-      <h2 className="text-3xl md:text-4xl font-bold mb-6 text-foreground uppercase">WEEKLY LOSERBOARD</h2>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-3xl md:text-4xl font-bold text-foreground uppercase">WEEKLY LOSERBOARD</h2>
+        {onWeekChange && weeks.length > 0 && (
+          <select
+            className="h-10 border-4 border-primary bg-background px-3 font-bold uppercase text-sm"
+            value={selectedWeek ?? ''}
+            onChange={(e) => onWeekChange(e.target.value || null)}
+          >
+            <option value="">THIS WEEK (LIVE)</option>
+            {weeks.map(week => (
+              <option key={week.id} value={week.weekStart}>
+                WEEK OF {new Date(week.weekStart).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
       <div className="overflow-x-auto">
         <table className="w-full text-left">
           <thead>
@@ -77,9 +77,16 @@ export default function MyStatus({
         console.warn('Could not get username from SDK context:', e);
       }
 
+      // Registration is for the signed-in FID: Quick Auth in Farcaster, the SIWE session cookie elsewhere
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (isInFarcaster) {
+        const { token } = await sdk.quickAuth.getToken();
+        headers.Authorization = `Bearer ${token}`;
+      }
+
       const response = await fetch('/api/register', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers,
         body: JSON.stringify({
           fid,
           walletAddress,
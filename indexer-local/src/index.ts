@@ -3,14 +3,14 @@
  *
  * This indexer runs locally and writes to the production Supabase database.
  * It uses advanced techniques:
- * - Transaction traces for accurate swap amounts
+ * - Net balance deltas (receipt logs plus traces) for swap side and amounts
  * - Chainlink oracles for authoritative prices
  * - DEX pool state for accurate pricing
  * - Price confidence scoring
  */
 
 import { query, closePool } from './services/db';
-import { extractSwapFromTrace } from './services/traceParser';
+import { analyzeTransaction } from './services/txAnalyzer';
 
 console.log('🚀 BadTraders Local Indexer Starting...');
 console.log('📊 This indexer writes to production Supabase database');
@@ -0,0 +1,327 @@
+/**
+ * Transaction Analyzer
+ *
+ * Infers what a transaction did for a wallet from its net balance change per asset.
+ * Every Transfer log and native ETH call is netted per asset for the wallet, so route hops and
+ * refunds cancel out; the net deltas are then classified as a buy, sell, transfer, LP add/remove
+ * or airdrop of the tracked token, with a 0-1 confidence.
+ *
+ * Port of the app's lib/services/txAnalyzer.ts - keep the two in step.
+ */
+
+import { ethers } from 'ethers';
+import { getTransactionTrace, provider, TraceCall } from './traceParser';
+
+export type TxKind = 'buy' | 'sell' | 'transfer' | 'lp_add' | 'lp_remove' | 'airdrop' | 'none';
+
+/**
+ * One asset moving between two addresses - native ETH uses NATIVE_ETH_ADDRESS as the asset
+ */
+export interface AssetMovement {
+  asset: string;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface TxClassification {
+  kind: TxKind;
+  confidence: number; // 0-1
+  trackedTokenDelta: bigint; // Net tracked-token amount the wallet received (negative = sent)
+  counterAsset: string | null; // What the wallet paid on a buy / received on a sell
+  counterAmount: bigint; // Absolute net amount of the counter asset
+  deltas: Map<string, bigint>;
+}
+
+export interface TxAnalysis extends TxClassification {
+  txHash: string;
+  blockNumber: number;
+  movements: AssetMovement[];
+  usedTrace: boolean; // Native ETH came from the trace (internal calls) rather than tx.value alone
+}
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+export const NATIVE_ETH_ADDRESS = ZERO_ADDRESS;
+const WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+const USDC_ADDRESS = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+// Preferred counter assets, in order, when a wallet paid or received more than one
+const BASE_ASSETS = [NATIVE_ETH_ADDRESS, WETH_ADDRESS, USDC_ADDRESS];
+
+function topicToAddress(topic: string): string {
+  return ethers.getAddress(ethers.dataSlice(topic, 12)).toLowerCase();
+}
+
+/**
+ * ERC-20 and ERC-721 Transfer logs as movements (an NFT counts as an amount of 1)
+ */
+export function movementsFromLogs(logs: readonly ethers.Log[]): AssetMovement[] {
+  const movements: AssetMovement[] = [];
+
+  for (const log of logs) {
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length < 3) {
+      continue;
+    }
+
+    const isNft = log.topics.length === 4;
+    if (!isNft && log.data.length < 66) {
+      continue;
+    }
+
+    movements.push({
+      asset: log.address.toLowerCase(),
+      from: topicToAddress(log.topics[1]),
+      to: topicToAddress(log.topics[2]),
+      amount: isNft ? BigInt(1) : BigInt(ethers.dataSlice(log.data, 0, 32))
+    });
+  }
+
+  return movements;
+}
+
+/**
+ * Native ETH moved by a transaction's calls (pure)
+ * Accepts both trace shapes: Parity-style flat entries ({ action, error }) and geth-style call trees.
+ * Reverted calls, delegatecalls and staticcalls move nothing.
+ */
+export function nativeMovementsFromTrace(traces: TraceCall[]): AssetMovement[] {
+  const movements: AssetMovement[] = [];
+
+  const visit = (entry: any) => {
+    if (entry.error) {
+      return;
+    }
+
+    const call = entry.action ?? entry;
+    const callType = (call.callType ?? entry.type ?? 'call').toLowerCase();
+    const value = call.value ? BigInt(call.value) : BigInt(0);
+
+    if (value > BigInt(0) && callType !== 'delegatecall' && callType !== 'staticcall' && call.from && call.to) {
+      movements.push({
+        asset: NATIVE_ETH_ADDRESS,
+        from: call.from.toLowerCase(),
+        to: call.to.toLowerCase(),
+        amount: value
+      });
+    }
+
+    for (const child of entry.calls ?? []) {
+      visit(child);
+    }
+  };
+
+  traces.forEach(visit);
+  return movements;
+}
+
+function toWalletSet(walletAddress: string | string[]): Set<string> {
+  return new Set((Array.isArray(walletAddress) ? walletAddress : [walletAddress]).map(address => address.toLowerCase()));
+}
+
+/**
+ * The wallet's net change per asset - zero deltas are dropped (pure)
+ * Given several wallets, nets them as one: movements between them are ignored
+ */
+export function computeNetDeltas(movements: AssetMovement[], walletAddress: string | string[]): Map<string, bigint> {
+  const wallets = toWalletSet(walletAddress);
+  const deltas = new Map<string, bigint>();
+
+  for (const movement of movements) {
+    const fromWallet = wallets.has(movement.from.toLowerCase());
+    const toWallet = wallets.has(movement.to.toLowerCase());
+    if (fromWallet === toWallet) {
+      continue;
+    }
+
+    const asset = movement.asset.toLowerCase();
+    const signed = toWallet ? movement.amount : -movement.amount;
+    deltas.set(asset, (deltas.get(asset) ?? BigInt(0)) + signed);
+  }
+
+  for (const [asset, delta] of deltas) {
+    if (delta === BigInt(0)) {
+      deltas.delete(asset);
+    }
+  }
+
+  return deltas;
+}
+
+function pickCounterAsset(candidates: Array<[string, bigint]>): [string, bigint] | null {
+  if (candidates.length === 0) {
+    return null;
+  }
+  for (const base of BASE_ASSETS) {
+    const match = candidates.find(([asset]) => asset === base);
+    if (match) {
+      return match;
+    }
+  }
+  return candidates[0];
+}
+
+function abs(value: bigint): bigint {
+  return value < BigInt(0) ? -value : value;
+}
+
+/**
+ * Classify a transaction for one wallet and tracked token from its asset movements (pure)
+ *
+ * - buy / sell: the tracked token moved one way and another asset the other way
+ * - lp_add / lp_remove: the tracked token moved the same way as another asset, or against an LP
+ *   token (an asset minted or burned in the transaction)
+ * - transfer / airdrop: only the tracked token moved; tokens minted to the wallet or pushed by a
+ *   contract count as an airdrop, a direct send from the transaction's sender as a transfer
+ *
+ * Confidence drops when more than one asset could be the payment, when the wallet moved assets on
+ * both sides besides the tracked token, or when the payment is not ETH, WETH or USDC.
+ */
+export function classifyTransaction(
+  movements: AssetMovement[],
+  walletAddress: string | string[],
+  trackedTokenAddress: string,
+  txFrom: string | null = null
+): TxClassification {
+  const wallets = toWalletSet(walletAddress);
+  const tracked = trackedTokenAddress.toLowerCase();
+  const deltas = computeNetDeltas(movements, Array.from(wallets));
+  const trackedTokenDelta = deltas.get(tracked) ?? BigInt(0);
+
+  const result = (kind: TxKind, confidence: number, counter: [string, bigint] | null = null): TxClassification => ({
+    kind,
+    confidence: Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100,
+    trackedTokenDelta,
+    counterAsset: counter ? counter[0] : null,
+    counterAmount: counter ? abs(counter[1]) : BigInt(0),
+    deltas
+  });
+
+  if (trackedTokenDelta === BigInt(0)) {
+    return result('none', 1);
+  }
+
+  const lpAssets = new Set(
+    movements
+      .filter(m => m.from.toLowerCase() === ZERO_ADDRESS || m.to.toLowerCase() === ZERO_ADDRESS)
+      .map(m => m.asset.toLowerCase())
+      .filter(asset => asset !== tracked && asset !== NATIVE_ETH_ADDRESS)
+  );
+
+  const others = Array.from(deltas.entries()).filter(([asset]) => asset !== tracked);
+  const lpIn = others.filter(([asset, delta]) => lpAssets.has(asset) && delta > BigInt(0));
+  const lpOut = others.filter(([asset, delta]) => lpAssets.has(asset) && delta < BigInt(0));
+  const inflows = others.filter(([asset, delta]) => !lpAssets.has(asset) && delta > BigInt(0));
+  const outflows = others.filter(([asset, delta]) => !lpAssets.has(asset) && delta < BigInt(0));
+
+  const tradeConfidence = (payments: Array<[string, bigint]>, extras: Array<[string, bigint]>, counter: [string, bigint]) => {
+    let confidence = 0.95;
+    if (payments.length > 1) confidence -= 0.15;
+    if (extras.length > 0) confidence -= 0.15;
+    if (!BASE_ASSETS.includes(counter[0])) confidence -= 0.1;
+    return confidence;
+  };
+
+  if (trackedTokenDelta < BigInt(0)) {
+    if (lpIn.length > 0) {
+      return result('lp_add', 0.95, pickCounterAsset(outflows));
+    }
+    const counter = pickCounterAsset(inflows);
+    if (counter) {
+      return result('sell', tradeConfidence(inflows, outflows, counter), counter);
+    }
+    if (outflows.length > 0) {
+      // Two assets into a position with no receipt token, e.g. a V3 increaseLiquidity
+      return result('lp_add', 0.6, pickCounterAsset(outflows));
+    }
+    return result('transfer', 0.9);
+  }
+
+  if (lpOut.length > 0) {
+    return result('lp_remove', 0.95, pickCounterAsset(inflows));
+  }
+  const counter = pickCounterAsset(outflows);
+  if (counter) {
+    return result('buy', tradeConfidence(outflows, inflows, counter), counter);
+  }
+  if (inflows.length > 0) {
+    // Two assets out of a position with no receipt token, e.g. a V3 decreaseLiquidity + collect
+    return result('lp_remove', 0.6, pickCounterAsset(inflows));
+  }
+
+  const senders = movements
+    .filter(m => m.asset.toLowerCase() === tracked && wallets.has(m.to.toLowerCase()))
+    .map(m => m.from.toLowerCase());
+  const sender = txFrom ? txFrom.toLowerCase() : null;
+
+  if (senders.includes(ZERO_ADDRESS)) {
+    return result('airdrop', 0.9);
+  }
+  if (sender && senders.includes(sender) && !wallets.has(sender)) {
+    return result('transfer', 0.9);
+  }
+  if (sender && wallets.has(sender)) {
+    // The wallet called a contract that paid out tokens for nothing - a claim
+    return result('airdrop', 0.75);
+  }
+  return sender ? result('airdrop', 0.6) : result('transfer', 0.5);
+}
+
+/**
+ * Analyze a mined transaction for one wallet and tracked token
+ * The trace is fetched when ETH was sent with the transaction (refunds come back as internal
+ * calls) or when the receipt shows no counter-asset (ETH paid out only shows up in internal calls).
+ */
+export async function analyzeTransaction(
+  txHash: string,
+  walletAddress: string,
+  trackedTokenAddress: string
+): Promise<TxAnalysis | null> {
+  if (!provider) {
+    console.warn('Alchemy provider not available for transaction analysis');
+    return null;
+  }
+
+  try {
+    const [receipt, tx] = await Promise.all([
+      provider.getTransactionReceipt(txHash),
+      provider.getTransaction(txHash)
+    ]);
+    if (!receipt) {
+      return null;
+    }
+
+    const txFrom = tx?.from?.toLowerCase() ?? receipt.from.toLowerCase();
+    const tokenMovements = movementsFromLogs(receipt.logs);
+
+    let movements = tokenMovements;
+    if (tx && tx.value > BigInt(0) && tx.to) {
+      movements = [...tokenMovements, { asset: NATIVE_ETH_ADDRESS, from: txFrom, to: tx.to.toLowerCase(), amount: tx.value }];
+    }
+
+    let classification = classifyTransaction(movements, walletAddress, trackedTokenAddress, txFrom);
+    let usedTrace = false;
+
+    const settled = classification.kind === 'none' || (classification.counterAsset !== null && (!tx || tx.value === BigInt(0)));
+    if (!settled) {
+      const traces = await getTransactionTrace(txHash);
+      if (traces && traces.length > 0) {
+        // The root call is part of the trace, so it replaces tx.value rather than adding to it
+        movements = [...tokenMovements, ...nativeMovementsFromTrace(traces)];
+        classification = classifyTransaction(movements, walletAddress, trackedTokenAddress, txFrom);
+        usedTrace = true;
+      }
+    }
+
+    return {
+      ...classification,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      movements,
+      usedTrace
+    };
+  } catch (error) {
+    console.error(`Error analyzing transaction ${txHash}:`, error);
+    return null;
+  }
+}
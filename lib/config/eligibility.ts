@@ -31,3 +31,22 @@ export function getEligibilityThreshold(hasFid: boolean): number {
 export function getMintThreshold(hasFid: boolean): number {
   return hasFid ? FARCASTER_MINT_THRESHOLD : WEBSITE_MINT_THRESHOLD;
 }
+
+export type EligibilityPurpose = 'register' | 'contest' | 'mint';
+
+/**
+ * Get the threshold a holding is checked against for a purpose
+ * @param purpose - Registration, contest entry or NFT mint
+ * @param hasFid - Whether the user has a Farcaster ID (FID)
+ * @returns The threshold for the purpose and user type
+ */
+export function getThresholdFor(purpose: EligibilityPurpose, hasFid: boolean): number {
+  switch (purpose) {
+    case 'contest':
+      return CONTEST_ELIGIBILITY_THRESHOLD;
+    case 'mint':
+      return getMintThreshold(hasFid);
+    default:
+      return getEligibilityThreshold(hasFid);
+  }
+}
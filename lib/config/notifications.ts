@@ -0,0 +1,28 @@
+/**
+ * Notification categories sent by the rules engine (lib/services/notificationRules.ts)
+ * Each user can opt out of any category; everything is on by default
+ */
+
+export const NOTIFICATION_CATEGORIES = [
+  'contest_open',
+  'contest_closing',
+  'loserboard',
+  'indexing_complete',
+  'vote_won',
+  'eligibility_lost'
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  contest_open: 'A contest opens',
+  contest_closing: 'A contest you entered is closing',
+  loserboard: 'You drop into the top 10 worst PnL',
+  indexing_complete: 'Your registration finished indexing',
+  vote_won: 'The token you voted for won',
+  eligibility_lost: 'Your balance falls below the threshold'
+};
+
+export function isNotificationCategory(value: unknown): value is NotificationCategory {
+  return typeof value === 'string' && (NOTIFICATION_CATEGORIES as readonly string[]).includes(value);
+}
@@ -1,53 +1,165 @@
 "use client"
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { sdk } from '@farcaster/miniapp-sdk'
 import { useFarcasterContext } from './useFarcasterContext'
+import { buildSiweMessage, SIWE_CHAIN_ID, SIWE_STATEMENT } from '@/lib/utils/siwe'
+
+type AuthMethod = 'quick_auth' | 'siwe' | null
 
 /**
  * Hook to check if the current user is an admin
- * @returns { isAdmin: boolean, currentFid: number | null, isLoading: boolean }
+ * Inside Farcaster the user is identified by a Quick Auth token; on the website by a SIWE session cookie.
+ * Admin requests must go through `authFetch` so the server can verify who is calling.
+ * @returns { isAdmin, currentFid, isLoading, authMethod, authFetch, signInWithEthereum, signOut }
  */
 export function useAdminAccess() {
-  const { userFid, isLoading: isLoadingFarcaster } = useFarcasterContext()
+  const { isInFarcaster, isLoading: isLoadingFarcaster } = useFarcasterContext()
   const [isAdmin, setIsAdmin] = useState<boolean>(false)
+  const [currentFid, setCurrentFid] = useState<number | null>(null)
+  const [roles, setRoles] = useState<string[]>([])
+  const [authMethod, setAuthMethod] = useState<AuthMethod>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [signInError, setSignInError] = useState<string | null>(null)
+  const quickAuthTokenRef = useRef<string | null>(null)
+
+  /**
+   * fetch() with the caller's credential attached
+   * Quick Auth tokens go in the Authorization header; SIWE sessions ride on the HttpOnly cookie
+   */
+  const authFetch = useCallback(async (input: string, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers)
+    if (quickAuthTokenRef.current) {
+      headers.set('Authorization', `Bearer ${quickAuthTokenRef.current}`)
+    }
+    return fetch(input, { ...init, headers, credentials: 'same-origin' })
+  }, [])
+
+  const checkAdmin = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/admin/check')
+      if (!response.ok) {
+        console.error('[useAdminAccess] Failed to check admin status:', response.status)
+        setIsAdmin(false)
+        return
+      }
+
+      const data = await response.json()
+      setIsAdmin(data.isAdmin || false)
+      setCurrentFid(data.fid ?? null)
+      setRoles(data.roles || [])
+      setAuthMethod(data.authenticated ? data.method : null)
+    } catch (error) {
+      console.error('[useAdminAccess] Error checking admin status:', error)
+      setIsAdmin(false)
+    }
+  }, [authFetch])
 
   useEffect(() => {
-    const checkAdmin = async () => {
+    const init = async () => {
       // Wait for Farcaster context to load
       if (isLoadingFarcaster) {
         return
       }
 
-      // If no FID, user is not admin
-      if (!userFid) {
-        setIsAdmin(false)
-        setIsLoading(false)
+      if (isInFarcaster) {
+        try {
+          const { token } = await sdk.quickAuth.getToken()
+          quickAuthTokenRef.current = token
+        } catch (error) {
+          console.error('[useAdminAccess] Failed to get Quick Auth token:', error)
+        }
+      }
+
+      // Outside Farcaster this picks up an existing SIWE session cookie, if any
+      await checkAdmin()
+      setIsLoading(false)
+    }
+
+    init()
+  }, [isInFarcaster, isLoadingFarcaster, checkAdmin])
+
+  /**
+   * Sign in from the website with the connected wallet (EIP-4361)
+   */
+  const signInWithEthereum = useCallback(async () => {
+    setSignInError(null)
+
+    if (typeof window === 'undefined' || !window.ethereum) {
+      setSignInError('Please install a wallet extension like MetaMask')
+      return
+    }
+
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' })
+      const address = accounts?.[0]
+      if (!address) {
+        setSignInError('No wallet account available')
         return
       }
 
-      try {
-        const response = await fetch(`/api/admin/check?fid=${userFid}`)
-        if (!response.ok) {
-          console.error('[useAdminAccess] Failed to check admin status:', response.status)
-          setIsAdmin(false)
-          setIsLoading(false)
-          return
-        }
+      const nonceResponse = await fetch('/api/auth/nonce')
+      if (!nonceResponse.ok) {
+        throw new Error('Failed to get sign-in nonce')
+      }
+      const { nonce } = await nonceResponse.json()
 
-        const data = await response.json()
-        setIsAdmin(data.isAdmin || false)
-      } catch (error) {
-        console.error('[useAdminAccess] Error checking admin status:', error)
-        setIsAdmin(false)
-      } finally {
-        setIsLoading(false)
+      const message = buildSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: SIWE_STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId: SIWE_CHAIN_ID,
+        nonce,
+        issuedAt: new Date().toISOString(),
+        expirationTime: new Date(Date.now() + 10 * 60 * 1000).toISOString()
+      })
+
+      const signature = await window.ethereum.request({
+        method: 'personal_sign',
+        params: [message, address]
+      })
+
+      const response = await fetch('/api/auth/siwe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ message, signature })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Sign-in failed')
+      }
+
+      await checkAdmin()
+    } catch (error: any) {
+      console.error('[useAdminAccess] SIWE sign-in failed:', error)
+      if (error?.code !== 4001) { // User rejected
+        setSignInError(error?.message || 'Sign-in failed')
       }
     }
+  }, [checkAdmin])
 
-    checkAdmin()
-  }, [userFid, isLoadingFarcaster])
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/siwe', { method: 'DELETE', credentials: 'same-origin' })
+    setIsAdmin(false)
+    setCurrentFid(null)
+    setRoles([])
+    setAuthMethod(null)
+  }, [])
 
-  return { isAdmin, currentFid: userFid, isLoading: isLoading || isLoadingFarcaster }
+  return {
+    isAdmin,
+    currentFid,
+    roles,
+    authMethod,
+    isInFarcaster,
+    isLoading: isLoading || isLoadingFarcaster,
+    signInError,
+    authFetch,
+    signInWithEthereum,
+    signOut
+  }
 }
-
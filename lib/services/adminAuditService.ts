@@ -0,0 +1,179 @@
+// lib/services/adminAuditService.ts
+// Append-only audit log of mutating admin actions (who did what, with which parameters, and what changed)
+
+import { query } from '@/lib/db/connection';
+import type { AuthContext } from './authService';
+
+export type AuditAuthMethod = AuthContext['method'] | 'cron_secret';
+
+export interface AuditActor {
+  fid: number | null;
+  method: AuditAuthMethod;
+}
+
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditDetails {
+  targetType?: string;
+  targetId?: string | number | null;
+  payload?: Record<string, unknown>;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  actorFid: number | null;
+  authMethod: AuditAuthMethod;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  payload: Record<string, unknown> | null;
+  diff: AuditDiff | null;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  actorFid?: number;
+  action?: string; // Exact action, or a prefix ending in '.' (e.g. 'contest.')
+  targetType?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Field-level diff between two snapshots of a record
+ * Fields missing on one side are reported as null; unchanged fields are omitted
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditDiff {
+  const diff: AuditDiff = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    const oldValue = before?.[key] ?? null;
+    const newValue = after?.[key] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      diff[key] = { before: oldValue, after: newValue };
+    }
+  }
+
+  return diff;
+}
+
+// JSON.stringify throws on bigint - store them as strings
+function toJson(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v);
+}
+
+/**
+ * Record a mutating admin action
+ * Returns the audit row id, or null if it could not be written (logged, never thrown)
+ */
+export async function recordAdminAction(
+  actor: AuditActor,
+  action: string,
+  details: AuditDetails = {}
+): Promise<number | null> {
+  const diff = details.before !== undefined || details.after !== undefined
+    ? diffRecords(details.before, details.after)
+    : null;
+
+  try {
+    const result = await query(
+      `INSERT INTO admin_audit_log (
+        actor_fid, auth_method, action, target_type, target_id, payload, diff
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id`,
+      [
+        actor.fid,
+        actor.method,
+        action,
+        details.targetType || null,
+        details.targetId !== undefined && details.targetId !== null ? String(details.targetId) : null,
+        toJson(details.payload),
+        toJson(diff)
+      ]
+    );
+    return Number(result.rows[0].id);
+  } catch (error: any) {
+    console.error(`[Audit] Failed to record ${action} by FID ${actor.fid}:`, error?.message || error);
+    return null;
+  }
+}
+
+/**
+ * Query the audit log, newest first
+ */
+export async function getAuditLog(filters: AuditFilters = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.actorFid !== undefined) {
+    params.push(filters.actorFid);
+    conditions.push(`actor_fid = $${params.length}`);
+  }
+
+  if (filters.action) {
+    if (filters.action.endsWith('.')) {
+      params.push(`${filters.action}%`);
+      conditions.push(`action LIKE $${params.length}`);
+    } else {
+      params.push(filters.action);
+      conditions.push(`action = $${params.length}`);
+    }
+  }
+
+  if (filters.targetType) {
+    params.push(filters.targetType);
+    conditions.push(`target_type = $${params.length}`);
+  }
+
+  if (filters.since) {
+    params.push(filters.since);
+    conditions.push(`created_at >= $${params.length}`);
+  }
+
+  if (filters.until) {
+    params.push(filters.until);
+    conditions.push(`created_at < $${params.length}`);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(filters.limit || 50, 1), 500);
+  const offset = Math.max(filters.offset || 0, 0);
+
+  const [rows, count] = await Promise.all([
+    query(
+      `SELECT id, actor_fid, auth_method, action, target_type, target_id, payload, diff, created_at
+       FROM admin_audit_log
+       ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      params
+    ),
+    query(`SELECT COUNT(*) AS total FROM admin_audit_log ${where}`, params)
+  ]);
+
+  return {
+    entries: rows.rows.map(row => ({
+      id: Number(row.id),
+      actorFid: row.actor_fid !== null ? Number(row.actor_fid) : null,
+      authMethod: row.auth_method,
+      action: row.action,
+      targetType: row.target_type,
+      targetId: row.target_id,
+      payload: row.payload,
+      diff: row.diff,
+      createdAt: row.created_at
+    })),
+    total: parseInt(count.rows[0].total, 10)
+  };
+}
@@ -0,0 +1,336 @@
+// lib/services/authService.ts
+// Signed authentication for admin routes
+// Farcaster clients send a Quick Auth JWT; browsers outside Farcaster sign in with Ethereum (SIWE)
+// and get an opaque session token. Admin rights come from admin_roles, never from the request.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@farcaster/quick-auth';
+import { ethers } from 'ethers';
+import { createHash, randomBytes } from 'crypto';
+import { query } from '@/lib/db/connection';
+import { parseSiweMessage, SIWE_CHAIN_ID } from '@/lib/utils/siwe';
+import { getFarcasterProfiles } from './farcasterService';
+
+export const SESSION_COOKIE = 'bt_session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const NONCE_TTL_SECONDS = 10 * 60;
+
+const quickAuthClient = createClient();
+
+export type AuthMethod = 'quick_auth' | 'siwe';
+
+// 'admin' implies every other role
+export const ADMIN_ROLES = [
+  'admin',
+  'contest_manager',
+  'notifier',
+  'loserboard_curator',
+  'indexer_operator'
+] as const;
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export interface AuthContext {
+  fid: number;
+  method: AuthMethod;
+  walletAddress?: string;
+}
+
+export interface AdminContext extends AuthContext {
+  roles: AdminRole[];
+}
+
+export interface SiweSession {
+  token: string;
+  fid: number;
+  walletAddress: string;
+  expiresAt: Date;
+}
+
+/**
+ * Thrown when a sign-in attempt is rejected - carries the HTTP status for the route
+ */
+export class AuthError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Domain Quick Auth tokens and SIWE messages must be issued for
+ */
+export function getAuthDomain(request?: NextRequest): string {
+  if (process.env.AUTH_DOMAIN) {
+    return process.env.AUTH_DOMAIN;
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (appUrl) {
+    try {
+      return new URL(appUrl).host;
+    } catch {
+      // Fall through to the request host
+    }
+  }
+
+  return request?.nextUrl.host || 'badtraders.xyz';
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (!header || !header.toLowerCase().startsWith('bearer ')) {
+    return null;
+  }
+  return header.slice(7).trim() || null;
+}
+
+async function verifyQuickAuthToken(token: string, domain: string): Promise<AuthContext | null> {
+  try {
+    const payload = await quickAuthClient.verifyJwt({ token, domain });
+    const fid = Number(payload.sub);
+    return Number.isInteger(fid) && fid > 0 ? { fid, method: 'quick_auth' } : null;
+  } catch (error: any) {
+    console.warn('[Auth] Quick Auth token rejected:', error?.message || error);
+    return null;
+  }
+}
+
+async function getSession(token: string): Promise<AuthContext | null> {
+  const result = await query(
+    `SELECT fid, wallet_address
+     FROM auth_sessions
+     WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [hashToken(token)]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return {
+    fid: Number(result.rows[0].fid),
+    method: 'siwe',
+    walletAddress: result.rows[0].wallet_address
+  };
+}
+
+/**
+ * Resolve the caller's FID from a verified credential
+ * Accepts `Authorization: Bearer <Quick Auth JWT | session token>` or the SIWE session cookie
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthContext | null> {
+  const bearer = getBearerToken(request);
+
+  if (bearer) {
+    // JWTs have three dot-separated segments; session tokens are plain hex
+    if (bearer.split('.').length === 3) {
+      return verifyQuickAuthToken(bearer, getAuthDomain(request));
+    }
+    return getSession(bearer);
+  }
+
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  return cookie ? getSession(cookie) : null;
+}
+
+/**
+ * Roles granted to a FID in admin_roles
+ */
+export async function getAdminRoles(fid: number): Promise<AdminRole[]> {
+  const result = await query(
+    'SELECT role FROM admin_roles WHERE fid = $1 ORDER BY role',
+    [fid]
+  );
+  return result.rows.map(row => row.role);
+}
+
+/**
+ * Whether a set of roles grants a role ('admin' grants everything)
+ */
+export function hasRole(roles: AdminRole[], role: AdminRole): boolean {
+  return roles.includes('admin') || roles.includes(role);
+}
+
+/**
+ * Guard for admin routes - returns the verified admin, or a 401/403 response to return as-is
+ *
+ *   const auth = await requireAdmin(request, 'contest_manager');
+ *   if (auth instanceof NextResponse) return auth;
+ */
+export async function requireAdmin(
+  request: NextRequest,
+  role: AdminRole = 'admin'
+): Promise<AdminContext | NextResponse> {
+  const auth = await authenticateRequest(request);
+  if (!auth) {
+    return NextResponse.json(
+      { error: 'Authentication required. Sign in with Farcaster or Ethereum.' },
+      { status: 401 }
+    );
+  }
+
+  const roles = await getAdminRoles(auth.fid);
+  if (!hasRole(roles, role)) {
+    console.warn(`[Auth] FID ${auth.fid} lacks role ${role}`);
+    return NextResponse.json(
+      { error: `Admin access required (role: ${role})` },
+      { status: 403 }
+    );
+  }
+
+  return { ...auth, roles };
+}
+
+/**
+ * Grant a role - returns false if the FID already had it
+ */
+export async function grantAdminRole(fid: number, role: AdminRole, grantedByFid: number): Promise<boolean> {
+  const result = await query(
+    `INSERT INTO admin_roles (fid, role, granted_by_fid)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (fid, role) DO NOTHING
+     RETURNING id`,
+    [fid, role, grantedByFid]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Revoke a role - returns false if the FID did not have it
+ */
+export async function revokeAdminRole(fid: number, role: AdminRole): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM admin_roles WHERE fid = $1 AND role = $2 RETURNING id',
+    [fid, role]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Issue a single-use SIWE nonce
+ */
+export async function createNonce(): Promise<string> {
+  const nonce = randomBytes(16).toString('hex');
+
+  await query(
+    `INSERT INTO auth_nonces (nonce, expires_at)
+     VALUES ($1, NOW() + ($2 || ' seconds')::interval)`,
+    [nonce, NONCE_TTL_SECONDS]
+  );
+
+  // Opportunistic cleanup of expired nonces
+  await query('DELETE FROM auth_nonces WHERE expires_at < NOW() - INTERVAL \'1 day\'');
+
+  return nonce;
+}
+
+/**
+ * Mark a nonce as used - returns false if it is unknown, expired or already used
+ */
+async function consumeNonce(nonce: string): Promise<boolean> {
+  const result = await query(
+    `UPDATE auth_nonces
+     SET used_at = NOW()
+     WHERE nonce = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING nonce`,
+    [nonce]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Find the FID that owns a wallet - Neynar verified or custody addresses, then wallets added to an
+ * identity with a link signed by both wallets
+ * Never the users table: /api/register writes it for whatever wallet a request names
+ */
+export async function getFidForWallet(walletAddress: string): Promise<number | null> {
+  const address = walletAddress.toLowerCase();
+
+  const profiles = await getFarcasterProfiles([address]);
+  const fid = profiles[address]?.fid;
+  if (fid) {
+    return Number(fid);
+  }
+
+  const result = await query(
+    `SELECT fid FROM identity_wallets WHERE wallet_address = $1 AND source = 'signed'`,
+    [address]
+  );
+  return result.rows.length > 0 ? Number(result.rows[0].fid) : null;
+}
+
+/**
+ * Verify a signed SIWE message and open a session for the wallet's FID
+ */
+export async function signInWithEthereum(
+  message: string,
+  signature: string,
+  expectedDomain: string
+): Promise<SiweSession> {
+  const fields = parseSiweMessage(message);
+  if (!fields) {
+    throw new AuthError('Malformed SIWE message', 400);
+  }
+
+  if (fields.domain !== expectedDomain) {
+    throw new AuthError(`SIWE message is for ${fields.domain}, expected ${expectedDomain}`);
+  }
+
+  if (fields.chainId !== SIWE_CHAIN_ID) {
+    throw new AuthError(`SIWE message must be for chain ${SIWE_CHAIN_ID}`);
+  }
+
+  if (fields.expirationTime && new Date(fields.expirationTime).getTime() < Date.now()) {
+    throw new AuthError('SIWE message has expired');
+  }
+
+  let recovered: string;
+  try {
+    recovered = ethers.verifyMessage(message, signature);
+  } catch {
+    throw new AuthError('Invalid signature');
+  }
+
+  if (recovered.toLowerCase() !== fields.address.toLowerCase()) {
+    throw new AuthError('Signature does not match address');
+  }
+
+  // Consume the nonce only after the signature checks out, so a bad attempt cannot burn it
+  if (!(await consumeNonce(fields.nonce))) {
+    throw new AuthError('Nonce is invalid, expired or already used');
+  }
+
+  const walletAddress = recovered.toLowerCase();
+  const fid = await getFidForWallet(walletAddress);
+  if (!fid) {
+    throw new AuthError('No Farcaster account is linked to this wallet', 403);
+  }
+
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+  await query(
+    `INSERT INTO auth_sessions (token_hash, fid, wallet_address, expires_at)
+     VALUES ($1, $2, $3, $4)`,
+    [hashToken(token), fid, walletAddress, expiresAt]
+  );
+
+  console.log(`[Auth] SIWE session opened for FID ${fid} (${walletAddress})`);
+
+  return { token, fid, walletAddress, expiresAt };
+}
+
+/**
+ * Revoke a SIWE session token
+ */
+export async function revokeSession(token: string): Promise<void> {
+  await query(
+    'UPDATE auth_sessions SET revoked_at = NOW() WHERE token_hash = $1 AND revoked_at IS NULL',
+    [hashToken(token)]
+  );
+}
@@ -13,6 +13,7 @@
 
 import { query } from '@/lib/db/connection';
 import { USDC_ADDRESS, WETH_ADDRESS } from '@/lib/utils/constants';
+import { recordBlockAnchors } from './blockTimeService';
 import { logInfo, logWarn } from './indexerLogger';
 import { SwapDetails } from './swapTypes';
 
@@ -1278,6 +1279,11 @@ query TokenSwaps($tokenAddress: String!, $startDate: DateTime!, $endDate: DateTi
 
       logInfo(`[Bitquery] Page ${page}: Processed ${trades.length} trades, max block: ${maxBlockInPage}, total transactions: ${groupMap.size}`);
 
+      // Bitquery's block times are exact - keep them so date-to-block lookups around this window are cheap
+      if (lastTradeTime) {
+        await recordBlockAnchors([{ blockNumber: maxBlockInPage, timestamp: Math.floor(lastTradeTime.getTime() / 1000) }]);
+      }
+
       if (onProgress) {
         onProgress(page, groupMap.size);
       }
@@ -0,0 +1,187 @@
+// lib/services/blockTimeService.ts
+// Block-time resolver for Base: blockAt(date) and timestampOf(block) from real block timestamps.
+// Every block fetched is stored in block_anchors, so later lookups binary-search only between the
+// nearest known anchors (and timestampOf of a known block never hits the chain).
+
+import { query } from '@/lib/db/connection';
+import { callWithFallback } from './providers';
+
+export interface BlockAnchor {
+  blockNumber: number;
+  timestamp: number; // Unix seconds
+}
+
+const BASE_BLOCK_TIME_SECONDS = 2;
+const MEMORY_CACHE_LIMIT = 5000;
+
+const timestampCache = new Map<number, number>();
+
+function rememberTimestamp(blockNumber: number, timestamp: number): void {
+  if (timestampCache.size >= MEMORY_CACHE_LIMIT) {
+    timestampCache.clear();
+  }
+  timestampCache.set(blockNumber, timestamp);
+}
+
+/**
+ * Store known block timestamps (e.g. from Bitquery trades) - failures only cost a later RPC call
+ */
+export async function recordBlockAnchors(anchors: BlockAnchor[]): Promise<void> {
+  if (anchors.length === 0) {
+    return;
+  }
+
+  for (const anchor of anchors) {
+    rememberTimestamp(anchor.blockNumber, anchor.timestamp);
+  }
+
+  try {
+    await query(
+      `INSERT INTO block_anchors (block_number, block_timestamp)
+       SELECT a.block_number, a.block_timestamp
+       FROM jsonb_to_recordset($1::jsonb) AS a(block_number BIGINT, block_timestamp BIGINT)
+       ON CONFLICT (block_number) DO NOTHING`,
+      [JSON.stringify(anchors.map(anchor => ({ block_number: anchor.blockNumber, block_timestamp: anchor.timestamp })))]
+    );
+  } catch (error) {
+    console.warn(`Could not save ${anchors.length} block anchor(s):`, error);
+  }
+}
+
+/**
+ * Fetch a block's timestamp from the chain and keep it as an anchor
+ */
+async function fetchBlockTimestamp(blockNumber: number): Promise<number> {
+  const block = await callWithFallback(provider => provider.getBlock(blockNumber));
+  if (!block) {
+    throw new Error(`Could not fetch block ${blockNumber}`);
+  }
+
+  await recordBlockAnchors([{ blockNumber, timestamp: block.timestamp }]);
+  return block.timestamp;
+}
+
+/**
+ * Unix timestamp (seconds) of a block
+ */
+export async function timestampOf(blockNumber: number): Promise<number> {
+  const cached = timestampCache.get(blockNumber);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const result = await query(
+    'SELECT block_timestamp FROM block_anchors WHERE block_number = $1',
+    [blockNumber]
+  );
+  if (result.rows.length > 0) {
+    const timestamp = Number(result.rows[0].block_timestamp);
+    rememberTimestamp(blockNumber, timestamp);
+    return timestamp;
+  }
+
+  return fetchBlockTimestamp(blockNumber);
+}
+
+/**
+ * Last block at or before a date (clamped to the current block)
+ */
+export async function blockAt(date: Date): Promise<number> {
+  const target = Math.floor(date.getTime() / 1000);
+
+  // Not stored: the head can still be reorged
+  const head = await callWithFallback(provider => provider.getBlock('latest'));
+  if (!head) {
+    throw new Error('Could not fetch the latest block');
+  }
+  const latest: BlockAnchor = { blockNumber: head.number, timestamp: head.timestamp };
+
+  if (target >= latest.timestamp) {
+    return latest.blockNumber;
+  }
+
+  const nearest = await query(
+    `(SELECT block_number, block_timestamp, 'lower' AS side FROM block_anchors
+      WHERE block_timestamp <= $1 ORDER BY block_timestamp DESC LIMIT 1)
+     UNION ALL
+     (SELECT block_number, block_timestamp, 'upper' AS side FROM block_anchors
+      WHERE block_timestamp > $1 ORDER BY block_timestamp ASC LIMIT 1)`,
+    [target]
+  );
+
+  const toAnchor = (row: any): BlockAnchor => ({
+    blockNumber: Number(row.block_number),
+    timestamp: Number(row.block_timestamp)
+  });
+  const lowerRow = nearest.rows.find(row => row.side === 'lower');
+  const upperRow = nearest.rows.find(row => row.side === 'upper');
+  const upper = upperRow && Number(upperRow.block_number) < latest.blockNumber ? toAnchor(upperRow) : latest;
+
+  return findBlockAtTimestamp(
+    target,
+    { lower: lowerRow ? toAnchor(lowerRow) : null, upper },
+    fetchBlockTimestamp
+  );
+}
+
+/**
+ * Search for the last block with timestamp <= target (unix seconds) between two anchors (pure)
+ * The lower anchor is at or before the target (genesis when null), the upper one after it. Starts from
+ * an estimate, gallops out until the target is bracketed, then bisects.
+ */
+export async function findBlockAtTimestamp(
+  targetTimestamp: number,
+  bounds: { lower: BlockAnchor | null; upper: BlockAnchor },
+  getTimestamp: (blockNumber: number) => Promise<number>
+): Promise<number> {
+  const { lower, upper } = bounds;
+  if (targetTimestamp >= upper.timestamp) {
+    return upper.blockNumber;
+  }
+
+  // Invariant: lo is at or before the target (or block 0), hi is after it
+  let lo = lower ? lower.blockNumber : 0;
+  let hi = upper.blockNumber;
+
+  // Interpolate between anchors, or count back from the upper one at Base's block time
+  const estimate = lower && upper.timestamp > lower.timestamp
+    ? lo + Math.floor((targetTimestamp - lower.timestamp) * (hi - lo) / (upper.timestamp - lower.timestamp))
+    : hi - Math.ceil((upper.timestamp - targetTimestamp) / BASE_BLOCK_TIME_SECONDS);
+  const guess = Math.min(Math.max(estimate, lo + 1), hi - 1);
+
+  let step = 16;
+  if (guess > lo) {
+    if (await getTimestamp(guess) <= targetTimestamp) {
+      lo = guess;
+      for (let probe = lo + step; probe < hi; probe = lo + step) {
+        if (await getTimestamp(probe) <= targetTimestamp) {
+          lo = probe;
+          step *= 2;
+        } else {
+          hi = probe;
+        }
+      }
+    } else {
+      hi = guess;
+      for (let probe = hi - step; probe > lo; probe = hi - step) {
+        if (await getTimestamp(probe) > targetTimestamp) {
+          hi = probe;
+          step *= 2;
+        } else {
+          lo = probe;
+        }
+      }
+    }
+  }
+
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (await getTimestamp(mid) <= targetTimestamp) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return lo;
+}
@@ -0,0 +1,471 @@
+// lib/services/campaignService.ts
+// Notification campaigns: a message written once for a segment of users and sent at a set time.
+//
+// Segments are resolved to FIDs when sending starts and the list is kept on the campaign, so the
+// audience does not shift between runs. Each notifications.campaign job sends a few batches of
+// NOTIFICATION_BATCH_SIZE with a pause in between and leaves the rest for the next cron run, which
+// keeps a large campaign from hammering the backend or running past the serverless time limit.
+
+import { ethers } from 'ethers';
+import { query } from '@/lib/db/connection';
+import { sendNotification } from '@/app/services/notifications';
+import { enqueueJob } from './jobQueueService';
+import { getContestParticipantFids, notificationIdFor } from './notificationRules';
+import { BODY_MAX, NOTIFICATION_BATCH_SIZE, TARGET_URL_MAX, TITLE_MAX } from './notificationDelivery';
+import { callWithFallback } from './providers';
+import { BADTRADERS_CONTRACT_ADDRESS } from './tokenService';
+
+// Batches sent per job run, and the pause between them
+const MAX_BATCHES_PER_RUN = process.env.CAMPAIGN_MAX_BATCHES_PER_RUN
+  ? parseInt(process.env.CAMPAIGN_MAX_BATCHES_PER_RUN, 10)
+  : 5;
+const BATCH_DELAY_MS = 1000;
+const PREVIEW_SAMPLE_SIZE = 20;
+
+// Wallet balances are read through Multicall3 (same address on every chain), this many per RPC call
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const MULTICALL3_ABI = [
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) view returns (tuple(bool success, bytes returnData)[])'
+];
+const BALANCE_CALLS_PER_MULTICALL = 500;
+
+// balanceOf has the same signature on the token (ERC-20) and the Bag (ERC-721)
+const BALANCE_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)'
+];
+
+export class CampaignError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+export type CampaignSegment =
+  | { type: 'registered' }
+  | { type: 'contest_participants'; contestId: number }
+  | { type: 'voters'; votingPeriodId: number }
+  | { type: 'holders'; minBalance: number }
+  | { type: 'bag_holders' };
+
+export type CampaignStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed';
+
+export interface CampaignContent {
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+export interface CampaignStats {
+  audienceSize: number | null; // Known once sending starts
+  sentCount: number;
+  successful: number;
+  invalid: number;
+  rateLimited: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface Campaign extends CampaignContent {
+  id: number;
+  segment: CampaignSegment;
+  status: CampaignStatus;
+  scheduledFor: string;
+  createdByFid: number;
+  stats: CampaignStats;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+const positiveInt = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return Number.isInteger(parsed) && (parsed as number) > 0 ? (parsed as number) : null;
+};
+
+/**
+ * Validate a segment from a request body (pure)
+ */
+export function parseSegment(input: any): CampaignSegment {
+  switch (input?.type) {
+    case 'registered':
+    case 'bag_holders':
+      return { type: input.type };
+    case 'contest_participants': {
+      const contestId = positiveInt(input.contestId);
+      if (contestId === null) throw new CampaignError('contest_participants needs a contestId');
+      return { type: 'contest_participants', contestId };
+    }
+    case 'voters': {
+      const votingPeriodId = positiveInt(input.votingPeriodId);
+      if (votingPeriodId === null) throw new CampaignError('voters needs a votingPeriodId');
+      return { type: 'voters', votingPeriodId };
+    }
+    case 'holders': {
+      const minBalance = Number(input.minBalance);
+      if (!Number.isFinite(minBalance) || minBalance <= 0) {
+        throw new CampaignError('holders needs a minBalance above 0');
+      }
+      return { type: 'holders', minBalance };
+    }
+    default:
+      throw new CampaignError(`Unknown segment type: ${input?.type}`);
+  }
+}
+
+/**
+ * Check a campaign's copy against the client limits (pure)
+ * Rejected rather than truncated, so the preview is exactly what users get
+ */
+export function validateCampaignContent(content: Partial<CampaignContent>): CampaignContent {
+  const title = typeof content.title === 'string' ? content.title.trim() : '';
+  const body = typeof content.body === 'string' ? content.body.trim() : '';
+  const targetUrl = typeof content.targetUrl === 'string' ? content.targetUrl.trim() : '';
+
+  if (!title || !body || !targetUrl) {
+    throw new CampaignError('title, body and targetUrl are required');
+  }
+  if (title.length > TITLE_MAX) {
+    throw new CampaignError(`title is ${title.length} characters (max ${TITLE_MAX})`);
+  }
+  if (body.length > BODY_MAX) {
+    throw new CampaignError(`body is ${body.length} characters (max ${BODY_MAX})`);
+  }
+  if (targetUrl.length > TARGET_URL_MAX || !/^https:\/\//.test(targetUrl)) {
+    throw new CampaignError(`targetUrl must be an https URL of at most ${TARGET_URL_MAX} characters`);
+  }
+  return { title, body, targetUrl };
+}
+
+/**
+ * FIDs whose wallets together hold at least minBalance (pure)
+ */
+export function fidsAtOrAbove(balances: Array<{ fid: number; balance: number }>, minBalance: number): number[] {
+  const totals = new Map<number, number>();
+  for (const { fid, balance } of balances) {
+    totals.set(fid, (totals.get(fid) ?? 0) + balance);
+  }
+  return Array.from(totals.entries())
+    .filter(([, total]) => total >= minBalance)
+    .map(([fid]) => fid)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * The next batches of a campaign's audience, starting after the FIDs already sent (pure)
+ */
+export function nextCampaignBatches(
+  audience: number[],
+  sentCount: number,
+  maxBatches: number,
+  batchSize: number = NOTIFICATION_BATCH_SIZE
+): number[][] {
+  const batches: number[][] = [];
+  for (let i = sentCount; i < audience.length && batches.length < maxBatches; i += batchSize) {
+    batches.push(audience.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+async function getIdentityWalletRows(): Promise<Array<{ fid: number; walletAddress: string }>> {
+  const result = await query('SELECT fid, wallet_address FROM identity_wallets ORDER BY fid, wallet_address');
+  return result.rows.map((row: any) => ({ fid: Number(row.fid), walletAddress: row.wallet_address }));
+}
+
+/**
+ * balanceOf of each wallet on a contract, in the order given
+ * Batched through Multicall3 so a segment costs one RPC call per BALANCE_CALLS_PER_MULTICALL wallets
+ */
+async function readBalances(contractAddress: string, walletAddresses: string[]): Promise<bigint[]> {
+  const balanceInterface = new ethers.Interface(BALANCE_ABI);
+  const balances: bigint[] = [];
+
+  for (let i = 0; i < walletAddresses.length; i += BALANCE_CALLS_PER_MULTICALL) {
+    const calls = walletAddresses.slice(i, i + BALANCE_CALLS_PER_MULTICALL).map(wallet => ({
+      target: contractAddress,
+      allowFailure: false,
+      callData: balanceInterface.encodeFunctionData('balanceOf', [wallet])
+    }));
+    const results: Array<{ returnData: string }> = await callWithFallback(provider =>
+      new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider).aggregate3(calls)
+    );
+    for (const { returnData } of results) {
+      balances.push(balanceInterface.decodeFunctionResult('balanceOf', returnData)[0] as bigint);
+    }
+  }
+  return balances;
+}
+
+/**
+ * Resolve a segment to FIDs (sorted, unique)
+ * Balance and Bag segments read every wallet on a known identity on-chain (batched), so they take a while
+ */
+export async function resolveSegment(segment: CampaignSegment): Promise<number[]> {
+  let fids: number[];
+
+  switch (segment.type) {
+    case 'registered': {
+      const result = await query('SELECT fid FROM users WHERE opt_in_status = true AND fid IS NOT NULL');
+      fids = result.rows.map((row: any) => Number(row.fid));
+      break;
+    }
+    case 'contest_participants':
+      fids = await getContestParticipantFids(segment.contestId);
+      break;
+    case 'voters': {
+      const result = await query(
+        'SELECT DISTINCT fid FROM user_votes WHERE voting_period_id = $1 AND fid IS NOT NULL',
+        [segment.votingPeriodId]
+      );
+      fids = result.rows.map((row: any) => Number(row.fid));
+      break;
+    }
+    case 'holders': {
+      // Wallet balances only - LP positions are too slow to read for every identity
+      const wallets = await getIdentityWalletRows();
+      const decimals = Number(await callWithFallback(provider =>
+        new ethers.Contract(BADTRADERS_CONTRACT_ADDRESS, BALANCE_ABI, provider).decimals()
+      ));
+      const raw = await readBalances(BADTRADERS_CONTRACT_ADDRESS, wallets.map(wallet => wallet.walletAddress));
+      const balances = wallets.map((wallet, i) => ({
+        fid: wallet.fid,
+        balance: Number(ethers.formatUnits(raw[i], decimals))
+      }));
+      fids = fidsAtOrAbove(balances, segment.minBalance);
+      break;
+    }
+    case 'bag_holders': {
+      const bagAddress = process.env.NEXT_PUBLIC_BADTRADERS_BAG_CONTRACT_ADDRESS;
+      if (!bagAddress) {
+        throw new CampaignError('NEXT_PUBLIC_BADTRADERS_BAG_CONTRACT_ADDRESS not configured', 500);
+      }
+      const wallets = await getIdentityWalletRows();
+      const bags = await readBalances(bagAddress, wallets.map(wallet => wallet.walletAddress));
+      fids = wallets.filter((_, i) => bags[i] > BigInt(0)).map(wallet => wallet.fid);
+      break;
+    }
+  }
+
+  return Array.from(new Set(fids)).sort((a, b) => a - b);
+}
+
+/**
+ * Audience size of a segment right now, with a few FIDs to sanity-check it
+ * Balance and Bag segments are not read on-chain here: the preview counts the identities with a linked
+ * wallet as an upper bound, without a sample, and the exact audience is resolved when sending starts
+ */
+export async function previewAudience(
+  segment: CampaignSegment
+): Promise<{ size: number; sample: number[]; upperBound: boolean }> {
+  if (segment.type === 'holders' || segment.type === 'bag_holders') {
+    const result = await query('SELECT COUNT(DISTINCT fid) AS size FROM identity_wallets');
+    return { size: parseInt(result.rows[0]?.size ?? '0', 10), sample: [], upperBound: true };
+  }
+
+  const fids = await resolveSegment(segment);
+  return { size: fids.length, sample: fids.slice(0, PREVIEW_SAMPLE_SIZE), upperBound: false };
+}
+
+function toCampaign(row: any): Campaign {
+  return {
+    id: row.id,
+    title: row.title,
+    body: row.body,
+    targetUrl: row.target_url,
+    segment: row.segment,
+    status: row.status,
+    scheduledFor: row.scheduled_for,
+    createdByFid: Number(row.created_by_fid),
+    stats: {
+      audienceSize: row.audience_fids ? row.audience_fids.length : null,
+      sentCount: row.sent_count,
+      successful: row.successful,
+      invalid: row.invalid,
+      rateLimited: row.rate_limited,
+      failed: row.failed,
+      skipped: row.skipped
+    },
+    error: row.error,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    createdAt: row.created_at
+  };
+}
+
+async function getCampaign(campaignId: number): Promise<Campaign | null> {
+  const result = await query('SELECT * FROM notification_campaigns WHERE id = $1', [campaignId]);
+  return result.rows[0] ? toCampaign(result.rows[0]) : null;
+}
+
+/**
+ * Store a campaign to be sent at scheduledFor (default: the next cron run)
+ */
+export async function createCampaign(
+  content: Partial<CampaignContent>,
+  segment: CampaignSegment,
+  scheduledFor: Date | null,
+  createdByFid: number
+): Promise<Campaign> {
+  const { title, body, targetUrl } = validateCampaignContent(content);
+  if (scheduledFor && isNaN(scheduledFor.getTime())) {
+    throw new CampaignError('scheduledFor is not a valid date');
+  }
+
+  const result = await query(
+    `INSERT INTO notification_campaigns (title, body, target_url, segment, scheduled_for, created_by_fid)
+     VALUES ($1, $2, $3, $4, COALESCE($5, NOW()), $6)
+     RETURNING *`,
+    [title, body, targetUrl, JSON.stringify(segment), scheduledFor, createdByFid]
+  );
+  return toCampaign(result.rows[0]);
+}
+
+/**
+ * Most recent campaigns first, with their delivery stats
+ */
+export async function listCampaigns(limit: number = 50): Promise<Campaign[]> {
+  const result = await query(
+    'SELECT * FROM notification_campaigns ORDER BY scheduled_for DESC, id DESC LIMIT $1',
+    [limit]
+  );
+  return result.rows.map(toCampaign);
+}
+
+/**
+ * Stop a campaign that has not finished; batches already sent stay sent
+ */
+export async function cancelCampaign(campaignId: number): Promise<Campaign> {
+  const result = await query(
+    `UPDATE notification_campaigns
+     SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status IN ('scheduled', 'sending')
+     RETURNING *`,
+    [campaignId]
+  );
+  if (result.rows.length === 0) {
+    const campaign = await getCampaign(campaignId);
+    throw campaign
+      ? new CampaignError(`Campaign ${campaignId} is already ${campaign.status}`, 409)
+      : new CampaignError(`Campaign ${campaignId} not found`, 404);
+  }
+  return toCampaign(result.rows[0]);
+}
+
+/**
+ * Queue a notifications.campaign job for every campaign that is due or part-way through
+ * Returns the number of campaigns queued
+ */
+export async function scheduleDueCampaigns(): Promise<number> {
+  const result = await query(
+    `SELECT id FROM notification_campaigns
+     WHERE status IN ('scheduled', 'sending') AND scheduled_for <= NOW()
+     ORDER BY scheduled_for ASC`
+  );
+
+  for (const row of result.rows) {
+    await enqueueJob(
+      'notifications.campaign',
+      { campaignId: row.id },
+      { dedupeKey: `notifications.campaign:${row.id}`, maxAttempts: 5 }
+    );
+  }
+  return result.rows.length;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Send the next batches of a due campaign
+ * The first run snapshots the audience; the campaign is 'sent' once every FID has been handed over.
+ * Stats and the cursor are saved after each batch, so a retried run carries on where it stopped.
+ */
+export async function dispatchCampaign(
+  campaignId: number,
+  options: { maxBatches?: number; batchDelayMs?: number } = {}
+): Promise<{ status: CampaignStatus; sent: number; remaining: number }> {
+  const maxBatches = options.maxBatches ?? MAX_BATCHES_PER_RUN;
+  const batchDelayMs = options.batchDelayMs ?? BATCH_DELAY_MS;
+
+  const row = (await query('SELECT * FROM notification_campaigns WHERE id = $1', [campaignId])).rows[0];
+  if (!row) {
+    throw new CampaignError(`Campaign ${campaignId} not found`, 404);
+  }
+  if (row.status !== 'scheduled' && row.status !== 'sending') {
+    return { status: row.status, sent: 0, remaining: 0 };
+  }
+
+  let audience: number[] = row.audience_fids;
+  if (!audience) {
+    audience = await resolveSegment(row.segment);
+    // Only a campaign still scheduled starts: one cancelled (or started by another run) meanwhile stays as it is
+    const started = await query(
+      `UPDATE notification_campaigns
+       SET audience_fids = $2, status = 'sending', started_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status = 'scheduled' AND audience_fids IS NULL`,
+      [campaignId, audience]
+    );
+    if ((started.rowCount ?? 0) === 0) {
+      const current = await query('SELECT status FROM notification_campaigns WHERE id = $1', [campaignId]);
+      return { status: current.rows[0]?.status, sent: 0, remaining: 0 };
+    }
+  }
+
+  const notificationId = notificationIdFor(`campaign:${campaignId}`);
+  let sentCount: number = row.sent_count;
+  let sent = 0;
+
+  for (const [index, batch] of nextCampaignBatches(audience, sentCount, maxBatches).entries()) {
+    if (index > 0) {
+      await sleep(batchDelayMs);
+    }
+
+    // A cancel lands between batches
+    const current = await query('SELECT status FROM notification_campaigns WHERE id = $1', [campaignId]);
+    if (current.rows[0]?.status !== 'sending') {
+      return { status: current.rows[0]?.status, sent, remaining: audience.length - sentCount };
+    }
+
+    const result = await sendNotification(batch, row.title, row.body, row.target_url, notificationId);
+    sentCount += batch.length;
+    sent += batch.length;
+
+    await query(
+      `UPDATE notification_campaigns
+       SET sent_count = $2,
+           successful = successful + $3,
+           invalid = invalid + $4,
+           rate_limited = rate_limited + $5,
+           failed = failed + $6,
+           skipped = skipped + $7,
+           updated_at = NOW()
+       WHERE id = $1`,
+      [campaignId, sentCount, result.successful, result.invalid, result.rateLimited, result.failed, result.skipped]
+    );
+  }
+
+  if (sentCount >= audience.length) {
+    await query(
+      `UPDATE notification_campaigns
+       SET status = 'sent', completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status = 'sending'`,
+      [campaignId]
+    );
+    return { status: 'sent', sent, remaining: 0 };
+  }
+
+  return { status: 'sending', sent, remaining: audience.length - sentCount };
+}
+
+/**
+ * Mark a campaign failed once its job has run out of attempts
+ */
+export async function failCampaign(campaignId: number, error: string): Promise<void> {
+  await query(
+    `UPDATE notification_campaigns
+     SET status = 'failed', error = $2, completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status IN ('scheduled', 'sending')`,
+    [campaignId, error]
+  );
+}
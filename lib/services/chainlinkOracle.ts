@@ -31,6 +31,37 @@ export async function getEthUsdPrice(): Promise<number | null> {
   }
 }
 
+/**
+ * Get the ETH/USD Chainlink round that was current at a given block
+ * Reads latestRoundData with a historical blockTag (requires an archive-capable RPC)
+ * Returns the round's update time so callers can judge staleness
+ */
+export async function getEthUsdPriceAtBlock(
+  blockNumber: number
+): Promise<{ price: number; roundId: bigint; updatedAt: number } | null> {
+  try {
+    const { getProvider } = await import('./apiProviderManager');
+    const provider = await getProvider();
+    const oracle = new ethers.Contract(CHAINLINK_ETH_USD_ORACLE, CHAINLINK_ORACLE_ABI, provider);
+
+    const roundData = await oracle.latestRoundData({ blockTag: blockNumber });
+    const price = Number(roundData.answer) / 1e8; // Chainlink uses 8 decimals
+
+    if (price > 0 && price < 100000) { // Sanity check
+      return {
+        price,
+        roundId: BigInt(roundData.roundId),
+        updatedAt: Number(roundData.updatedAt)
+      };
+    }
+
+    return null;
+  } catch (error) {
+    console.warn(`Failed to fetch Chainlink ETH/USD price at block ${blockNumber}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get token price from Chainlink (if oracle exists for token)
  */
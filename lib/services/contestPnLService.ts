@@ -0,0 +1,136 @@
+// lib/services/contestPnLService.ts
+// Live contest PnL: schedules refreshes for registrations in active contests and keeps a
+// time series of PnL snapshots per registration (contest_pnl_snapshots)
+
+import { query } from '@/lib/db/connection';
+import { enqueueJob } from './jobQueueService';
+import { PnLResult } from './pnlEngine';
+
+// Registrations refreshed more recently than this are skipped when scheduling
+const DEFAULT_REFRESH_INTERVAL_MINUTES = process.env.CONTEST_PNL_REFRESH_MINUTES
+  ? parseInt(process.env.CONTEST_PNL_REFRESH_MINUTES, 10)
+  : 15;
+
+export interface PnLSnapshotPoint {
+  capturedAt: string;
+  pnlUsd: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  markPriceUsd: number | null;
+  tradeCount: number;
+}
+
+/**
+ * Append a point to a registration's PnL curve
+ */
+export async function recordPnLSnapshot(
+  registrationId: number,
+  contestId: number,
+  pnl: PnLResult,
+  markPriceUsd: number | null,
+  lastBlock: number | null
+): Promise<void> {
+  await query(
+    `INSERT INTO contest_pnl_snapshots (
+      registration_id, contest_id, pnl_usd, realized_pnl_usd, unrealized_pnl_usd,
+      mark_price_usd, trade_count, last_block
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      registrationId,
+      contestId,
+      pnl.totalPnlUsd,
+      pnl.realizedPnlUsd,
+      pnl.unrealizedPnlUsd,
+      markPriceUsd,
+      pnl.tradesProcessed,
+      lastBlock
+    ]
+  );
+}
+
+/**
+ * Queue a contest.refresh_pnl job for every indexed registration in a running contest
+ * (started, not yet ended or finalized) that has not been refreshed in the last `intervalMinutes`
+ * Returns the number of registrations queued (already-queued ones are deduplicated)
+ */
+export async function scheduleContestPnLRefresh(
+  intervalMinutes: number = DEFAULT_REFRESH_INTERVAL_MINUTES
+): Promise<number> {
+  const result = await query(
+    `SELECT cr.id
+     FROM contest_registrations cr
+     JOIN weekly_contests wc ON cr.contest_id = wc.id
+     WHERE wc.status = 'active'
+       AND wc.start_date <= NOW()
+       AND wc.end_date > NOW()
+       AND wc.finalized_at IS NULL
+       AND cr.index_status = 'indexed'
+       AND (cr.pnl_calculated_at IS NULL
+            OR cr.pnl_calculated_at < NOW() - ($1 || ' minutes')::interval)
+     ORDER BY cr.pnl_calculated_at ASC NULLS FIRST`,
+    [intervalMinutes]
+  );
+
+  for (const row of result.rows) {
+    await enqueueJob(
+      'contest.refresh_pnl',
+      { registrationId: row.id },
+      { dedupeKey: `contest.refresh_pnl:${row.id}`, maxAttempts: 3 }
+    );
+  }
+
+  return result.rows.length;
+}
+
+function toPoint(row: any): PnLSnapshotPoint {
+  return {
+    capturedAt: row.captured_at,
+    pnlUsd: parseFloat(row.pnl_usd),
+    realizedPnlUsd: parseFloat(row.realized_pnl_usd),
+    unrealizedPnlUsd: parseFloat(row.unrealized_pnl_usd),
+    markPriceUsd: row.mark_price_usd !== null ? parseFloat(row.mark_price_usd) : null,
+    tradeCount: row.trade_count
+  };
+}
+
+/**
+ * A registration's PnL curve, oldest first
+ */
+export async function getRegistrationPnLHistory(
+  registrationId: number,
+  limit: number = 500
+): Promise<PnLSnapshotPoint[]> {
+  // Latest `limit` points, returned in chronological order
+  const result = await query(
+    `SELECT * FROM (
+       SELECT captured_at, pnl_usd, realized_pnl_usd, unrealized_pnl_usd, mark_price_usd, trade_count
+       FROM contest_pnl_snapshots
+       WHERE registration_id = $1
+       ORDER BY captured_at DESC
+       LIMIT $2
+     ) latest
+     ORDER BY captured_at ASC`,
+    [registrationId, Math.min(Math.max(limit, 1), 2000)]
+  );
+  return result.rows.map(toPoint);
+}
+
+/**
+ * PnL curves for every registration in a contest, keyed by registration id
+ */
+export async function getContestPnLHistory(contestId: number): Promise<Record<number, PnLSnapshotPoint[]>> {
+  const result = await query(
+    `SELECT registration_id, captured_at, pnl_usd, realized_pnl_usd, unrealized_pnl_usd, mark_price_usd, trade_count
+     FROM contest_pnl_snapshots
+     WHERE contest_id = $1
+     ORDER BY registration_id, captured_at ASC`,
+    [contestId]
+  );
+
+  const series: Record<number, PnLSnapshotPoint[]> = {};
+  for (const row of result.rows) {
+    const registrationId = Number(row.registration_id);
+    (series[registrationId] ||= []).push(toPoint(row));
+  }
+  return series;
+}
@@ -0,0 +1,514 @@
+// lib/services/contestResultsService.ts
+// Contest finalization: freezes PnL at the end-of-contest price, ranks participants and writes an
+// immutable result (contest_results + contest_result_entries). Contests compete for the worst PnL,
+// so rank 1 is the biggest loser.
+//
+// Rules:
+// - PnL is compared at cent precision; equal PnL shares a rank (1, 1, 3) and every entry at a
+//   winning rank (rank <= winner_count) is a winner
+// - Wallets whose trade volume is below the contest's min_volume_usd are listed but not ranked
+// - A finalized contest rejects PnL refreshes and recalculation until an admin reopens it with a
+//   reason; finalizing again writes a new result version
+// - Replay contests (a past window) are finalized once entries close at registration_ends_at, at the
+//   window's stored end block
+
+import { getClient, query } from '@/lib/db/connection';
+import { blockAt } from './blockTimeService';
+import { getTokenPriceAtBlock } from './historicalPriceService';
+import { enqueueJob } from './jobQueueService';
+import {
+  calculateRegistrationVolume,
+  refreshUserWalletForRegistration
+} from './userIndexerService';
+
+export type DisqualifiedReason = 'below_min_volume' | 'not_indexed';
+export type ContestMode = 'live' | 'replay';
+
+export interface ContestStanding {
+  registrationId: number;
+  walletAddress: string;
+  fid: number | null;
+  pnlUsd: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  volumeUsd: number;
+  tradeCount: number;
+  disqualifiedReason?: DisqualifiedReason | null;
+}
+
+export interface RankedStanding extends ContestStanding {
+  rank: number | null;
+  isWinner: boolean;
+  disqualifiedReason: DisqualifiedReason | null;
+}
+
+export interface ContestResult {
+  id: number;
+  contestId: number;
+  version: number;
+  mode: ContestMode;
+  tokenAddress: string;
+  tokenSymbol: string | null;
+  startDate: string;
+  endDate: string;
+  endBlock: number;
+  endPriceUsd: number;
+  minVolumeUsd: number;
+  winnerCount: number;
+  participantCount: number;
+  rankedCount: number;
+  finalizedByFid: number | null;
+  finalizedAt: string;
+  entries: RankedStanding[];
+}
+
+export interface ContestSummary {
+  contestId: number;
+  mode: ContestMode;
+  tokenAddress: string;
+  tokenSymbol: string | null;
+  startDate: string;
+  endDate: string;
+  participantCount: number;
+  rankedCount: number;
+  worstPnlUsd: number | null;
+  medianPnlUsd: number | null;
+  totalPnlUsd: number;
+  totalVolumeUsd: number;
+  lossRate: number | null; // Share of ranked entries that lost money
+  biggestLoser: RankedStanding | null;
+}
+
+export interface ResultsAnnouncement {
+  castText: string;
+  notificationTitle: string;
+  notificationBody: string;
+}
+
+/**
+ * Thrown when an operation would change PnL of a finalized contest (or finalize it twice)
+ */
+export class ContestFinalizedError extends Error {
+  constructor(contestId: number) {
+    super(`Contest ${contestId} is finalized. Reopen it with a reason before changing results.`);
+    this.name = 'ContestFinalizedError';
+  }
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+/**
+ * Rank standings worst PnL first, applying the minimum volume and tie rules (pure)
+ */
+export function rankContestEntries(
+  standings: ContestStanding[],
+  rules: { minVolumeUsd: number; winnerCount: number }
+): RankedStanding[] {
+  const ranked: RankedStanding[] = [];
+  const unranked: RankedStanding[] = [];
+
+  for (const standing of standings) {
+    const reason = standing.disqualifiedReason
+      || (standing.volumeUsd < rules.minVolumeUsd ? 'below_min_volume' : null);
+    const entry: RankedStanding = { ...standing, rank: null, isWinner: false, disqualifiedReason: reason };
+    (reason ? unranked : ranked).push(entry);
+  }
+
+  // Ties keep a stable order by registration so results do not depend on query order
+  const byPnl = (a: RankedStanding, b: RankedStanding) =>
+    toCents(a.pnlUsd) - toCents(b.pnlUsd) || a.registrationId - b.registrationId;
+  ranked.sort(byPnl);
+  unranked.sort(byPnl);
+
+  ranked.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    entry.rank = previous && toCents(previous.pnlUsd) === toCents(entry.pnlUsd) ? previous.rank : index + 1;
+    entry.isWinner = entry.rank !== null && entry.rank <= rules.winnerCount;
+  });
+
+  return [...ranked, ...unranked];
+}
+
+async function getContest(contestId: number) {
+  const result = await query('SELECT * FROM weekly_contests WHERE id = $1', [contestId]);
+  if (result.rows.length === 0) {
+    throw new Error(`Contest ${contestId} not found`);
+  }
+  return result.rows[0];
+}
+
+/**
+ * Throw ContestFinalizedError if the contest's PnL is frozen
+ */
+export async function assertContestNotFinalized(contestId: number): Promise<void> {
+  const contest = await getContest(contestId);
+  if (contest.finalized_at) {
+    throw new ContestFinalizedError(contestId);
+  }
+}
+
+/**
+ * Freeze final PnL at the end-of-contest price, rank participants and store an immutable result
+ */
+export async function finalizeContest(contestId: number, finalizedByFid: number | null = null): Promise<ContestResult> {
+  const contest = await getContest(contestId);
+
+  if (contest.finalized_at) {
+    throw new ContestFinalizedError(contestId);
+  }
+
+  if (new Date(contest.end_date).getTime() > Date.now()) {
+    throw new Error(`Contest ${contestId} ends at ${new Date(contest.end_date).toISOString()} and cannot be finalized yet`);
+  }
+
+  if (contest.registration_ends_at && new Date(contest.registration_ends_at).getTime() > Date.now()) {
+    throw new Error(`Contest ${contestId} takes entries until ${new Date(contest.registration_ends_at).toISOString()} and cannot be finalized yet`);
+  }
+
+  const endBlock = contest.end_block !== null
+    ? Number(contest.end_block)
+    : await blockAt(new Date(contest.end_date));
+  const endQuote = await getTokenPriceAtBlock(contest.token_address, endBlock);
+  if (!endQuote) {
+    // Finalizing at a made-up price would be worse than waiting for the next attempt
+    throw new Error(`No price for ${contest.token_address} at end block ${endBlock}`);
+  }
+
+  const registrations = await query(
+    `SELECT id, wallet_address, fid, index_status
+     FROM contest_registrations
+     WHERE contest_id = $1
+     ORDER BY id`,
+    [contestId]
+  );
+
+  const standings: ContestStanding[] = [];
+  for (const registration of registrations.rows) {
+    const base = {
+      registrationId: registration.id,
+      walletAddress: registration.wallet_address,
+      fid: registration.fid !== null ? Number(registration.fid) : null
+    };
+
+    if (registration.index_status !== 'indexed') {
+      standings.push({
+        ...base,
+        pnlUsd: 0,
+        realizedPnlUsd: 0,
+        unrealizedPnlUsd: 0,
+        volumeUsd: 0,
+        tradeCount: 0,
+        disqualifiedReason: 'not_indexed'
+      });
+      continue;
+    }
+
+    // Pick up trades up to the end block and mark open positions at the end price
+    const refreshed = await refreshUserWalletForRegistration(registration.id, {
+      toBlock: endBlock,
+      markPriceUsd: endQuote.priceUsd
+    });
+    const volume = await calculateRegistrationVolume(registration.id, contest.token_address);
+
+    standings.push({
+      ...base,
+      pnlUsd: refreshed.details.totalPnlUsd,
+      realizedPnlUsd: refreshed.details.realizedPnlUsd,
+      unrealizedPnlUsd: refreshed.details.unrealizedPnlUsd,
+      volumeUsd: volume.volumeUsd,
+      tradeCount: volume.tradeCount
+    });
+  }
+
+  const minVolumeUsd = parseFloat(contest.min_volume_usd ?? 0);
+  const winnerCount = contest.winner_count ?? 1;
+  const entries = rankContestEntries(standings, { minVolumeUsd, winnerCount });
+  const rankedCount = entries.filter(entry => entry.rank !== null).length;
+
+  const client = await getClient();
+  let resultId: number;
+  try {
+    await client.query('BEGIN');
+
+    // Lock the contest so two finalizations cannot race
+    const locked = await client.query(
+      'SELECT finalized_at FROM weekly_contests WHERE id = $1 FOR UPDATE',
+      [contestId]
+    );
+    if (locked.rows[0]?.finalized_at) {
+      throw new ContestFinalizedError(contestId);
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO contest_results (
+        contest_id, version, end_block, end_price_usd, min_volume_usd, winner_count,
+        participant_count, ranked_count, finalized_by_fid
+      )
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6, $7, $8
+      FROM contest_results WHERE contest_id = $1
+      RETURNING id`,
+      [contestId, endBlock, endQuote.priceUsd, minVolumeUsd, winnerCount, entries.length, rankedCount, finalizedByFid]
+    );
+    resultId = inserted.rows[0].id;
+
+    if (entries.length > 0) {
+      await client.query(
+        `INSERT INTO contest_result_entries (
+          result_id, registration_id, wallet_address, fid, rank, is_winner, pnl_usd,
+          realized_pnl_usd, unrealized_pnl_usd, volume_usd, trade_count, disqualified_reason
+        )
+        SELECT $1, e.registration_id, e.wallet_address, e.fid, e.rank, e.is_winner, e.pnl_usd,
+               e.realized_pnl_usd, e.unrealized_pnl_usd, e.volume_usd, e.trade_count, e.disqualified_reason
+        FROM jsonb_to_recordset($2::jsonb) AS e(
+          registration_id INTEGER, wallet_address TEXT, fid BIGINT, rank INTEGER, is_winner BOOLEAN,
+          pnl_usd NUMERIC, realized_pnl_usd NUMERIC, unrealized_pnl_usd NUMERIC, volume_usd NUMERIC,
+          trade_count INTEGER, disqualified_reason TEXT
+        )`,
+        [
+          resultId,
+          JSON.stringify(entries.map(entry => ({
+            registration_id: entry.registrationId,
+            wallet_address: entry.walletAddress,
+            fid: entry.fid,
+            rank: entry.rank,
+            is_winner: entry.isWinner,
+            pnl_usd: entry.pnlUsd,
+            realized_pnl_usd: entry.realizedPnlUsd,
+            unrealized_pnl_usd: entry.unrealizedPnlUsd,
+            volume_usd: entry.volumeUsd,
+            trade_count: entry.tradeCount,
+            disqualified_reason: entry.disqualifiedReason
+          })))
+        ]
+      );
+    }
+
+    await client.query(
+      `UPDATE weekly_contests
+       SET status = 'completed', finalized_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [contestId]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`[ContestResults] Finalized contest ${contestId}: ${rankedCount}/${entries.length} ranked at $${endQuote.priceUsd} (block ${endBlock})`);
+
+  const result = await getContestResult(contestId);
+  if (!result) {
+    throw new Error(`Result for contest ${contestId} was not written`);
+  }
+  return result;
+}
+
+/**
+ * Reopen a finalized contest - the current result stays on record, marked as reopened with the reason
+ */
+export async function reopenContest(contestId: number, reason: string, reopenedByFid: number): Promise<{ resultId: number }> {
+  const current = await getContestResult(contestId);
+  if (!current) {
+    throw new Error(`Contest ${contestId} is not finalized`);
+  }
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `INSERT INTO contest_reopenings (contest_id, result_id, reason, reopened_by_fid)
+       VALUES ($1, $2, $3, $4)`,
+      [contestId, current.id, reason, reopenedByFid]
+    );
+    // Stays 'completed' so the scheduler does not re-finalize it; an admin finalizes it again
+    await client.query(
+      `UPDATE weekly_contests SET finalized_at = NULL, updated_at = NOW() WHERE id = $1`,
+      [contestId]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return { resultId: current.id };
+}
+
+/**
+ * The contest's current result (latest version that has not been reopened), or null
+ */
+export async function getContestResult(contestId: number): Promise<ContestResult | null> {
+  const resultRows = await query(
+    `SELECT r.*, wc.mode, wc.token_address, wc.token_symbol, wc.start_date, wc.end_date
+     FROM contest_results r
+     JOIN weekly_contests wc ON r.contest_id = wc.id
+     WHERE r.contest_id = $1
+       AND NOT EXISTS (SELECT 1 FROM contest_reopenings ro WHERE ro.result_id = r.id)
+     ORDER BY r.version DESC
+     LIMIT 1`,
+    [contestId]
+  );
+
+  if (resultRows.rows.length === 0) {
+    return null;
+  }
+
+  const row = resultRows.rows[0];
+  const entryRows = await query(
+    `SELECT * FROM contest_result_entries
+     WHERE result_id = $1
+     ORDER BY rank ASC NULLS LAST, pnl_usd ASC, registration_id ASC`,
+    [row.id]
+  );
+
+  return {
+    id: row.id,
+    contestId: row.contest_id,
+    version: row.version,
+    mode: row.mode,
+    tokenAddress: row.token_address,
+    tokenSymbol: row.token_symbol,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    endBlock: Number(row.end_block),
+    endPriceUsd: parseFloat(row.end_price_usd),
+    minVolumeUsd: parseFloat(row.min_volume_usd),
+    winnerCount: row.winner_count,
+    participantCount: row.participant_count,
+    rankedCount: row.ranked_count,
+    finalizedByFid: row.finalized_by_fid !== null ? Number(row.finalized_by_fid) : null,
+    finalizedAt: row.finalized_at,
+    entries: entryRows.rows.map(entry => ({
+      registrationId: entry.registration_id,
+      walletAddress: entry.wallet_address,
+      fid: entry.fid !== null ? Number(entry.fid) : null,
+      rank: entry.rank,
+      isWinner: entry.is_winner,
+      pnlUsd: parseFloat(entry.pnl_usd),
+      realizedPnlUsd: parseFloat(entry.realized_pnl_usd),
+      unrealizedPnlUsd: parseFloat(entry.unrealized_pnl_usd),
+      volumeUsd: parseFloat(entry.volume_usd),
+      tradeCount: entry.trade_count,
+      disqualifiedReason: entry.disqualified_reason
+    }))
+  };
+}
+
+/**
+ * Id of the most recently finalized contest, or null
+ */
+export async function getLatestFinalizedContestId(): Promise<number | null> {
+  const result = await query(
+    `SELECT id FROM weekly_contests
+     WHERE finalized_at IS NOT NULL
+     ORDER BY end_date DESC
+     LIMIT 1`
+  );
+  return result.rows.length > 0 ? result.rows[0].id : null;
+}
+
+/**
+ * Finalized contests of a mode, most recent window first
+ */
+export async function getFinalizedContestIds(mode: ContestMode, limit: number = 10): Promise<number[]> {
+  const result = await query(
+    `SELECT id FROM weekly_contests
+     WHERE mode = $1 AND finalized_at IS NOT NULL
+     ORDER BY end_date DESC
+     LIMIT $2`,
+    [mode, limit]
+  );
+  return result.rows.map(row => row.id);
+}
+
+/**
+ * Headline numbers of a result, for comparing a replayed week with live ones (pure)
+ */
+export function summarizeContestResult(result: ContestResult): ContestSummary {
+  const ranked = result.entries.filter(entry => entry.rank !== null);
+  const pnls = ranked.map(entry => entry.pnlUsd).sort((a, b) => a - b);
+  const middle = Math.floor(pnls.length / 2);
+
+  return {
+    contestId: result.contestId,
+    mode: result.mode,
+    tokenAddress: result.tokenAddress,
+    tokenSymbol: result.tokenSymbol,
+    startDate: result.startDate,
+    endDate: result.endDate,
+    participantCount: result.participantCount,
+    rankedCount: ranked.length,
+    worstPnlUsd: pnls.length > 0 ? pnls[0] : null,
+    medianPnlUsd: pnls.length === 0
+      ? null
+      : pnls.length % 2 === 1 ? pnls[middle] : (pnls[middle - 1] + pnls[middle]) / 2,
+    totalPnlUsd: ranked.reduce((sum, entry) => sum + entry.pnlUsd, 0),
+    totalVolumeUsd: ranked.reduce((sum, entry) => sum + entry.volumeUsd, 0),
+    lossRate: ranked.length > 0 ? ranked.filter(entry => entry.pnlUsd < 0).length / ranked.length : null,
+    biggestLoser: ranked[0] ?? null
+  };
+}
+
+/**
+ * Queue finalization for active contests past their end date (replays: once entries close)
+ * Returns the number of contests queued
+ */
+export async function scheduleContestFinalization(): Promise<number> {
+  const result = await query(
+    `SELECT id FROM weekly_contests
+     WHERE status = 'active' AND finalized_at IS NULL
+       AND end_date <= NOW() AND COALESCE(registration_ends_at, end_date) <= NOW()`
+  );
+
+  for (const row of result.rows) {
+    await enqueueJob(
+      'contest.finalize',
+      { contestId: row.id },
+      { dedupeKey: `contest.finalize:${row.id}`, maxAttempts: 10 }
+    );
+  }
+
+  return result.rows.length;
+}
+
+export const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Cast and notification copy for a result (usernames keyed by FID, when known)
+ */
+export function buildResultsAnnouncement(
+  result: Pick<ContestResult, 'contestId' | 'tokenSymbol' | 'tokenAddress' | 'participantCount' | 'entries'>,
+  usernames: Record<number, string> = {}
+): ResultsAnnouncement {
+  const token = result.tokenSymbol ? `$${result.tokenSymbol}` : `${result.tokenAddress.slice(0, 8)}...`;
+  const name = (entry: RankedStanding) =>
+    entry.fid && usernames[entry.fid] ? `@${usernames[entry.fid]}` : `${entry.walletAddress.slice(0, 6)}...${entry.walletAddress.slice(-4)}`;
+
+  const winners = result.entries.filter(entry => entry.isWinner);
+  const podium = result.entries.filter(entry => entry.rank !== null && entry.rank <= 3);
+
+  const lines = [`🏆 ${token} contest #${result.contestId} is final!`, ''];
+  if (podium.length === 0) {
+    lines.push('Nobody qualified this week.');
+  } else {
+    for (const entry of podium) {
+      lines.push(`${entry.rank}. ${name(entry)} ${formatUsd(entry.pnlUsd)}`);
+    }
+  }
+  lines.push('', `${result.participantCount} traders entered. Congrats to the worst of the worst.`);
+
+  const winnerNames = winners.map(name).join(', ');
+  return {
+    castText: lines.join('\n'),
+    notificationTitle: `${token} contest results`.slice(0, 32),
+    notificationBody: (winners.length > 0
+      ? `Biggest loser: ${winnerNames} (${formatUsd(winners[0].pnlUsd)}). See the final standings!`
+      : 'Final standings are in. See how you did!').slice(0, 128)
+  };
+}
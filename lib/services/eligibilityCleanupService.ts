@@ -1,10 +1,12 @@
 // lib/services/eligibilityCleanupService.ts
 // Service to check and clean up users who no longer hold required tokens
+// Holdings count across the user's linked wallets and LP positions (see eligibilityService)
+// Users who just dropped below the threshold get an eligibility_lost notification
 
-import { getEligibilityThreshold } from '@/lib/config/eligibility';
 import { query } from '@/lib/db/connection';
 import { logError, logInfo } from './indexerLogger';
-import { getBadTradersBalance } from './tokenService';
+import { EligibilityResult, getEligibility, HoldingItem } from './eligibilityService';
+import { enqueueNotificationEvent } from './notificationRules';
 
 interface CleanupResult {
   totalChecked: number;
@@ -19,6 +21,7 @@ interface CleanupResult {
     previousBalance: number;
     currentBalance: number;
     threshold: number;
+    breakdown: HoldingItem[];
     action: 'kept' | 'removed' | 'error';
   }[];
 }
@@ -65,16 +68,13 @@ export async function cleanupIneligibleUsers(
         const username = user.username;
         const previousEligible = user.eligibility_status;
 
-        // Determine threshold based on whether user has FID (Farcaster user)
+        // Get current holdings with retry logic for better reliability
         // If fid exists, they're a Farcaster user (lower threshold)
-        const threshold = getEligibilityThreshold(!!fid);
-
-        // Get current balance with retry logic for better reliability
-        let currentBalance = 0;
+        let eligibility: EligibilityResult | null = null;
         let retries = 3;
-        while (retries > 0) {
+        while (!eligibility) {
           try {
-            currentBalance = await getBadTradersBalance(walletAddress);
+            eligibility = await getEligibility(walletAddress, 'register', { fid: fid ? Number(fid) : null });
             break; // Success, exit retry loop
           } catch (error: any) {
             retries--;
@@ -87,7 +87,7 @@ export async function cleanupIneligibleUsers(
           }
         }
 
-        const isEligible = currentBalance >= threshold;
+        const { total: currentBalance, threshold, isEligible, items: breakdown } = eligibility;
 
         // Always update eligibility status to ensure it's current (not just when changed)
         // This ensures real-time accuracy even if cleanup runs infrequently
@@ -111,11 +111,22 @@ export async function cleanupIneligibleUsers(
             previousBalance: currentBalance, // We don't track previous, so use current
             currentBalance,
             threshold,
+            breakdown,
             action: 'kept'
           });
         } else {
           result.noLongerEligible++;
 
+          if (previousEligible && fid) {
+            await enqueueNotificationEvent({
+              type: 'eligibility.lost',
+              fid: Number(fid),
+              balance: currentBalance,
+              threshold,
+              checkedOn: new Date().toISOString().slice(0, 10)
+            });
+          }
+
           // Remove from indexing if requested
           if (removeFromIndexing) {
             await query(
@@ -133,6 +144,7 @@ export async function cleanupIneligibleUsers(
             previousBalance: currentBalance,
             currentBalance,
             threshold,
+            breakdown,
             action: removeFromIndexing ? 'removed' : 'kept'
           });
         }
@@ -150,6 +162,7 @@ export async function cleanupIneligibleUsers(
           previousBalance: 0,
           currentBalance: 0,
           threshold: 0,
+          breakdown: [],
           action: 'error'
         });
       }
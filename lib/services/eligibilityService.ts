@@ -0,0 +1,259 @@
+// lib/services/eligibilityService.ts
+// $BADTRADERS holdings behind every eligibility check (registration, contest entry, NFT mint and
+// the cleanup job).
+//
+// A holder's balance is summed across every wallet on their identity (see identityService), plus
+// their share of $BADTRADERS in liquidity positions: Uniswap V3 position NFTs and Aerodrome pool
+// tokens, held directly or staked in the pool's gauge. Each source is itemized so a holder can see
+// what was counted.
+
+import { ethers } from 'ethers';
+import { EligibilityPurpose, getThresholdFor } from '@/lib/config/eligibility';
+import { BADTRADER_TOKEN_ADDRESS } from '@/lib/utils/constants';
+import { getPrimaryProvider } from './providers';
+import { getBadTradersBalance } from './tokenService';
+import { getTokenPools, computeV3PoolAddress } from './poolPriceService';
+import { getIdentityWallets, getLinkedWallets, syncFarcasterWallets } from './identityService';
+
+const BADTRADERS_DECIMALS = 18;
+const Q96 = 2 ** 96;
+
+// Uniswap V3 NonfungiblePositionManager (Base)
+const UNISWAP_V3_POSITION_MANAGER = '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1';
+const POSITION_MANAGER_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+  'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)'
+];
+const V3_POOL_SLOT0_ABI = [
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'
+];
+// Positions past this many per wallet are not counted (keeps a check to a bounded number of calls)
+const MAX_V3_POSITIONS_PER_WALLET = 20;
+
+// Aerodrome Voter (Base) - maps a pool to the gauge its LP tokens are staked in
+const AERODROME_VOTER = '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5';
+const AERODROME_VOTER_ABI = ['function gauges(address pool) view returns (address)'];
+const AERODROME_POOL_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  'function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)',
+  'function token0() view returns (address)'
+];
+const GAUGE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+export interface HoldingItem {
+  source: 'wallet' | 'uniswap_v3' | 'aerodrome';
+  walletAddress: string;
+  amount: number; // $BADTRADERS, in tokens
+  pool?: string;
+  positionId?: string; // Uniswap V3 position NFT id
+  staked?: boolean; // Aerodrome LP tokens staked in the gauge
+}
+
+export interface EligibilityResult {
+  purpose: EligibilityPurpose;
+  fid: number | null;
+  wallets: string[];
+  items: HoldingItem[];
+  walletBalance: number; // Held directly in the wallets
+  lpBalance: number; // Share of liquidity positions
+  total: number;
+  threshold: number;
+  isEligible: boolean;
+}
+
+export interface EligibilityOptions {
+  fid?: number | null; // Farcaster user: their identity's wallets count and the Farcaster threshold applies
+  includeLp?: boolean; // Count liquidity positions (default true)
+}
+
+/**
+ * Token amounts of a Uniswap V3 position at the pool's current price, in raw units (pure)
+ * Standard concentrated-liquidity math in floating point - precise enough for a balance threshold
+ */
+export function v3PositionAmounts(
+  liquidity: bigint,
+  sqrtPriceX96: bigint,
+  tickLower: number,
+  tickUpper: number
+): { amount0: number; amount1: number } {
+  const L = Number(liquidity);
+  const price = Number(sqrtPriceX96) / Q96;
+  const lower = Math.pow(1.0001, tickLower / 2);
+  const upper = Math.pow(1.0001, tickUpper / 2);
+
+  if (price <= lower) {
+    return { amount0: L * (upper - lower) / (lower * upper), amount1: 0 };
+  }
+  if (price >= upper) {
+    return { amount0: 0, amount1: L * (upper - lower) };
+  }
+  return { amount0: L * (upper - price) / (price * upper), amount1: L * (price - lower) };
+}
+
+/**
+ * Share of a pool's reserve owned through LP tokens, in raw units (pure)
+ */
+export function lpShareOfReserve(lpBalance: bigint, totalSupply: bigint, reserve: bigint): number {
+  if (totalSupply === BigInt(0) || lpBalance === BigInt(0)) {
+    return 0;
+  }
+  // Scale before dividing so small shares of large reserves keep their precision
+  return Number((lpBalance * reserve * BigInt(1_000_000)) / totalSupply) / 1_000_000;
+}
+
+/**
+ * Wallet and LP totals of an itemized holding, checked against a threshold (pure)
+ */
+export function summarizeHoldings(
+  items: HoldingItem[],
+  threshold: number
+): Pick<EligibilityResult, 'walletBalance' | 'lpBalance' | 'total' | 'isEligible'> {
+  const walletBalance = items.filter(item => item.source === 'wallet').reduce((sum, item) => sum + item.amount, 0);
+  const lpBalance = items.filter(item => item.source !== 'wallet').reduce((sum, item) => sum + item.amount, 0);
+  const total = walletBalance + lpBalance;
+  return { walletBalance, lpBalance, total, isEligible: total >= threshold };
+}
+
+const toTokens = (raw: number) => raw / 10 ** BADTRADERS_DECIMALS;
+
+/**
+ * $BADTRADERS in a wallet's Uniswap V3 positions (liquidity plus uncollected fees)
+ */
+async function getV3Holdings(provider: ethers.Provider, walletAddress: string): Promise<HoldingItem[]> {
+  const token = BADTRADER_TOKEN_ADDRESS.toLowerCase();
+  const manager = new ethers.Contract(UNISWAP_V3_POSITION_MANAGER, POSITION_MANAGER_ABI, provider);
+  const count = Math.min(Number(await manager.balanceOf(walletAddress)), MAX_V3_POSITIONS_PER_WALLET);
+
+  const items: HoldingItem[] = [];
+  for (let i = 0; i < count; i++) {
+    const tokenId: bigint = await manager.tokenOfOwnerByIndex(walletAddress, i);
+    const position = await manager.positions(tokenId);
+    const token0 = String(position.token0).toLowerCase();
+    const token1 = String(position.token1).toLowerCase();
+    if (token0 !== token && token1 !== token) {
+      continue;
+    }
+
+    const pool = computeV3PoolAddress(token0, token1, Number(position.fee));
+    const [sqrtPriceX96] = await new ethers.Contract(pool, V3_POOL_SLOT0_ABI, provider).slot0();
+    const { amount0, amount1 } = v3PositionAmounts(
+      BigInt(position.liquidity),
+      BigInt(sqrtPriceX96),
+      Number(position.tickLower),
+      Number(position.tickUpper)
+    );
+    const raw = token0 === token
+      ? amount0 + Number(position.tokensOwed0)
+      : amount1 + Number(position.tokensOwed1);
+
+    if (raw > 0) {
+      items.push({ source: 'uniswap_v3', walletAddress, amount: toTokens(raw), pool, positionId: tokenId.toString() });
+    }
+  }
+  return items;
+}
+
+/**
+ * $BADTRADERS behind a wallet's Aerodrome LP tokens, held or staked in a gauge
+ */
+async function getAerodromeHoldings(provider: ethers.Provider, walletAddress: string): Promise<HoldingItem[]> {
+  const token = BADTRADER_TOKEN_ADDRESS.toLowerCase();
+  const pools = (await getTokenPools(token)).filter(pool => pool.protocol === 'aerodrome');
+  const voter = new ethers.Contract(AERODROME_VOTER, AERODROME_VOTER_ABI, provider);
+
+  const items: HoldingItem[] = [];
+  for (const { poolAddress } of pools) {
+    const pool = new ethers.Contract(poolAddress, AERODROME_POOL_ABI, provider);
+    const held: bigint = await pool.balanceOf(walletAddress);
+    const gauge: string = await voter.gauges(poolAddress);
+    const staked: bigint = gauge !== ethers.ZeroAddress
+      ? await new ethers.Contract(gauge, GAUGE_ABI, provider).balanceOf(walletAddress)
+      : BigInt(0);
+    if (held === BigInt(0) && staked === BigInt(0)) {
+      continue;
+    }
+
+    const [totalSupply, reserves, token0] = await Promise.all([pool.totalSupply(), pool.getReserves(), pool.token0()]);
+    const reserve: bigint = String(token0).toLowerCase() === token ? reserves[0] : reserves[1];
+
+    for (const [lpBalance, isStaked] of [[held, false], [staked, true]] as Array<[bigint, boolean]>) {
+      const raw = lpShareOfReserve(lpBalance, totalSupply, reserve);
+      if (raw > 0) {
+        items.push({ source: 'aerodrome', walletAddress, amount: toTokens(raw), pool: poolAddress, staked: isStaked });
+      }
+    }
+  }
+  return items;
+}
+
+/**
+ * $BADTRADERS in a wallet's liquidity positions
+ * A source that cannot be read counts as empty rather than failing the check
+ */
+async function getLpHoldings(walletAddress: string): Promise<HoldingItem[]> {
+  const provider = getPrimaryProvider();
+  if (!provider) {
+    return [];
+  }
+
+  const items: HoldingItem[] = [];
+  for (const read of [getV3Holdings, getAerodromeHoldings]) {
+    try {
+      items.push(...await read(provider, walletAddress));
+    } catch (error) {
+      console.warn(`Error reading ${read.name} for ${walletAddress}:`, error);
+    }
+  }
+  return items;
+}
+
+/**
+ * Wallets whose holdings count for a user: the wallet given first, then the rest of the identity
+ */
+async function resolveWallets(walletAddress: string | null, fid: number | null): Promise<string[]> {
+  if (fid === null) {
+    return walletAddress ? getLinkedWallets(walletAddress) : [];
+  }
+
+  let identity: string[];
+  try {
+    identity = (await syncFarcasterWallets(fid)).map(wallet => wallet.walletAddress);
+  } catch (error) {
+    console.warn(`Error syncing Farcaster wallets for FID ${fid} (using stored wallets):`, error);
+    identity = (await getIdentityWallets(fid)).map(wallet => wallet.walletAddress);
+  }
+
+  const first = walletAddress ? [walletAddress.toLowerCase()] : [];
+  return Array.from(new Set([...first, ...identity]));
+}
+
+/**
+ * Check a user's $BADTRADERS holdings for a purpose, with an itemized breakdown
+ * @param walletAddress - Wallet the user is acting with (null: look up by FID only)
+ * @param purpose - What the holding is checked for (sets the threshold)
+ * @param options - FID of a Farcaster user, and whether to count liquidity positions
+ */
+export async function getEligibility(
+  walletAddress: string | null,
+  purpose: EligibilityPurpose,
+  options: EligibilityOptions = {}
+): Promise<EligibilityResult> {
+  const fid = options.fid ?? null;
+  const wallets = await resolveWallets(walletAddress, fid);
+
+  const items: HoldingItem[] = [];
+  for (const wallet of wallets) {
+    const balance = await getBadTradersBalance(wallet);
+    if (balance > 0) {
+      items.push({ source: 'wallet', walletAddress: wallet, amount: balance });
+    }
+    if (options.includeLp !== false) {
+      items.push(...await getLpHoldings(wallet));
+    }
+  }
+
+  const threshold = getThresholdFor(purpose, fid !== null);
+  return { purpose, fid, wallets, items, threshold, ...summarizeHoldings(items, threshold) };
+}
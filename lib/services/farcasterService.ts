@@ -46,8 +46,8 @@ export async function getFarcasterProfiles(addresses: string[]): Promise<Record<
         continue;
       }
 
-      // A user can have multiple verified addresses, so we map all of them to the same profile
-      const verifiedAddresses = user.verified_addresses?.eth_addresses || [];
+      // A user can have multiple verified addresses (plus its custody address), so we map all of them to the same profile
+      const verifiedAddresses = [...(user.verified_addresses?.eth_addresses || []), user.custody_address];
 
       for (const address of verifiedAddresses) {
         if (address) {
@@ -70,3 +70,51 @@ export async function getFarcasterProfiles(addresses: string[]): Promise<Record<
   }
 }
 
+
+const isEthAddress = (address: unknown): address is string =>
+  typeof address === 'string' && /^0x[a-fA-F0-9]{40}$/i.test(address);
+
+/**
+ * Verified Base addresses of an FID (lowercase), from Neynar's balance lookup with the user
+ * endpoint (verified + custody addresses) as a fallback. Empty when Neynar is unavailable.
+ */
+export async function getVerifiedAddresses(fid: number): Promise<string[]> {
+  if (!NEYNAR_API_KEY || !neynarClient) {
+    return [];
+  }
+
+  const addresses: string[] = [];
+
+  try {
+    const response = await neynarClient.fetchUserBalance({ fid, networks: ['base'] });
+
+    // Handle response structure - could be BalanceResponse or BalanceResponseUserBalance
+    const userBalance = (response as any)?.user_balance || response;
+    const addressBalances = (userBalance as any)?.address_balances;
+    if (Array.isArray(addressBalances)) {
+      addresses.push(...addressBalances
+        .map((ab: any) => ab?.verified_address?.address)
+        .filter(isEthAddress));
+    }
+  } catch (balanceError) {
+    console.warn('fetchUserBalance failed, trying REST API fallback:', balanceError);
+
+    try {
+      const userResponse = await fetch(`https://api.neynar.com/v2/farcaster/user?fid=${fid}`, {
+        headers: { 'x-api-key': NEYNAR_API_KEY }
+      });
+
+      if (userResponse.ok) {
+        const user = (await userResponse.json())?.result?.user;
+        addresses.push(...(user?.verified_addresses?.eth_addresses || []).filter(isEthAddress));
+        if (isEthAddress(user?.custody_address)) {
+          addresses.push(user.custody_address);
+        }
+      }
+    } catch (lookupError) {
+      console.warn('REST API fallback also failed:', lookupError);
+    }
+  }
+
+  return Array.from(new Set(addresses.map(address => address.toLowerCase())));
+}
@@ -1,6 +1,28 @@
 // lib/services/fifoAccounting.ts
 import { query } from '@/lib/db/connection';
-import { ethers } from 'ethers';
+import {
+  CostBasisMethod,
+  COST_BASIS_METHODS,
+  allocateSell,
+  SellAllocation,
+  tokenAmountToUsd
+} from './pnlEngine';
+
+export type { CostBasisMethod } from './pnlEngine';
+export { COST_BASIS_METHODS } from './pnlEngine';
+
+/**
+ * How tokens received by plain transfer enter a position
+ * - zero: no cost basis, so selling them is all gain
+ * - fair_value: the token's price at the receiving block
+ * - carry_over: between wallets of the same FID the sender's cost basis moves with the tokens;
+ *   transfers from anyone else get zero basis
+ */
+export type TransferBasisPolicy = 'zero' | 'fair_value' | 'carry_over';
+export const TRANSFER_BASIS_POLICIES: TransferBasisPolicy[] = ['zero', 'fair_value', 'carry_over'];
+
+export type LotSource = 'swap' | 'transfer_in';
+export type DisposalKind = 'sell' | 'transfer_out';
 
 export interface Position {
   wallet_address: string;
@@ -11,6 +33,67 @@ export interface Position {
   updated_at: Date;
 }
 
+export interface PositionLot {
+  id: number;
+  wallet_address: string;
+  token_address: string;
+  tx_hash: string | null;
+  leg_index: number;
+  block_number: string | null;
+  acquired_at: Date;
+  original_amount: string;
+  remaining_amount: string;
+  price_usd: string;
+  cost_basis_usd: string;
+  source: LotSource;
+  closed_at: Date | null;
+}
+
+/**
+ * Identifies the trade that opens or consumes lots
+ * Used for idempotency - re-processing the same trade leg is a no-op
+ */
+export interface TradeReference {
+  txHash: string;
+  blockNumber?: number;
+  timestamp: Date;
+  legIndex?: number;
+}
+
+/**
+ * Get the cost basis method configured for a tracked token (defaults to FIFO)
+ */
+export async function getCostBasisMethod(tokenAddress: string): Promise<CostBasisMethod> {
+  try {
+    const result = await query(
+      'SELECT cost_basis_method FROM tracked_tokens WHERE token_address = $1',
+      [tokenAddress.toLowerCase()]
+    );
+    const method = result.rows[0]?.cost_basis_method;
+    return COST_BASIS_METHODS.includes(method) ? method : 'fifo';
+  } catch (error) {
+    console.error('Error getting cost basis method:', error);
+    return 'fifo';
+  }
+}
+
+/**
+ * Get the transfer basis policy configured for a tracked token (defaults to carry_over)
+ */
+export async function getTransferBasisPolicy(tokenAddress: string): Promise<TransferBasisPolicy> {
+  try {
+    const result = await query(
+      'SELECT transfer_basis_policy FROM tracked_tokens WHERE token_address = $1',
+      [tokenAddress.toLowerCase()]
+    );
+    const policy = result.rows[0]?.transfer_basis_policy;
+    return TRANSFER_BASIS_POLICIES.includes(policy) ? policy : 'carry_over';
+  } catch (error) {
+    console.error('Error getting transfer basis policy:', error);
+    return 'carry_over';
+  }
+}
+
 /**
  * Get current position for a wallet/token pair
  */
@@ -36,21 +119,113 @@ export async function getPosition(
 }
 
 /**
- * Process a BUY transaction - add to position with cost basis
+ * Get lots for a wallet/token pair, oldest first
+ * @param includeClosed - Also return fully consumed lots
+ */
+export async function getPositionLots(
+  walletAddress: string,
+  tokenAddress: string,
+  includeClosed: boolean = false
+): Promise<PositionLot[]> {
+  try {
+    const result = await query(
+      `SELECT * FROM position_lots
+       WHERE wallet_address = $1 AND token_address = $2
+         ${includeClosed ? '' : 'AND remaining_amount > 0'}
+       ORDER BY acquired_at ASC, id ASC`,
+      [walletAddress.toLowerCase(), tokenAddress.toLowerCase()]
+    );
+
+    return result.rows as PositionLot[];
+  } catch (error) {
+    console.error('Error getting position lots:', error);
+    throw error;
+  }
+}
+
+/**
+ * Positions created before lot tracking have no lots - open a single legacy lot
+ * holding the remaining amount and cost basis so sells can consume it
+ */
+async function ensureLegacyLot(position: Position): Promise<void> {
+  const remaining = BigInt(position.remaining_amount);
+  if (remaining === BigInt(0)) {
+    return;
+  }
+
+  const lotsResult = await query(
+    `SELECT COALESCE(SUM(remaining_amount), 0) AS open_amount
+     FROM position_lots
+     WHERE wallet_address = $1 AND token_address = $2 AND remaining_amount > 0`,
+    [position.wallet_address, position.token_address]
+  );
+  const openAmount = BigInt(lotsResult.rows[0].open_amount.toString());
+  if (openAmount > BigInt(0)) {
+    return;
+  }
+
+  await query(
+    `INSERT INTO position_lots (
+      wallet_address, token_address, tx_hash, acquired_at,
+      original_amount, remaining_amount, price_usd, cost_basis_usd, created_at, updated_at
+    ) VALUES ($1, $2, NULL, $3, $4, $4, 0, $5, NOW(), NOW())`,
+    [
+      position.wallet_address,
+      position.token_address,
+      position.updated_at,
+      remaining.toString(),
+      position.cost_basis_usd
+    ]
+  );
+}
+
+/**
+ * Process a BUY transaction - open a lot and add to the position summary
  * Uses UPSERT to handle race conditions from parallel processing
+ * @param trade - Optional trade reference; when provided the lot is keyed by tx hash + leg so re-processing is a no-op
+ * @param source - 'transfer_in' for tokens received by plain transfer (see transferAccounting)
  */
 export async function processBuy(
   walletAddress: string,
   tokenAddress: string,
   amount: bigint,
   priceUsd: number,
-  costBasis: number
+  costBasis: number,
+  trade?: TradeReference,
+  source: LotSource = 'swap'
 ): Promise<void> {
   try {
     const walletAddr = walletAddress.toLowerCase();
     const tokenAddr = tokenAddress.toLowerCase();
     const amountStr = amount.toString();
 
+    const lotResult = await query(
+      `INSERT INTO position_lots (
+        wallet_address, token_address, tx_hash, leg_index, block_number, acquired_at,
+        original_amount, remaining_amount, price_usd, cost_basis_usd, source, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $7, $8, $9, $10, NOW(), NOW())
+      ON CONFLICT (wallet_address, token_address, tx_hash, leg_index) WHERE tx_hash IS NOT NULL
+      DO NOTHING
+      RETURNING id`,
+      [
+        walletAddr,
+        tokenAddr,
+        trade?.txHash?.toLowerCase() || null,
+        trade?.legIndex ?? 0,
+        trade?.blockNumber ?? null,
+        trade?.timestamp ?? new Date(),
+        amountStr,
+        Number.isFinite(priceUsd) ? priceUsd.toFixed(18) : '0',
+        costBasis.toFixed(8),
+        source
+      ]
+    );
+
+    if (lotResult.rows.length === 0) {
+      // Lot for this trade already exists - position already includes it
+      return;
+    }
+
     // Use UPSERT to handle race conditions - if position exists, update it atomically
     await query(
       `INSERT INTO positions (wallet_address, token_address, remaining_amount, cost_basis_usd, realized_pnl_usd, updated_at)
@@ -69,9 +244,73 @@ export async function processBuy(
 }
 
 /**
- * Process a SELL transaction - remove FIFO, calculate realized PnL
- * Returns the realized PnL in USD
+ * Apply planned allocations to the lots and record each as a disposal
+ * Returns the cost basis consumed
+ */
+async function consumeLots(
+  walletAddr: string,
+  tokenAddr: string,
+  lots: PositionLot[],
+  allocations: SellAllocation[],
+  method: CostBasisMethod,
+  kind: DisposalKind,
+  trade?: TradeReference
+): Promise<number> {
+  let costBasisConsumed = 0;
+  const disposedAt = trade?.timestamp ?? new Date();
+
+  for (const allocation of allocations) {
+    const lot = lots.find(l => Number(l.id) === allocation.lotId)!;
+    const lotRemaining = BigInt(lot.remaining_amount) - allocation.amount;
+    const lotCostRemaining = Math.max(0, parseFloat(lot.cost_basis_usd) - allocation.costBasisUsd);
+
+    await query(
+      `UPDATE position_lots
+       SET remaining_amount = $1,
+           cost_basis_usd = $2,
+           closed_at = CASE WHEN $1::numeric = 0 THEN $3::timestamptz ELSE NULL END,
+           updated_at = NOW()
+       WHERE id = $4`,
+      [
+        lotRemaining.toString(),
+        lotRemaining === BigInt(0) ? '0' : lotCostRemaining.toFixed(12),
+        disposedAt,
+        allocation.lotId
+      ]
+    );
+
+    await query(
+      `INSERT INTO lot_disposals (
+        lot_id, wallet_address, token_address, tx_hash, leg_index, disposed_at,
+        amount, proceeds_usd, cost_basis_usd, realized_pnl_usd, method, kind, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())`,
+      [
+        allocation.lotId,
+        walletAddr,
+        tokenAddr,
+        trade?.txHash?.toLowerCase() || null,
+        trade?.legIndex ?? 0,
+        disposedAt,
+        allocation.amount.toString(),
+        allocation.proceedsUsd.toFixed(12),
+        allocation.costBasisUsd.toFixed(12),
+        allocation.realizedPnlUsd.toFixed(12),
+        method,
+        kind
+      ]
+    );
+
+    costBasisConsumed += allocation.costBasisUsd;
+  }
+
+  return costBasisConsumed;
+}
+
+/**
+ * Process a SELL transaction - consume lots using the token's cost basis method, calculate realized PnL
+ * Returns the cumulative realized PnL in USD for the position
  * @param position - Optional position object to avoid redundant DB query (if already fetched)
+ * @param trade - Optional trade reference; when provided re-processing the same sell is a no-op
  */
 export async function processSell(
   walletAddress: string,
@@ -79,7 +318,8 @@ export async function processSell(
   amount: bigint,
   priceUsd: number,
   tokenDecimals: number = 18,
-  position?: Position | null
+  position?: Position | null,
+  trade?: TradeReference
 ): Promise<number> {
   try {
     const walletAddr = walletAddress.toLowerCase();
@@ -103,21 +343,49 @@ export async function processSell(
       return 0;
     }
 
+    if (trade?.txHash) {
+      const existingDisposal = await query(
+        `SELECT 1 FROM lot_disposals
+         WHERE wallet_address = $1 AND token_address = $2 AND tx_hash = $3 AND leg_index = $4
+         LIMIT 1`,
+        [walletAddr, tokenAddr, trade.txHash.toLowerCase(), trade.legIndex ?? 0]
+      );
+      if (existingDisposal.rows.length > 0) {
+        // Sell already applied to the lots
+        return realizedPnLUsd;
+      }
+    }
+
+    await ensureLegacyLot({ ...currentPosition, wallet_address: walletAddr, token_address: tokenAddr });
+
+    const method = await getCostBasisMethod(tokenAddr);
+    const lots = await getPositionLots(walletAddr, tokenAddr);
+
     // Calculate how much we're selling - use correct decimals
     const sellAmountToProcess = sellAmount > remainingAmount ? remainingAmount : sellAmount;
-    const sellValueUsd = Number(ethers.formatUnits(sellAmountToProcess, tokenDecimals)) * priceUsd;
+    const sellValueUsd = tokenAmountToUsd(sellAmountToProcess, tokenDecimals, priceUsd);
+
+    const allocations = allocateSell(
+      lots.map(lot => ({
+        id: Number(lot.id),
+        acquiredAt: new Date(lot.acquired_at),
+        remainingAmount: BigInt(lot.remaining_amount),
+        costBasisUsd: parseFloat(lot.cost_basis_usd)
+      })),
+      sellAmountToProcess,
+      sellValueUsd,
+      method
+    );
 
-    // Calculate cost basis proportion
-    const costBasisProportion = Number(sellAmountToProcess) / Number(remainingAmount);
-    const costBasisForSell = costBasisUsd * costBasisProportion;
+    const costBasisForSell = await consumeLots(walletAddr, tokenAddr, lots, allocations, method, 'sell', trade);
 
     // Calculate realized PnL for this sell
     const realizedPnLForSell = sellValueUsd - costBasisForSell;
     const newRealizedPnL = realizedPnLUsd + realizedPnLForSell;
 
-    // Update position
+    // Update position summary
     const newRemainingAmount = remainingAmount - sellAmountToProcess;
-    const newCostBasis = costBasisUsd - costBasisForSell;
+    const newCostBasis = Math.max(0, costBasisUsd - costBasisForSell);
 
     if (newRemainingAmount === BigInt(0)) {
       // Position fully closed
@@ -156,6 +424,80 @@ export async function processSell(
   }
 }
 
+/**
+ * Process tokens leaving a wallet by plain transfer - lots are consumed like a sell, but the cost
+ * basis leaves with the tokens instead of being realized
+ * Returns the cost basis moved out (0 when the wallet held no position)
+ * @param trade - Transfer reference (tx hash + log index as the leg); re-processing is a no-op
+ */
+export async function processTransferOut(
+  walletAddress: string,
+  tokenAddress: string,
+  amount: bigint,
+  trade: TradeReference
+): Promise<number> {
+  try {
+    const walletAddr = walletAddress.toLowerCase();
+    const tokenAddr = tokenAddress.toLowerCase();
+
+    const existingDisposal = await query(
+      `SELECT COUNT(*) AS disposals, COALESCE(SUM(cost_basis_usd), 0) AS cost_basis_usd FROM lot_disposals
+       WHERE wallet_address = $1 AND token_address = $2 AND tx_hash = $3 AND leg_index = $4`,
+      [walletAddr, tokenAddr, trade.txHash.toLowerCase(), trade.legIndex ?? 0]
+    );
+    if (Number(existingDisposal.rows[0].disposals) > 0) {
+      // Transfer already applied to the lots
+      return parseFloat(existingDisposal.rows[0].cost_basis_usd);
+    }
+
+    const position = await getPosition(walletAddr, tokenAddr);
+    const remainingAmount = position ? BigInt(position.remaining_amount) : BigInt(0);
+    if (!position || remainingAmount === BigInt(0)) {
+      return 0;
+    }
+
+    await ensureLegacyLot({ ...position, wallet_address: walletAddr, token_address: tokenAddr });
+
+    const method = await getCostBasisMethod(tokenAddr);
+    const lots = await getPositionLots(walletAddr, tokenAddr);
+    const transferAmount = amount > remainingAmount ? remainingAmount : amount;
+
+    const allocations = allocateSell(
+      lots.map(lot => ({
+        id: Number(lot.id),
+        acquiredAt: new Date(lot.acquired_at),
+        remainingAmount: BigInt(lot.remaining_amount),
+        costBasisUsd: parseFloat(lot.cost_basis_usd)
+      })),
+      transferAmount,
+      0,
+      method
+    ).map(allocation => ({ ...allocation, proceedsUsd: allocation.costBasisUsd, realizedPnlUsd: 0 }));
+
+    const costBasisMoved = await consumeLots(walletAddr, tokenAddr, lots, allocations, method, 'transfer_out', trade);
+    const newRemainingAmount = remainingAmount - transferAmount;
+
+    await query(
+      `UPDATE positions
+       SET remaining_amount = $1,
+           cost_basis_usd = $2,
+           updated_at = NOW()
+       WHERE wallet_address = $3 AND token_address = $4`,
+      [
+        newRemainingAmount.toString(),
+        newRemainingAmount === BigInt(0) ? '0' : Math.max(0, parseFloat(position.cost_basis_usd) - costBasisMoved).toFixed(8),
+        walletAddr,
+        tokenAddr
+      ]
+    );
+
+    return costBasisMoved;
+  } catch (error) {
+    console.error('Error processing transfer out:', error);
+    throw error;
+  }
+}
+
 /**
  * Calculate unrealized PnL for a position using current price
  */
@@ -173,8 +515,7 @@ export async function calculateUnrealizedPnL(
     }
 
     // Use correct decimals for calculation
-    const remainingAmount = Number(ethers.formatUnits(position.remaining_amount, tokenDecimals));
-    const currentValue = remainingAmount * currentPrice;
+    const currentValue = tokenAmountToUsd(BigInt(position.remaining_amount), tokenDecimals, currentPrice);
     const costBasis = parseFloat(position.cost_basis_usd);
 
     return currentValue - costBasis;
@@ -184,3 +525,66 @@ export async function calculateUnrealizedPnL(
   }
 }
 
+/**
+ * Per-lot breakdown for API responses
+ * Includes unrealized PnL per lot when a current price is known
+ */
+export async function getLotBreakdown(
+  walletAddress: string,
+  tokenAddress: string,
+  currentPrice: number | null = null,
+  tokenDecimals: number = 18,
+  includeClosed: boolean = false
+): Promise<Array<{
+  id: number;
+  tx_hash: string | null;
+  block_number: string | null;
+  acquired_at: Date;
+  original_amount: string;
+  remaining_amount: string;
+  price_usd: string;
+  cost_basis_usd: string;
+  source: LotSource;
+  closed_at: Date | null;
+  realized_pnl_usd: string;
+  unrealized_pnl_usd: string | null;
+}>> {
+  const lots = await getPositionLots(walletAddress, tokenAddress, includeClosed);
+  if (lots.length === 0) {
+    return [];
+  }
+
+  const realizedResult = await query(
+    `SELECT lot_id, COALESCE(SUM(realized_pnl_usd), 0) AS realized_pnl_usd
+     FROM lot_disposals
+     WHERE lot_id = ANY($1::bigint[])
+     GROUP BY lot_id`,
+    [lots.map(lot => lot.id)]
+  );
+  const realizedByLot = new Map<number, string>(
+    realizedResult.rows.map((row: any) => [Number(row.lot_id), row.realized_pnl_usd.toString()])
+  );
+
+  return lots.map(lot => {
+    let unrealized: string | null = null;
+    if (currentPrice && currentPrice > 0) {
+      const currentValue = tokenAmountToUsd(BigInt(lot.remaining_amount), tokenDecimals, currentPrice);
+      unrealized = (currentValue - parseFloat(lot.cost_basis_usd)).toFixed(8);
+    }
+
+    return {
+      id: Number(lot.id),
+      tx_hash: lot.tx_hash,
+      block_number: lot.block_number,
+      acquired_at: lot.acquired_at,
+      original_amount: lot.original_amount,
+      remaining_amount: lot.remaining_amount,
+      price_usd: lot.price_usd,
+      cost_basis_usd: lot.cost_basis_usd,
+      source: lot.source,
+      closed_at: lot.closed_at,
+      realized_pnl_usd: realizedByLot.get(Number(lot.id)) ?? '0',
+      unrealized_pnl_usd: unrealized
+    };
+  });
+}
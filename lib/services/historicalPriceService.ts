@@ -0,0 +1,270 @@
+// lib/services/historicalPriceService.ts
+// Resolve a token's USD price at a specific block
+// Chains pool state at the block -> quote token USD (Chainlink round at the block / stablecoin)
+// and caches every resolved price in price_snapshots
+
+import { ethers } from 'ethers';
+import { query } from '@/lib/db/connection';
+import { WETH_ADDRESS, USDC_ADDRESS } from '@/lib/utils/constants';
+import { timestampOf } from './blockTimeService';
+import { getEthUsdPriceAtBlock } from './chainlinkOracle';
+import { getPoolPriceAtBlock, getPrimaryPool, getPriceFromPool } from './poolPriceService';
+import { getCurrentPrice } from './priceService';
+
+const NATIVE_ETH_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Chainlink ETH/USD on Base updates at least every 20 minutes - older rounds are stale
+const CHAINLINK_STALE_AFTER_SECONDS = 60 * 60;
+
+export type PriceSource =
+  | 'stablecoin'
+  | 'chainlink'
+  | 'pool_at_block'
+  | 'swap_derived'
+  | 'bitquery'
+  | 'current_approx';
+
+export interface PriceQuote {
+  priceUsd: number;
+  source: PriceSource;
+  confidence: number; // 0-1
+  blockNumber: number;
+  quoteToken?: string | null;
+  poolAddress?: string | null;
+}
+
+/**
+ * Swap amounts used to derive a price from the executed ratio
+ */
+export interface SwapRatio {
+  tokenAmount: bigint;
+  tokenDecimals: number;
+  baseTokenAmount: bigint;
+  baseTokenAddress: string;
+  baseTokenDecimals: number;
+}
+
+export interface PriceAtBlockOptions {
+  poolAddress?: string | null;
+  swap?: SwapRatio;
+  allowCurrentFallback?: boolean; // Use today's price (low confidence) when nothing else resolves
+}
+
+function isEth(address: string): boolean {
+  const addr = address.toLowerCase();
+  return addr === WETH_ADDRESS.toLowerCase() || addr === NATIVE_ETH_ADDRESS;
+}
+
+function isStablecoin(address: string): boolean {
+  return address.toLowerCase() === USDC_ADDRESS.toLowerCase();
+}
+
+/**
+ * Get a cached price snapshot for a token at a block
+ */
+export async function getPriceSnapshot(
+  tokenAddress: string,
+  blockNumber: number
+): Promise<PriceQuote | null> {
+  try {
+    const result = await query(
+      `SELECT price_usd, source, confidence, quote_token, pool_address
+       FROM price_snapshots
+       WHERE token_address = $1 AND block_number = $2`,
+      [tokenAddress.toLowerCase(), blockNumber]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      priceUsd: parseFloat(row.price_usd),
+      source: row.source,
+      confidence: Number(row.confidence),
+      blockNumber,
+      quoteToken: row.quote_token,
+      poolAddress: row.pool_address
+    };
+  } catch (error) {
+    console.warn(`Could not read price snapshot for ${tokenAddress} at block ${blockNumber}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Persist a resolved price - only replaces an existing snapshot with a more confident one
+ */
+export async function savePriceSnapshot(tokenAddress: string, quote: PriceQuote): Promise<void> {
+  try {
+    await query(
+      `INSERT INTO price_snapshots (
+        token_address, block_number, price_usd, source, confidence, quote_token, pool_address, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+      ON CONFLICT (token_address, block_number)
+      DO UPDATE SET
+        price_usd = EXCLUDED.price_usd,
+        source = EXCLUDED.source,
+        confidence = EXCLUDED.confidence,
+        quote_token = EXCLUDED.quote_token,
+        pool_address = EXCLUDED.pool_address,
+        updated_at = NOW()
+      WHERE price_snapshots.confidence < EXCLUDED.confidence`,
+      [
+        tokenAddress.toLowerCase(),
+        quote.blockNumber,
+        quote.priceUsd.toFixed(18),
+        quote.source,
+        quote.confidence,
+        quote.quoteToken?.toLowerCase() || null,
+        quote.poolAddress?.toLowerCase() || null
+      ]
+    );
+  } catch (error) {
+    console.warn(`Could not save price snapshot for ${tokenAddress} at block ${quote.blockNumber}:`, error);
+  }
+}
+
+/**
+ * Get the USD price of a base token (ETH/WETH/USDC) at a block
+ * ETH uses the Chainlink round that was current at the block
+ */
+export async function getBaseTokenPriceAtBlock(
+  baseTokenAddress: string,
+  blockNumber: number
+): Promise<PriceQuote | null> {
+  if (isStablecoin(baseTokenAddress)) {
+    return { priceUsd: 1, source: 'stablecoin', confidence: 0.95, blockNumber };
+  }
+
+  if (isEth(baseTokenAddress)) {
+    const cached = await getPriceSnapshot(WETH_ADDRESS, blockNumber);
+    if (cached) {
+      return cached;
+    }
+
+    const round = await getEthUsdPriceAtBlock(blockNumber);
+    if (!round) {
+      return null;
+    }
+
+    // A stale round means the feed did not update around this block - still usable, but less certain
+    let confidence = 0.95;
+    try {
+      if (await timestampOf(blockNumber) - round.updatedAt > CHAINLINK_STALE_AFTER_SECONDS) {
+        confidence = 0.8;
+      }
+    } catch {
+      // Block timestamp unavailable - keep the default confidence
+    }
+
+    const quote: PriceQuote = { priceUsd: round.price, source: 'chainlink', confidence, blockNumber };
+    await savePriceSnapshot(WETH_ADDRESS, quote);
+    return quote;
+  }
+
+  return getTokenPriceAtBlock(baseTokenAddress, blockNumber);
+}
+
+/**
+ * Resolve a token's USD price at a block
+ * Order: snapshot cache -> base token pricing -> pool state at block -> executed swap ratio -> current price (optional)
+ */
+export async function getTokenPriceAtBlock(
+  tokenAddress: string,
+  blockNumber: number,
+  options: PriceAtBlockOptions = {}
+): Promise<PriceQuote | null> {
+  const tokenAddr = tokenAddress.toLowerCase();
+
+  if (isEth(tokenAddr) || isStablecoin(tokenAddr)) {
+    return getBaseTokenPriceAtBlock(tokenAddr, blockNumber);
+  }
+
+  const cached = await getPriceSnapshot(tokenAddr, blockNumber);
+  if (cached) {
+    return cached;
+  }
+
+  // 1. Pool state at the block, converted through the quote token's USD price at the same block
+  // Uses the given V3 pool, or the token's deepest discovered pool
+  const primaryPool = options.poolAddress ? null : await getPrimaryPool(tokenAddr);
+  const poolPrice = options.poolAddress
+    ? await getPoolPriceAtBlock(options.poolAddress, tokenAddr, blockNumber)
+    : primaryPool
+      ? await getPriceFromPool(primaryPool, blockNumber)
+      : null;
+
+  if (poolPrice && (isEth(poolPrice.quoteToken) || isStablecoin(poolPrice.quoteToken))) {
+    const quoteUsd = await getBaseTokenPriceAtBlock(poolPrice.quoteToken, blockNumber);
+    if (quoteUsd) {
+      const quote: PriceQuote = {
+        priceUsd: poolPrice.price * quoteUsd.priceUsd,
+        source: 'pool_at_block',
+        confidence: Math.min(0.9, quoteUsd.confidence),
+        blockNumber,
+        quoteToken: poolPrice.quoteToken,
+        poolAddress: options.poolAddress ?? primaryPool?.poolAddress
+      };
+      await savePriceSnapshot(tokenAddr, quote);
+      return quote;
+    }
+  }
+
+  // 2. Executed swap ratio (includes slippage and fees, so slightly less confident than pool state)
+  if (options.swap) {
+    const quote = await getSwapDerivedPrice(tokenAddr, blockNumber, options.swap);
+    if (quote) {
+      await savePriceSnapshot(tokenAddr, quote);
+      return quote;
+    }
+  }
+
+  // 3. Today's price - never cached, since it says nothing about the block
+  if (options.allowCurrentFallback) {
+    const currentPrice = await getCurrentPrice(tokenAddr);
+    if (currentPrice && currentPrice > 0) {
+      return { priceUsd: currentPrice, source: 'current_approx', confidence: 0.2, blockNumber };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Derive a USD price from the executed swap ratio and the base token's USD price at the block
+ */
+async function getSwapDerivedPrice(
+  tokenAddress: string,
+  blockNumber: number,
+  swap: SwapRatio
+): Promise<PriceQuote | null> {
+  if (swap.tokenAmount <= BigInt(0) || swap.baseTokenAmount <= BigInt(0)) {
+    return null;
+  }
+
+  const tokenAmount = Number(ethers.formatUnits(swap.tokenAmount, swap.tokenDecimals));
+  const baseAmount = Number(ethers.formatUnits(swap.baseTokenAmount, swap.baseTokenDecimals));
+  if (!isFinite(tokenAmount) || !isFinite(baseAmount) || tokenAmount === 0) {
+    return null;
+  }
+
+  const baseUsd = await getBaseTokenPriceAtBlock(swap.baseTokenAddress, blockNumber);
+  if (!baseUsd || baseUsd.source === 'current_approx') {
+    return null;
+  }
+
+  const priceUsd = (baseAmount / tokenAmount) * baseUsd.priceUsd;
+  if (!isFinite(priceUsd) || priceUsd <= 0) {
+    return null;
+  }
+
+  return {
+    priceUsd,
+    source: 'swap_derived',
+    confidence: Math.min(0.8, baseUsd.confidence),
+    blockNumber,
+    quoteToken: swap.baseTokenAddress.toLowerCase()
+  };
+}
@@ -0,0 +1,210 @@
+// lib/services/identityService.ts
+// Identities: one Farcaster user (FID) and every wallet on it. Wallets only come from the FID's
+// verified addresses (synced from Neynar) and signed wallet links - never from the users table or
+// contest registrations, which anyone can write to with an FID of their choosing.
+//
+// PnL, balances and contest scores are reported per identity, and token moves between wallets of
+// the same identity are treated as moves rather than buys or sells (see txAnalyzer and
+// transferAccounting).
+
+import { ethers } from 'ethers';
+import { query } from '@/lib/db/connection';
+import { WALLET_LINK_DOMAIN, WALLET_LINK_TYPES, WalletLink } from '@/lib/utils/walletLink';
+import { getVerifiedAddresses } from './farcasterService';
+
+export type IdentityWalletSource = 'farcaster' | 'signed';
+
+const LINK_MAX_AGE_SECONDS = 10 * 60;
+const LINK_MAX_CLOCK_SKEW_SECONDS = 60;
+
+export class IdentityError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'IdentityError';
+  }
+}
+
+export interface IdentityWallet {
+  fid: number;
+  walletAddress: string;
+  source: IdentityWalletSource;
+  linkedByWallet: string | null;
+  createdAt: string;
+}
+
+function toIdentityWallet(row: any): IdentityWallet {
+  return {
+    fid: Number(row.fid),
+    walletAddress: row.wallet_address,
+    source: row.source,
+    linkedByWallet: row.linked_by_wallet,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Wallets on an FID's identity, Farcaster wallets first
+ */
+export async function getIdentityWallets(fid: number): Promise<IdentityWallet[]> {
+  const result = await query(
+    `SELECT * FROM identity_wallets
+     WHERE fid = $1
+     ORDER BY CASE source WHEN 'farcaster' THEN 0 ELSE 1 END, created_at ASC`,
+    [fid]
+  );
+  return result.rows.map(toIdentityWallet);
+}
+
+/**
+ * Pull an FID's verified addresses from Neynar into its identity
+ * Neynar is authoritative for verified addresses, so one moved to another FID moves with it;
+ * signed links are only replaced by their own FID.
+ */
+export async function syncFarcasterWallets(fid: number): Promise<IdentityWallet[]> {
+  const addresses = await getVerifiedAddresses(fid);
+
+  for (const address of addresses) {
+    await query(
+      `INSERT INTO identity_wallets (fid, wallet_address, source)
+       VALUES ($1, $2, 'farcaster')
+       ON CONFLICT (wallet_address) DO UPDATE SET
+         fid = EXCLUDED.fid,
+         source = CASE WHEN identity_wallets.fid = EXCLUDED.fid THEN identity_wallets.source ELSE 'farcaster' END,
+         updated_at = NOW()
+       WHERE identity_wallets.fid = EXCLUDED.fid OR identity_wallets.source <> 'signed'`,
+      [fid, address]
+    );
+  }
+
+  return getIdentityWallets(fid);
+}
+
+/**
+ * The FID a wallet belongs to, or null
+ * Only verified and signed wallets count: a wallet someone registered with is not proof of its FID
+ */
+export async function getWalletFid(walletAddress: string): Promise<number | null> {
+  const result = await query(
+    'SELECT fid FROM identity_wallets WHERE wallet_address = $1',
+    [walletAddress.toLowerCase()]
+  );
+  return result.rows.length > 0 ? Number(result.rows[0].fid) : null;
+}
+
+/**
+ * FIDs of the wallets that are on an identity, keyed by lowercase address
+ */
+export async function getWalletFids(walletAddresses: string[]): Promise<Map<string, number>> {
+  const fids = new Map<string, number>();
+  if (walletAddresses.length === 0) {
+    return fids;
+  }
+
+  const result = await query(
+    'SELECT wallet_address, fid FROM identity_wallets WHERE wallet_address = ANY($1::text[])',
+    [walletAddresses.map(address => address.toLowerCase())]
+  );
+  for (const row of result.rows) {
+    fids.set(row.wallet_address, Number(row.fid));
+  }
+  return fids;
+}
+
+/**
+ * Every wallet on the same identity as a wallet, the wallet itself first
+ * A wallet with no identity is an identity of one
+ */
+export async function getLinkedWallets(walletAddress: string): Promise<string[]> {
+  const wallet = walletAddress.toLowerCase();
+  const fid = await getWalletFid(wallet);
+  if (fid === null) {
+    return [wallet];
+  }
+
+  const linked = (await getIdentityWallets(fid)).map(entry => entry.walletAddress);
+  return [wallet, ...linked.filter(address => address !== wallet)];
+}
+
+/**
+ * Whether two wallets belong to the same identity
+ */
+export async function walletsShareIdentity(walletA: string, walletB: string): Promise<boolean> {
+  const [fidA, fidB] = await Promise.all([getWalletFid(walletA), getWalletFid(walletB)]);
+  return fidA !== null && fidA === fidB;
+}
+
+/**
+ * Check both signatures and the freshness of a wallet link
+ * Returns the linked and countersigning wallets (lowercase)
+ */
+export function verifyWalletLink(
+  link: WalletLink,
+  walletSignature: string,
+  identitySignature: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): { wallet: string; identityWallet: string } {
+  const recover = (signature: string) => {
+    try {
+      return ethers.verifyTypedData(WALLET_LINK_DOMAIN, WALLET_LINK_TYPES, link, signature).toLowerCase();
+    } catch {
+      throw new IdentityError('Invalid wallet link signature', 401);
+    }
+  };
+
+  if (recover(walletSignature) !== link.wallet.toLowerCase()) {
+    throw new IdentityError('Wallet link was not signed by the wallet being added', 401);
+  }
+  if (recover(identitySignature) !== link.identityWallet.toLowerCase()) {
+    throw new IdentityError('Wallet link was not countersigned by your registered wallet', 401);
+  }
+  if (link.wallet.toLowerCase() === link.identityWallet.toLowerCase()) {
+    throw new IdentityError('Sign with two different wallets');
+  }
+
+  if (link.issuedAt < nowSeconds - LINK_MAX_AGE_SECONDS || link.issuedAt > nowSeconds + LINK_MAX_CLOCK_SKEW_SECONDS) {
+    throw new IdentityError('Wallet link has expired, please sign again', 401);
+  }
+
+  return { wallet: link.wallet.toLowerCase(), identityWallet: link.identityWallet.toLowerCase() };
+}
+
+/**
+ * Add a wallet to an FID's identity from a doubly signed link
+ * The countersigning wallet must be verified on the FID or linked to it earlier. Backfilling the new
+ * wallet's trades into open contest registrations is up to the caller (see enqueueWalletBackfill).
+ */
+export async function linkWallet(
+  link: WalletLink,
+  walletSignature: string,
+  identitySignature: string
+): Promise<IdentityWallet[]> {
+  const { wallet, identityWallet } = verifyWalletLink(link, walletSignature, identitySignature);
+
+  try {
+    await syncFarcasterWallets(link.fid);
+  } catch (error) {
+    console.warn(`Error syncing Farcaster wallets for FID ${link.fid} (using stored wallets):`, error);
+  }
+
+  if (await getWalletFid(identityWallet) !== link.fid) {
+    throw new IdentityError('The countersigning wallet is not on this Farcaster account', 403);
+  }
+
+  const existingFid = await getWalletFid(wallet);
+  if (existingFid !== null && existingFid !== link.fid) {
+    throw new IdentityError('This wallet is already linked to another account', 409);
+  }
+
+  await query(
+    `INSERT INTO identity_wallets (fid, wallet_address, source, linked_by_wallet, signature)
+     VALUES ($1, $2, 'signed', $3, $4)
+     ON CONFLICT (wallet_address) DO UPDATE SET
+       linked_by_wallet = EXCLUDED.linked_by_wallet,
+       signature = EXCLUDED.signature,
+       updated_at = NOW()
+     WHERE identity_wallets.fid = EXCLUDED.fid AND identity_wallets.source = 'signed'`,
+    [link.fid, wallet, identityWallet, walletSignature]
+  );
+
+  return getIdentityWallets(link.fid);
+}
@@ -0,0 +1,322 @@
+// lib/services/jobHandlers.ts
+// Job handlers for the Postgres job queue, and helpers to enqueue contest work
+// Drained by /api/cron/jobs and scripts/indexer.ts
+
+import { query } from '@/lib/db/connection';
+import { dispatchCampaign, failCampaign } from './campaignService';
+import { recordPnLSnapshot } from './contestPnLService';
+import { finalizeContest } from './contestResultsService';
+import { cleanupIneligibleUsers } from './eligibilityCleanupService';
+import {
+  DrainOptions,
+  DrainResult,
+  drainJobQueue,
+  enqueueJob,
+  Job,
+  JobHandlers,
+  retryJob
+} from './jobQueueService';
+import { dispatchNotificationEvent, enqueueNotificationEvent } from './notificationRules';
+import {
+  backfillRegistration,
+  calculateUserPnLDetails,
+  indexUserWalletForToken,
+  refreshUserWalletForRegistration
+} from './userIndexerService';
+import { closeVotingPeriod, notifyVotersOfResult } from './votingService';
+
+async function getRegistration(registrationId: number) {
+  const result = await query(
+    `SELECT cr.id, cr.contest_id, cr.wallet_address, cr.current_pnl, wc.token_address, wc.finalized_at
+     FROM contest_registrations cr
+     JOIN weekly_contests wc ON cr.contest_id = wc.id
+     WHERE cr.id = $1`,
+    [registrationId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error(`Registration ${registrationId} not found`);
+  }
+  return result.rows[0];
+}
+
+export const JOB_HANDLERS: JobHandlers = {
+  'contest.index_wallet': {
+    async run(job: Job) {
+      const registration = await getRegistration(job.payload.registrationId);
+
+      await query(
+        `UPDATE contest_registrations
+         SET index_status = 'indexing', index_job_id = $2, updated_at = NOW()
+         WHERE id = $1`,
+        [registration.id, job.id]
+      );
+
+      const result = await indexUserWalletForToken(
+        registration.wallet_address,
+        registration.token_address,
+        registration.contest_id,
+        registration.id
+      );
+
+      await query(
+        `UPDATE contest_registrations
+         SET index_status = 'indexed', index_error = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [registration.id]
+      );
+
+      // First point of the registration's PnL curve
+      await recordPnLSnapshot(
+        registration.id, registration.contest_id, result.details, result.markPriceUsd, result.lastIndexedBlock
+      );
+
+      await enqueueNotificationEvent({ type: 'registration.indexed', registrationId: registration.id });
+
+      return { tradesFound: result.tradesFound, pnl: result.pnl };
+    },
+
+    async onFailure(job: Job, error: string, willRetry: boolean) {
+      await query(
+        `UPDATE contest_registrations
+         SET index_status = $2, index_error = $3, updated_at = NOW()
+         WHERE id = $1 AND index_status <> 'indexed'`,
+        [job.payload.registrationId, willRetry ? 'queued' : 'failed', error]
+      );
+    }
+  },
+
+  'contest.recalculate_pnl': {
+    async run(job: Job) {
+      const registration = await getRegistration(job.payload.registrationId);
+      if (registration.finalized_at) {
+        // Queued before the contest was finalized; the route rejects new requests
+        return { skipped: 'contest finalized' };
+      }
+
+      const details = await calculateUserPnLDetails(registration.id, registration.token_address);
+
+      await query(
+        `UPDATE contest_registrations
+         SET pnl_calculated_at = NOW(), current_pnl = $1, updated_at = NOW()
+         WHERE id = $2`,
+        [details.totalPnlUsd, registration.id]
+      );
+
+      return {
+        walletAddress: registration.wallet_address,
+        previousPnL: registration.current_pnl !== null ? parseFloat(registration.current_pnl) : null,
+        newPnL: details.totalPnlUsd,
+        realizedPnL: details.realizedPnlUsd,
+        unrealizedPnL: details.unrealizedPnlUsd,
+        skippedSells: details.skippedSells
+      };
+    }
+  },
+
+  'contest.refresh_pnl': {
+    async run(job: Job) {
+      const registration = await getRegistration(job.payload.registrationId);
+      if (registration.finalized_at) {
+        // Scheduled before the contest was finalized - final PnL is frozen, nothing to do
+        return { skipped: 'contest finalized' };
+      }
+
+      const result = await refreshUserWalletForRegistration(registration.id);
+
+      await recordPnLSnapshot(
+        registration.id, registration.contest_id, result.details, result.markPriceUsd, result.toBlock
+      );
+
+      return {
+        newTrades: result.newTrades,
+        fromBlock: result.fromBlock,
+        toBlock: result.toBlock,
+        pnl: result.details.totalPnlUsd,
+        markPriceUsd: result.markPriceUsd
+      };
+    }
+  },
+
+  'contest.backfill_wallet': {
+    async run(job: Job) {
+      const registration = await getRegistration(job.payload.registrationId);
+      if (registration.finalized_at) {
+        return { skipped: 'contest finalized' };
+      }
+
+      const result = await backfillRegistration(registration.id);
+      if (!result) {
+        return { skipped: 'not indexed yet' };
+      }
+
+      return {
+        walletAddress: job.payload.walletAddress,
+        fromBlock: result.fromBlock,
+        toBlock: result.toBlock,
+        pnl: result.details.totalPnlUsd
+      };
+    }
+  },
+
+  'contest.finalize': {
+    async run(job: Job) {
+      const result = await finalizeContest(job.payload.contestId, job.payload.finalizedByFid ?? null);
+      return {
+        resultId: result.id,
+        version: result.version,
+        endBlock: result.endBlock,
+        endPriceUsd: result.endPriceUsd,
+        participantCount: result.participantCount,
+        rankedCount: result.rankedCount,
+        winners: result.entries.filter(entry => entry.isWinner).map(entry => entry.walletAddress)
+      };
+    }
+  },
+
+  'voting.close_period': {
+    async run(job: Job) {
+      const result = await closeVotingPeriod(job.payload.votingPeriodId);
+      // Separate step so a failed notification retries without re-closing the period
+      const notified = await notifyVotersOfResult(job.payload.votingPeriodId);
+      return {
+        alreadyClosed: result.alreadyClosed,
+        winningOptionId: result.winner?.id ?? null,
+        winningTokenAddress: result.winner?.tokenAddress ?? null,
+        contestId: result.contestId,
+        votersNotified: notified
+      };
+    }
+  },
+
+  'eligibility.cleanup': {
+    async run(job: Job) {
+      const result = await cleanupIneligibleUsers(job.payload.removeFromIndexing !== false);
+      return {
+        totalChecked: result.totalChecked,
+        stillEligible: result.stillEligible,
+        noLongerEligible: result.noLongerEligible,
+        removedFromIndexing: result.removedFromIndexing,
+        errors: result.errors,
+        removedFids: result.details.filter(d => d.action === 'removed').map(d => d.fid),
+        details: result.details.slice(0, 50)
+      };
+    }
+  },
+
+  'notifications.dispatch': {
+    async run(job: Job) {
+      const dispatches = await dispatchNotificationEvent(job.payload.event);
+      return {
+        event: job.payload.event,
+        notifications: dispatches.map(dispatch => ({
+          category: dispatch.category,
+          dedupKey: dispatch.dedupKey,
+          sent: dispatch.sent,
+          optedOut: dispatch.optedOut,
+          alreadySent: dispatch.alreadySent
+        }))
+      };
+    }
+  },
+
+  'notifications.campaign': {
+    async run(job: Job) {
+      // Sends a few batches; a campaign with more to go is queued again by the next cron run
+      return dispatchCampaign(job.payload.campaignId);
+    },
+
+    async onFailure(job: Job, error: string, willRetry: boolean) {
+      if (!willRetry) {
+        await failCampaign(job.payload.campaignId, error);
+      }
+    }
+  }
+};
+
+/**
+ * Queue (or re-queue) indexing for a contest registration and mark it 'queued'
+ */
+export async function enqueueRegistrationIndexing(registrationId: number): Promise<Job> {
+  const job = await enqueueJob(
+    'contest.index_wallet',
+    { registrationId },
+    { dedupeKey: `contest.index_wallet:${registrationId}` }
+  );
+
+  await query(
+    `UPDATE contest_registrations
+     SET index_status = 'queued', index_error = NULL, index_job_id = $2, updated_at = NOW()
+     WHERE id = $1 AND index_status <> 'indexing'`,
+    [registrationId, job.id]
+  );
+
+  return job;
+}
+
+/**
+ * Queue a backfill of every open contest registration on an FID's identity after a wallet joined it
+ * Returns the jobs queued (one per registration)
+ */
+export async function enqueueWalletBackfill(fid: number, walletAddress: string): Promise<Job[]> {
+  const wallet = walletAddress.toLowerCase();
+  const result = await query(
+    `SELECT cr.id
+     FROM contest_registrations cr
+     JOIN weekly_contests wc ON cr.contest_id = wc.id
+     WHERE wc.status = 'active'
+       AND wc.finalized_at IS NULL
+       AND (cr.fid = $1 OR cr.wallet_address IN (SELECT wallet_address FROM identity_wallets WHERE fid = $1))`,
+    [fid]
+  );
+
+  const jobs: Job[] = [];
+  for (const row of result.rows) {
+    jobs.push(await enqueueJob(
+      'contest.backfill_wallet',
+      { registrationId: row.id, walletAddress: wallet },
+      { dedupeKey: `contest.backfill_wallet:${row.id}:${wallet}` }
+    ));
+  }
+  return jobs;
+}
+
+/**
+ * Queue a PnL recalculation for each registration
+ */
+export async function enqueuePnLRecalculation(registrationIds: number[]): Promise<Job[]> {
+  const jobs: Job[] = [];
+  for (const registrationId of registrationIds) {
+    jobs.push(await enqueueJob(
+      'contest.recalculate_pnl',
+      { registrationId },
+      { dedupeKey: `contest.recalculate_pnl:${registrationId}` }
+    ));
+  }
+  return jobs;
+}
+
+/**
+ * Retry a dead job; a registration whose indexing had failed goes back to 'queued'
+ */
+export async function retryDeadJob(jobId: number): Promise<Job | null> {
+  const job = await retryJob(jobId);
+
+  if (job?.type === 'contest.index_wallet') {
+    await query(
+      `UPDATE contest_registrations
+       SET index_status = 'queued', index_job_id = $2, updated_at = NOW()
+       WHERE id = $1 AND index_status = 'failed'`,
+      [job.payload.registrationId, job.id]
+    );
+  }
+
+  return job;
+}
+
+/**
+ * Drain the queue with every registered handler
+ */
+export async function runJobWorker(options: DrainOptions = {}): Promise<DrainResult> {
+  return drainJobQueue(JOB_HANDLERS, options);
+}
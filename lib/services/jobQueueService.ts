@@ -0,0 +1,381 @@
+// lib/services/jobQueueService.ts
+// Durable Postgres-backed job queue
+// Jobs are claimed with FOR UPDATE SKIP LOCKED and a lease. Workers heartbeat while a job runs;
+// a job whose lease expires is claimed again by the next drain. Failures retry with exponential backoff
+// until max_attempts, after which the job is 'dead' and needs a manual retry.
+
+import { randomBytes } from 'crypto';
+import { query } from '@/lib/db/connection';
+
+export const JOB_TYPES = [
+  'contest.index_wallet',
+  'contest.recalculate_pnl',
+  'contest.refresh_pnl',
+  'contest.backfill_wallet',
+  'contest.finalize',
+  'voting.close_period',
+  'eligibility.cleanup',
+  'notifications.dispatch',
+  'notifications.campaign'
+] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead';
+
+export interface Job<P = Record<string, any>> {
+  id: number;
+  type: JobType;
+  payload: P;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastError: string | null;
+  result: Record<string, unknown> | null;
+  dedupeKey: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string; // Returns the existing pending/running job instead of adding another
+}
+
+export interface JobHandler {
+  run(job: Job): Promise<Record<string, unknown> | void>;
+  // Called after every failed attempt; willRetry is false once the job is dead
+  onFailure?(job: Job, error: string, willRetry: boolean): Promise<void>;
+}
+
+export type JobHandlers = Partial<Record<JobType, JobHandler>>;
+
+export interface DrainOptions {
+  workerId?: string;
+  maxJobs?: number;
+  timeBudgetMs?: number; // Stop claiming new jobs after this long (serverless limits)
+  leaseSeconds?: number;
+  types?: JobType[];
+}
+
+export interface DrainResult {
+  workerId: string;
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+  reaped: number;
+}
+
+const DEFAULT_LEASE_SECONDS = 120;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+const ENQUEUE_DEDUPE_ATTEMPTS = 3;
+
+function toJob(row: any): Job {
+  return {
+    id: Number(row.id),
+    type: row.type,
+    payload: row.payload || {},
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: new Date(row.run_at),
+    lockedBy: row.locked_by,
+    lockedUntil: row.locked_until ? new Date(row.locked_until) : null,
+    lastError: row.last_error,
+    result: row.result,
+    dedupeKey: row.dedupe_key,
+    createdAt: new Date(row.created_at),
+    startedAt: row.started_at ? new Date(row.started_at) : null,
+    completedAt: row.completed_at ? new Date(row.completed_at) : null
+  };
+}
+
+/**
+ * Delay before the next attempt: 30s, 60s, 120s, ... capped at one hour
+ */
+export function getBackoffSeconds(attempts: number): number {
+  const exponent = Math.max(attempts - 1, 0);
+  return Math.min(BACKOFF_BASE_SECONDS * Math.pow(2, exponent), BACKOFF_MAX_SECONDS);
+}
+
+export function createWorkerId(prefix: string = 'worker'): string {
+  return `${prefix}-${process.pid}-${randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  for (let attempt = 0; attempt < ENQUEUE_DEDUPE_ATTEMPTS; attempt++) {
+    const result = await query(
+      `INSERT INTO jobs (type, payload, run_at, max_attempts, dedupe_key)
+       VALUES ($1, $2, COALESCE($3, NOW()), $4, $5)
+       ON CONFLICT (dedupe_key) WHERE status IN ('pending', 'running') DO NOTHING
+       RETURNING *`,
+      [type, JSON.stringify(payload), options.runAt || null, options.maxAttempts || 5, options.dedupeKey || null]
+    );
+
+    if (result.rows.length > 0) {
+      return toJob(result.rows[0]);
+    }
+
+    // Deduplicated - hand back the job that is already queued
+    const existing = await query(
+      `SELECT * FROM jobs
+       WHERE dedupe_key = $1 AND status IN ('pending', 'running')`,
+      [options.dedupeKey]
+    );
+    if (existing.rows.length > 0) {
+      return toJob(existing.rows[0]);
+    }
+    // The conflicting job finished in between - insert again
+  }
+
+  throw new Error(`Could not enqueue ${type} job (dedupe key ${options.dedupeKey})`);
+}
+
+export async function getJob(jobId: number): Promise<Job | null> {
+  const result = await query('SELECT * FROM jobs WHERE id = $1', [jobId]);
+  return result.rows.length > 0 ? toJob(result.rows[0]) : null;
+}
+
+/**
+ * Claim up to `limit` due jobs (pending and past run_at, or running with an expired lease)
+ */
+export async function claimJobs(
+  workerId: string,
+  limit: number = 1,
+  leaseSeconds: number = DEFAULT_LEASE_SECONDS,
+  types?: JobType[]
+): Promise<Job[]> {
+  const result = await query(
+    `UPDATE jobs
+     SET status = 'running',
+         locked_by = $1,
+         locked_until = NOW() + ($2 || ' seconds')::interval,
+         attempts = attempts + 1,
+         started_at = NOW(),
+         updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM jobs
+       WHERE ((status = 'pending' AND run_at <= NOW())
+          OR (status = 'running' AND locked_until < NOW() AND attempts < max_attempts))
+         AND ($4::text[] IS NULL OR type = ANY($4::text[]))
+       ORDER BY run_at ASC, id ASC
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [workerId, leaseSeconds, limit, types || null]
+  );
+  return result.rows.map(toJob);
+}
+
+/**
+ * Extend the lease on a running job - returns false if the worker lost it
+ */
+export async function heartbeatJob(
+  jobId: number,
+  workerId: string,
+  leaseSeconds: number = DEFAULT_LEASE_SECONDS
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE jobs
+     SET locked_until = NOW() + ($3 || ' seconds')::interval, updated_at = NOW()
+     WHERE id = $1 AND locked_by = $2 AND status = 'running'
+     RETURNING id`,
+    [jobId, workerId, leaseSeconds]
+  );
+  return result.rows.length > 0;
+}
+
+export async function completeJob(
+  jobId: number,
+  workerId: string,
+  result: Record<string, unknown> | null = null
+): Promise<void> {
+  await query(
+    `UPDATE jobs
+     SET status = 'succeeded', result = $3, last_error = NULL,
+         locked_by = NULL, locked_until = NULL, completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND locked_by = $2`,
+    [jobId, workerId, result ? JSON.stringify(result) : null]
+  );
+}
+
+/**
+ * Record a failed attempt - schedules a retry with backoff, or marks the job dead
+ * Returns true if the job will be retried
+ */
+export async function failJob(job: Job, workerId: string, error: string): Promise<boolean> {
+  const willRetry = job.attempts < job.maxAttempts;
+
+  await query(
+    `UPDATE jobs
+     SET status = $3::text,
+         last_error = $4,
+         run_at = CASE WHEN $3::text = 'pending' THEN NOW() + ($5 || ' seconds')::interval ELSE run_at END,
+         completed_at = CASE WHEN $3::text = 'dead' THEN NOW() ELSE NULL END,
+         locked_by = NULL, locked_until = NULL, updated_at = NOW()
+     WHERE id = $1 AND locked_by = $2`,
+    [job.id, workerId, willRetry ? 'pending' : 'dead', error, getBackoffSeconds(job.attempts)]
+  );
+
+  return willRetry;
+}
+
+/**
+ * Mark running jobs whose lease expired on their last attempt as dead
+ */
+export async function reapExpiredJobs(): Promise<Job[]> {
+  const result = await query(
+    `UPDATE jobs
+     SET status = 'dead',
+         last_error = COALESCE(last_error, 'Worker lease expired'),
+         locked_by = NULL, locked_until = NULL, completed_at = NOW(), updated_at = NOW()
+     WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts
+     RETURNING *`
+  );
+  return result.rows.map(toJob);
+}
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ */
+export async function retryJob(jobId: number): Promise<Job | null> {
+  const result = await query(
+    `UPDATE jobs
+     SET status = 'pending', attempts = 0, run_at = NOW(), last_error = NULL,
+         completed_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND status = 'dead'
+     RETURNING *`,
+    [jobId]
+  );
+  return result.rows.length > 0 ? toJob(result.rows[0]) : null;
+}
+
+/**
+ * Job counts by type and status
+ */
+export async function getQueueStats(): Promise<Array<{ type: JobType; status: JobStatus; count: number }>> {
+  const result = await query(
+    `SELECT type, status, COUNT(*) AS count
+     FROM jobs
+     GROUP BY type, status
+     ORDER BY type, status`
+  );
+  return result.rows.map(row => ({ type: row.type, status: row.status, count: parseInt(row.count, 10) }));
+}
+
+export async function listJobs(filters: {
+  type?: JobType;
+  status?: JobStatus;
+  limit?: number;
+} = {}): Promise<Job[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.type) {
+    params.push(filters.type);
+    conditions.push(`type = $${params.length}`);
+  }
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+
+  const result = await query(
+    `SELECT * FROM jobs ${where} ORDER BY created_at DESC, id DESC LIMIT ${limit}`,
+    params
+  );
+  return result.rows.map(toJob);
+}
+
+async function runOne(job: Job, handler: JobHandler, workerId: string, leaseSeconds: number): Promise<'succeeded' | 'retried' | 'dead'> {
+  // Keep the lease alive while the handler runs
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId, leaseSeconds).catch(error => {
+      console.warn(`[Jobs] Heartbeat failed for job ${job.id}:`, error?.message || error);
+    });
+  }, Math.max(leaseSeconds * 1000 / 3, 1000));
+
+  try {
+    const result = await handler.run(job);
+    await completeJob(job.id, workerId, result || null);
+    console.log(`[Jobs] ${job.type} #${job.id} succeeded (attempt ${job.attempts})`);
+    return 'succeeded';
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const willRetry = await failJob(job, workerId, message);
+    console.error(`[Jobs] ${job.type} #${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}, ${willRetry ? 'will retry' : 'dead'}):`, message);
+
+    if (handler.onFailure) {
+      await handler.onFailure(job, message, willRetry).catch(hookError => {
+        console.error(`[Jobs] onFailure hook for job ${job.id} failed:`, hookError?.message || hookError);
+      });
+    }
+    return willRetry ? 'retried' : 'dead';
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim and run due jobs one at a time until the queue is empty, maxJobs ran, or the time budget is spent
+ */
+export async function drainJobQueue(handlers: JobHandlers, options: DrainOptions = {}): Promise<DrainResult> {
+  const workerId = options.workerId || createWorkerId();
+  const leaseSeconds = options.leaseSeconds || DEFAULT_LEASE_SECONDS;
+  const maxJobs = options.maxJobs ?? 50;
+  const deadline = options.timeBudgetMs ? Date.now() + options.timeBudgetMs : Infinity;
+  const types = options.types || (Object.keys(handlers) as JobType[]);
+
+  const summary: DrainResult = { workerId, claimed: 0, succeeded: 0, retried: 0, dead: 0, reaped: 0 };
+
+  const reaped = await reapExpiredJobs();
+  summary.reaped = reaped.length;
+  for (const job of reaped) {
+    const onFailure = handlers[job.type]?.onFailure;
+    if (onFailure) {
+      await onFailure(job, job.lastError || 'Worker lease expired', false).catch(error => {
+        console.error(`[Jobs] onFailure hook for job ${job.id} failed:`, error?.message || error);
+      });
+    }
+  }
+
+  while (summary.claimed < maxJobs && Date.now() < deadline) {
+    const [job] = await claimJobs(workerId, 1, leaseSeconds, types);
+    if (!job) {
+      break;
+    }
+    summary.claimed++;
+
+    const handler = handlers[job.type];
+    if (!handler) {
+      // Only reachable if `types` lists a type without a handler
+      await failJob({ ...job, maxAttempts: job.attempts }, workerId, `No handler registered for ${job.type}`);
+      summary.dead++;
+      continue;
+    }
+
+    const outcome = await runOne(job, handler, workerId, leaseSeconds);
+    summary[outcome]++;
+  }
+
+  return summary;
+}
@@ -1,104 +1,445 @@
 // lib/services/leaderboardService.ts
-import { getEligibleWallets, getNetLossForWallets } from './blockchainService';
+// Loserboard computed from indexed trades
+// A wallet's PnL over a window = realized PnL of lot disposals in the window
+// + unrealized PnL of lots opened in the window that were still held at its end, priced at its end
+// (the current price for a window ending now). Lots are put back as they were at the end by adding
+// back what was disposed of later, so a past week gives the same board whenever it is computed.
+// Wallets are grouped per FID across all verified and linked addresses; manual entries pin or
+// override within the week they were added for.
+
+import { query } from '@/lib/db/connection';
+import { LeaderboardEntry, FarcasterProfile, LoserboardSnapshot, LoserboardSource } from '@/types/leaderboard';
+import { blockAt } from './blockTimeService';
 import { getFarcasterProfiles } from './farcasterService';
-import { LeaderboardEntry, PnlData, FarcasterProfile } from '@/types/leaderboard';
+import { getTokenPriceAtBlock } from './historicalPriceService';
+import { getWalletFids } from './identityService';
+import { parseTokenAmount, tokenAmountToUsd } from './pnlEngine';
+import { getCurrentPrice } from './priceService';
 
 const DEFAULT_PFP = 'https://i.imgur.com/sB02Hbz.png'; // Default PFP for users without one
+const DEFAULT_WINDOW_DAYS = parseInt(process.env.LOSERBOARD_WINDOW_DAYS || '7', 10);
+const NEYNAR_BULK_ADDRESS_LIMIT = 350;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LIVE_WINDOW_SLACK_MS = 5 * 60 * 1000; // A window ending this close to now is priced live
+
+export interface WalletWindowPnL {
+  address: string;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+}
+
+export interface ManualLoserboardEntry {
+  fid: number;
+  username: string;
+  displayName: string;
+  address: string;
+  pfpUrl: string;
+  entryType: 'pin' | 'override';
+  lossOverrideUsd: number | null;
+}
+
+export interface LoserboardWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Rolling window ending now (LOSERBOARD_WINDOW_DAYS, default 7 days)
+ */
+export function getRollingWindow(days: number = DEFAULT_WINDOW_DAYS, now: Date = new Date()): LoserboardWindow {
+  return { start: new Date(now.getTime() - days * DAY_MS), end: now };
+}
+
+/**
+ * Monday 00:00 UTC of the week containing a date
+ */
+export function getWeekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
+}
+
+/**
+ * Token price at a moment: the current price for now, otherwise the price at the block of that time
+ */
+async function getPriceAt(tokenAddress: string, at: Date): Promise<number | null> {
+  if (at.getTime() >= Date.now() - LIVE_WINDOW_SLACK_MS) {
+    return getCurrentPrice(tokenAddress);
+  }
+  const quote = await getTokenPriceAtBlock(tokenAddress, await blockAt(at));
+  return quote ? quote.priceUsd : null;
+}
+
+/**
+ * Per-wallet PnL over a window, from lot disposals and the lots open at the window's end
+ */
+export async function getWalletPnLForWindow(window: LoserboardWindow): Promise<WalletWindowPnL[]> {
+  const [realizedResult, openLotsResult] = await Promise.all([
+    query(
+      `SELECT wallet_address, SUM(realized_pnl_usd) AS realized_pnl_usd
+       FROM lot_disposals
+       WHERE disposed_at >= $1 AND disposed_at < $2
+       GROUP BY wallet_address`,
+      [window.start, window.end]
+    ),
+    // Disposals after the window are added back to get each lot's amount and cost basis at its end
+    query(
+      `SELECT pl.wallet_address, pl.token_address, COALESCE(tt.decimals, 18) AS decimals,
+              SUM(pl.remaining_amount + COALESCE(later.amount, 0)) AS remaining_amount,
+              SUM(pl.cost_basis_usd + COALESCE(later.cost_basis_usd, 0)) AS cost_basis_usd
+       FROM position_lots pl
+       LEFT JOIN tracked_tokens tt ON tt.token_address = pl.token_address
+       LEFT JOIN (
+         SELECT lot_id, SUM(amount) AS amount, SUM(cost_basis_usd) AS cost_basis_usd
+         FROM lot_disposals
+         WHERE disposed_at >= $2
+         GROUP BY lot_id
+       ) later ON later.lot_id = pl.id
+       WHERE pl.acquired_at >= $1 AND pl.acquired_at < $2
+         AND pl.remaining_amount + COALESCE(later.amount, 0) > 0
+       GROUP BY pl.wallet_address, pl.token_address, tt.decimals`,
+      [window.start, window.end]
+    )
+  ]);
+
+  const byWallet = new Map<string, WalletWindowPnL>();
+  const getWallet = (address: string) => {
+    const key = address.toLowerCase();
+    let entry = byWallet.get(key);
+    if (!entry) {
+      entry = { address: key, realizedPnlUsd: 0, unrealizedPnlUsd: 0 };
+      byWallet.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const row of realizedResult.rows) {
+    getWallet(row.wallet_address).realizedPnlUsd += parseFloat(row.realized_pnl_usd || '0');
+  }
+
+  // One price lookup per token
+  const prices = new Map<string, number | null>();
+  for (const token of new Set<string>(openLotsResult.rows.map(row => row.token_address))) {
+    prices.set(token, await getPriceAt(token, window.end));
+  }
+
+  for (const row of openLotsResult.rows) {
+    const price = prices.get(row.token_address);
+    if (!price) {
+      continue; // Unpriced tokens contribute realized PnL only
+    }
+    const marketValue = tokenAmountToUsd(parseTokenAmount(row.remaining_amount), Number(row.decimals), price);
+    getWallet(row.wallet_address).unrealizedPnlUsd += marketValue - parseFloat(row.cost_basis_usd || '0');
+  }
+
+  return Array.from(byWallet.values());
+}
 
 /**
- * Orchestrates the entire process of generating the leaderboard.
- * 1. Fetches eligible wallets from the blockchain.
- * 2. Fetches Farcaster profiles for those wallets.
- * 3. Calculates the net loss for each wallet from their trades.
- * 4. Merges all data and formats it into the final leaderboard.
- * @returns {Promise<LeaderboardEntry[]>} The sorted leaderboard data.
+ * Farcaster profiles for any number of addresses (Neynar bulk lookup is capped per request)
  */
-export async function generateLeaderboard(): Promise<LeaderboardEntry[]> {
-  console.log("Step 1: Finding eligible wallets...");
-  const eligibleWallets = await getEligibleWallets();
-  if (eligibleWallets.length === 0) {
-    console.log("No eligible wallets found.");
-    return [];
+async function getProfilesInBatches(addresses: string[]): Promise<Record<string, FarcasterProfile>> {
+  const profiles: Record<string, FarcasterProfile> = {};
+  for (let i = 0; i < addresses.length; i += NEYNAR_BULK_ADDRESS_LIMIT) {
+    Object.assign(profiles, await getFarcasterProfiles(addresses.slice(i, i + NEYNAR_BULK_ADDRESS_LIMIT)));
   }
-  console.log(`Found ${eligibleWallets.length} eligible wallets.`);
-
-  console.log("Step 2: Fetching Farcaster profiles...");
-  const farcasterProfiles = await getFarcasterProfiles(eligibleWallets);
-  console.log(`Found ${Object.keys(farcasterProfiles).length} Farcaster profiles.`);
-
-  console.log("Step 3: Calculating P&L for wallets...");
-  const pnlData = await getNetLossForWallets(eligibleWallets);
-  console.log(`Calculated P&L for ${pnlData.length} wallets.`);
-
-  // Filter for traders who actually have a loss
-  const losers = pnlData.filter(p => p.netLoss > 0);
-
-  // Sort by the highest loss
-  losers.sort((a, b) => b.netLoss - a.netLoss);
-
-  console.log("Step 4: Assembling the final leaderboard (by FID and username)...");
-
-  // Group PnL data by FID if available, otherwise by address
-  const pnlByFid = new Map<number, { address: string; netLoss: number }>();
-  const pnlByAddress = new Map<string, { address: string; netLoss: number }>();
-
-  for (const trader of losers) {
-    const address = trader.address.toLowerCase();
-    const profile = farcasterProfiles[address];
-
-    if (profile?.fid) {
-      // Use FID as primary identifier
-      const existing = pnlByFid.get(profile.fid);
-      if (existing) {
-        // If multiple wallets for same FID, combine losses
-        existing.netLoss += trader.netLoss;
-      } else {
-        pnlByFid.set(profile.fid, { address: trader.address, netLoss: trader.netLoss });
-      }
-    } else {
-      // No FID found, use address
-      pnlByAddress.set(address, { address: trader.address, netLoss: trader.netLoss });
+  return profiles;
+}
+
+/**
+ * Give wallets linked to an FID but unknown to Neynar (e.g. signed links) their FID's profile (pure)
+ * The FID's profile is borrowed from another of its wallets; failing that, a bare profile still
+ * groups the wallets under the FID.
+ */
+export function mergeIdentityProfiles(
+  profiles: Record<string, FarcasterProfile>,
+  walletFids: Map<string, number>
+): Record<string, FarcasterProfile> {
+  const byFid = new Map<number, FarcasterProfile>();
+  for (const profile of Object.values(profiles)) {
+    if (profile.fid) {
+      byFid.set(profile.fid, profile);
     }
   }
 
-  // Build leaderboard entries with FID and username
-  const leaderboard: LeaderboardEntry[] = [];
-
-  // Add entries with FIDs (these are primary)
-  for (const [fid, pnlData] of pnlByFid) {
-    const address = pnlData.address.toLowerCase();
-    const profile = farcasterProfiles[address];
-
-    leaderboard.push({
-      rank: 0, // Will be set after sorting
-      fid: fid,
-      username: profile?.username || '',
-      display_name: profile?.display_name || profile?.username || '',
-      address: pnlData.address,
-      pfpUrl: profile?.pfp_url || DEFAULT_PFP,
-      loss: Math.round(pnlData.netLoss),
-    });
+  const merged = { ...profiles };
+  for (const [address, fid] of walletFids) {
+    if (!merged[address]) {
+      merged[address] = byFid.get(fid) ?? { fid, username: '', display_name: '', pfp_url: '' };
+    }
   }
+  return merged;
+}
+
+/**
+ * Group wallet PnL per FID (wallets without a Farcaster account stand alone)
+ * and keep only net losers, sorted by loss
+ */
+export function aggregateLosersByFid(
+  walletPnL: WalletWindowPnL[],
+  profiles: Record<string, FarcasterProfile>
+): LeaderboardEntry[] {
+  const groups = new Map<string, LeaderboardEntry & { netPnl: number }>();
+
+  for (const wallet of walletPnL) {
+    const address = wallet.address.toLowerCase();
+    const profile = profiles[address];
+    const key = profile?.fid ? `fid:${profile.fid}` : `address:${address}`;
+    const shortAddress = `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        rank: 0,
+        fid: profile?.fid || 0,
+        username: profile?.username || shortAddress,
+        display_name: profile?.display_name || profile?.username || shortAddress,
+        pfpUrl: profile?.pfp_url || DEFAULT_PFP,
+        address,
+        loss: 0,
+        wallets: [],
+        realizedPnl: 0,
+        unrealizedPnl: 0,
+        source: 'computed',
+        netPnl: 0
+      };
+      groups.set(key, group);
+    }
 
-  // Add entries without FIDs (secondary, by address)
-  for (const [address, pnlData] of pnlByAddress) {
-    leaderboard.push({
-      rank: 0, // Will be set after sorting
-      fid: 0, // No FID available
-      username: `${pnlData.address.slice(0, 6)}...${pnlData.address.slice(-4)}`,
-      display_name: `${pnlData.address.slice(0, 6)}...${pnlData.address.slice(-4)}`,
-      address: pnlData.address,
-      pfpUrl: DEFAULT_PFP,
-      loss: Math.round(pnlData.netLoss),
-    });
+    group.wallets!.push(address);
+    group.realizedPnl! += wallet.realizedPnlUsd;
+    group.unrealizedPnl! += wallet.unrealizedPnlUsd;
+    group.netPnl += wallet.realizedPnlUsd + wallet.unrealizedPnlUsd;
   }
 
-  // Sort by loss (descending) and assign ranks
-  leaderboard.sort((a, b) => b.loss - a.loss);
-  leaderboard.forEach((entry, index) => {
+  const losers: LeaderboardEntry[] = [];
+  for (const { netPnl, ...entry } of groups.values()) {
+    if (netPnl < 0) {
+      losers.push({ ...entry, loss: Math.round(-netPnl) });
+    }
+  }
+
+  return rankEntries(losers);
+}
+
+function rankEntries(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  entries.sort((a, b) => b.loss - a.loss || a.fid - b.fid);
+  entries.forEach((entry, index) => {
     entry.rank = index + 1;
   });
+  return entries;
+}
+
+/**
+ * Apply manual entries to a computed board
+ * - override: replaces the FID's computed loss (or adds the FID with the override loss)
+ * - pin: always listed first, keeping the computed loss if there is one
+ */
+export function applyManualEntries(
+  computed: LeaderboardEntry[],
+  manual: ManualLoserboardEntry[]
+): LeaderboardEntry[] {
+  const byFid = new Map(computed.filter(entry => entry.fid).map(entry => [entry.fid, entry]));
+  const pinnedFids = new Set<number>();
+  const pinned: LeaderboardEntry[] = [];
+
+  for (const entry of manual) {
+    const existing = byFid.get(entry.fid);
+    const base: LeaderboardEntry = existing ?? {
+      rank: 0,
+      fid: entry.fid,
+      username: entry.username,
+      display_name: entry.displayName || entry.username,
+      pfpUrl: entry.pfpUrl || DEFAULT_PFP,
+      address: entry.address,
+      loss: 0,
+      wallets: entry.address ? [entry.address.toLowerCase()] : [],
+      realizedPnl: 0,
+      unrealizedPnl: 0
+    };
+
+    if (entry.entryType === 'override') {
+      const overridden = {
+        ...base,
+        loss: entry.lossOverrideUsd !== null ? Math.round(entry.lossOverrideUsd) : base.loss,
+        source: 'override' as LoserboardSource
+      };
+      byFid.set(entry.fid, overridden);
+    } else if (!pinnedFids.has(entry.fid)) {
+      pinnedFids.add(entry.fid);
+      pinned.push({ ...base, source: 'pin' });
+    }
+  }
+
+  const ranked = rankEntries(
+    [...computed.filter(entry => !entry.fid), ...byFid.values()].filter(entry => !pinnedFids.has(entry.fid))
+  );
+
+  return [...pinned, ...ranked].map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+/**
+ * Manual loserboard entries added for the week containing a date, newest first
+ */
+export async function getManualEntries(weekOf: Date): Promise<ManualLoserboardEntry[]> {
+  const result = await query(
+    `SELECT fid, username, display_name, address, pfp_url, entry_type, loss_override_usd
+     FROM manual_loserboard_entries
+     WHERE fid IS NOT NULL AND week_start = $1
+     ORDER BY added_at DESC`,
+    [getWeekStart(weekOf)]
+  );
+
+  return result.rows.map(row => ({
+    fid: Number(row.fid),
+    username: row.username || '',
+    displayName: row.display_name || row.username || '',
+    address: row.address || '',
+    pfpUrl: row.pfp_url || DEFAULT_PFP,
+    entryType: row.entry_type,
+    lossOverrideUsd: row.loss_override_usd !== null ? parseFloat(row.loss_override_usd) : null
+  }));
+}
+
+/**
+ * Generate the loserboard for a window: compute per-FID losses from trades, then apply the manual
+ * entries of the week the window ends in
+ */
+export async function generateLeaderboard(window: LoserboardWindow = getRollingWindow()): Promise<LeaderboardEntry[]> {
+  console.log(`Computing loserboard for ${window.start.toISOString()} -> ${window.end.toISOString()}...`);
+
+  const walletPnL = await getWalletPnLForWindow(window);
+  // Gains still count: they offset losses on the same FID's other wallets
+  const activeWallets = walletPnL.filter(w => w.realizedPnlUsd + w.unrealizedPnlUsd !== 0);
+  const addresses = activeWallets.map(w => w.address.toLowerCase());
+  const profiles = mergeIdentityProfiles(await getProfilesInBatches(addresses), await getWalletFids(addresses));
+  const computed = aggregateLosersByFid(activeWallets, profiles);
+
+  // The window end is exclusive: a week ending Monday 00:00 takes that week's entries
+  const manual = await getManualEntries(new Date(window.end.getTime() - 1));
+  const leaderboard = applyManualEntries(computed, manual);
 
+  console.log(`Loserboard: ${computed.length} computed losers, ${manual.length} manual entries.`);
   return leaderboard;
 }
 
+function mapSnapshot(row: any): LoserboardSnapshot {
+  return {
+    id: row.id,
+    weekStart: row.week_start,
+    weekEnd: row.week_end,
+    entryCount: row.entry_count,
+    totalLossUsd: parseFloat(row.total_loss_usd),
+    frozenAt: row.frozen_at
+  };
+}
+
+/**
+ * Freeze the loserboard of a finished week (Monday 00:00 UTC -> next Monday)
+ * Snapshots are immutable: freezing an already frozen week returns the existing snapshot
+ */
+export async function freezeWeeklySnapshot(weekOf: Date): Promise<LoserboardSnapshot> {
+  const weekStart = getWeekStart(weekOf);
+  const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+
+  if (weekEnd.getTime() > Date.now()) {
+    throw new Error(`Week starting ${weekStart.toISOString()} has not finished yet`);
+  }
+
+  const existing = await query('SELECT * FROM loserboard_snapshots WHERE week_start = $1', [weekStart]);
+  if (existing.rows.length > 0) {
+    return mapSnapshot(existing.rows[0]);
+  }
+
+  const entries = await generateLeaderboard({ start: weekStart, end: weekEnd });
+  const totalLoss = entries.reduce((sum, entry) => sum + entry.loss, 0);
+
+  // Header and entries in one statement so a snapshot is never half-written
+  await query(
+    `WITH snapshot AS (
+       INSERT INTO loserboard_snapshots (week_start, week_end, entry_count, total_loss_usd)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (week_start) DO NOTHING
+       RETURNING id
+     )
+     INSERT INTO loserboard_snapshot_entries (
+       snapshot_id, rank, fid, username, display_name, pfp_url, address,
+       wallet_addresses, loss_usd, realized_pnl_usd, unrealized_pnl_usd, source
+     )
+     SELECT snapshot.id, e.rank, e.fid, e.username, e.display_name, e.pfp_url, e.address,
+            ARRAY(SELECT jsonb_array_elements_text(e.wallets)), e.loss, e.realized, e.unrealized, e.source
+     FROM snapshot,
+          jsonb_to_recordset($5::jsonb) AS e(
+            rank INT, fid BIGINT, username TEXT, display_name TEXT, pfp_url TEXT, address TEXT,
+            wallets JSONB, loss NUMERIC, realized NUMERIC, unrealized NUMERIC, source TEXT
+          )`,
+    [
+      weekStart,
+      weekEnd,
+      entries.length,
+      totalLoss,
+      JSON.stringify(entries.map(entry => ({
+        rank: entry.rank,
+        fid: entry.fid,
+        username: entry.username,
+        display_name: entry.display_name,
+        pfp_url: entry.pfpUrl,
+        address: entry.address,
+        wallets: entry.wallets || [],
+        loss: entry.loss,
+        realized: entry.realizedPnl || 0,
+        unrealized: entry.unrealizedPnl || 0,
+        source: entry.source || 'computed'
+      })))
+    ]
+  );
+
+  const frozen = await query('SELECT * FROM loserboard_snapshots WHERE week_start = $1', [weekStart]);
+  console.log(`Froze loserboard for week of ${weekStart.toISOString()} (${entries.length} entries).`);
+  return mapSnapshot(frozen.rows[0]);
+}
+
+/**
+ * All frozen weeks, newest first
+ */
+export async function listSnapshots(): Promise<LoserboardSnapshot[]> {
+  const result = await query('SELECT * FROM loserboard_snapshots ORDER BY week_start DESC');
+  return result.rows.map(mapSnapshot);
+}
+
+/**
+ * Entries of the frozen week containing a date (null if that week was never frozen)
+ */
+export async function getSnapshotEntries(weekOf: Date): Promise<{ snapshot: LoserboardSnapshot; entries: LeaderboardEntry[] } | null> {
+  const snapshotResult = await query(
+    'SELECT * FROM loserboard_snapshots WHERE week_start = $1',
+    [getWeekStart(weekOf)]
+  );
+  if (snapshotResult.rows.length === 0) {
+    return null;
+  }
+
+  const snapshot = mapSnapshot(snapshotResult.rows[0]);
+  const entriesResult = await query(
+    `SELECT * FROM loserboard_snapshot_entries WHERE snapshot_id = $1 ORDER BY rank`,
+    [snapshot.id]
+  );
+
+  return {
+    snapshot,
+    entries: entriesResult.rows.map(row => ({
+      rank: row.rank,
+      fid: Number(row.fid),
+      username: row.username || '',
+      display_name: row.display_name || row.username || '',
+      pfpUrl: row.pfp_url || DEFAULT_PFP,
+      address: row.address || '',
+      loss: Math.round(parseFloat(row.loss_usd)),
+      wallets: row.wallet_addresses || [],
+      realizedPnl: parseFloat(row.realized_pnl_usd),
+      unrealizedPnl: parseFloat(row.unrealized_pnl_usd),
+      source: row.source
+    }))
+  };
+}
@@ -0,0 +1,256 @@
+// lib/services/nominationService.ts
+// Community token nominations: registered holders nominate a token for the next voting period with a
+// signed nomination; admins approve or reject it. Approved nominations become voting options when the
+// next period is created (see addApprovedNominationsToPeriod).
+//
+// A nomination must be a Base ERC-20 with a symbol and decimals, and have a DEX pool with at least
+// NOMINATION_MIN_LIQUIDITY_USD of depth. One open nomination per wallet and per token.
+
+import { ethers } from 'ethers';
+import { query } from '@/lib/db/connection';
+import { Nomination, BALLOT_DOMAIN, NOMINATION_TYPES } from '@/lib/utils/ballot';
+import { discoverPools } from './poolPriceService';
+import { callWithFallback } from './providers';
+import { getTokenMetadata } from './tokenMetadataService';
+
+export type NominationStatus = 'pending' | 'approved' | 'rejected' | 'used';
+
+const NOMINATION_MAX_AGE_SECONDS = 10 * 60;
+const NOMINATION_MAX_CLOCK_SKEW_SECONDS = 60;
+
+export const NOMINATION_MIN_LIQUIDITY_USD = process.env.NOMINATION_MIN_LIQUIDITY_USD
+  ? parseFloat(process.env.NOMINATION_MIN_LIQUIDITY_USD)
+  : 10_000;
+
+export class NominationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'NominationError';
+  }
+}
+
+export interface TokenNomination {
+  id: number;
+  tokenAddress: string;
+  tokenSymbol: string | null;
+  tokenName: string | null;
+  reason: string | null;
+  nominatorWallet: string;
+  nominatorFid: number | null;
+  poolAddress: string | null;
+  liquidityUsd: number;
+  status: NominationStatus;
+  reviewNote: string | null;
+  reviewedByFid: number | null;
+  reviewedAt: string | null;
+  votingOptionId: number | null;
+  createdAt: string;
+}
+
+function toNomination(row: any): TokenNomination {
+  return {
+    id: row.id,
+    tokenAddress: row.token_address,
+    tokenSymbol: row.token_symbol,
+    tokenName: row.token_name,
+    reason: row.reason,
+    nominatorWallet: row.nominator_wallet,
+    nominatorFid: row.nominator_fid !== null ? Number(row.nominator_fid) : null,
+    poolAddress: row.pool_address,
+    liquidityUsd: parseFloat(row.liquidity_usd),
+    status: row.status,
+    reviewNote: row.review_note,
+    reviewedByFid: row.reviewed_by_fid !== null ? Number(row.reviewed_by_fid) : null,
+    reviewedAt: row.reviewed_at,
+    votingOptionId: row.voting_option_id,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Check a nomination's signature and freshness; returns the nominator address (lowercase)
+ */
+export function verifyNomination(nomination: Nomination, signature: string, nowSeconds: number = Math.floor(Date.now() / 1000)): string {
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(BALLOT_DOMAIN, NOMINATION_TYPES, nomination, signature);
+  } catch {
+    throw new NominationError('Invalid nomination signature', 401);
+  }
+
+  if (signer.toLowerCase() !== nomination.nominator.toLowerCase()) {
+    throw new NominationError('Nomination was not signed by the nominator', 401);
+  }
+
+  if (nomination.issuedAt < nowSeconds - NOMINATION_MAX_AGE_SECONDS
+      || nomination.issuedAt > nowSeconds + NOMINATION_MAX_CLOCK_SKEW_SECONDS) {
+    throw new NominationError('Nomination has expired, please sign again', 401);
+  }
+
+  return signer.toLowerCase();
+}
+
+/**
+ * Validate and record a signed nomination
+ */
+export async function submitNomination(
+  nomination: Nomination,
+  signature: string,
+  reason: string | null
+): Promise<TokenNomination> {
+  const nominator = verifyNomination(nomination, signature);
+  const tokenAddress = nomination.tokenAddress.toLowerCase();
+
+  const userResult = await query(
+    'SELECT fid, opt_in_status FROM users WHERE wallet_address = $1',
+    [nominator]
+  );
+
+  if (userResult.rows.length === 0 || !userResult.rows[0].opt_in_status) {
+    throw new NominationError('You must be registered to nominate a token. Please register first.', 403);
+  }
+
+  // Answer the cheap questions before touching the chain
+  const open = await query(
+    `SELECT nominator_wallet, token_address FROM token_nominations
+     WHERE status IN ('pending', 'approved') AND (nominator_wallet = $1 OR token_address = $2)`,
+    [nominator, tokenAddress]
+  );
+  if (open.rows.some(row => row.nominator_wallet === nominator)) {
+    throw new NominationError('You already have a nomination in for the next vote', 429);
+  }
+  if (open.rows.length > 0) {
+    throw new NominationError('This token has already been nominated', 409);
+  }
+
+  const code = await callWithFallback(provider => provider.getCode(tokenAddress));
+  if (code === '0x') {
+    throw new NominationError('Not a token contract on Base');
+  }
+
+  const metadata = await getTokenMetadata(tokenAddress);
+  if (!metadata.symbol || metadata.decimals === null) {
+    throw new NominationError('Could not read the token symbol and decimals - is this an ERC-20 on Base?');
+  }
+
+  // discoverPools returns deepest first
+  const [pool] = await discoverPools(tokenAddress);
+  if (!pool || pool.liquidityUsd < NOMINATION_MIN_LIQUIDITY_USD) {
+    throw new NominationError(
+      `Needs a WETH or USDC pool with at least $${NOMINATION_MIN_LIQUIDITY_USD.toLocaleString('en-US')} of liquidity`
+    );
+  }
+
+  try {
+    const result = await query(
+      `INSERT INTO token_nominations (
+        token_address, token_symbol, token_name, reason, nominator_wallet, nominator_fid,
+        signature, pool_address, liquidity_usd
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        tokenAddress,
+        metadata.symbol,
+        metadata.name,
+        reason,
+        nominator,
+        userResult.rows[0].fid,
+        signature,
+        pool.poolAddress,
+        pool.liquidityUsd
+      ]
+    );
+    return toNomination(result.rows[0]);
+  } catch (error: any) {
+    // Lost a race with a concurrent nomination
+    if (error.code === '23505') {
+      throw new NominationError(
+        error.constraint === 'idx_token_nominations_open_wallet'
+          ? 'You already have a nomination in for the next vote'
+          : 'This token has already been nominated',
+        409
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * A wallet's most recent nomination, or null
+ */
+export async function getWalletNomination(walletAddress: string): Promise<TokenNomination | null> {
+  const result = await query(
+    `SELECT * FROM token_nominations
+     WHERE nominator_wallet = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [walletAddress.toLowerCase()]
+  );
+  return result.rows.length > 0 ? toNomination(result.rows[0]) : null;
+}
+
+/**
+ * Nominations for the moderation queue, oldest first
+ */
+export async function listNominations(status?: NominationStatus, limit: number = 100): Promise<TokenNomination[]> {
+  const result = await query(
+    `SELECT * FROM token_nominations
+     WHERE ($1::text IS NULL OR status = $1)
+     ORDER BY created_at ASC
+     LIMIT $2`,
+    [status || null, Math.min(Math.max(limit, 1), 500)]
+  );
+  return result.rows.map(toNomination);
+}
+
+/**
+ * Approve or reject a pending nomination - returns null if it isn't pending
+ */
+export async function reviewNomination(
+  nominationId: number,
+  decision: 'approved' | 'rejected',
+  reviewedByFid: number,
+  note: string | null
+): Promise<TokenNomination | null> {
+  const result = await query(
+    `UPDATE token_nominations
+     SET status = $2, review_note = $3, reviewed_by_fid = $4, reviewed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'pending'
+     RETURNING *`,
+    [nominationId, decision, note, reviewedByFid]
+  );
+  return result.rows.length > 0 ? toNomination(result.rows[0]) : null;
+}
+
+/**
+ * Turn every approved nomination into an option of the period and mark it used
+ * Returns the nominations added (tokens already on the ballot are marked used without a new option)
+ */
+export async function addApprovedNominationsToPeriod(votingPeriodId: number): Promise<TokenNomination[]> {
+  const approved = await listNominations('approved');
+  const added: TokenNomination[] = [];
+
+  for (const nomination of approved) {
+    const option = await query(
+      `INSERT INTO voting_options (voting_period_id, token_address, token_symbol, token_name, description)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (voting_period_id, token_address) DO NOTHING
+       RETURNING id`,
+      [votingPeriodId, nomination.tokenAddress, nomination.tokenSymbol, nomination.tokenName, nomination.reason]
+    );
+    const optionId = option.rows[0]?.id ?? null;
+
+    await query(
+      `UPDATE token_nominations
+       SET status = 'used', voting_option_id = $2, updated_at = NOW()
+       WHERE id = $1`,
+      [nomination.id, optionId]
+    );
+
+    if (optionId) {
+      added.push({ ...nomination, status: 'used', votingOptionId: optionId });
+    }
+  }
+
+  return added;
+}
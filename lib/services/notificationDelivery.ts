@@ -0,0 +1,258 @@
+// lib/services/notificationDelivery.ts
+// Self-hosted Farcaster notification delivery from the tokens stored by /api/webhooks/farcaster.
+//
+// Each Farcaster client gives a token and the url to POST it to. Tokens are grouped per url and
+// sent 100 per request with a notificationId; the client answers with the tokens that were
+// delivered, are no longer valid and were rate limited. Invalid tokens are pruned, rate-limited
+// ones retried a few times. Every token's outcome is kept in notification_deliveries, so sending
+// the same notificationId again only retries the tokens that did not get it.
+
+import { query } from '@/lib/db/connection';
+
+export const NOTIFICATION_BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+// Farcaster client limits
+export const TITLE_MAX = 32;
+export const BODY_MAX = 128;
+export const TARGET_URL_MAX = 1024;
+const NOTIFICATION_ID_MAX = 128;
+
+export type NotificationBackendName = 'native' | 'neynar';
+
+export interface NotificationContent {
+  notificationId: string; // Clients show a notificationId at most once per user (24h window)
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+export interface NotificationToken {
+  fid: number;
+  token: string;
+  url: string;
+}
+
+export interface BatchOutcome {
+  successful: string[];
+  invalid: string[]; // Disabled or uninstalled - prune
+  rateLimited: string[]; // Still rate limited after the last attempt
+  failed: string[]; // Request failed or the token was not in the response
+  attempts: number;
+  error?: string;
+}
+
+export interface DeliveryOptions {
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export interface NotificationDeliveryResult {
+  backend: NotificationBackendName;
+  notificationId: string;
+  targeted: number; // Tokens (native) or FIDs (Neynar, 0 = broadcast) the notification was for
+  successful: number;
+  invalid: number;
+  rateLimited: number;
+  failed: number;
+  skipped: number; // Already delivered (or invalid) under this notificationId
+  deliveredFids: number[]; // FIDs that have the notification, from this send or an earlier one under the same id
+}
+
+/**
+ * Clamp a notification to the client's field limits (pure)
+ */
+export function normalizeNotification(content: NotificationContent): NotificationContent {
+  return {
+    notificationId: content.notificationId.substring(0, NOTIFICATION_ID_MAX),
+    title: content.title.substring(0, TITLE_MAX),
+    body: content.body.substring(0, BODY_MAX),
+    targetUrl: content.targetUrl.substring(0, TARGET_URL_MAX)
+  };
+}
+
+/**
+ * Group tokens by the url that accepts them, in requests of at most batchSize tokens (pure)
+ */
+export function batchTokens(
+  tokens: NotificationToken[],
+  batchSize: number = NOTIFICATION_BATCH_SIZE
+): Array<{ url: string; tokens: NotificationToken[] }> {
+  const byUrl = new Map<string, NotificationToken[]>();
+  for (const token of tokens) {
+    const group = byUrl.get(token.url) ?? [];
+    if (!group.some(existing => existing.token === token.token)) {
+      group.push(token);
+    }
+    byUrl.set(token.url, group);
+  }
+
+  const batches: Array<{ url: string; tokens: NotificationToken[] }> = [];
+  for (const [url, group] of byUrl) {
+    for (let i = 0; i < group.length; i += batchSize) {
+      batches.push({ url, tokens: group.slice(i, i + batchSize) });
+    }
+  }
+  return batches;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POST one batch of tokens to a client's notification url
+ * Rate-limited tokens, 429s, 5xx responses and network errors are retried up to maxAttempts;
+ * any other error response fails the batch.
+ */
+export async function postBatch(
+  url: string,
+  content: NotificationContent,
+  tokens: string[],
+  options: DeliveryOptions = {}
+): Promise<BatchOutcome> {
+  const maxAttempts = options.maxAttempts ?? MAX_ATTEMPTS;
+  const retryDelayMs = options.retryDelayMs ?? RETRY_DELAY_MS;
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  const outcome: BatchOutcome = { successful: [], invalid: [], rateLimited: [], failed: [], attempts: 0 };
+  let pending = tokens;
+
+  while (pending.length > 0 && outcome.attempts < maxAttempts) {
+    if (outcome.attempts > 0) {
+      await sleep(retryDelayMs * outcome.attempts);
+    }
+    outcome.attempts++;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...content, tokens: pending })
+      });
+    } catch (error: any) {
+      outcome.error = error.message;
+      continue;
+    }
+
+    if (!response.ok) {
+      outcome.error = `HTTP ${response.status}`;
+      if (response.status !== 429 && response.status < 500) {
+        break;
+      }
+      continue;
+    }
+
+    const data = await response.json().catch(() => null);
+    const result = data?.result ?? {};
+    const inBatch = (list: unknown) => new Set(Array.isArray(list) ? list.filter(token => pending.includes(token)) : []);
+    const successful = inBatch(result.successfulTokens);
+    const invalid = inBatch(result.invalidTokens);
+    const rateLimited = inBatch(result.rateLimitedTokens);
+
+    outcome.successful.push(...successful);
+    outcome.invalid.push(...invalid);
+    outcome.failed.push(...pending.filter(token => !successful.has(token) && !invalid.has(token) && !rateLimited.has(token)));
+    outcome.error = undefined;
+    pending = Array.from(rateLimited);
+  }
+
+  // Whatever is left is still rate limited, or its request kept failing
+  if (outcome.error) {
+    outcome.failed.push(...pending);
+  } else {
+    outcome.rateLimited.push(...pending);
+  }
+  return outcome;
+}
+
+/**
+ * Stored tokens for some FIDs (empty = every FID with notifications enabled)
+ */
+async function getNotificationTokens(targetFids: number[]): Promise<NotificationToken[]> {
+  const result = targetFids.length > 0
+    ? await query('SELECT fid, token, url FROM notification_tokens WHERE fid = ANY($1::int[])', [targetFids])
+    : await query('SELECT fid, token, url FROM notification_tokens');
+  return result.rows.map((row: any) => ({ fid: Number(row.fid), token: row.token, url: row.url }));
+}
+
+async function recordDeliveries(
+  notificationId: string,
+  tokens: NotificationToken[],
+  status: 'sent' | 'invalid' | 'rate_limited' | 'failed',
+  attempts: number,
+  error: string | null
+): Promise<void> {
+  for (const token of tokens) {
+    await query(
+      `INSERT INTO notification_deliveries (notification_id, fid, token, url, status, attempts, error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (notification_id, token) DO UPDATE SET
+         status = EXCLUDED.status,
+         attempts = notification_deliveries.attempts + EXCLUDED.attempts,
+         error = EXCLUDED.error,
+         updated_at = NOW()`,
+      [notificationId, token.fid, token.token, token.url, status, attempts, error]
+    );
+  }
+}
+
+/**
+ * Deliver a notification to the stored tokens of some FIDs (empty = all of them)
+ * Idempotent per notificationId: tokens that already got it (or were pruned) are skipped
+ */
+export async function deliverNotification(
+  targetFids: number[],
+  notification: NotificationContent,
+  options: DeliveryOptions = {}
+): Promise<NotificationDeliveryResult> {
+  const content = normalizeNotification(notification);
+  const tokens = await getNotificationTokens(targetFids);
+
+  const done = await query(
+    `SELECT token, status FROM notification_deliveries
+     WHERE notification_id = $1 AND status IN ('sent', 'invalid')`,
+    [content.notificationId]
+  );
+  const alreadyDone = new Set(done.rows.map((row: any) => row.token));
+  const alreadySent = new Set(done.rows.filter((row: any) => row.status === 'sent').map((row: any) => row.token));
+  const toSend = tokens.filter(token => !alreadyDone.has(token.token));
+  const delivered = new Set(tokens.filter(token => alreadySent.has(token.token)).map(token => token.fid));
+
+  const result: NotificationDeliveryResult = {
+    backend: 'native',
+    notificationId: content.notificationId,
+    targeted: tokens.length,
+    successful: 0,
+    invalid: 0,
+    rateLimited: 0,
+    failed: 0,
+    skipped: tokens.length - toSend.length,
+    deliveredFids: []
+  };
+
+  for (const batch of batchTokens(toSend)) {
+    const outcome = await postBatch(batch.url, content, batch.tokens.map(token => token.token), options);
+    const pick = (list: string[]) => batch.tokens.filter(token => list.includes(token.token));
+
+    await recordDeliveries(content.notificationId, pick(outcome.successful), 'sent', outcome.attempts, null);
+    pick(outcome.successful).forEach(token => delivered.add(token.fid));
+    await recordDeliveries(content.notificationId, pick(outcome.invalid), 'invalid', outcome.attempts, null);
+    await recordDeliveries(content.notificationId, pick(outcome.rateLimited), 'rate_limited', outcome.attempts, null);
+    await recordDeliveries(content.notificationId, pick(outcome.failed), 'failed', outcome.attempts, outcome.error ?? null);
+
+    if (outcome.invalid.length > 0) {
+      await query('DELETE FROM notification_tokens WHERE url = $1 AND token = ANY($2::text[])', [batch.url, outcome.invalid]);
+    }
+
+    result.successful += outcome.successful.length;
+    result.invalid += outcome.invalid.length;
+    result.rateLimited += outcome.rateLimited.length;
+    result.failed += outcome.failed.length;
+  }
+
+  result.deliveredFids = Array.from(delivered);
+  console.log(`📬 Notification ${content.notificationId}: ${result.successful} delivered, ${result.invalid} pruned, ${result.rateLimited} rate limited, ${result.failed} failed, ${result.skipped} skipped`);
+  return result;
+}
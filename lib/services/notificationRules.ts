@@ -0,0 +1,590 @@
+// lib/services/notificationRules.ts
+// Rules engine for the weekly loop's notifications.
+//
+// Events come from two places: the scheduler scans contests for ones that just opened, are within
+// 24h of closing or have live rankings (cron / indexer), and the code paths where something happens
+// queue their own (registration indexed, eligibility lost). Each event is dispatched by a
+// notifications.dispatch job (voting.close_period dispatches its own): the event's rule picks the
+// recipients and fills a template, users who opted out of the category are dropped, and the rest
+// are sent through sendNotification in batches. Every notification has a dedup key - the notificationId is derived from it and each
+// FID it was sent to is kept in notification_sends, so a rule that runs again skips them.
+
+import { createHash } from 'crypto';
+import { query } from '@/lib/db/connection';
+import { sendNotification } from '@/app/services/notifications';
+import {
+  isNotificationCategory,
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory
+} from '@/lib/config/notifications';
+import { enqueueJob, Job } from './jobQueueService';
+import { BODY_MAX, NOTIFICATION_BATCH_SIZE, TITLE_MAX } from './notificationDelivery';
+
+// How close to its close a contest gets the "closing" notification
+const CLOSING_WINDOW_HOURS = 24;
+// A contest that opened longer ago than this is not announced any more
+const OPEN_WINDOW_HOURS = 24;
+const LOSERBOARD_SIZE = 10;
+
+export class NotificationRuleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'NotificationRuleError';
+  }
+}
+
+export type NotificationEvent =
+  | { type: 'contest.opened'; contestId: number }
+  | { type: 'contest.closing'; contestId: number }
+  | { type: 'contest.ranked'; contestId: number }
+  | { type: 'registration.indexed'; registrationId: number }
+  | { type: 'voting.closed'; votingPeriodId: number }
+  | { type: 'eligibility.lost'; fid: number; balance: number; threshold: number; checkedOn: string };
+
+export interface TemplateVars {
+  token: string;
+  rank?: number;
+  pnlUsd?: number;
+  date?: Date; // Contest close (contest_open, contest_closing) or start (vote_won)
+  balance?: number;
+  threshold?: number;
+}
+
+export interface PlannedNotification {
+  category: NotificationCategory;
+  dedupKey: string;
+  notificationId: string;
+  fids: number[];
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+export interface NotificationDispatch extends PlannedNotification {
+  recipients: number[]; // fids minus opt-outs and FIDs it was already sent to
+  optedOut: number;
+  alreadySent: number;
+  sent: number; // 0 on a dry run
+  dryRun: boolean;
+}
+
+/**
+ * Notification ids must be UUIDs (Neynar); derive one from a dedup key so a resend is deduplicated (pure)
+ */
+export function notificationIdFor(key: string): string {
+  const hex = createHash('sha256').update(key).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * A stable key for an event - queued dispatches of the same event are deduplicated on it (pure)
+ */
+export function eventKey(event: NotificationEvent): string {
+  switch (event.type) {
+    case 'contest.opened':
+    case 'contest.closing':
+    case 'contest.ranked':
+      return `${event.type}:${event.contestId}`;
+    case 'registration.indexed':
+      return `${event.type}:${event.registrationId}`;
+    case 'voting.closed':
+      return `${event.type}:${event.votingPeriodId}`;
+    case 'eligibility.lost':
+      return `${event.type}:${event.fid}:${event.checkedOn}`;
+  }
+}
+
+const positiveInt = (value: unknown): number | null =>
+  Number.isInteger(value) && (value as number) > 0 ? (value as number) : null;
+
+/**
+ * Validate an event from a request body (pure)
+ */
+export function parseNotificationEvent(input: any): NotificationEvent {
+  const type = input?.type;
+  switch (type) {
+    case 'contest.opened':
+    case 'contest.closing':
+    case 'contest.ranked': {
+      const contestId = positiveInt(input.contestId);
+      if (contestId === null) throw new NotificationRuleError(`${type} needs a contestId`);
+      return { type, contestId };
+    }
+    case 'registration.indexed': {
+      const registrationId = positiveInt(input.registrationId);
+      if (registrationId === null) throw new NotificationRuleError(`${type} needs a registrationId`);
+      return { type, registrationId };
+    }
+    case 'voting.closed': {
+      const votingPeriodId = positiveInt(input.votingPeriodId);
+      if (votingPeriodId === null) throw new NotificationRuleError(`${type} needs a votingPeriodId`);
+      return { type, votingPeriodId };
+    }
+    case 'eligibility.lost': {
+      const fid = positiveInt(input.fid);
+      if (fid === null || typeof input.balance !== 'number' || typeof input.threshold !== 'number') {
+        throw new NotificationRuleError(`${type} needs a fid, balance and threshold`);
+      }
+      const checkedOn = typeof input.checkedOn === 'string' ? input.checkedOn : new Date().toISOString().slice(0, 10);
+      return { type, fid, balance: input.balance, threshold: input.threshold, checkedOn };
+    }
+    default:
+      throw new NotificationRuleError(`Unknown notification event type: ${type}`);
+  }
+}
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+const formatAmount = (value: number) => Math.floor(value).toLocaleString('en-US');
+const formatDate = (date: Date) => date.toUTCString().slice(0, 16);
+
+/**
+ * Title and body for a category (pure)
+ * Kept within the client limits: title 32 chars, body 128 chars
+ */
+export function renderNotification(category: NotificationCategory, vars: TemplateVars): { title: string; body: string } {
+  const { token } = vars;
+  let title: string;
+  let body: string;
+
+  switch (category) {
+    case 'contest_open':
+      title = `${token} contest is open`;
+      body = `Who can lose the most on ${token}? Register a wallet${vars.date ? ` before ${formatDate(vars.date)}` : ''}.`;
+      break;
+    case 'contest_closing':
+      title = `${token} contest closes soon`;
+      body = `Less than ${CLOSING_WINDOW_HOURS}h left in the ${token} contest. Last chance to lose it all.`;
+      break;
+    case 'loserboard':
+      title = `You're a top ${LOSERBOARD_SIZE} loser`;
+      body = `You're #${vars.rank} worst in the ${token} contest${vars.pnlUsd !== undefined ? ` at ${formatUsd(vars.pnlUsd)}` : ''}. Keep it up.`;
+      break;
+    case 'indexing_complete':
+      title = 'Your trades are in';
+      body = `Your ${token} contest entry is indexed${vars.pnlUsd !== undefined ? ` - PnL so far: ${formatUsd(vars.pnlUsd)}` : ''}.`;
+      break;
+    case 'vote_won':
+      title = 'Your token won the vote';
+      body = vars.date && vars.date.getTime() > Date.now()
+        ? `${token} won! The contest opens ${formatDate(vars.date)}.`
+        : `${token} won! The contest is open - come lose some money.`;
+      break;
+    case 'eligibility_lost':
+      title = 'You dropped below the line';
+      body = `You hold ${formatAmount(vars.balance ?? 0)} $BADTRADERS, under the ${formatAmount(vars.threshold ?? 0)} needed. Top up to stay in.`;
+      break;
+  }
+
+  return { title: title.slice(0, TITLE_MAX), body: body.slice(0, BODY_MAX) };
+}
+
+/**
+ * Split a rule's FIDs into who gets it, who opted out and who already got it (pure)
+ */
+export function filterRecipients(
+  fids: number[],
+  optedOut: Set<number>,
+  alreadySent: Set<number>
+): { recipients: number[]; optedOut: number; alreadySent: number } {
+  const unique = Array.from(new Set(fids));
+  const recipients = unique.filter(fid => !optedOut.has(fid) && !alreadySent.has(fid));
+  return {
+    recipients,
+    optedOut: unique.filter(fid => optedOut.has(fid)).length,
+    alreadySent: unique.filter(fid => !optedOut.has(fid) && alreadySent.has(fid)).length
+  };
+}
+
+/**
+ * The FIDs of a batch the backend reports as delivered, in batch order (pure)
+ */
+export function deliveredRecipients(batch: number[], deliveredFids: number[]): number[] {
+  const delivered = new Set(deliveredFids);
+  return batch.filter(fid => delivered.has(fid));
+}
+
+const appUrl = (path: string) => `${process.env.NEXT_PUBLIC_APP_URL || 'https://badtraders.xyz'}${path}`;
+
+const tokenLabel = (symbol: string | null, address: string) => (symbol ? `$${symbol}` : `${address.slice(0, 8)}...`);
+
+function plan(
+  category: NotificationCategory,
+  dedupKey: string,
+  fids: number[],
+  vars: TemplateVars,
+  targetUrl: string
+): PlannedNotification {
+  return { category, dedupKey, notificationId: notificationIdFor(dedupKey), fids, targetUrl, ...renderNotification(category, vars) };
+}
+
+// A registration's FID: the one it was made with, else the FID its wallet is linked to
+const REGISTRATION_FID = `COALESCE(cr.fid, (SELECT iw.fid FROM identity_wallets iw WHERE iw.wallet_address = LOWER(cr.wallet_address)))`;
+
+/**
+ * FIDs with a registration in a contest (directly or through a linked wallet)
+ */
+export async function getContestParticipantFids(contestId: number): Promise<number[]> {
+  const result = await query(
+    `SELECT DISTINCT ${REGISTRATION_FID} AS fid
+     FROM contest_registrations cr
+     WHERE cr.contest_id = $1`,
+    [contestId]
+  );
+  return result.rows.filter((row: any) => row.fid !== null).map((row: any) => Number(row.fid));
+}
+
+async function getOpenContest(contestId: number) {
+  const result = await query(
+    `SELECT id, token_address, token_symbol, COALESCE(registration_ends_at, end_date) AS closes_at
+     FROM weekly_contests
+     WHERE id = $1 AND status = 'active' AND finalized_at IS NULL`,
+    [contestId]
+  );
+  return result.rows[0] ?? null;
+}
+
+async function planContestOpened(contestId: number): Promise<PlannedNotification[]> {
+  const contest = await getOpenContest(contestId);
+  if (!contest) return [];
+
+  // Everyone the app knows about: registered users and anyone who enabled notifications
+  const audience = await query(
+    `SELECT fid FROM users WHERE fid IS NOT NULL
+     UNION SELECT fid FROM notification_tokens
+     ORDER BY fid`
+  );
+  const token = tokenLabel(contest.token_symbol, contest.token_address);
+  return [plan(
+    'contest_open',
+    `contest_open:${contestId}`,
+    audience.rows.map((row: any) => Number(row.fid)),
+    { token, date: new Date(contest.closes_at) },
+    appUrl('/contests')
+  )];
+}
+
+async function planContestClosing(contestId: number): Promise<PlannedNotification[]> {
+  const contest = await getOpenContest(contestId);
+  if (!contest) return [];
+
+  const token = tokenLabel(contest.token_symbol, contest.token_address);
+  return [plan(
+    'contest_closing',
+    `contest_closing:${contestId}`,
+    await getContestParticipantFids(contestId),
+    { token, date: new Date(contest.closes_at) },
+    appUrl('/contests')
+  )];
+}
+
+/**
+ * One notification per FID in the contest's top 10 worst PnL - once per contest, so dropping out
+ * and back in does not notify again
+ */
+async function planContestRanked(contestId: number): Promise<PlannedNotification[]> {
+  const contest = await getOpenContest(contestId);
+  if (!contest) return [];
+
+  const worst = await query(
+    `SELECT ${REGISTRATION_FID} AS fid, cr.current_pnl
+     FROM contest_registrations cr
+     WHERE cr.contest_id = $1 AND cr.index_status = 'indexed' AND cr.current_pnl < 0
+     ORDER BY cr.current_pnl ASC, cr.id ASC
+     LIMIT $2`,
+    [contestId, LOSERBOARD_SIZE]
+  );
+  const token = tokenLabel(contest.token_symbol, contest.token_address);
+
+  return worst.rows
+    .map((row: any, index: number) => ({ fid: row.fid, rank: index + 1, pnlUsd: parseFloat(row.current_pnl) }))
+    .filter(entry => entry.fid !== null)
+    .map(entry => plan(
+      'loserboard',
+      `loserboard:${contestId}:${entry.fid}`,
+      [Number(entry.fid)],
+      { token, rank: entry.rank, pnlUsd: entry.pnlUsd },
+      appUrl('/contests')
+    ));
+}
+
+async function planRegistrationIndexed(registrationId: number): Promise<PlannedNotification[]> {
+  const result = await query(
+    `SELECT ${REGISTRATION_FID} AS fid, cr.current_pnl, wc.token_address, wc.token_symbol
+     FROM contest_registrations cr
+     JOIN weekly_contests wc ON cr.contest_id = wc.id
+     WHERE cr.id = $1 AND cr.index_status = 'indexed'`,
+    [registrationId]
+  );
+  const registration = result.rows[0];
+  if (!registration?.fid) return [];
+
+  return [plan(
+    'indexing_complete',
+    `indexing_complete:${registrationId}`,
+    [Number(registration.fid)],
+    {
+      token: tokenLabel(registration.token_symbol, registration.token_address),
+      pnlUsd: registration.current_pnl !== null ? parseFloat(registration.current_pnl) : undefined
+    },
+    appUrl('/contests')
+  )];
+}
+
+async function planVotingClosed(votingPeriodId: number): Promise<PlannedNotification[]> {
+  const periodResult = await query(
+    `SELECT vp.closed_at, vp.winning_option_id, vo.token_symbol, vo.token_address, wc.start_date
+     FROM voting_periods vp
+     JOIN voting_options vo ON vo.id = vp.winning_option_id
+     LEFT JOIN weekly_contests wc ON wc.voting_period_id = vp.id
+     WHERE vp.id = $1`,
+    [votingPeriodId]
+  );
+  const period = periodResult.rows[0];
+  if (!period?.closed_at) return [];
+
+  const voters = await query(
+    `SELECT DISTINCT fid FROM user_votes
+     WHERE voting_period_id = $1 AND option_id = $2 AND fid IS NOT NULL
+     ORDER BY fid`,
+    [votingPeriodId, period.winning_option_id]
+  );
+  return [plan(
+    'vote_won',
+    `vote_won:${votingPeriodId}`,
+    voters.rows.map((row: any) => Number(row.fid)),
+    {
+      token: tokenLabel(period.token_symbol, period.token_address),
+      date: period.start_date ? new Date(period.start_date) : undefined
+    },
+    appUrl('/contests')
+  )];
+}
+
+/**
+ * The notifications an event's rule would send, before opt-outs and the sent log
+ */
+export async function planNotifications(event: NotificationEvent): Promise<PlannedNotification[]> {
+  switch (event.type) {
+    case 'contest.opened':
+      return planContestOpened(event.contestId);
+    case 'contest.closing':
+      return planContestClosing(event.contestId);
+    case 'contest.ranked':
+      return planContestRanked(event.contestId);
+    case 'registration.indexed':
+      return planRegistrationIndexed(event.registrationId);
+    case 'voting.closed':
+      return planVotingClosed(event.votingPeriodId);
+    case 'eligibility.lost':
+      return [plan(
+        'eligibility_lost',
+        `eligibility_lost:${event.fid}:${event.checkedOn}`,
+        [event.fid],
+        { token: '$BADTRADERS', balance: event.balance, threshold: event.threshold },
+        appUrl('/')
+      )];
+  }
+}
+
+async function getOptedOutFids(category: NotificationCategory, fids: number[]): Promise<Set<number>> {
+  if (fids.length === 0) return new Set();
+  const result = await query(
+    `SELECT fid FROM notification_preferences
+     WHERE category = $1 AND enabled = false AND fid = ANY($2::int[])`,
+    [category, fids]
+  );
+  return new Set(result.rows.map((row: any) => Number(row.fid)));
+}
+
+async function getSentFids(dedupKey: string): Promise<Set<number>> {
+  const result = await query('SELECT fid FROM notification_sends WHERE dedup_key = $1', [dedupKey]);
+  return new Set(result.rows.map((row: any) => Number(row.fid)));
+}
+
+async function recordSends(notification: PlannedNotification, fids: number[]): Promise<void> {
+  await query(
+    `INSERT INTO notification_sends (category, dedup_key, notification_id, fid, title, body, target_url)
+     SELECT $1, $2, $3, fid, $5, $6, $7 FROM UNNEST($4::int[]) AS fid
+     ON CONFLICT (dedup_key, fid) DO NOTHING`,
+    [
+      notification.category,
+      notification.dedupKey,
+      notification.notificationId,
+      fids,
+      notification.title,
+      notification.body,
+      notification.targetUrl
+    ]
+  );
+}
+
+/**
+ * Run an event's rule: drop opt-outs and FIDs already sent to, then send in batches and log each FID
+ * the notification was delivered to
+ * @param dryRun - Work out recipients and copy without sending or logging anything
+ */
+export async function dispatchNotificationEvent(
+  event: NotificationEvent,
+  options: { dryRun?: boolean } = {}
+): Promise<NotificationDispatch[]> {
+  const dryRun = options.dryRun === true;
+  const dispatches: NotificationDispatch[] = [];
+
+  for (const notification of await planNotifications(event)) {
+    const filtered = filterRecipients(
+      notification.fids,
+      await getOptedOutFids(notification.category, notification.fids),
+      await getSentFids(notification.dedupKey)
+    );
+    const dispatch: NotificationDispatch = { ...notification, ...filtered, sent: 0, dryRun };
+
+    if (!dryRun) {
+      // Never call sendNotification with no FIDs - an empty list is a broadcast
+      for (let i = 0; i < filtered.recipients.length; i += NOTIFICATION_BATCH_SIZE) {
+        const batch = filtered.recipients.slice(i, i + NOTIFICATION_BATCH_SIZE);
+        const result = await sendNotification(batch, notification.title, notification.body, notification.targetUrl, notification.notificationId);
+        // Only FIDs the notification reached are logged; the rest are tried again on the next dispatch
+        const delivered = deliveredRecipients(batch, result.deliveredFids);
+        await recordSends(notification, delivered);
+        dispatch.sent += delivered.length;
+      }
+    }
+
+    dispatches.push(dispatch);
+  }
+
+  return dispatches;
+}
+
+/**
+ * Queue an event for the notifications.dispatch job
+ */
+export async function enqueueNotificationEvent(event: NotificationEvent): Promise<Job> {
+  return enqueueJob(
+    'notifications.dispatch',
+    { event },
+    { dedupeKey: `notifications.dispatch:${eventKey(event)}`, maxAttempts: 5 }
+  );
+}
+
+/**
+ * Time-based events due now: contests that opened in the last day, contests within a day of
+ * closing, and live rankings of every open contest (replays open when they are created)
+ */
+export async function findScheduledNotificationEvents(): Promise<NotificationEvent[]> {
+  const result = await query(
+    `SELECT id,
+            CASE WHEN mode = 'replay' THEN created_at ELSE start_date END AS opens_at,
+            COALESCE(registration_ends_at, end_date) AS closes_at
+     FROM weekly_contests
+     WHERE status = 'active' AND finalized_at IS NULL
+       AND CASE WHEN mode = 'replay' THEN created_at ELSE start_date END <= NOW()
+       AND COALESCE(registration_ends_at, end_date) > NOW()
+     ORDER BY id`
+  );
+
+  const now = Date.now();
+  const events: NotificationEvent[] = [];
+  for (const row of result.rows) {
+    const contestId = Number(row.id);
+    if (now - new Date(row.opens_at).getTime() < OPEN_WINDOW_HOURS * 60 * 60 * 1000) {
+      events.push({ type: 'contest.opened', contestId });
+    }
+    if (new Date(row.closes_at).getTime() - now <= CLOSING_WINDOW_HOURS * 60 * 60 * 1000) {
+      events.push({ type: 'contest.closing', contestId });
+    }
+    events.push({ type: 'contest.ranked', contestId });
+  }
+  return events;
+}
+
+/**
+ * Queue a dispatch for every time-based event due now
+ * Returns the number of events queued
+ */
+export async function scheduleNotificationEvents(): Promise<number> {
+  const events = await findScheduledNotificationEvents();
+  for (const event of events) {
+    await enqueueNotificationEvent(event);
+  }
+  return events.length;
+}
+
+/**
+ * Dry run of every time-based event due now, for the admin preview
+ */
+export async function previewScheduledNotifications(): Promise<NotificationDispatch[]> {
+  const dispatches: NotificationDispatch[] = [];
+  for (const event of await findScheduledNotificationEvents()) {
+    dispatches.push(...await dispatchNotificationEvent(event, { dryRun: true }));
+  }
+  return dispatches;
+}
+
+/**
+ * Latest notifications sent by the rules, one row per dedup key
+ */
+export async function getRecentNotificationSends(limit: number = 50): Promise<Array<{
+  category: NotificationCategory;
+  dedupKey: string;
+  notificationId: string;
+  title: string;
+  body: string;
+  recipients: number;
+  lastSentAt: string;
+}>> {
+  const result = await query(
+    `SELECT category, dedup_key, notification_id, MAX(title) AS title, MAX(body) AS body,
+            COUNT(*) AS recipients, MAX(created_at) AS last_sent_at
+     FROM notification_sends
+     GROUP BY category, dedup_key, notification_id
+     ORDER BY MAX(created_at) DESC
+     LIMIT $1`,
+    [limit]
+  );
+  return result.rows.map((row: any) => ({
+    category: row.category,
+    dedupKey: row.dedup_key,
+    notificationId: row.notification_id,
+    title: row.title,
+    body: row.body,
+    recipients: Number(row.recipients),
+    lastSentAt: row.last_sent_at
+  }));
+}
+
+/**
+ * A user's per-category settings (every category is on unless turned off)
+ */
+export async function getNotificationPreferences(fid: number): Promise<Record<NotificationCategory, boolean>> {
+  const result = await query('SELECT category, enabled FROM notification_preferences WHERE fid = $1', [fid]);
+  const preferences = Object.fromEntries(NOTIFICATION_CATEGORIES.map(category => [category, true])) as Record<NotificationCategory, boolean>;
+  for (const row of result.rows as Array<{ category: string; enabled: boolean }>) {
+    if (isNotificationCategory(row.category)) {
+      preferences[row.category] = row.enabled;
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Turn a category on or off for a user
+ */
+export async function setNotificationPreference(
+  fid: number,
+  category: string,
+  enabled: boolean
+): Promise<Record<NotificationCategory, boolean>> {
+  if (!isNotificationCategory(category)) {
+    throw new NotificationRuleError(`Unknown notification category: ${category}`);
+  }
+
+  await query(
+    `INSERT INTO notification_preferences (fid, category, enabled)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (fid, category) DO UPDATE SET enabled = EXCLUDED.enabled, updated_at = NOW()`,
+    [fid, category, enabled]
+  );
+  return getNotificationPreferences(fid);
+}
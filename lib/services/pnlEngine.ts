@@ -0,0 +1,287 @@
+// lib/services/pnlEngine.ts
+// Pure, deterministic PnL engine shared by the main indexer, contest indexing and scripts
+// No DB or network access - callers load trades/prices and persist the results
+
+import { ethers } from 'ethers';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average'];
+
+/**
+ * A trade normalized to the tracked token's perspective
+ * tokenAmount is in raw base units (apply decimals only for USD math)
+ */
+export interface NormalizedTrade {
+  side: 'BUY' | 'SELL';
+  tokenAmount: bigint;
+  usdValue: number; // Cost for a BUY, proceeds for a SELL
+  feeUsd?: number; // Gas and protocol fees paid for the trade
+  timestamp?: Date;
+  txHash?: string;
+}
+
+export interface PnLOptions {
+  decimals: number;
+  method?: CostBasisMethod;
+  currentPriceUsd?: number | null; // Needed for unrealized PnL
+}
+
+export interface PnLResult {
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  feesUsd: number;
+  totalPnlUsd: number; // realized + unrealized
+  netPnlUsd: number; // total minus fees
+  remainingAmount: bigint;
+  costBasisUsd: number; // Cost basis of remainingAmount
+  tradesProcessed: number;
+  skippedSells: number; // Sells with no open position (e.g. tokens acquired outside the window)
+}
+
+/**
+ * Minimal lot shape needed to plan a sell
+ */
+export interface OpenLot {
+  id: number;
+  acquiredAt: Date;
+  remainingAmount: bigint;
+  costBasisUsd: number;
+}
+
+export interface LotConsumption {
+  lotId: number;
+  amount: bigint;
+  costBasisUsd: number;
+}
+
+export interface SellAllocation extends LotConsumption {
+  proceedsUsd: number;
+  realizedPnlUsd: number;
+}
+
+// Fixed-point scale for bigint ratios converted to floats
+const RATIO_SCALE = BigInt(1_000_000_000_000);
+
+/**
+ * numerator / denominator as a float without converting either bigint to a float first
+ */
+export function bigintRatio(numerator: bigint, denominator: bigint): number {
+  if (denominator === BigInt(0)) return 0;
+  return Number((numerator * RATIO_SCALE) / denominator) / Number(RATIO_SCALE);
+}
+
+/**
+ * Parse a NUMERIC(78,0) value from Postgres (string/number/bigint) into a bigint
+ * Any fractional part is truncated
+ */
+export function parseTokenAmount(value: string | number | bigint | null | undefined): bigint {
+  if (value === null || value === undefined || value === '') return BigInt(0);
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? BigInt(Math.trunc(value)) : BigInt(0);
+  }
+  const [whole] = value.trim().split('.');
+  try {
+    return BigInt(whole || '0');
+  } catch {
+    return BigInt(0);
+  }
+}
+
+/**
+ * Convert a raw token amount into whole tokens
+ */
+export function toTokenUnits(amount: bigint, decimals: number): number {
+  return Number(ethers.formatUnits(amount, decimals));
+}
+
+/**
+ * USD value of a raw token amount at a per-token price
+ */
+export function tokenAmountToUsd(amount: bigint, decimals: number, priceUsd: number): number {
+  if (!Number.isFinite(priceUsd) || priceUsd === 0) return 0;
+  return toTokenUnits(amount, decimals) * priceUsd;
+}
+
+/**
+ * USD cost of a transaction's gas: gasUsed x effectiveGasPrice, priced in ETH (0 without a price)
+ */
+export function gasFeeUsd(gasUsed: bigint, effectiveGasPrice: bigint, ethPriceUsd: number | null): number {
+  return ethPriceUsd ? tokenAmountToUsd(gasUsed * effectiveGasPrice, 18, ethPriceUsd) : 0;
+}
+
+/**
+ * Decide which lots a sell of `amount` consumes
+ * - fifo: oldest lots first
+ * - lifo: newest lots first
+ * - average: every open lot is reduced pro-rata, so the cost per token stays the pooled average
+ * Never consumes more than the open lots hold - callers cap the sell amount
+ */
+export function planLotConsumption(
+  lots: OpenLot[],
+  amount: bigint,
+  method: CostBasisMethod
+): LotConsumption[] {
+  const openLots = lots.filter(lot => lot.remainingAmount > BigInt(0));
+  if (amount <= BigInt(0) || openLots.length === 0) {
+    return [];
+  }
+
+  const byAge = [...openLots].sort((a, b) => {
+    const diff = a.acquiredAt.getTime() - b.acquiredAt.getTime();
+    return diff !== 0 ? diff : a.id - b.id;
+  });
+
+  if (method === 'average') {
+    const totalRemaining = byAge.reduce((sum, lot) => sum + lot.remainingAmount, BigInt(0));
+    const toConsume = amount > totalRemaining ? totalRemaining : amount;
+
+    // Floor each share, then hand out the rounding dust oldest-first so the total is exact
+    const shares = byAge.map(lot => (lot.remainingAmount * toConsume) / totalRemaining);
+    let dust = toConsume - shares.reduce((sum, share) => sum + share, BigInt(0));
+    for (let i = 0; i < byAge.length && dust > BigInt(0); i++) {
+      const room = byAge[i].remainingAmount - shares[i];
+      const extra = room < dust ? room : dust;
+      shares[i] += extra;
+      dust -= extra;
+    }
+
+    return byAge
+      .map((lot, i) => ({
+        lotId: lot.id,
+        amount: shares[i],
+        costBasisUsd: lot.costBasisUsd * bigintRatio(shares[i], lot.remainingAmount)
+      }))
+      .filter(consumption => consumption.amount > BigInt(0));
+  }
+
+  const ordered = method === 'lifo' ? byAge.reverse() : byAge;
+  const consumptions: LotConsumption[] = [];
+  let left = amount;
+
+  for (const lot of ordered) {
+    if (left <= BigInt(0)) break;
+    const take = lot.remainingAmount < left ? lot.remainingAmount : left;
+    consumptions.push({
+      lotId: lot.id,
+      amount: take,
+      costBasisUsd: take === lot.remainingAmount
+        ? lot.costBasisUsd
+        : lot.costBasisUsd * bigintRatio(take, lot.remainingAmount)
+    });
+    left -= take;
+  }
+
+  return consumptions;
+}
+
+function totalAmountOf(items: { amount: bigint }[]): bigint {
+  return items.reduce((sum, item) => sum + item.amount, BigInt(0));
+}
+
+/**
+ * Plan a sell and split its proceeds across the consumed lots by amount
+ * The sell amount is capped at what the lots hold; proceeds are scaled down to match
+ */
+export function allocateSell(
+  lots: OpenLot[],
+  amount: bigint,
+  proceedsUsd: number,
+  method: CostBasisMethod
+): SellAllocation[] {
+  const consumptions = planLotConsumption(lots, amount, method);
+  if (amount <= BigInt(0)) return [];
+
+  const planned = totalAmountOf(consumptions);
+  let allocatedProceeds = 0;
+
+  return consumptions.map((consumption, i) => {
+    // Last lot takes the remainder so the split always sums to the full proceeds
+    const lotProceeds = i === consumptions.length - 1
+      ? proceedsUsd * bigintRatio(planned, amount) - allocatedProceeds
+      : proceedsUsd * bigintRatio(consumption.amount, amount);
+    allocatedProceeds += lotProceeds;
+    return {
+      ...consumption,
+      proceedsUsd: lotProceeds,
+      realizedPnlUsd: lotProceeds - consumption.costBasisUsd
+    };
+  });
+}
+
+/**
+ * Compute realized, unrealized and fee-adjusted PnL for an ordered list of trades
+ * Trades must already be ordered by execution (block, then log/leg index)
+ */
+export function computePnL(trades: NormalizedTrade[], options: PnLOptions): PnLResult {
+  const method = options.method ?? 'fifo';
+  const lots: OpenLot[] = [];
+  let realizedPnlUsd = 0;
+  let feesUsd = 0;
+  let skippedSells = 0;
+  let tradesProcessed = 0;
+
+  trades.forEach((trade, index) => {
+    feesUsd += trade.feeUsd && Number.isFinite(trade.feeUsd) ? trade.feeUsd : 0;
+
+    if (trade.tokenAmount <= BigInt(0)) {
+      return;
+    }
+
+    const usdValue = Number.isFinite(trade.usdValue) ? trade.usdValue : 0;
+
+    if (trade.side === 'BUY') {
+      lots.push({
+        id: index,
+        // Use the trade's position as its age so ordering never depends on clock ties
+        acquiredAt: new Date(index),
+        remainingAmount: trade.tokenAmount,
+        costBasisUsd: usdValue
+      });
+      tradesProcessed++;
+      return;
+    }
+
+    const held = lots.reduce((sum, lot) => sum + lot.remainingAmount, BigInt(0));
+    if (held === BigInt(0)) {
+      skippedSells++;
+      return;
+    }
+
+    // Only the part of the sell covered by open lots is realized
+    const covered = trade.tokenAmount > held ? held : trade.tokenAmount;
+    const coveredProceeds = usdValue * bigintRatio(covered, trade.tokenAmount);
+
+    for (const allocation of allocateSell(lots, covered, coveredProceeds, method)) {
+      const lot = lots.find(l => l.id === allocation.lotId)!;
+      const remaining = lot.remainingAmount - allocation.amount;
+      lot.costBasisUsd = remaining === BigInt(0) ? 0 : Math.max(0, lot.costBasisUsd - allocation.costBasisUsd);
+      lot.remainingAmount = remaining;
+      realizedPnlUsd += allocation.realizedPnlUsd;
+    }
+    tradesProcessed++;
+  });
+
+  const remainingAmount = lots.reduce((sum, lot) => sum + lot.remainingAmount, BigInt(0));
+  const costBasisUsd = lots.reduce((sum, lot) => sum + lot.costBasisUsd, 0);
+
+  let unrealizedPnlUsd = 0;
+  if (remainingAmount > BigInt(0) && options.currentPriceUsd && options.currentPriceUsd > 0) {
+    unrealizedPnlUsd = tokenAmountToUsd(remainingAmount, options.decimals, options.currentPriceUsd) - costBasisUsd;
+  }
+
+  const totalPnlUsd = realizedPnlUsd + unrealizedPnlUsd;
+
+  return {
+    realizedPnlUsd,
+    unrealizedPnlUsd,
+    feesUsd,
+    totalPnlUsd,
+    netPnlUsd: totalPnlUsd - feesUsd,
+    remainingAmount,
+    costBasisUsd,
+    tradesProcessed,
+    skippedSells
+  };
+}
@@ -4,10 +4,15 @@
  * Reads Uniswap v3 pool state (ticks, sqrtPrice) to calculate accurate prices.
  * Uses pool state instead of swap-derived prices for more accuracy.
  *
- * Note: For production, consider using the univ3prices library or similar.
+ * Pool discovery covers Uniswap V3 (CREATE2 per fee tier), Uniswap V4 (PoolManager pool IDs)
+ * and Aerodrome pairs. Discovered pools are persisted in token_pools and the deepest one
+ * is used for on-chain pricing.
  */
 
 import { ethers } from 'ethers';
+import { query } from '@/lib/db/connection';
+import { WETH_ADDRESS, USDC_ADDRESS } from '@/lib/utils/constants';
+import { getEthUsdPrice } from './chainlinkOracle';
 
 const BASE_CHAIN_ID = 8453;
 const ALCHEMY_API_KEY = process.env.ALCHEMY_API_KEY;
@@ -26,6 +31,59 @@ const UNISWAP_V3_POOL_ABI = [
 
 // Uniswap V3 Factory (to find pools)
 const UNISWAP_V3_FACTORY = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD'; // Base Uniswap V3 Factory
+const UNISWAP_V3_POOL_INIT_CODE_HASH = '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54';
+const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+// Uniswap V4 - all pools live in the PoolManager, state is read through StateView
+const UNISWAP_V4_STATE_VIEW = '0xA3c0c9b65baD0b08107Aa264b0f3dB444b867A71'; // Base StateView
+const UNISWAP_V4_STATE_VIEW_ABI = [
+  'function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+  'function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)'
+];
+// Standard fee / tick spacing pairs for hookless V4 pools
+const UNISWAP_V4_FEE_TIERS: Array<{ fee: number; tickSpacing: number }> = [
+  { fee: 100, tickSpacing: 1 },
+  { fee: 500, tickSpacing: 10 },
+  { fee: 3000, tickSpacing: 60 },
+  { fee: 10000, tickSpacing: 200 }
+];
+
+// Aerodrome (Solidly-style) pairs
+const AERODROME_POOL_FACTORY = '0x420DD381b31aEf6683db6B902084cB0FFECe40Da'; // Base Aerodrome PoolFactory
+const AERODROME_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, bool stable) view returns (address)'
+];
+const AERODROME_POOL_ABI = [
+  'function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)',
+  'function getAmountOut(uint256 amountIn, address tokenIn) view returns (uint256)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)'
+];
+
+const UNISWAP_V3_LIQUIDITY_ABI = ['function liquidity() view returns (uint128)'];
+const ERC20_DECIMALS_ABI = ['function decimals() view returns (uint8)'];
+
+const NATIVE_ETH_ADDRESS = ethers.ZeroAddress;
+const Q96 = BigInt(2) ** BigInt(96);
+
+// Tokens a tracked token is paired against for pricing (V4 pairs against native ETH)
+const QUOTE_TOKENS = [WETH_ADDRESS.toLowerCase(), USDC_ADDRESS.toLowerCase()];
+
+export type PoolProtocol = 'uniswap_v3' | 'uniswap_v4' | 'aerodrome';
+
+export interface DiscoveredPool {
+  poolAddress: string; // Pool contract address, or the V4 pool id
+  protocol: PoolProtocol;
+  tokenAddress: string;
+  quoteToken: string;
+  token0: string;
+  token1: string;
+  fee: number | null;
+  tickSpacing: number | null;
+  stable: boolean | null;
+  liquidity: bigint; // Active liquidity (V3/V4) or quote reserve (Aerodrome)
+  liquidityUsd: number; // Quote-side depth x 2, used to rank pools
+}
 
 /**
  * Calculate price from sqrtPriceX96
@@ -62,11 +120,13 @@ export async function getPoolPrice(
   }
 
   try {
-    // If pool address not provided, we'd need to compute it from factory
-    // For now, assume pool address is provided or we find it another way
+    // If pool address not provided, derive it from the factory (deepest fee tier)
     if (!poolAddress) {
-      // TODO: Compute pool address from factory using CREATE2
-      return null;
+      const discovered = await findPoolAddress(token0Address, token1Address);
+      if (!discovered) {
+        return null;
+      }
+      poolAddress = discovered;
     }
 
     const pool = new ethers.Contract(
@@ -128,17 +188,432 @@ export async function getPoolPrice(
   }
 }
 
+/**
+ * Get a token's price in terms of the pool's other token at a specific block
+ * Reads slot0 with a historical blockTag (requires an archive-capable RPC)
+ * Returns the quote token so callers can convert it to USD
+ */
+export async function getPoolPriceAtBlock(
+  poolAddress: string,
+  tokenAddress: string,
+  blockNumber: number
+): Promise<{ price: number; quoteToken: string } | null> {
+  if (!provider) {
+    return null;
+  }
+
+  try {
+    const pool = new ethers.Contract(poolAddress, UNISWAP_V3_POOL_ABI, provider);
+    const overrides = { blockTag: blockNumber };
+
+    const [slot0, token0, token1] = await Promise.all([
+      pool.slot0(overrides),
+      pool.token0(),
+      pool.token1()
+    ]);
+
+    const decimalsAbi = ['function decimals() view returns (uint8)'];
+    const [token0Decimals, token1Decimals] = await Promise.all([
+      new ethers.Contract(token0, decimalsAbi, provider).decimals(),
+      new ethers.Contract(token1, decimalsAbi, provider).decimals()
+    ]);
+
+    // Price of token0 denominated in token1
+    const price = calculatePriceFromSqrtPrice(
+      BigInt(slot0.sqrtPriceX96),
+      Number(token0Decimals),
+      Number(token1Decimals)
+    );
+
+    if (price <= 0 || !isFinite(price)) {
+      return null;
+    }
+
+    const isToken0 = tokenAddress.toLowerCase() === token0.toLowerCase();
+    return {
+      price: isToken0 ? price : 1 / price,
+      quoteToken: (isToken0 ? token1 : token0).toLowerCase()
+    };
+  } catch (error) {
+    console.warn(`Could not get pool price for ${tokenAddress} in ${poolAddress} at block ${blockNumber}:`, error);
+    return null;
+  }
+}
+
 /**
  * Find Uniswap V3 pool address for a token pair
- * This is a simplified version - in production, use the factory's getPool function
+ * Derives the address from the factory with CREATE2 and checks the pool is deployed
+ * Without a fee tier, returns the deployed pool with the most active liquidity
  */
 export async function findPoolAddress(
   token0: string,
   token1: string,
-  fee: number = 3000 // Default fee tier (0.3%)
+  fee?: number
 ): Promise<string | null> {
-  // TODO: Implement pool address lookup using Uniswap V3 Factory
-  // This requires computing the CREATE2 address or calling the factory
-  return null;
+  if (!provider) {
+    return null;
+  }
+
+  const feeTiers = fee !== undefined ? [fee] : UNISWAP_V3_FEE_TIERS;
+  let best: { address: string; liquidity: bigint } | null = null;
+
+  for (const tier of feeTiers) {
+    const address = computeV3PoolAddress(token0, token1, tier);
+    try {
+      const code = await provider.getCode(address);
+      if (code === '0x') continue;
+
+      const pool = new ethers.Contract(address, UNISWAP_V3_LIQUIDITY_ABI, provider);
+      const liquidity = BigInt(await pool.liquidity());
+      if (!best || liquidity > best.liquidity) {
+        best = { address, liquidity };
+      }
+    } catch (error) {
+      console.warn(`Could not check V3 pool ${address} (fee ${tier}):`, error);
+    }
+  }
+
+  return best?.address ?? null;
+}
+
+function sortTokens(tokenA: string, tokenB: string): [string, string] {
+  const a = tokenA.toLowerCase();
+  const b = tokenB.toLowerCase();
+  return BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+}
+
+/**
+ * Uniswap V3 pool address: CREATE2(factory, keccak256(abi.encode(token0, token1, fee)), initCodeHash)
+ */
+export function computeV3PoolAddress(tokenA: string, tokenB: string, fee: number): string {
+  const [token0, token1] = sortTokens(tokenA, tokenB);
+  const salt = ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(['address', 'address', 'uint24'], [token0, token1, fee])
+  );
+  return ethers.getCreate2Address(UNISWAP_V3_FACTORY, salt, UNISWAP_V3_POOL_INIT_CODE_HASH).toLowerCase();
 }
 
+/**
+ * Uniswap V4 pool id: keccak256(abi.encode(PoolKey)) for a hookless pool
+ */
+export function computeV4PoolId(
+  currencyA: string,
+  currencyB: string,
+  fee: number,
+  tickSpacing: number,
+  hooks: string = ethers.ZeroAddress
+): string {
+  const [currency0, currency1] = sortTokens(currencyA, currencyB);
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'address', 'uint24', 'int24', 'address'],
+      [currency0, currency1, fee, tickSpacing, hooks]
+    )
+  );
+}
+
+/**
+ * Virtual quote-token reserve of a concentrated liquidity pool at its current price
+ * token0 reserve = L / sqrtP, token1 reserve = L * sqrtP
+ */
+function concentratedQuoteReserve(liquidity: bigint, sqrtPriceX96: bigint, quoteIsToken0: boolean): bigint {
+  if (sqrtPriceX96 === BigInt(0)) return BigInt(0);
+  return quoteIsToken0
+    ? (liquidity * Q96) / sqrtPriceX96
+    : (liquidity * sqrtPriceX96) / Q96;
+}
+
+async function getTokenDecimals(address: string): Promise<number> {
+  if (address === NATIVE_ETH_ADDRESS) return 18;
+  const contract = new ethers.Contract(address, ERC20_DECIMALS_ABI, provider);
+  return Number(await contract.decimals());
+}
+
+async function getQuoteTokenUsdPrice(quoteToken: string): Promise<number> {
+  if (quoteToken === USDC_ADDRESS.toLowerCase()) return 1;
+  return (await getEthUsdPrice()) ?? 0;
+}
+
+/**
+ * Discover every pool pairing a token with WETH/ETH or USDC across Uniswap V3, Uniswap V4 and Aerodrome
+ * Pools with no liquidity are skipped; results are sorted deepest first
+ */
+export async function discoverPools(tokenAddress: string): Promise<DiscoveredPool[]> {
+  if (!provider) {
+    return [];
+  }
+
+  const tokenAddr = tokenAddress.toLowerCase();
+  const pools: DiscoveredPool[] = [];
+
+  for (const quoteToken of QUOTE_TOKENS) {
+    if (quoteToken === tokenAddr) continue;
+
+    const [quoteDecimals, quoteUsd] = await Promise.all([
+      getTokenDecimals(quoteToken),
+      getQuoteTokenUsdPrice(quoteToken)
+    ]);
+    const depthUsd = (reserve: bigint) => Number(ethers.formatUnits(reserve, quoteDecimals)) * quoteUsd * 2;
+
+    // Uniswap V3 - one pool per fee tier
+    for (const fee of UNISWAP_V3_FEE_TIERS) {
+      const poolAddress = computeV3PoolAddress(tokenAddr, quoteToken, fee);
+      try {
+        if ((await provider.getCode(poolAddress)) === '0x') continue;
+
+        const pool = new ethers.Contract(poolAddress, [...UNISWAP_V3_POOL_ABI, ...UNISWAP_V3_LIQUIDITY_ABI], provider);
+        const [slot0, liquidity] = await Promise.all([pool.slot0(), pool.liquidity()]);
+        if (BigInt(liquidity) === BigInt(0)) continue;
+
+        const [token0, token1] = sortTokens(tokenAddr, quoteToken);
+        const reserve = concentratedQuoteReserve(BigInt(liquidity), BigInt(slot0.sqrtPriceX96), quoteToken === token0);
+
+        pools.push({
+          poolAddress,
+          protocol: 'uniswap_v3',
+          tokenAddress: tokenAddr,
+          quoteToken,
+          token0,
+          token1,
+          fee,
+          tickSpacing: null,
+          stable: null,
+          liquidity: BigInt(liquidity),
+          liquidityUsd: depthUsd(reserve)
+        });
+      } catch (error) {
+        console.warn(`Could not read V3 pool ${poolAddress}:`, error);
+      }
+    }
+
+    // Uniswap V4 - pools keyed by id, ETH pairs use native ETH as currency
+    const v4Quote = quoteToken === WETH_ADDRESS.toLowerCase() ? NATIVE_ETH_ADDRESS : quoteToken;
+    const stateView = new ethers.Contract(UNISWAP_V4_STATE_VIEW, UNISWAP_V4_STATE_VIEW_ABI, provider);
+    for (const { fee, tickSpacing } of UNISWAP_V4_FEE_TIERS) {
+      const poolId = computeV4PoolId(tokenAddr, v4Quote, fee, tickSpacing);
+      try {
+        const [slot0, liquidity] = await Promise.all([stateView.getSlot0(poolId), stateView.getLiquidity(poolId)]);
+        if (BigInt(slot0.sqrtPriceX96) === BigInt(0) || BigInt(liquidity) === BigInt(0)) continue;
+
+        const [token0, token1] = sortTokens(tokenAddr, v4Quote);
+        const reserve = concentratedQuoteReserve(BigInt(liquidity), BigInt(slot0.sqrtPriceX96), v4Quote === token0);
+
+        pools.push({
+          poolAddress: poolId,
+          protocol: 'uniswap_v4',
+          tokenAddress: tokenAddr,
+          quoteToken: v4Quote,
+          token0,
+          token1,
+          fee,
+          tickSpacing,
+          stable: null,
+          liquidity: BigInt(liquidity),
+          liquidityUsd: depthUsd(reserve)
+        });
+      } catch (error) {
+        console.warn(`Could not read V4 pool ${poolId}:`, error);
+      }
+    }
+
+    // Aerodrome - volatile and stable pairs
+    const aerodromeFactory = new ethers.Contract(AERODROME_POOL_FACTORY, AERODROME_FACTORY_ABI, provider);
+    for (const stable of [false, true]) {
+      try {
+        const poolAddress = (await aerodromeFactory.getPool(tokenAddr, quoteToken, stable)).toLowerCase();
+        if (poolAddress === NATIVE_ETH_ADDRESS) continue;
+
+        const pool = new ethers.Contract(poolAddress, AERODROME_POOL_ABI, provider);
+        const [reserves, token0, token1] = await Promise.all([pool.getReserves(), pool.token0(), pool.token1()]);
+        const quoteIsToken0 = token0.toLowerCase() === quoteToken;
+        const reserve = BigInt(quoteIsToken0 ? reserves.reserve0 : reserves.reserve1);
+        if (reserve === BigInt(0)) continue;
+
+        pools.push({
+          poolAddress,
+          protocol: 'aerodrome',
+          tokenAddress: tokenAddr,
+          quoteToken,
+          token0: token0.toLowerCase(),
+          token1: token1.toLowerCase(),
+          fee: null,
+          tickSpacing: null,
+          stable,
+          liquidity: reserve,
+          liquidityUsd: depthUsd(reserve)
+        });
+      } catch (error) {
+        console.warn(`Could not read Aerodrome ${stable ? 'stable' : 'volatile'} pool for ${tokenAddr}:`, error);
+      }
+    }
+  }
+
+  return pools.sort((a, b) => b.liquidityUsd - a.liquidityUsd);
+}
+
+/**
+ * Discover pools for a tracked token and persist them, marking the deepest as primary
+ */
+export async function refreshTokenPools(tokenAddress: string): Promise<DiscoveredPool[]> {
+  const tokenAddr = tokenAddress.toLowerCase();
+  const pools = await discoverPools(tokenAddr);
+  if (pools.length === 0) {
+    // Nothing found (or every read failed): keep the stored pools and primary as they are
+    return pools;
+  }
+
+  for (const pool of pools) {
+    await query(
+      `INSERT INTO token_pools (
+        token_address, pool_address, protocol, quote_token, token0, token1,
+        fee, tick_spacing, stable, liquidity, liquidity_usd, is_primary, discovered_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, false, NOW(), NOW())
+      ON CONFLICT (token_address, pool_address)
+      DO UPDATE SET
+        liquidity = EXCLUDED.liquidity,
+        liquidity_usd = EXCLUDED.liquidity_usd,
+        updated_at = NOW()`,
+      [
+        tokenAddr,
+        pool.poolAddress,
+        pool.protocol,
+        pool.quoteToken,
+        pool.token0,
+        pool.token1,
+        pool.fee,
+        pool.tickSpacing,
+        pool.stable,
+        pool.liquidity.toString(),
+        pool.liquidityUsd.toFixed(2)
+      ]
+    );
+  }
+
+  await query(
+    `UPDATE token_pools SET is_primary = (pool_address = $2), updated_at = NOW()
+     WHERE token_address = $1`,
+    [tokenAddr, pools[0].poolAddress]
+  );
+
+  return pools;
+}
+
+/**
+ * Get the persisted pools for a token, deepest first
+ */
+export async function getTokenPools(tokenAddress: string): Promise<DiscoveredPool[]> {
+  const result = await query(
+    `SELECT * FROM token_pools WHERE token_address = $1 ORDER BY is_primary DESC, liquidity_usd DESC`,
+    [tokenAddress.toLowerCase()]
+  );
+
+  return result.rows.map((row: any) => ({
+    poolAddress: row.pool_address,
+    protocol: row.protocol,
+    tokenAddress: row.token_address,
+    quoteToken: row.quote_token,
+    token0: row.token0,
+    token1: row.token1,
+    fee: row.fee,
+    tickSpacing: row.tick_spacing,
+    stable: row.stable,
+    liquidity: BigInt(row.liquidity),
+    liquidityUsd: parseFloat(row.liquidity_usd)
+  }));
+}
+
+/**
+ * Get the deepest persisted pool for a token
+ */
+export async function getPrimaryPool(tokenAddress: string): Promise<DiscoveredPool | null> {
+  try {
+    const pools = await getTokenPools(tokenAddress);
+    return pools[0] ?? null;
+  } catch (error) {
+    console.warn(`Could not load pools for ${tokenAddress}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Price a token from a discovered pool at a block (or latest)
+ * Returns the price denominated in the pool's quote token
+ */
+export async function getPriceFromPool(
+  pool: DiscoveredPool,
+  blockTag: number | 'latest' = 'latest'
+): Promise<{ price: number; quoteToken: string } | null> {
+  if (!provider) {
+    return null;
+  }
+
+  try {
+    const overrides = { blockTag };
+
+    if (pool.protocol === 'uniswap_v3') {
+      if (typeof blockTag === 'number') {
+        return getPoolPriceAtBlock(pool.poolAddress, pool.tokenAddress, blockTag);
+      }
+      const latestBlock = await provider.getBlockNumber();
+      return getPoolPriceAtBlock(pool.poolAddress, pool.tokenAddress, latestBlock);
+    }
+
+    const [tokenDecimals, quoteDecimals] = await Promise.all([
+      getTokenDecimals(pool.tokenAddress),
+      getTokenDecimals(pool.quoteToken)
+    ]);
+    const tokenIsToken0 = pool.token0 === pool.tokenAddress;
+
+    let price: number;
+    if (pool.protocol === 'uniswap_v4') {
+      const stateView = new ethers.Contract(UNISWAP_V4_STATE_VIEW, UNISWAP_V4_STATE_VIEW_ABI, provider);
+      const slot0 = await stateView.getSlot0(pool.poolAddress, overrides);
+      const token0Decimals = tokenIsToken0 ? tokenDecimals : quoteDecimals;
+      const token1Decimals = tokenIsToken0 ? quoteDecimals : tokenDecimals;
+      const token0Price = calculatePriceFromSqrtPrice(BigInt(slot0.sqrtPriceX96), token0Decimals, token1Decimals);
+      price = tokenIsToken0 ? token0Price : 1 / token0Price;
+    } else {
+      const aerodromePool = new ethers.Contract(pool.poolAddress, AERODROME_POOL_ABI, provider);
+      if (pool.stable) {
+        // Stable curve - spot price is not the reserve ratio, quote one token instead
+        const oneToken = BigInt(10) ** BigInt(tokenDecimals);
+        const out = await aerodromePool.getAmountOut(oneToken, pool.tokenAddress, overrides);
+        price = Number(ethers.formatUnits(out, quoteDecimals));
+      } else {
+        const reserves = await aerodromePool.getReserves(overrides);
+        const tokenReserve = BigInt(tokenIsToken0 ? reserves.reserve0 : reserves.reserve1);
+        const quoteReserve = BigInt(tokenIsToken0 ? reserves.reserve1 : reserves.reserve0);
+        if (tokenReserve === BigInt(0)) return null;
+        price = Number(ethers.formatUnits(quoteReserve, quoteDecimals)) /
+          Number(ethers.formatUnits(tokenReserve, tokenDecimals));
+      }
+    }
+
+    if (price <= 0 || !isFinite(price)) {
+      return null;
+    }
+
+    return { price, quoteToken: pool.quoteToken };
+  } catch (error) {
+    console.warn(`Could not price ${pool.tokenAddress} from ${pool.protocol} pool ${pool.poolAddress}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Current USD price of a token from its deepest persisted pool - no third-party API involved
+ */
+export async function getOnChainPrice(tokenAddress: string): Promise<number | null> {
+  const pool = await getPrimaryPool(tokenAddress);
+  if (!pool) {
+    return null;
+  }
+
+  const poolPrice = await getPriceFromPool(pool);
+  if (!poolPrice) {
+    return null;
+  }
+
+  const quoteUsd = await getQuoteTokenUsdPrice(poolPrice.quoteToken);
+  return quoteUsd > 0 ? poolPrice.price * quoteUsd : null;
+}
@@ -2,7 +2,9 @@
 // Calculate price from swap amounts using base token (ETH/USDC) price
 
 import { ethers } from 'ethers';
-import { getCurrentPrice } from './priceService';
+import { getCurrentPrice, getHistoricalPrice } from './priceService';
+import { getEthUsdPrice } from './chainlinkOracle';
+import { getBaseTokenPriceAtBlock } from './historicalPriceService';
 import { WETH_ADDRESS, USDC_ADDRESS } from '@/lib/utils/constants';
 
 const NATIVE_ETH_ADDRESS = '0x0000000000000000000000000000000000000000';
@@ -12,11 +14,18 @@ const baseTokenPriceCache: Record<string, { price: number; timestamp: number }>
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 /**
- * Get current USD price for base tokens (ETH, USDC)
+ * Get USD price for base tokens (ETH, USDC)
+ * With a block number, uses the price at that block; otherwise the current price
+ * Returns 0 when no price can be resolved (callers treat that as unpriced)
  */
-async function getBaseTokenPrice(tokenAddress: string): Promise<number> {
+async function getBaseTokenPrice(tokenAddress: string, blockNumber?: number): Promise<number> {
   const addrLower = tokenAddress.toLowerCase();
 
+  if (blockNumber !== undefined) {
+    const quote = await getBaseTokenPriceAtBlock(addrLower, blockNumber);
+    return quote?.priceUsd || 0;
+  }
+
   // USDC is always ~$1
   if (addrLower === USDC_ADDRESS.toLowerCase()) {
     return 1.0;
@@ -58,11 +67,20 @@ async function getBaseTokenPrice(tokenAddress: string): Promise<number> {
         }
       }
     } catch (error) {
-      console.warn('Failed to get ETH price, using fallback');
+      console.warn('Failed to get ETH price from Dexscreener, trying Chainlink');
     }
 
-    // Fallback: Use current ETH price (~$2500-3000 range)
-    return 2800;
+    // Fallback: Chainlink ETH/USD feed
+    const chainlinkPrice = await getEthUsdPrice();
+    if (chainlinkPrice) {
+      baseTokenPriceCache[cacheKey] = {
+        price: chainlinkPrice,
+        timestamp: Date.now()
+      };
+      return chainlinkPrice;
+    }
+
+    return 0;
   }
 
   // Unknown base token, try to get price
@@ -73,13 +91,15 @@ async function getBaseTokenPrice(tokenAddress: string): Promise<number> {
 /**
  * Calculate token price from swap amounts
  * This is the most accurate way - uses the actual swap ratio from the transaction
+ * @param blockNumber - Block of the swap; prices the base token at that block instead of today
  */
 export async function calculatePriceFromSwap(
   tokenAmount: bigint,
   baseTokenAmount: bigint,
   baseTokenAddress: string,
   tokenDecimals: number = 18,
-  baseTokenDecimals: number = 18
+  baseTokenDecimals: number = 18,
+  blockNumber?: number
 ): Promise<number | null> {
   try {
     // Validate inputs
@@ -117,7 +137,7 @@ export async function calculatePriceFromSwap(
     }
 
     // Get USD price of base token
-    const baseTokenPriceUsd = await getBaseTokenPrice(baseTokenAddress);
+    const baseTokenPriceUsd = await getBaseTokenPrice(baseTokenAddress, blockNumber);
 
     if (!baseTokenPriceUsd || baseTokenPriceUsd <= 0) {
       console.warn(`calculatePriceFromSwap: Invalid base token price: ${baseTokenPriceUsd} for ${baseTokenAddress}`);
@@ -141,6 +161,7 @@ export async function calculatePriceFromSwap(
 
 /**
  * Get price at timestamp - calculates from swap amounts (most accurate)
+ * @param blockNumber - Block of the swap; enables historical base token pricing and the price_snapshots cache
  */
 export async function getPriceAtTimestamp(
   tokenAddress: string,
@@ -149,7 +170,8 @@ export async function getPriceAtTimestamp(
   tokenAmount: bigint,
   timestamp: number,
   tokenDecimals: number = 18,
-  baseTokenDecimals: number = 18
+  baseTokenDecimals: number = 18,
+  blockNumber?: number
 ): Promise<number | null> {
   // Calculate from swap amounts (most accurate - uses actual swap ratio)
   const swapPrice = await calculatePriceFromSwap(
@@ -157,15 +179,14 @@ export async function getPriceAtTimestamp(
     baseTokenAmount,
     baseTokenAddress,
     tokenDecimals,
-    baseTokenDecimals
+    baseTokenDecimals,
+    blockNumber
   );
 
   if (swapPrice && swapPrice > 0) {
     return swapPrice;
   }
 
-  // Fallback: Try to get current price (approximation)
-  const currentPrice = await getCurrentPrice(tokenAddress);
-  return currentPrice;
+  // Fallback: historical price at the block (approximated by current price when unknown)
+  return getHistoricalPrice(tokenAddress, timestamp, blockNumber);
 }
-
@@ -1,6 +1,8 @@
 // lib/services/priceService.ts
 // Parallel price fetching from multiple sources with intelligent selection
 
+import { getOnChainPrice } from './poolPriceService';
+
 const DEXSCREENER_API_URL = 'https://api.dexscreener.com/latest/v2';
 const ZEROX_API_KEY = process.env.ZEROX_API_KEY;
 const ZEROX_API_URL = 'https://api.0x.org';
@@ -105,6 +107,16 @@ export async function getCurrentPrice(tokenAddress: string): Promise<number | nu
     result = dexscreenerResult.value;
   } else if (zeroxResult.status === 'fulfilled' && zeroxResult.value) {
     result = zeroxResult.value;
+  } else {
+    // Last resort: deepest discovered on-chain pool (no third-party API)
+    try {
+      const onChainPrice = await getOnChainPrice(tokenAddress);
+      if (onChainPrice) {
+        result = { price: onChainPrice, source: 'pool_state' };
+      }
+    } catch (error) {
+      // Pools not discovered yet - nothing else to try
+    }
   }
 
   if (result && result.price > 0) {
@@ -120,14 +132,16 @@ export async function getCurrentPrice(tokenAddress: string): Promise<number | nu
 }
 
 /**
- * Get historical price - use current price as approximation
- * (for true historical, would need CoinGecko Pro or similar)
+ * Get historical price at a block
+ * Resolves from pool state / Chainlink rounds at the block (cached in price_snapshots)
+ * Without a block number, or when nothing resolves, falls back to the current price as an approximation
  */
 export async function getHistoricalPrice(
   tokenAddress: string,
-  timestamp: number
+  timestamp: number,
+  blockNumber?: number
 ): Promise<number | null> {
-  const cacheKey = `${tokenAddress.toLowerCase()}-${timestamp}`;
+  const cacheKey = `${tokenAddress.toLowerCase()}-${blockNumber ?? timestamp}`;
 
   // Check cache
   const cached = priceCache[cacheKey];
@@ -135,8 +149,21 @@ export async function getHistoricalPrice(
     return cached.price;
   }
 
-  // For historical, use current price as approximation
-  // (Better than nothing, and acceptable for lightweight indexer)
+  if (blockNumber !== undefined) {
+    const { getTokenPriceAtBlock } = await import('./historicalPriceService');
+    const quote = await getTokenPriceAtBlock(tokenAddress, blockNumber, { allowCurrentFallback: true });
+    if (quote && quote.priceUsd > 0) {
+      priceCache[cacheKey] = {
+        price: quote.priceUsd,
+        timestamp: Date.now(),
+        source: quote.source
+      };
+      return quote.priceUsd;
+    }
+    return null;
+  }
+
+  // No block to price at - use current price as approximation
   const currentPrice = await getCurrentPrice(tokenAddress);
 
   if (currentPrice && currentPrice > 0) {
@@ -0,0 +1,410 @@
+// lib/services/recapService.ts
+// Weekly recap cast: a thread generated from a finalized contest's result, the loserboard week it
+// ended in and the token vote that closed during it.
+//
+// The thread (top losers with @mentions, total lost, next week's token, a link embed) is split into
+// a cast and replies that each fit the cast byte limit. Admins preview and edit it before publishing;
+// every published cast's hash is stored against the contest (contest_recap_casts) as soon as it is
+// out. Only one publish runs per contest at a time (recap_publishing_at). If publishing stops
+// part-way, publishing the same thread again continues under the last published cast.
+
+import { Configuration, NeynarAPIClient } from '@neynar/nodejs-sdk';
+import { query } from '@/lib/db/connection';
+import { formatUsd, getContestResult } from './contestResultsService';
+import { getWeekStart } from './leaderboardService';
+
+export const CAST_MAX_BYTES = 320; // Farcaster cast text limit (bytes, not characters)
+export const MAX_EMBEDS_PER_CAST = 2;
+export const MAX_THREAD_LENGTH = 10;
+export const RECAP_TOP_LOSERS = 5;
+const RECAP_CLAIM_STALE_MINUTES = 15; // A publish claim this old is from a run that died
+
+export class RecapError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RecapError';
+  }
+}
+
+export interface RecapCast {
+  text: string;
+  embeds: string[];
+}
+
+export interface RecapData {
+  contestId: number;
+  tokenSymbol: string | null;
+  tokenAddress: string;
+  participantCount: number;
+  topLosers: Array<{ rank: number; name: string; pnlUsd: number }>; // name is @username when known
+  totalLossUsd: number; // Summed losses of ranked entries (positive)
+  totalVolumeUsd: number;
+  loserboard: { entryCount: number; totalLossUsd: number } | null; // Frozen week the contest ended in
+  nextToken: { votingPeriodId: number; symbol: string | null; address: string; voteCount: number } | null;
+  link: string;
+}
+
+export interface PublishedRecapCast extends RecapCast {
+  position: number;
+  hash: string;
+  parentHash: string | null;
+  publishedByFid: number | null;
+  publishedAt: string;
+}
+
+const byteLength = (text: string) => Buffer.byteLength(text, 'utf8');
+
+/**
+ * Split text into casts of at most maxBytes (pure)
+ * Breaks between paragraphs first, then lines, then words; only a single oversized word is cut
+ */
+export function splitCastText(text: string, maxBytes: number = CAST_MAX_BYTES): string[] {
+  const separators = ['\n\n', '\n', ' '];
+
+  const cutWord = (word: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    for (const char of Array.from(word)) {
+      if (byteLength(current + char) > maxBytes) {
+        parts.push(current);
+        current = '';
+      }
+      current += char;
+    }
+    return current ? [...parts, current] : parts;
+  };
+
+  const split = (chunk: string, level: number): string[] => {
+    if (byteLength(chunk) <= maxBytes) {
+      return [chunk];
+    }
+    if (level >= separators.length) {
+      return cutWord(chunk);
+    }
+
+    const separator = separators[level];
+    const casts: string[] = [];
+    let current = '';
+    for (const piece of chunk.split(separator)) {
+      const joined = current ? `${current}${separator}${piece}` : piece;
+      if (byteLength(joined) <= maxBytes) {
+        current = joined;
+        continue;
+      }
+      if (current) {
+        casts.push(current);
+      }
+      const parts = split(piece, level + 1);
+      current = parts.pop() ?? '';
+      casts.push(...parts);
+    }
+    if (current) {
+      casts.push(current);
+    }
+    return casts;
+  };
+
+  return split(text.trim(), 0).map(cast => cast.trim()).filter(cast => cast.length > 0);
+}
+
+/**
+ * The recap thread for a contest: text split into casts, the link embedded in the first one (pure)
+ */
+export function buildRecapThread(data: RecapData, maxBytes: number = CAST_MAX_BYTES): RecapCast[] {
+  const token = data.tokenSymbol ? `$${data.tokenSymbol}` : `${data.tokenAddress.slice(0, 8)}...`;
+  const paragraphs = [`📉 ${token} contest #${data.contestId} recap`];
+
+  if (data.topLosers.length === 0) {
+    paragraphs.push('Nobody qualified this week.');
+  } else {
+    paragraphs.push([
+      'Biggest losers this week:',
+      ...data.topLosers.map(loser => `${loser.rank}. ${loser.name} ${formatUsd(loser.pnlUsd)}`)
+    ].join('\n'));
+  }
+
+  paragraphs.push(
+    `${data.participantCount} traders lost ${formatUsd(data.totalLossUsd)} on ${formatUsd(data.totalVolumeUsd)} of volume.`
+  );
+  if (data.loserboard) {
+    paragraphs.push(
+      `The loserboard: ${formatUsd(data.loserboard.totalLossUsd)} lost across ${data.loserboard.entryCount} traders.`
+    );
+  }
+
+  if (data.nextToken) {
+    const next = data.nextToken.symbol ? `$${data.nextToken.symbol}` : data.nextToken.address;
+    paragraphs.push(`You voted: next week we lose money on ${next} (${data.nextToken.voteCount} votes).`);
+  } else {
+    paragraphs.push("Next week's token is still up for a vote.");
+  }
+  paragraphs.push('Full results 👇');
+
+  return splitCastText(paragraphs.join('\n\n'), maxBytes).map((text, index) => ({
+    text,
+    embeds: index === 0 ? [data.link] : []
+  }));
+}
+
+/**
+ * Check an edited thread before publishing (pure)
+ */
+export function validateRecapThread(thread: unknown): RecapCast[] {
+  if (!Array.isArray(thread) || thread.length === 0) {
+    throw new RecapError('thread must be a non-empty array of casts');
+  }
+  if (thread.length > MAX_THREAD_LENGTH) {
+    throw new RecapError(`thread has ${thread.length} casts (max ${MAX_THREAD_LENGTH})`);
+  }
+
+  return thread.map((cast: any, index) => {
+    const text = typeof cast?.text === 'string' ? cast.text.trim() : '';
+    if (!text) {
+      throw new RecapError(`cast ${index + 1} has no text`);
+    }
+    if (byteLength(text) > CAST_MAX_BYTES) {
+      throw new RecapError(`cast ${index + 1} is ${byteLength(text)} bytes (max ${CAST_MAX_BYTES})`);
+    }
+
+    const embeds = cast.embeds ?? [];
+    if (!Array.isArray(embeds) || embeds.length > MAX_EMBEDS_PER_CAST) {
+      throw new RecapError(`cast ${index + 1} can have at most ${MAX_EMBEDS_PER_CAST} embeds`);
+    }
+    for (const embed of embeds) {
+      if (typeof embed !== 'string' || !/^https:\/\/\S+$/.test(embed)) {
+        throw new RecapError(`cast ${index + 1} embed must be an https URL`);
+      }
+    }
+
+    return { text, embeds };
+  });
+}
+
+/**
+ * Everything the recap reports for a finalized contest
+ */
+export async function getRecapData(contestId: number): Promise<RecapData> {
+  const result = await getContestResult(contestId);
+  if (!result) {
+    throw new RecapError(`Contest ${contestId} has no finalized result`, 404);
+  }
+
+  const ranked = result.entries.filter(entry => entry.rank !== null);
+  const topEntries = ranked.slice(0, RECAP_TOP_LOSERS);
+
+  const usernames: Record<number, string> = {};
+  const fids = topEntries.map(entry => entry.fid).filter((fid): fid is number => fid !== null);
+  if (fids.length > 0) {
+    const userResult = await query(
+      'SELECT fid, username FROM users WHERE fid = ANY($1) AND username IS NOT NULL',
+      [fids]
+    );
+    for (const row of userResult.rows) {
+      usernames[Number(row.fid)] = row.username;
+    }
+  }
+
+  // The loserboard week the contest ended in (end_date is exclusive)
+  const snapshotResult = await query(
+    'SELECT entry_count, total_loss_usd FROM loserboard_snapshots WHERE week_start = $1',
+    [getWeekStart(new Date(new Date(result.endDate).getTime() - 1))]
+  );
+
+  // The first vote to close after this contest started picked next week's token (votes counted from user_votes)
+  const voteResult = await query(
+    `SELECT vp.id, vo.token_symbol, vo.token_address, COUNT(uv.id) AS vote_count
+     FROM voting_periods vp
+     JOIN voting_options vo ON vo.id = vp.winning_option_id
+     LEFT JOIN user_votes uv ON uv.option_id = vo.id
+     WHERE vp.closed_at > $1
+     GROUP BY vp.id, vo.id
+     ORDER BY vp.closed_at ASC
+     LIMIT 1`,
+    [result.startDate]
+  );
+
+  const snapshot = snapshotResult.rows[0];
+  const vote = voteResult.rows[0];
+  return {
+    contestId,
+    tokenSymbol: result.tokenSymbol,
+    tokenAddress: result.tokenAddress,
+    participantCount: result.participantCount,
+    topLosers: topEntries.map(entry => ({
+      rank: entry.rank as number,
+      name: entry.fid !== null && usernames[entry.fid]
+        ? `@${usernames[entry.fid]}`
+        : `${entry.walletAddress.slice(0, 6)}...${entry.walletAddress.slice(-4)}`,
+      pnlUsd: entry.pnlUsd
+    })),
+    totalLossUsd: ranked.reduce((sum, entry) => sum + Math.max(-entry.pnlUsd, 0), 0),
+    totalVolumeUsd: ranked.reduce((sum, entry) => sum + entry.volumeUsd, 0),
+    loserboard: snapshot
+      ? { entryCount: snapshot.entry_count, totalLossUsd: parseFloat(snapshot.total_loss_usd) }
+      : null,
+    nextToken: vote
+      ? { votingPeriodId: vote.id, symbol: vote.token_symbol, address: vote.token_address, voteCount: parseInt(vote.vote_count, 10) }
+      : null,
+    link: `${process.env.NEXT_PUBLIC_APP_URL || 'https://badtraders.xyz'}/contests`
+  };
+}
+
+/**
+ * First position where a resumed thread differs from the casts already published, or null (pure)
+ * A resume must repeat the published casts unchanged; only the rest of the thread is new.
+ */
+export function findResumeMismatch(published: RecapCast[], thread: RecapCast[]): number | null {
+  for (let position = 0; position < published.length; position++) {
+    const cast = thread[position];
+    const sameEmbeds = cast !== undefined
+      && cast.embeds.length === published[position].embeds.length
+      && cast.embeds.every((url, index) => url === published[position].embeds[index]);
+    if (!cast || cast.text !== published[position].text || !sameEmbeds) {
+      return position;
+    }
+  }
+  return null;
+}
+
+/**
+ * Casts already published for a contest's recap, in thread order
+ */
+export async function getPublishedRecap(contestId: number): Promise<PublishedRecapCast[]> {
+  const result = await query(
+    'SELECT * FROM contest_recap_casts WHERE contest_id = $1 ORDER BY position',
+    [contestId]
+  );
+  return result.rows.map(row => ({
+    position: row.position,
+    hash: row.hash,
+    parentHash: row.parent_hash,
+    text: row.text,
+    embeds: row.embeds,
+    publishedByFid: row.published_by_fid,
+    publishedAt: row.published_at
+  }));
+}
+
+/**
+ * Recap preview: the generated thread, what it was built from and anything already published
+ */
+export async function previewRecap(contestId: number): Promise<{
+  data: RecapData;
+  thread: RecapCast[];
+  published: PublishedRecapCast[];
+  publishedAt: string | null;
+}> {
+  const data = await getRecapData(contestId);
+  const contest = await query('SELECT recap_published_at FROM weekly_contests WHERE id = $1', [contestId]);
+  return {
+    data,
+    thread: buildRecapThread(data),
+    published: await getPublishedRecap(contestId),
+    publishedAt: contest.rows[0]?.recap_published_at ?? null
+  };
+}
+
+/**
+ * Publish an (edited) recap thread: the first cast, then each next one as a reply to the previous
+ * The contest is claimed first, so only one publish runs at a time. Casts already published are
+ * skipped, so a thread that failed part-way resumes - as long as it repeats them unchanged.
+ */
+export async function publishRecap(
+  contestId: number,
+  thread: unknown,
+  publishedByFid: number | null
+): Promise<PublishedRecapCast[]> {
+  const casts = validateRecapThread(thread);
+
+  if (!process.env.NEYNAR_API_KEY || !process.env.NEYNAR_SIGNER_UUID) {
+    throw new RecapError('NEYNAR_API_KEY and NEYNAR_SIGNER_UUID are required to publish casts', 500);
+  }
+
+  const claim = await query(
+    `UPDATE weekly_contests SET recap_publishing_at = NOW()
+     WHERE id = $1
+       AND recap_published_at IS NULL
+       AND (recap_publishing_at IS NULL OR recap_publishing_at < NOW() - make_interval(mins => $2))
+     RETURNING id`,
+    [contestId, RECAP_CLAIM_STALE_MINUTES]
+  );
+  if (claim.rows.length === 0) {
+    const contest = await query('SELECT recap_published_at FROM weekly_contests WHERE id = $1', [contestId]);
+    if (contest.rows.length === 0) {
+      throw new RecapError(`Contest ${contestId} not found`, 404);
+    }
+    if (contest.rows[0].recap_published_at) {
+      throw new RecapError(`Contest ${contestId} recap was already published`, 409);
+    }
+    throw new RecapError(`Contest ${contestId} recap is being published`, 409);
+  }
+
+  // Left claimed when a cast went out but its hash could not be saved - resuming would post it twice
+  let keepClaim = false;
+  try {
+    const published = await getPublishedRecap(contestId);
+    const mismatch = findResumeMismatch(published, casts);
+    if (mismatch !== null) {
+      throw new RecapError(
+        `Cast ${mismatch + 1} was already published with different content; resume with the published casts unchanged`,
+        409
+      );
+    }
+
+    const neynarClient = new NeynarAPIClient(new Configuration({ apiKey: process.env.NEYNAR_API_KEY }));
+    let parentHash = published.length > 0 ? published[published.length - 1].hash : null;
+
+    for (let position = published.length; position < casts.length; position++) {
+      const cast = casts[position];
+      let hash: string;
+      try {
+        const response = await neynarClient.publishCast({
+          signerUuid: process.env.NEYNAR_SIGNER_UUID,
+          text: cast.text,
+          embeds: cast.embeds.map(url => ({ url })),
+          ...(parentHash ? { parent: parentHash } : {})
+        });
+        hash = response.cast.hash;
+      } catch (error: any) {
+        throw new RecapError(
+          `Published ${position} of ${casts.length} casts; cast ${position + 1} failed: ${error.message}. Publish again to continue the thread.`,
+          502
+        );
+      }
+
+      try {
+        await query(
+          `INSERT INTO contest_recap_casts (contest_id, position, hash, parent_hash, text, embeds, published_by_fid)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [contestId, position, hash, parentHash, cast.text, cast.embeds, publishedByFid]
+        );
+      } catch (error: any) {
+        keepClaim = true;
+        console.error(`[Recap] Contest ${contestId} cast ${position + 1} is out as ${hash} but was not saved:`, error);
+        // Hold the claim past the stale window too; it is cleared by hand once the hash is recorded
+        await query(`UPDATE weekly_contests SET recap_publishing_at = 'infinity' WHERE id = $1`, [contestId])
+          .catch(() => undefined);
+        throw new RecapError(
+          `Cast ${position + 1} was published (${hash}) but could not be saved: ${error.message}. Record it before publishing again.`,
+          500
+        );
+      }
+      parentHash = hash;
+    }
+
+    await query(
+      `UPDATE weekly_contests
+       SET recap_published_at = NOW(), recap_publishing_at = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [contestId]
+    );
+    console.log(`[Recap] Published contest ${contestId} recap (${casts.length} casts)`);
+  } catch (error) {
+    if (!keepClaim) {
+      await query('UPDATE weekly_contests SET recap_publishing_at = NULL WHERE id = $1', [contestId]);
+    }
+    throw error;
+  }
+
+  return getPublishedRecap(contestId);
+}
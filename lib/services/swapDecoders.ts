@@ -0,0 +1,340 @@
+// lib/services/swapDecoders.ts
+// Pluggable swap-event decoders for the user indexer, keyed by event topic.
+//
+// A decoder turns one pool's Swap log into a PoolSwap (pair + signed amounts) and names the venue.
+// Wallet-level trades are then built from the pool swap that touches the tracked token plus the
+// wallet's own token transfers, so trades routed through aggregators (which emit the underlying
+// pools' events) are picked up too. Transactions with no decodable swap fall back to the
+// net-balance-delta analysis in txAnalyzer.
+
+import { ethers } from 'ethers';
+import { query } from '@/lib/db/connection';
+import { SwapDetails } from './swapTypes';
+
+export const NATIVE_ETH_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * One pool's side of a swap - amounts are signed from the pool's perspective (positive = paid in)
+ */
+export interface PoolSwap {
+  venue: string;
+  pool: string;
+  token0: string;
+  token1: string;
+  amount0: bigint;
+  amount1: bigint;
+  logIndex: number;
+}
+
+export interface SwapDecoder {
+  venue: string; // Default venue when the pool's factory is not recognised
+  topic: string;
+  decode(log: ethers.Log, provider: ethers.Provider): Promise<PoolSwap | null>;
+}
+
+export interface WalletSwapContext {
+  txHash: string;
+  blockNumber: number;
+  timestamp: Date;
+  walletAddress: string;
+  trackedTokenAddress: string;
+  trackedTokenDecimals: number;
+  trackedTokenDelta: bigint; // Net tracked-token amount the wallet received (negative = sent)
+}
+
+const decoders = new Map<string, SwapDecoder>();
+
+/**
+ * Register a decoder for an event topic (replaces any decoder already registered for it)
+ */
+export function registerSwapDecoder(decoder: SwapDecoder): void {
+  decoders.set(decoder.topic.toLowerCase(), decoder);
+}
+
+export function getSwapDecoder(topic: string): SwapDecoder | undefined {
+  return decoders.get(topic.toLowerCase());
+}
+
+export function listSwapDecoders(): SwapDecoder[] {
+  return Array.from(decoders.values());
+}
+
+// Pool factories on Base, to tell forks that share an event signature apart
+const FACTORY_VENUES: Record<string, string> = {
+  '0x8909dc15e40173ff4699343b6eb8132c65e18ec6': 'uniswap-v2',
+  '0xfda619b6d20975be80a10332cd39b9a4b0faa8bb': 'baseswap',
+  '0x33128a8fc17869897dce68ed026d694621f6fdfd': 'uniswap-v3',
+  '0x5e7bb104d84c7cb9b682aac2f3d509f5f406809a': 'aerodrome-slipstream',
+  '0x420dd381b31aef6683db6b902084cb0ffece40da': 'aerodrome',
+  '0x0bfbcf9fa4f9c56b0f40a671ad40e0805a091865': 'pancakeswap-v3'
+};
+
+const UNISWAP_V4_POOL_MANAGER = '0x498581ff718922c3f8e6a244956af099b2652b2b';
+
+const PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function factory() view returns (address)'
+];
+
+const poolCache = new Map<string, { token0: string; token1: string; venue: string | null }>();
+
+/**
+ * token0/token1 and factory venue of a V2/V3-style pool (cached for the process lifetime)
+ */
+async function getPoolInfo(pool: string, provider: ethers.Provider) {
+  const key = pool.toLowerCase();
+  const cached = poolCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const contract = new ethers.Contract(key, PAIR_ABI, provider);
+  const [token0, token1, factory] = await Promise.all([
+    contract.token0(),
+    contract.token1(),
+    contract.factory().catch(() => null)
+  ]);
+
+  const info = {
+    token0: String(token0).toLowerCase(),
+    token1: String(token1).toLowerCase(),
+    venue: factory ? FACTORY_VENUES[String(factory).toLowerCase()] ?? null : null
+  };
+  poolCache.set(key, info);
+  return info;
+}
+
+/**
+ * Decoder for pools that emit a Swap event and expose token0()/token1()
+ */
+function pairPoolDecoder(
+  venue: string,
+  signature: string,
+  amounts: (args: ethers.Result) => [bigint, bigint]
+): SwapDecoder {
+  const iface = new ethers.Interface([`event ${signature}`]);
+  const event = iface.getEvent('Swap')!;
+
+  return {
+    venue,
+    topic: event.topicHash,
+    async decode(log, provider) {
+      const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) {
+        return null;
+      }
+
+      const info = await getPoolInfo(log.address, provider);
+      const [amount0, amount1] = amounts(parsed.args);
+      return {
+        venue: info.venue ?? venue,
+        pool: log.address.toLowerCase(),
+        token0: info.token0,
+        token1: info.token1,
+        amount0,
+        amount1,
+        logIndex: log.index
+      };
+    }
+  };
+}
+
+const v2Amounts = (args: ethers.Result): [bigint, bigint] => [
+  BigInt(args.amount0In) - BigInt(args.amount0Out),
+  BigInt(args.amount1In) - BigInt(args.amount1Out)
+];
+
+const v3Amounts = (args: ethers.Result): [bigint, bigint] => [BigInt(args.amount0), BigInt(args.amount1)];
+
+// Uniswap V2 and its forks (BaseSwap, SushiSwap V2, ...)
+registerSwapDecoder(pairPoolDecoder(
+  'uniswap-v2-fork',
+  'Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  v2Amounts
+));
+
+// Uniswap V3 and its forks (Aerodrome Slipstream, SushiSwap V3, ...)
+registerSwapDecoder(pairPoolDecoder(
+  'uniswap-v3-fork',
+  'Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  v3Amounts
+));
+
+// PancakeSwap V3 adds protocol fees to the V3 event
+registerSwapDecoder(pairPoolDecoder(
+  'pancakeswap-v3',
+  'Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint128 protocolFeesToken0, uint128 protocolFeesToken1)',
+  v3Amounts
+));
+
+// Aerodrome / Velodrome V2 pools (volatile and stable)
+registerSwapDecoder(pairPoolDecoder(
+  'velodrome-fork',
+  'Swap(address indexed sender, address indexed to, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out)',
+  v2Amounts
+));
+
+// Uniswap V4: every pool lives in the PoolManager and the event only carries the pool id, so the
+// pair comes from the pools discovered for tracked tokens (token_pools), or else from the pool key
+// the PositionManager keeps for every pool it has minted positions in
+const v4Interface = new ethers.Interface([
+  'event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)'
+]);
+const UNISWAP_V4_POSITION_MANAGER = '0x7c5f5a4bbd8fd63184577525326123b519429bdc'; // Base
+const UNISWAP_V4_POSITION_MANAGER_ABI = [
+  'function poolKeys(bytes25 poolId) view returns (address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)'
+];
+const v4PoolCache = new Map<string, { token0: string; token1: string }>();
+
+/**
+ * Currencies of a V4 pool id, or null when neither token_pools nor the PositionManager knows it
+ */
+async function resolveV4Pair(poolId: string, provider: ethers.Provider): Promise<{ token0: string; token1: string } | null> {
+  const cached = v4PoolCache.get(poolId);
+  if (cached) {
+    return cached;
+  }
+
+  let pair: { token0: string; token1: string } | null = null;
+  const stored = await query(
+    `SELECT token0, token1 FROM token_pools WHERE protocol = 'uniswap_v4' AND pool_address = $1 LIMIT 1`,
+    [poolId]
+  );
+  if (stored.rows.length > 0) {
+    pair = { token0: stored.rows[0].token0.toLowerCase(), token1: stored.rows[0].token1.toLowerCase() };
+  } else {
+    const positionManager = new ethers.Contract(UNISWAP_V4_POSITION_MANAGER, UNISWAP_V4_POSITION_MANAGER_ABI, provider);
+    // PositionManager keys pools by the first 25 bytes of the id
+    const key = await positionManager.poolKeys(ethers.dataSlice(poolId, 0, 25));
+    const token0 = String(key.currency0).toLowerCase();
+    const token1 = String(key.currency1).toLowerCase();
+    // An unknown pool comes back zeroed (currency1 is never native ETH, so it is never zero)
+    if (token1 !== NATIVE_ETH_ADDRESS) {
+      pair = { token0, token1 };
+    }
+  }
+
+  if (pair) {
+    v4PoolCache.set(poolId, pair);
+  }
+  return pair;
+}
+
+registerSwapDecoder({
+  venue: 'uniswap-v4',
+  topic: v4Interface.getEvent('Swap')!.topicHash,
+  async decode(log, provider) {
+    if (log.address.toLowerCase() !== UNISWAP_V4_POOL_MANAGER) {
+      return null;
+    }
+
+    const parsed = v4Interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return null;
+    }
+
+    const poolId = String(parsed.args.id).toLowerCase();
+    const pair = await resolveV4Pair(poolId, provider);
+    if (!pair) {
+      console.warn(`[SwapDecoders] Unknown Uniswap V4 pool ${poolId} in ${log.transactionHash}: swap skipped`);
+      return null;
+    }
+
+    // V4 reports deltas from the swapper's side; flip them to the pool's like the other venues
+    return {
+      venue: 'uniswap-v4',
+      pool: poolId,
+      token0: pair.token0,
+      token1: pair.token1,
+      amount0: -BigInt(parsed.args.amount0),
+      amount1: -BigInt(parsed.args.amount1),
+      logIndex: log.index
+    };
+  }
+});
+
+/**
+ * Decode every log in a receipt that has a registered decoder, in log order
+ * A log that fails to decode is skipped so one odd pool does not hide the rest of the route
+ */
+export async function decodePoolSwaps(logs: readonly ethers.Log[], provider: ethers.Provider): Promise<PoolSwap[]> {
+  const swaps: PoolSwap[] = [];
+
+  for (const log of logs) {
+    const decoder = log.topics[0] ? getSwapDecoder(log.topics[0]) : undefined;
+    if (!decoder) {
+      continue;
+    }
+
+    try {
+      const swap = await decoder.decode(log, provider);
+      if (swap) {
+        swaps.push(swap);
+      }
+    } catch (error: any) {
+      console.warn(`[SwapDecoders] Could not decode ${decoder.venue} swap in ${log.transactionHash}: ${error.message}`);
+    }
+  }
+
+  return swaps.sort((a, b) => a.logIndex - b.logIndex);
+}
+
+/**
+ * Build the wallet's trade from decoded pool swaps (pure)
+ * The side and size come from the wallet's net tracked-token transfer; the payment is the other leg
+ * of the pool swap that moved the tracked token (the last such hop on a buy, the first on a sell)
+ */
+export function buildSwapFromPoolSwaps(
+  poolSwaps: PoolSwap[],
+  context: WalletSwapContext,
+  counterTokenDecimals: (token: string) => number
+): SwapDetails | null {
+  const tracked = context.trackedTokenAddress.toLowerCase();
+  if (context.trackedTokenDelta === BigInt(0)) {
+    return null;
+  }
+
+  const touching = poolSwaps.filter(swap => swap.token0 === tracked || swap.token1 === tracked);
+  if (touching.length === 0) {
+    return null;
+  }
+
+  const isBuy = context.trackedTokenDelta > BigInt(0);
+  const hop = isBuy ? touching[touching.length - 1] : touching[0];
+  const trackedIs0 = hop.token0 === tracked;
+  const counterToken = trackedIs0 ? hop.token1 : hop.token0;
+  const counterAmount = trackedIs0 ? hop.amount1 : hop.amount0;
+  const baseTokenAmount = counterAmount < BigInt(0) ? -counterAmount : counterAmount;
+  const trackedTokenAmount = isBuy ? context.trackedTokenDelta : -context.trackedTokenDelta;
+  const baseTokenDecimals = counterTokenDecimals(counterToken);
+
+  return {
+    tokenIn: isBuy ? counterToken : tracked,
+    tokenOut: isBuy ? tracked : counterToken,
+    amountIn: isBuy ? baseTokenAmount : trackedTokenAmount,
+    amountOut: isBuy ? trackedTokenAmount : baseTokenAmount,
+    side: isBuy ? 'BUY' : 'SELL',
+    walletAddress: context.walletAddress.toLowerCase(),
+    source: 'log',
+    confidence: 'high',
+    venue: hop.venue,
+    baseTokenAddress: counterToken,
+    baseTokenAmount,
+    tokenInDecimals: isBuy ? baseTokenDecimals : context.trackedTokenDecimals,
+    tokenOutDecimals: isBuy ? context.trackedTokenDecimals : baseTokenDecimals,
+    route: poolSwaps.map(swap => {
+      // Whichever token the pool received is what went in
+      const in0 = swap.amount0 > BigInt(0);
+      return { pool: swap.pool, tokenIn: in0 ? swap.token0 : swap.token1, tokenOut: in0 ? swap.token1 : swap.token0 };
+    }),
+    txHash: context.txHash,
+    blockNumber: context.blockNumber,
+    timestamp: context.timestamp,
+    legIndex: 0,
+    trackedTokenAddress: tracked,
+    trackedTokenAmount,
+    trackedTokenDecimals: context.trackedTokenDecimals,
+    baseTokenDecimals
+  };
+}
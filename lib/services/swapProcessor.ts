@@ -5,9 +5,13 @@ import { query } from '@/lib/db/connection';
 import type { BitqueryDEXTrade, BitqueryTradeGroup } from './bitqueryService';
 import { getTokenSwapGroups, isProtocolFeeTransfer, transformBitqueryTrade } from './bitqueryService';
 import { getPosition, processBuy, processSell } from './fifoAccounting';
+import { tokenAmountToUsd, toTokenUnits } from './pnlEngine';
+import { getTokenPriceAtBlock, PriceSource } from './historicalPriceService';
 import { logError, logInfo, logSuccess, logWarn } from './indexerLogger';
 import { incrementTradesFound } from './indexerMetrics';
 import type { SwapDetails } from './swapTypes';
+import { AssetMovement, buildSwapFromLegs, classifyTransaction, computeNetDeltas, TxKind } from './txAnalyzer';
+import { reconcileTransfers } from './transferAccounting';
 
 // Track skipped SELLs count for logging (module-level to persist across function calls)
 let skippedSellCount = 0;
@@ -34,36 +38,10 @@ async function getTokenDecimals(tokenAddress: string): Promise<number> {
   return 18; // Default
 }
 
-/**
- * Get block timestamp from database or estimate
- */
-async function getBlockTimestamp(blockNumber: number): Promise<Date> {
-  // Try to get from a transaction in that block
-  const result = await query(
-    `SELECT timestamp FROM trades WHERE block_number = $1 LIMIT 1`,
-    [blockNumber]
-  );
-
-  if (result.rows.length > 0) {
-    return new Date(result.rows[0].timestamp);
-  }
-
-  // Estimate: Base has ~2s block time, genesis around 2023-08-09
-  const genesisTimestamp = new Date('2023-08-09T00:00:00Z').getTime();
-  const estimatedTimestamp = genesisTimestamp + (blockNumber * 2000);
-  return new Date(estimatedTimestamp);
-}
-
 function normalizeAddress(address?: string | null): string {
   return address ? address.toLowerCase() : '';
 }
 
-function addAmountToMap(map: Map<string, bigint>, token: string, amount: bigint): void {
-  const key = token.toLowerCase();
-  const current = map.get(key) ?? BigInt(0);
-  map.set(key, current + amount);
-}
-
 /**
  * Known router/contract addresses to exclude when finding actual user wallets
  * These are DEX routers that initiate trades on behalf of users
@@ -169,6 +147,9 @@ interface AggregatedTransaction {
   netUsdValue: number;
   legsCount: number;
   nonFeeLegs: number;
+  classification: TxKind;
+  classificationConfidence: number;
+  trades: SwapDetails[]; // One per wallet, settled from its net deltas across the legs
 }
 
 /**
@@ -242,6 +223,7 @@ export async function processSwapsFromBitquery(
 
         // Process groups in batches to avoid freezing and show progress
         const BATCH_SIZE = 50;
+        const tokenWallets = new Set<string>();
         for (let i = 0; i < groups.length; i += BATCH_SIZE) {
           const batch = groups.slice(i, i + BATCH_SIZE);
           logInfo(`[SWAP PROCESSOR] Processing batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(groups.length / BATCH_SIZE)} (${batch.length} transactions)...`);
@@ -257,14 +239,14 @@ export async function processSwapsFromBitquery(
 
             for (const leg of processedLegs) {
               await upsertTradeLegRecord(transactionId, leg);
+            }
 
-              if (leg.isProtocolFee) {
-                continue;
-              }
-
-              const { priceUsd, usdValue } = calculatePricing(leg.swapDetail);
-              await insertTradeRecord(transactionId, leg.swapDetail, tokenAddr, priceUsd, usdValue);
-              await handleFifoAccounting(leg.swapDetail, tokenAddr, priceUsd, usdValue, walletsFound);
+            for (const trade of aggregated.trades) {
+              const pricing = await calculatePricing(trade);
+              const { priceUsd, usdValue } = pricing;
+              await insertTradeRecord(transactionId, trade, tokenAddr, pricing);
+              await handleFifoAccounting(trade, tokenAddr, priceUsd, usdValue, walletsFound);
+              tokenWallets.add(trade.walletAddress.toLowerCase());
 
               swapsProcessed++;
               incrementTradesFound(1);
@@ -274,7 +256,7 @@ export async function processSwapsFromBitquery(
               }
 
               if (swapsProcessed <= 10) {
-                logInfo(`[Swap ${swapsProcessed}] ${leg.swapDetail.side}: ${leg.swapDetail.txHash.substring(0, 10)}... | wallet=${leg.swapDetail.walletAddress.substring(0, 10)}... | price=$${priceUsd.toFixed(8)} | usdValue=$${usdValue.toFixed(2)}`);
+                logInfo(`[Swap ${swapsProcessed}] ${trade.side}: ${trade.txHash.substring(0, 10)}... | wallet=${trade.walletAddress.substring(0, 10)}... | price=$${priceUsd.toFixed(8)} | usdValue=$${usdValue.toFixed(2)}`);
               }
             }
           }
@@ -285,6 +267,19 @@ export async function processSwapsFromBitquery(
           }
         }
 
+        // Transfers after a wallet's last swap would otherwise wait for its next one
+        let transfersApplied = 0;
+        for (const wallet of tokenWallets) {
+          try {
+            transfersApplied += await reconcileTransfers(wallet, tokenAddr);
+          } catch (transferError: any) {
+            logWarn(`[FIFO] Failed to apply transfers for ${wallet.substring(0, 10)}...: ${transferError?.message}`);
+          }
+        }
+        if (transfersApplied > 0) {
+          logInfo(`[SWAP PROCESSOR] Applied ${transfersApplied} non-swap transfers for token ${tokenAddr}`);
+        }
+
         logInfo(`[Swap Processing] Completed processing ${swapsProcessed} swaps across ${groups.length} transactions`);
       } catch (bitqueryError: any) {
         const errorMsg = bitqueryError?.message || bitqueryError?.toString() || JSON.stringify(bitqueryError);
@@ -412,8 +407,12 @@ function aggregateTransaction(
     netTokenOut: new Map<string, bigint>(),
     netUsdValue: 0,
     legsCount: legs.length,
-    nonFeeLegs: 0
+    nonFeeLegs: 0,
+    classification: 'none',
+    classificationConfidence: 1,
+    trades: []
   };
+  const movements: AssetMovement[] = [];
 
   for (const leg of legs) {
     if (leg.swapDetail.protocolName) {
@@ -450,59 +449,138 @@ function aggregateTransaction(
     }
 
     aggregated.netUsdValue += baseUsd;
-    addAmountToMap(aggregated.netTokenIn, leg.swapDetail.tokenIn, leg.swapDetail.amountIn);
-    addAmountToMap(aggregated.netTokenOut, leg.swapDetail.tokenOut, leg.swapDetail.amountOut);
+
+    // Each leg is the wallet paying tokenIn into the pool and receiving tokenOut back
+    const pool = normalizeAddress(leg.trade.Trade.Dex.SmartContract) || 'pool';
+    const wallet = normalizeAddress(leg.wallet);
+    movements.push(
+      { asset: leg.swapDetail.tokenIn, from: wallet, to: pool, amount: leg.swapDetail.amountIn },
+      { asset: leg.swapDetail.tokenOut, from: pool, to: wallet, amount: leg.swapDetail.amountOut }
+    );
+  }
+
+  // Net per trader, so intermediate hops of a route cancel instead of being counted twice
+  const wallets = Array.from(new Set(legs.filter(leg => !leg.isProtocolFee).map(leg => normalizeAddress(leg.wallet))));
+  for (const wallet of wallets) {
+    for (const [token, delta] of computeNetDeltas(movements, wallet)) {
+      const map = delta < BigInt(0) ? aggregated.netTokenIn : aggregated.netTokenOut;
+      map.set(token, (map.get(token) ?? BigInt(0)) + (delta < BigInt(0) ? -delta : delta));
+    }
+  }
+
+  // Side and amounts come from each wallet's net deltas, not from its individual legs
+  for (const wallet of wallets) {
+    const walletLegs = legs.filter(leg => !leg.isProtocolFee && normalizeAddress(leg.wallet) === wallet);
+    const classification = classifyTransaction(
+      movements,
+      wallet,
+      walletLegs[0].swapDetail.trackedTokenAddress,
+      aggregated.walletInitiator
+    );
+    if (wallet === wallets[0]) {
+      aggregated.classification = classification.kind;
+      aggregated.classificationConfidence = classification.confidence;
+    }
+
+    const trade = buildSwapFromLegs(classification, walletLegs.map(leg => leg.swapDetail));
+    if (trade) {
+      aggregated.trades.push(trade);
+    } else if (classification.kind !== 'none') {
+      logWarn(`[Aggregate] ${aggregated.txHash.substring(0, 10)}... is a ${classification.kind} for ${wallet.substring(0, 10)}..., not a trade - skipped`);
+    }
   }
 
   return aggregated;
 }
 
-function calculatePricing(swap: SwapDetails): { priceUsd: number; usdValue: number } {
+interface TradePricing {
+  priceUsd: number;
+  usdValue: number;
+  priceSource: PriceSource | null;
+  priceConfidence: number | null;
+}
+
+/**
+ * Price a swap leg at its block
+ * Bitquery's trade-time USD values win; otherwise resolve the price at the swap's block
+ * (pool state / executed ratio priced with the Chainlink round at the block)
+ */
+async function calculatePricing(swap: SwapDetails): Promise<TradePricing> {
   const MAX_DECIMAL_VALUE = 999999999999999999.99999999;
+  const trackedDecimals = swap.trackedTokenDecimals ?? 18;
   let priceUsd = Number(swap.priceUsd ?? 0);
   let usdValue = Number(swap.baseTokenUsdValue ?? 0);
+  let priceSource: PriceSource | null = null;
+  let priceConfidence: number | null = null;
 
   if (!usdValue && swap.trackedTokenUsdValue) {
     usdValue = Number(swap.trackedTokenUsdValue);
   }
 
-  if ((!priceUsd || !Number.isFinite(priceUsd)) || priceUsd === 0) {
-    const trackedAmountDecimal = Number(swap.trackedTokenAmount) / (10 ** (swap.trackedTokenDecimals ?? 18));
-    const baseAmountDecimal = Number(swap.baseTokenAmount) / (10 ** (swap.baseTokenDecimals ?? 18));
-    if (trackedAmountDecimal > 0 && baseAmountDecimal > 0) {
-      priceUsd = baseAmountDecimal / trackedAmountDecimal;
+  const hasPrice = Number.isFinite(priceUsd) && priceUsd > 0;
+  const hasUsdValue = Number.isFinite(usdValue) && usdValue > 0;
+
+  if (hasPrice || hasUsdValue) {
+    priceSource = 'bitquery';
+    priceConfidence = hasPrice && hasUsdValue ? 0.85 : 0.8;
+
+    if (!hasPrice) {
+      const trackedAmountDecimal = toTokenUnits(swap.trackedTokenAmount, trackedDecimals);
+      priceUsd = trackedAmountDecimal > 0 ? usdValue / trackedAmountDecimal : 0;
+    }
+  } else {
+    priceUsd = 0;
+    usdValue = 0;
+
+    const quote = await getTokenPriceAtBlock(swap.trackedTokenAddress, swap.blockNumber, {
+      swap: {
+        tokenAmount: swap.trackedTokenAmount,
+        tokenDecimals: trackedDecimals,
+        baseTokenAmount: swap.baseTokenAmount,
+        baseTokenAddress: swap.baseTokenAddress,
+        baseTokenDecimals: swap.baseTokenDecimals ?? 18
+      },
+      allowCurrentFallback: true
+    });
+
+    if (quote) {
+      priceUsd = quote.priceUsd;
+      priceSource = quote.source;
+      priceConfidence = quote.confidence;
+    } else {
+      logWarn(`[Pricing] No price for ${swap.txHash.substring(0, 10)}... at block ${swap.blockNumber} - storing as unpriced`);
     }
   }
 
-  if ((!usdValue || !Number.isFinite(usdValue)) || usdValue === 0) {
-    const baseAmountDecimal = Number(swap.baseTokenAmount) / (10 ** (swap.baseTokenDecimals ?? 18));
-    usdValue = baseAmountDecimal;
+  if ((!usdValue || !Number.isFinite(usdValue)) && priceUsd > 0) {
+    usdValue = tokenAmountToUsd(swap.trackedTokenAmount, trackedDecimals, priceUsd);
   }
 
   priceUsd = Math.min(Math.max(priceUsd, -MAX_DECIMAL_VALUE), MAX_DECIMAL_VALUE);
   usdValue = Math.min(Math.max(usdValue, -MAX_DECIMAL_VALUE), MAX_DECIMAL_VALUE);
 
-  return { priceUsd, usdValue };
+  return { priceUsd, usdValue, priceSource, priceConfidence };
 }
 
 async function insertTradeRecord(
   transactionId: number,
   swap: SwapDetails,
   tokenAddress: string,
-  priceUsd: number,
-  usdValue: number
+  pricing: TradePricing
 ): Promise<void> {
+  const { priceUsd, usdValue } = pricing;
+
   await query(
     `INSERT INTO trades (
       wallet_address, token_address, tx_hash, block_number, timestamp,
       side, token_amount, price_usd, usd_value, parsed_source,
       token_in, token_out, amount_in, amount_out, base_token,
-      transaction_id, created_at
+      transaction_id, price_source, price_confidence, created_at
     ) VALUES (
       $1, $2, $3, $4, $5,
       $6, $7, $8, $9, 'bitquery',
       $10, $11, $12, $13, $14,
-      $15, NOW()
+      $15, $16, $17, NOW()
     )
     ON CONFLICT (transaction_id, wallet_address, token_address, side)
     DO UPDATE SET
@@ -513,7 +591,9 @@ async function insertTradeRecord(
       token_out = EXCLUDED.token_out,
       amount_in = EXCLUDED.amount_in,
       amount_out = EXCLUDED.amount_out,
-      base_token = EXCLUDED.base_token`,
+      base_token = EXCLUDED.base_token,
+      price_source = EXCLUDED.price_source,
+      price_confidence = EXCLUDED.price_confidence`,
     [
       swap.walletAddress.toLowerCase(),
       (swap.trackedTokenAddress || tokenAddress).toLowerCase(),
@@ -529,7 +609,9 @@ async function insertTradeRecord(
       swap.amountIn.toString(),
       swap.amountOut.toString(),
       swap.baseTokenAddress?.toLowerCase() || null,
-      transactionId
+      transactionId,
+      pricing.priceSource,
+      pricing.priceConfidence
     ]
   );
 }
@@ -543,14 +625,30 @@ async function handleFifoAccounting(
 ): Promise<void> {
   walletsFound.add(swap.walletAddress.toLowerCase());
 
+  // Keys lots/disposals to this leg so re-syncing the same swap is idempotent
+  const trade = {
+    txHash: swap.txHash,
+    blockNumber: swap.blockNumber,
+    timestamp: swap.timestamp,
+    legIndex: swap.legIndex
+  };
+
   try {
+    // Airdrops, gifts and moves between the wallet's own addresses since its last swap
+    // Earlier blocks only: this block's other transfers may be swaps not recorded yet
+    await reconcileTransfers(swap.walletAddress, tokenAddress, {
+      beforeBlock: swap.blockNumber,
+      tokenDecimals: swap.trackedTokenDecimals ?? 18
+    });
+
     if (swap.side === 'BUY') {
       await processBuy(
         swap.walletAddress,
         tokenAddress,
         swap.trackedTokenAmount,
         priceUsd,
-        usdValue
+        usdValue,
+        trade
       );
     } else {
       const position = await getPosition(swap.walletAddress, tokenAddress);
@@ -561,7 +659,8 @@ async function handleFifoAccounting(
           swap.trackedTokenAmount,
           priceUsd,
           swap.trackedTokenDecimals ?? 18,
-          position
+          position,
+          trade
         );
       } else {
         skippedSellCount++;
@@ -594,11 +693,11 @@ async function upsertSwapTransactionRecord(
     `INSERT INTO swap_transactions (
       tx_hash, block_number, block_time, source, protocol_name,
       wallet_initiator, net_token_in, net_token_out, net_usd_value, legs_count,
-      created_at, updated_at
+      classification, classification_confidence, created_at, updated_at
     ) VALUES (
       $1, $2, $3, 'bitquery', $4,
       $5, $6, $7, $8, $9,
-      NOW(), NOW()
+      $10, $11, NOW(), NOW()
     )
     ON CONFLICT (tx_hash) DO UPDATE SET
       protocol_name = EXCLUDED.protocol_name,
@@ -607,6 +706,8 @@ async function upsertSwapTransactionRecord(
       net_token_out = EXCLUDED.net_token_out,
       net_usd_value = EXCLUDED.net_usd_value,
       legs_count = EXCLUDED.legs_count,
+      classification = EXCLUDED.classification,
+      classification_confidence = EXCLUDED.classification_confidence,
       updated_at = NOW()
     RETURNING id`,
     [
@@ -619,7 +720,9 @@ async function upsertSwapTransactionRecord(
       netTokenOutJson,
       // Ensure netUsdValue is a valid number for database
       Number.isFinite(aggregated.netUsdValue) ? aggregated.netUsdValue : 0,
-      aggregated.legsCount
+      aggregated.legsCount,
+      aggregated.classification,
+      aggregated.classificationConfidence
     ]
   );
 
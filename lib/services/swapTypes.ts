@@ -10,6 +10,7 @@ export interface SwapDetails {
   walletAddress: string;
   source: 'trace' | 'log' | 'receipt' | 'bitquery';
   confidence: 'high' | 'medium' | 'low';
+  venue?: string; // DEX the trade executed on (e.g. 'uniswap-v3', 'aerodrome'); 'unknown' for trace fallbacks
   baseTokenAddress: string; // ETH/WETH/USDC used as payment
   baseTokenAmount: bigint; // Amount of base token used
   tokenInDecimals: number;
@@ -26,6 +27,7 @@ export interface SwapDetails {
   trackedTokenUsdValue?: number;
   baseTokenUsdValue?: number;
   priceUsd?: number;
+  gasFeeUsd?: number; // Gas the trader paid for the transaction (receipt gas x ETH price at the block)
   // Additional Bitquery metadata
   legIndex: number;
   protocolName?: string;
@@ -60,6 +60,35 @@ export async function getBadTradersBalance(walletAddress: string): Promise<numbe
   }
 }
 
+/**
+ * Gets the BadTraders token balance for a wallet address at a past block
+ * Unlike getBadTradersBalance this throws instead of returning 0, so a lookup failure is never mistaken for an empty wallet
+ * @param walletAddress - The Ethereum wallet address to check
+ * @param blockNumber - Block to read the balance at (needs an archive-capable RPC)
+ * @returns Promise<number> - The token balance (in tokens, not wei)
+ */
+export async function getBadTradersBalanceAtBlock(walletAddress: string, blockNumber: number): Promise<number> {
+  const ALCHEMY_API_KEY = process.env.ALCHEMY_API_KEY;
+
+  if (!ALCHEMY_API_KEY) {
+    throw new Error('ALCHEMY_API_KEY not set, cannot fetch token balance');
+  }
+
+  const provider = new ethers.AlchemyProvider(8453, ALCHEMY_API_KEY);
+  const contract = new ethers.Contract(BADTRADERS_CONTRACT_ADDRESS, ERC20_ABI, provider);
+
+  const balanceWei = await contract.balanceOf(walletAddress, { blockTag: blockNumber });
+
+  let decimals = 18;
+  try {
+    decimals = await contract.decimals();
+  } catch {
+    // Default to 18 if decimals() fails
+  }
+
+  return Number(ethers.formatUnits(balanceWei, decimals));
+}
+
 /**
  * Checks if a wallet has at least the threshold amount of BadTraders tokens
  * @param walletAddress - The Ethereum wallet address to check
@@ -0,0 +1,271 @@
+// lib/services/transferAccounting.ts
+// Folds plain token transfers (airdrops, gifts, wallet-to-wallet moves) into position tracking.
+//
+// Transfers in token_transfers that are not part of a swap transaction are applied per wallet, in
+// block order, before the wallet's next swap is accounted: an inbound transfer opens a lot with the
+// cost basis the token's transfer policy gives it, an outbound one consumes lots without realizing
+// anything. Each wallet side is recorded in position_transfers so it is applied exactly once.
+
+import { query } from '@/lib/db/connection';
+import {
+  getTransferBasisPolicy,
+  processBuy,
+  processTransferOut,
+  TransferBasisPolicy
+} from './fifoAccounting';
+import { tokenAmountToUsd } from './pnlEngine';
+import { getTokenPriceAtBlock } from './historicalPriceService';
+import { timestampOf } from './blockTimeService';
+import { logWarn } from './indexerLogger';
+import { walletsShareIdentity } from './identityService';
+
+// How far a carry-over may follow a chain of same-identity senders before falling back to zero basis
+const MAX_CARRY_DEPTH = 3;
+const TRANSFER_BATCH_LIMIT = 1000;
+
+export interface WalletTransfer {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface TransferBasis {
+  policy: TransferBasisPolicy; // Policy actually applied (carry_over/fair_value fall back to zero)
+  costBasisUsd: number;
+  priceUsd: number;
+}
+
+export interface ReconcileOptions {
+  // Apply transfers in blocks strictly before this one (null = all): transfers in the same block
+  // may belong to swaps that are not recorded yet
+  beforeBlock?: number | null;
+  tokenDecimals?: number;
+  depth?: number;
+}
+
+/**
+ * Cost basis of tokens received by transfer under a policy (pure)
+ * carry_over only applies between wallets of the same FID; fair_value needs a price at the block.
+ * Anything else gets zero basis.
+ */
+export function resolveTransferBasis(
+  policy: TransferBasisPolicy,
+  transfer: {
+    amount: bigint;
+    tokenDecimals: number;
+    sameFid: boolean;
+    carriedBasisUsd: number;
+    priceUsd: number | null;
+  }
+): TransferBasis {
+  if (policy === 'carry_over' && transfer.sameFid) {
+    const tokens = tokenAmountToUsd(transfer.amount, transfer.tokenDecimals, 1);
+    return {
+      policy,
+      costBasisUsd: transfer.carriedBasisUsd,
+      priceUsd: tokens > 0 ? transfer.carriedBasisUsd / tokens : 0
+    };
+  }
+
+  if (policy === 'fair_value' && transfer.priceUsd && transfer.priceUsd > 0) {
+    return {
+      policy,
+      costBasisUsd: tokenAmountToUsd(transfer.amount, transfer.tokenDecimals, transfer.priceUsd),
+      priceUsd: transfer.priceUsd
+    };
+  }
+
+  return { policy: 'zero', costBasisUsd: 0, priceUsd: 0 };
+}
+
+// token_transfers is written by Shovel - columns may be bytea or text
+function toHex(raw: unknown): string {
+  if (Buffer.isBuffer(raw)) {
+    return '0x' + raw.toString('hex').toLowerCase();
+  }
+  const value = String(raw).toLowerCase();
+  return value.startsWith('0x') ? value : '0x' + value;
+}
+
+function toAmount(raw: unknown): bigint {
+  if (Buffer.isBuffer(raw)) {
+    return raw.length > 0 ? BigInt('0x' + raw.toString('hex')) : BigInt(0);
+  }
+  return BigInt(String(raw).split('.')[0]);
+}
+
+/**
+ * A wallet's transfers of a token not yet folded into its position, oldest first
+ * Transfers inside swap transactions are left to the swap accounting. Returns at most
+ * TRANSFER_BATCH_LIMIT; applied transfers drop out, so call again for the next batch.
+ */
+export async function getUnappliedTransfers(
+  walletAddress: string,
+  tokenAddress: string,
+  beforeBlock: number | null = null
+): Promise<WalletTransfer[]> {
+  try {
+    const result = await query(
+      `SELECT t.transaction_hash, t.log_idx, t.block_number, t.from_address, t.to_address, t.value
+       FROM token_transfers t
+       WHERE t.token_address = $1
+         AND (t.from_address = $2 OR t.to_address = $2)
+         AND t.from_address <> t.to_address
+         AND ($3::bigint IS NULL OR t.block_number < $3)
+         AND NOT EXISTS (SELECT 1 FROM swap_transactions st WHERE st.tx_hash = t.transaction_hash)
+         AND NOT EXISTS (
+           SELECT 1 FROM position_transfers pt
+           WHERE pt.tx_hash = t.transaction_hash AND pt.log_index = t.log_idx AND pt.wallet_address = $2
+         )
+       ORDER BY t.block_number ASC, t.log_idx ASC
+       LIMIT $4`,
+      [tokenAddress.toLowerCase(), walletAddress.toLowerCase(), beforeBlock, TRANSFER_BATCH_LIMIT]
+    );
+
+    return result.rows.map((row: any) => ({
+      txHash: toHex(row.transaction_hash),
+      logIndex: Number(row.log_idx),
+      blockNumber: Number(row.block_number),
+      from: toHex(row.from_address),
+      to: toHex(row.to_address),
+      amount: toAmount(row.value)
+    }));
+  } catch (error: any) {
+    // token_transfers only exists once Shovel has run
+    logWarn(`[TransferAccounting] Could not read transfers for ${walletAddress.substring(0, 10)}...: ${error.message}`);
+    return [];
+  }
+}
+
+async function recordTransfer(
+  transfer: WalletTransfer,
+  walletAddress: string,
+  tokenAddress: string,
+  direction: 'in' | 'out',
+  basisPolicy: TransferBasisPolicy | null,
+  costBasisUsd: number
+): Promise<void> {
+  await query(
+    `INSERT INTO position_transfers (
+      tx_hash, log_index, wallet_address, token_address, direction, counterparty,
+      amount, block_number, basis_policy, cost_basis_usd
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    ON CONFLICT (tx_hash, log_index, wallet_address) DO NOTHING`,
+    [
+      transfer.txHash,
+      transfer.logIndex,
+      walletAddress,
+      tokenAddress,
+      direction,
+      direction === 'in' ? transfer.from : transfer.to,
+      transfer.amount.toString(),
+      transfer.blockNumber,
+      basisPolicy,
+      costBasisUsd.toFixed(12)
+    ]
+  );
+}
+
+async function applyTransfer(
+  walletAddress: string,
+  tokenAddress: string,
+  transfer: WalletTransfer,
+  policy: TransferBasisPolicy,
+  tokenDecimals: number,
+  depth: number
+): Promise<void> {
+  const trade = {
+    txHash: transfer.txHash,
+    blockNumber: transfer.blockNumber,
+    timestamp: new Date(await timestampOf(transfer.blockNumber) * 1000),
+    legIndex: transfer.logIndex
+  };
+
+  if (transfer.from === walletAddress) {
+    const basisMoved = await processTransferOut(walletAddress, tokenAddress, transfer.amount, trade);
+    await recordTransfer(transfer, walletAddress, tokenAddress, 'out', null, basisMoved);
+    return;
+  }
+
+  const sameFid = policy === 'carry_over' && depth < MAX_CARRY_DEPTH
+    && await walletsShareIdentity(transfer.from, walletAddress);
+
+  let carriedBasisUsd = 0;
+  if (sameFid) {
+    // Apply the sender's earlier blocks, then its side of this transfer, so the basis it gave up is known
+    await reconcileTransfers(transfer.from, tokenAddress, { beforeBlock: transfer.blockNumber, tokenDecimals, depth: depth + 1 });
+    const sentBasis = () => query(
+      `SELECT cost_basis_usd FROM position_transfers
+       WHERE tx_hash = $1 AND log_index = $2 AND wallet_address = $3`,
+      [transfer.txHash, transfer.logIndex, transfer.from]
+    );
+    let sent = await sentBasis();
+    if (sent.rows.length === 0) {
+      await applyTransfer(transfer.from, tokenAddress, transfer, policy, tokenDecimals, depth + 1);
+      sent = await sentBasis();
+    }
+    carriedBasisUsd = sent.rows.length > 0 ? parseFloat(sent.rows[0].cost_basis_usd) : 0;
+  }
+
+  const quote = policy === 'fair_value'
+    ? await getTokenPriceAtBlock(tokenAddress, transfer.blockNumber)
+    : null;
+
+  const basis = resolveTransferBasis(policy, {
+    amount: transfer.amount,
+    tokenDecimals,
+    sameFid,
+    carriedBasisUsd,
+    priceUsd: quote?.priceUsd ?? null
+  });
+
+  await processBuy(walletAddress, tokenAddress, transfer.amount, basis.priceUsd, basis.costBasisUsd, trade, 'transfer_in');
+  await recordTransfer(transfer, walletAddress, tokenAddress, 'in', basis.policy, basis.costBasisUsd);
+}
+
+/**
+ * Fold a wallet's outstanding transfers of a token into its position
+ * Call before accounting a swap (with the swap's block) so sells of airdropped or gifted tokens
+ * find a lot. Pages through every outstanding transfer; returns the number applied.
+ */
+export async function reconcileTransfers(
+  walletAddress: string,
+  tokenAddress: string,
+  options: ReconcileOptions = {}
+): Promise<number> {
+  const wallet = walletAddress.toLowerCase();
+  const token = tokenAddress.toLowerCase();
+  const depth = options.depth ?? 0;
+
+  const beforeBlock = options.beforeBlock ?? null;
+
+  let transfers = await getUnappliedTransfers(wallet, token, beforeBlock);
+  if (transfers.length === 0) {
+    return 0;
+  }
+
+  const policy = await getTransferBasisPolicy(token);
+  let tokenDecimals = options.tokenDecimals;
+  if (tokenDecimals === undefined) {
+    const result = await query('SELECT decimals FROM tracked_tokens WHERE token_address = $1', [token]);
+    tokenDecimals = result.rows[0]?.decimals ?? 18;
+  }
+
+  let applied = 0;
+  while (transfers.length > 0) {
+    for (const transfer of transfers) {
+      await applyTransfer(wallet, token, transfer, policy, tokenDecimals!, depth);
+    }
+    applied += transfers.length;
+
+    if (transfers.length < TRANSFER_BATCH_LIMIT) {
+      break;
+    }
+    transfers = await getUnappliedTransfers(wallet, token, beforeBlock);
+  }
+
+  return applied;
+}
@@ -1,28 +1,58 @@
 // lib/services/userIndexerService.ts
 // User-generated indexing service using Alchemy instead of BitQuery
 // Indexes individual wallets on-demand when users register for contests
+// A registration covers every wallet on the registrant's identity (see identityService)
 
 import { ethers } from 'ethers';
 import { query } from '@/lib/db/connection';
 import { getPrimaryProvider } from './providers';
 import { SwapDetails } from './swapTypes';
 import { getCurrentPrice } from './priceService';
+import { getTokenPriceAtBlock } from './historicalPriceService';
+import { blockAt, timestampOf } from './blockTimeService';
+import { getEthUsdPriceAtBlock } from './chainlinkOracle';
+import {
+  buildSwapFromPoolSwaps,
+  decodePoolSwaps,
+  NATIVE_ETH_ADDRESS
+} from './swapDecoders';
+import { getTokenDecimals } from './traceParser';
+import { analyzeTransaction, AssetMovement, buildSwapFromAnalysis, computeNetDeltas } from './txAnalyzer';
+import { getLinkedWallets } from './identityService';
 import { logInfo, logError } from './indexerLogger';
+import { getCostBasisMethod } from './fifoAccounting';
+import {
+  computePnL,
+  gasFeeUsd,
+  parseTokenAmount,
+  tokenAmountToUsd,
+  NormalizedTrade,
+  PnLResult
+} from './pnlEngine';
 
 const ALCHEMY_API_KEY = process.env.ALCHEMY_API_KEY;
 const BASE_CHAIN_ID = 8453;
 
-// Uniswap V3 Pool Swap event signature
-const SWAP_EVENT_SIGNATURE = '0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67';
 // Transfer event signature (ERC20)
 const TRANSFER_EVENT_SIGNATURE = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
 
 interface IndexResult {
   tradesFound: number;
   pnl: number;
+  details: PnLResult;
+  markPriceUsd: number | null;
+  lastIndexedBlock: number;
   indexedAt: Date;
 }
 
+export interface RefreshResult {
+  newTrades: number;
+  fromBlock: number;
+  toBlock: number;
+  details: PnLResult;
+  markPriceUsd: number | null;
+}
+
 /**
  * Index a user's wallet for a specific token in a contest
  * Fetches all swap transactions involving the user's wallet and the token
@@ -46,7 +76,7 @@ export async function indexUserWalletForToken(
 
   // Get contest dates to determine block range
   const contestResult = await query(
-    'SELECT start_date, end_date FROM weekly_contests WHERE id = $1',
+    'SELECT start_date, end_date, mode, start_block, end_block FROM weekly_contests WHERE id = $1',
     [contestId]
   );
 
@@ -58,30 +88,198 @@ export async function indexUserWalletForToken(
   const startDate = new Date(contest.start_date);
   const endDate = new Date(contest.end_date);
 
-  // Get block numbers for date range
+  // Get block numbers for date range (replays have theirs resolved at creation)
   const currentBlock = await provider.getBlockNumber();
-  const startBlock = await getBlockNumberForDate(provider, startDate);
-  const endBlock = await getBlockNumberForDate(provider, endDate);
+  const startBlock = contest.start_block !== null
+    ? Number(contest.start_block)
+    : await blockAt(startDate);
+  const endBlock = contest.end_block !== null
+    ? Number(contest.end_block)
+    : await blockAt(endDate);
 
   logInfo(`[UserIndexer] Block range: ${startBlock} to ${endBlock} (current: ${currentBlock})`);
 
-  // Fetch all swap events involving this wallet and token
-  const trades = await fetchUserSwapEvents(
-    provider,
-    walletAddress,
-    tokenAddress,
-    startBlock,
-    endBlock
+  const { found, stored } = await indexBlockRange(
+    provider, registrationId, walletAddress, tokenAddress, startBlock, endBlock
+  );
+
+  // Calculate PnL
+  const markPriceUsd = contest.mode === 'replay'
+    ? await getMarkPriceAtBlock(tokenAddress, endBlock)
+    : await getMarkPrice(tokenAddress);
+  const details = await calculateUserPnLDetails(registrationId, tokenAddress, markPriceUsd);
+  const pnl = details.totalPnlUsd;
+
+  // Update registration with PnL
+  await query(
+    `UPDATE contest_registrations
+     SET indexed_at = NOW(), pnl_calculated_at = NOW(), current_pnl = $1, last_indexed_block = $3
+     WHERE id = $2`,
+    [pnl, registrationId, endBlock]
+  );
+
+  logInfo(`[UserIndexer] Completed: ${stored} trades stored, PnL: $${pnl.toFixed(2)}`);
+
+  return {
+    tradesFound: found,
+    pnl,
+    details,
+    markPriceUsd,
+    lastIndexedBlock: endBlock,
+    indexedAt: new Date()
+  };
+}
+
+export interface RefreshOptions {
+  markPriceUsd?: number | null; // Price for unrealized PnL (default: current price, end price for replays)
+  toBlock?: number; // Last block to index (default: contest end, clamped to the current block)
+}
+
+/**
+ * Pick up new trades for an indexed registration since its last indexed block,
+ * then re-mark PnL at the current price (replays: the price at the end block) or the given mark
+ */
+export async function refreshUserWalletForRegistration(
+  registrationId: number,
+  options: RefreshOptions = {}
+): Promise<RefreshResult> {
+  const regResult = await query(
+    `SELECT cr.wallet_address, cr.contest_id, cr.last_indexed_block,
+            wc.token_address, wc.start_date, wc.end_date, wc.mode, wc.start_block, wc.end_block
+     FROM contest_registrations cr
+     JOIN weekly_contests wc ON cr.contest_id = wc.id
+     WHERE cr.id = $1`,
+    [registrationId]
+  );
+
+  if (regResult.rows.length === 0) {
+    throw new Error(`Registration ${registrationId} not found`);
+  }
+
+  const registration = regResult.rows[0];
+  const tokenAddress = registration.token_address;
+
+  const provider = getPrimaryProvider();
+  if (!provider) {
+    throw new Error('No provider available');
+  }
+
+  // Never index past the contest end (blockAt clamps to the current block)
+  const toBlock = options.toBlock
+    ?? (registration.end_block !== null
+      ? Number(registration.end_block)
+      : await blockAt(new Date(registration.end_date)));
+  const fromBlock = registration.last_indexed_block !== null
+    ? Number(registration.last_indexed_block) + 1
+    : registration.start_block !== null
+      ? Number(registration.start_block)
+      : await blockAt(new Date(registration.start_date));
+
+  let newTrades = 0;
+  if (fromBlock <= toBlock) {
+    const { stored } = await indexBlockRange(
+      provider, registrationId, registration.wallet_address, tokenAddress, fromBlock, toBlock
+    );
+    newTrades = stored;
+  }
+
+  const markPriceUsd = options.markPriceUsd !== undefined
+    ? options.markPriceUsd
+    : registration.mode === 'replay'
+      ? await getMarkPriceAtBlock(tokenAddress, toBlock)
+      : await getMarkPrice(tokenAddress);
+  const details = await calculateUserPnLDetails(registrationId, tokenAddress, markPriceUsd);
+
+  await query(
+    `UPDATE contest_registrations
+     SET pnl_calculated_at = NOW(), current_pnl = $1, updated_at = NOW(),
+         last_indexed_block = GREATEST(COALESCE(last_indexed_block, 0), $3)
+     WHERE id = $2`,
+    [details.totalPnlUsd, registrationId, toBlock]
+  );
+
+  logInfo(`[UserIndexer] Refreshed registration ${registrationId}: blocks ${fromBlock}-${toBlock}, ${newTrades} new trade(s), PnL: $${details.totalPnlUsd.toFixed(2)}`);
+
+  return { newTrades, fromBlock, toBlock, details, markPriceUsd };
+}
+
+/**
+ * Re-index an indexed registration from the contest start through its last indexed block
+ * Refreshes only look at blocks after last_indexed_block, so a wallet that joined the identity
+ * mid-contest would never have its earlier trades picked up. Trades already stored are kept as they are.
+ */
+export async function backfillRegistration(registrationId: number): Promise<RefreshResult | null> {
+  const regResult = await query(
+    `SELECT cr.wallet_address, cr.last_indexed_block, wc.token_address, wc.start_date, wc.start_block
+     FROM contest_registrations cr
+     JOIN weekly_contests wc ON cr.contest_id = wc.id
+     WHERE cr.id = $1`,
+    [registrationId]
+  );
+
+  if (regResult.rows.length === 0) {
+    throw new Error(`Registration ${registrationId} not found`);
+  }
+
+  const registration = regResult.rows[0];
+  if (registration.last_indexed_block === null) {
+    // Not indexed yet - the first indexing covers the whole window with every linked wallet
+    return null;
+  }
+
+  const provider = getPrimaryProvider();
+  if (!provider) {
+    throw new Error('No provider available');
+  }
+
+  const tokenAddress = registration.token_address;
+  const toBlock = Number(registration.last_indexed_block);
+  const fromBlock = registration.start_block !== null
+    ? Number(registration.start_block)
+    : await blockAt(new Date(registration.start_date));
+
+  const { stored } = await indexBlockRange(
+    provider, registrationId, registration.wallet_address, tokenAddress, fromBlock, toBlock
+  );
+
+  const markPriceUsd = await getRegistrationMarkPrice(registrationId, tokenAddress);
+  const details = await calculateUserPnLDetails(registrationId, tokenAddress, markPriceUsd);
+
+  await query(
+    `UPDATE contest_registrations
+     SET pnl_calculated_at = NOW(), current_pnl = $1, updated_at = NOW()
+     WHERE id = $2`,
+    [details.totalPnlUsd, registrationId]
   );
 
-  logInfo(`[UserIndexer] Found ${trades.length} swap transactions`);
+  logInfo(`[UserIndexer] Backfilled registration ${registrationId}: blocks ${fromBlock}-${toBlock}, PnL: $${details.totalPnlUsd.toFixed(2)}`);
 
-  // Store trades in database
-  let tradesStored = 0;
+  return { newTrades: stored, fromBlock, toBlock, details, markPriceUsd };
+}
+
+/**
+ * Fetch and store the swaps of a registered wallet's identity for the token in a block range
+ * Each trade is stored against the wallet that made it
+ */
+async function indexBlockRange(
+  provider: ethers.Provider,
+  registrationId: number,
+  walletAddress: string,
+  tokenAddress: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ found: number; stored: number }> {
+  const wallets = await getLinkedWallets(walletAddress);
+  const trades = await fetchUserSwapEvents(provider, wallets, tokenAddress, fromBlock, toBlock);
+
+  logInfo(`[UserIndexer] Found ${trades.length} swap transactions across ${wallets.length} wallet(s)`);
+
+  let stored = 0;
   for (const trade of trades) {
     try {
-      await storeUserTrade(registrationId, walletAddress, tokenAddress, trade);
-      tradesStored++;
+      if (await storeUserTrade(registrationId, tokenAddress, trade)) {
+        stored++;
+      }
     } catch (error: any) {
       // Skip duplicates
       if (error.message?.includes('duplicate') || error.code === '23505') {
@@ -91,38 +289,65 @@ export async function indexUserWalletForToken(
     }
   }
 
-  // Calculate PnL
-  const pnl = await calculateUserPnL(registrationId, tokenAddress);
+  return { found: trades.length, stored };
+}
 
-  // Update registration with PnL
-  await query(
-    `UPDATE contest_registrations
-     SET indexed_at = NOW(), pnl_calculated_at = NOW(), current_pnl = $1
-     WHERE id = $2`,
-    [pnl, registrationId]
+/**
+ * Current token price for unrealized PnL (null if every source fails)
+ */
+async function getMarkPrice(tokenAddress: string): Promise<number | null> {
+  try {
+    return await getCurrentPrice(tokenAddress);
+  } catch (error: any) {
+    logError(`[UserIndexer] Error getting current price for ${tokenAddress}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Mark price for a registration's contest: the current price, or the window's end price for a replay
+ */
+async function getRegistrationMarkPrice(registrationId: number, tokenAddress: string): Promise<number | null> {
+  const result = await query(
+    `SELECT wc.mode, wc.end_block
+     FROM contest_registrations cr
+     JOIN weekly_contests wc ON cr.contest_id = wc.id
+     WHERE cr.id = $1`,
+    [registrationId]
   );
+  const contest = result.rows[0];
 
-  logInfo(`[UserIndexer] Completed: ${tradesStored} trades stored, PnL: $${pnl.toFixed(2)}`);
+  return contest?.mode === 'replay' && contest.end_block !== null
+    ? getMarkPriceAtBlock(tokenAddress, Number(contest.end_block))
+    : getMarkPrice(tokenAddress);
+}
 
-  return {
-    tradesFound: trades.length,
-    pnl,
-    indexedAt: new Date()
-  };
+/**
+ * Token price at a block for unrealized PnL in a replayed window (null if no pool had a price)
+ */
+async function getMarkPriceAtBlock(tokenAddress: string, blockNumber: number): Promise<number | null> {
+  try {
+    const quote = await getTokenPriceAtBlock(tokenAddress, blockNumber);
+    return quote ? quote.priceUsd : null;
+  } catch (error: any) {
+    logError(`[UserIndexer] Error getting price for ${tokenAddress} at block ${blockNumber}: ${error.message}`);
+    return null;
+  }
 }
 
 /**
- * Fetch swap events for a user's wallet involving a specific token
- * Uses eth_getLogs to query Uniswap V3 Pool Swap events
+ * Fetch swaps for a user's wallets involving a specific token
+ * Finds the wallets' token transfers with eth_getLogs, then decodes each transaction's swap (see swapDecoders)
  */
 async function fetchUserSwapEvents(
   provider: ethers.Provider,
-  walletAddress: string,
+  walletAddresses: string[],
   tokenAddress: string,
   fromBlock: number,
   toBlock: number
 ): Promise<SwapDetails[]> {
-  const walletAddressLower = walletAddress.toLowerCase();
+  const walletAddressesLower = walletAddresses.map(address => address.toLowerCase());
+  const walletTopics = walletAddressesLower.map(address => ethers.zeroPadValue(address, 32));
   const tokenAddressLower = tokenAddress.toLowerCase();
 
   // Get all Uniswap V3 pools that involve this token
@@ -141,42 +366,33 @@ async function fetchUserSwapEvents(
     // For now, we'll use a broader approach: query Transfer events for the token
     // and then fetch the transaction to see if it's a swap
 
-    const transferFilter = {
+    logInfo(`[UserIndexer] Querying Transfer events for token ${tokenAddressLower}...`);
+
+    // Query transfers TO the user's wallets (buys)
+    const transfersTo = await provider.getLogs({
       address: tokenAddressLower,
       topics: [
         TRANSFER_EVENT_SIGNATURE,
         null, // from (any)
-        ethers.zeroPadValue(walletAddressLower, 32), // to (user's wallet)
+        walletTopics // to (any of the user's wallets)
       ],
       fromBlock,
       toBlock
-    };
-
-    logInfo(`[UserIndexer] Querying Transfer events for token ${tokenAddressLower}...`);
-
-    // Query transfers TO the user's wallet (buys)
-    const transfersTo = await provider.getLogs({
-      ...transferFilter,
-      topics: [
-        TRANSFER_EVENT_SIGNATURE,
-        null,
-        ethers.zeroPadValue(walletAddressLower, 32)
-      ]
     });
 
-    // Query transfers FROM the user's wallet (sells)
+    // Query transfers FROM the user's wallets (sells)
     const transfersFrom = await provider.getLogs({
       address: tokenAddressLower,
       topics: [
         TRANSFER_EVENT_SIGNATURE,
-        ethers.zeroPadValue(walletAddressLower, 32), // from (user's wallet)
+        walletTopics, // from (any of the user's wallets)
         null // to (any)
       ],
       fromBlock,
       toBlock
     });
 
-    logInfo(`[UserIndexer] Found ${transfersTo.length} transfers to wallet, ${transfersFrom.length} transfers from wallet`);
+    logInfo(`[UserIndexer] Found ${transfersTo.length} transfers to wallets, ${transfersFrom.length} transfers from wallets`);
 
     // Process transfers and identify swaps
     const allTransfers = [...transfersTo, ...transfersFrom];
@@ -190,29 +406,18 @@ async function fetchUserSwapEvents(
         continue;
       }
 
-      try {
-        // Fetch transaction receipt to get full details
-        const receipt = await provider.getTransactionReceipt(txHash);
+      processedTxs.add(txHash);
 
-        // Check if this is a swap transaction
-        // Look for Swap events in the receipt
-        const swapEvent = receipt.logs.find(log =>
-          log.topics[0] === SWAP_EVENT_SIGNATURE
+      try {
+        const swapDetails = await parseSwapTransaction(
+          provider,
+          txHash,
+          walletAddressesLower,
+          tokenAddressLower
         );
 
-        if (swapEvent) {
-          // Parse the swap
-          const swapDetails = await parseSwapTransaction(
-            provider,
-            txHash,
-            walletAddressLower,
-            tokenAddressLower
-          );
-
-          if (swapDetails) {
-            swaps.push(swapDetails);
-            processedTxs.add(txHash);
-          }
+        if (swapDetails) {
+          swaps.push(swapDetails);
         }
       } catch (error: any) {
         logError(`[UserIndexer] Error processing transaction ${txHash}: ${error.message}`);
@@ -231,91 +436,81 @@ async function fetchUserSwapEvents(
 }
 
 /**
- * Parse a swap transaction to extract swap details
+ * Parse a transaction into the user's trade of the token, or null if it was not a trade
+ * txAnalyzer nets the balance changes of all the user's wallets to tell trades from transfers
+ * (including moves between the wallets), LP moves and airdrops; decoded pool swaps then name the
+ * venue, with the analysis itself as the fallback
  */
 async function parseSwapTransaction(
   provider: ethers.Provider,
   txHash: string,
-  walletAddress: string,
+  walletAddresses: string[],
   tokenAddress: string
 ): Promise<SwapDetails | null> {
   try {
     const receipt = await provider.getTransactionReceipt(txHash);
-    const tx = await provider.getTransaction(txHash);
-    const block = await provider.getBlock(receipt.blockNumber);
-
-    // Determine if this is a buy or sell
-    // Buy: token transferred TO wallet
-    // Sell: token transferred FROM wallet
-
-    const tokenTransfer = receipt.logs.find(log =>
-      log.address.toLowerCase() === tokenAddress &&
-      log.topics[0] === TRANSFER_EVENT_SIGNATURE
-    );
-
-    if (!tokenTransfer) {
+    if (!receipt) {
       return null;
     }
 
-    // Parse transfer event
-    const transferInterface = new ethers.Interface([
-      'event Transfer(address indexed from, address indexed to, uint256 value)'
-    ]);
-    const transferEvent = transferInterface.parseLog({
-      topics: tokenTransfer.topics,
-      data: tokenTransfer.data
-    });
+    const analysis = await analyzeTransaction(provider, receipt, walletAddresses, tokenAddress);
+    const poolSwaps = await decodePoolSwaps(receipt.logs, provider);
 
-    if (!transferEvent) {
+    // Without a trace an ETH payout is invisible, so a pool swap of the token outranks a 'transfer'
+    const isTrade = analysis.kind === 'buy' || analysis.kind === 'sell';
+    const swappedInPool = poolSwaps.some(swap => swap.token0 === tokenAddress || swap.token1 === tokenAddress);
+    if (!isTrade && !(analysis.kind === 'transfer' && !analysis.usedTrace && swappedInPool)) {
+      if (analysis.kind !== 'none') {
+        logInfo(`[UserIndexer] ${txHash.substring(0, 10)}... is ${analysis.kind} (confidence ${analysis.confidence}), not a trade`);
+      }
       return null;
     }
 
-    const from = transferEvent.args.from.toLowerCase();
-    const to = transferEvent.args.to.toLowerCase();
-    const amount = BigInt(transferEvent.args.value.toString());
-
-    const isBuy = to === walletAddress;
-    const isSell = from === walletAddress;
+    const context = {
+      txHash,
+      blockNumber: receipt.blockNumber,
+      timestamp: new Date(await timestampOf(receipt.blockNumber) * 1000),
+      walletAddress: tradingWallet(analysis.movements, walletAddresses, tokenAddress),
+      trackedTokenAddress: tokenAddress,
+      trackedTokenDecimals: await getTrackedTokenDecimals(tokenAddress),
+      trackedTokenDelta: analysis.trackedTokenDelta
+    };
 
-    if (!isBuy && !isSell) {
-      return null; // Not a trade for this wallet
+    const counterTokens = poolSwaps.flatMap(swap => [swap.token0, swap.token1]);
+    if (analysis.counterAsset) {
+      counterTokens.push(analysis.counterAsset);
     }
+    const decimals = await getCounterTokenDecimals(counterTokens.filter(token => token !== tokenAddress));
+    const tokenDecimals = (token: string) => decimals.get(token) ?? 18;
 
-    // Get the other token in the swap (WETH or USDC typically)
-    // This requires parsing the swap event or transaction data
-    // For now, we'll use a simplified approach
-
-    // Try to get price from receipt logs or transaction data
-    let amountIn = amount;
-    let amountOut = 0n;
-    let tokenIn = tokenAddress;
-    let tokenOut = '';
+    const swap = buildSwapFromPoolSwaps(poolSwaps, context, tokenDecimals)
+      ?? buildSwapFromAnalysis(analysis, context, tokenDecimals);
 
-    // If it's a buy, token is the output, we need to find the input
-    // If it's a sell, token is the input, we need to find the output
-
-    // Simplified: We'll calculate this from the transaction value or other logs
-    // In production, you'd parse the Swap event properly
+    if (!swap) {
+      return null;
+    }
 
-    // Get current price for USD value calculation
-    const price = await getCurrentPrice(tokenAddress);
+    // Price the trade from its executed ratio where the payment was ETH/USDC
+    const quote = await getTokenPriceAtBlock(tokenAddress, receipt.blockNumber, {
+      poolAddress: swap.route?.[0]?.pool ?? null,
+      swap: {
+        tokenAmount: swap.trackedTokenAmount,
+        tokenDecimals: swap.trackedTokenDecimals,
+        baseTokenAmount: swap.baseTokenAmount,
+        baseTokenAddress: swap.baseTokenAddress,
+        baseTokenDecimals: swap.baseTokenDecimals
+      },
+      allowCurrentFallback: true
+    });
 
-    const swapDetails: SwapDetails = {
-      txHash,
-      blockNumber: receipt.blockNumber,
-      timestamp: new Date(block.timestamp * 1000),
-      walletAddress,
-      tokenAddress,
-      tradeType: isBuy ? 'buy' : 'sell',
-      amountIn: Number(amountIn) / 1e18, // Assuming 18 decimals
-      amountOut: Number(amountOut) / 1e18,
-      tokenInAddress: isBuy ? '' : tokenAddress, // Will be filled properly in production
-      tokenOutAddress: isBuy ? tokenAddress : '',
-      priceUSD: price * (Number(amountIn) / 1e18),
-      protocol: 'uniswap-v3'
-    };
+    // Gas counts as a fee only when one of the user's wallets sent the transaction
+    let gasFee: number | undefined;
+    if (walletAddresses.includes(receipt.from.toLowerCase())) {
+      const ethPrice = await getEthUsdPriceAtBlock(receipt.blockNumber);
+      gasFee = gasFeeUsd(receipt.gasUsed, receipt.gasPrice, ethPrice?.price ?? null);
+    }
 
-    return swapDetails;
+    return { ...swap, priceUsd: quote?.priceUsd, gasFeeUsd: gasFee };
 
   } catch (error: any) {
     logError(`[UserIndexer] Error parsing transaction ${txHash}: ${error.message}`);
@@ -324,168 +519,161 @@ async function parseSwapTransaction(
 }
 
 /**
- * Store a user trade in the database
+ * The wallet a trade is attributed to: the first of the user's wallets whose token balance changed
+ */
+function tradingWallet(movements: AssetMovement[], walletAddresses: string[], tokenAddress: string): string {
+  return walletAddresses.find(wallet => computeNetDeltas(movements, wallet).has(tokenAddress))
+    ?? walletAddresses[0];
+}
+
+/**
+ * Decimals of the tokens a swap was paid with (native ETH is 18)
+ */
+async function getCounterTokenDecimals(tokens: string[]): Promise<Map<string, number>> {
+  const decimals = new Map<string, number>();
+  for (const token of new Set(tokens)) {
+    decimals.set(token, token === NATIVE_ETH_ADDRESS ? 18 : await getTokenDecimals(token));
+  }
+  return decimals;
+}
+
+/**
+ * Store a user trade in the database, against the wallet that made it
+ * Buys store the payment as amount_in and tokens received as amount_out; sells the reverse
+ * Returns false when the trade was already stored
  */
 async function storeUserTrade(
   registrationId: number,
-  walletAddress: string,
   tokenAddress: string,
   trade: SwapDetails
-): Promise<void> {
-  await query(
+): Promise<boolean> {
+  const result = await query(
     `INSERT INTO user_trades
      (registration_id, wallet_address, token_address, tx_hash, block_number, timestamp,
-      trade_type, amount_in, amount_out, token_in_address, token_out_address, price_usd)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      trade_type, amount_in, amount_out, token_in_address, token_out_address, price_usd, venue, source,
+      gas_fee_usd)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
      ON CONFLICT (tx_hash, wallet_address, token_address) DO NOTHING`,
     [
       registrationId,
-      walletAddress.toLowerCase(),
+      trade.walletAddress.toLowerCase(),
       tokenAddress.toLowerCase(),
       trade.txHash,
       trade.blockNumber,
       trade.timestamp,
-      trade.tradeType,
-      trade.amountIn,
-      trade.amountOut,
-      trade.tokenInAddress || null,
-      trade.tokenOutAddress || null,
-      trade.priceUSD || null
+      trade.side === 'BUY' ? 'buy' : 'sell',
+      trade.amountIn.toString(),
+      trade.amountOut.toString(),
+      trade.tokenIn || null,
+      trade.tokenOut || null,
+      trade.priceUsd ?? null,
+      trade.venue ?? null,
+      trade.source,
+      trade.gasFeeUsd ?? null
     ]
   );
+  return (result.rowCount ?? 0) > 0;
 }
 
 /**
- * Calculate PnL for a user's contest registration
- * Uses FIFO accounting similar to the existing system
+ * Load a registration's trades from user_trades, normalized for the PnL engine
+ * Raw NUMERIC(78,0) amounts stay bigint; price_usd is the per-token price at trade time and
+ * gas_fee_usd the trade's fee
  */
-export async function calculateUserPnL(
+export async function loadRegistrationTrades(
   registrationId: number,
-  tokenAddress: string
-): Promise<number> {
-  // Get all trades for this registration
+  tokenAddress: string,
+  decimals: number
+): Promise<NormalizedTrade[]> {
   const tradesResult = await query(
     `SELECT * FROM user_trades
      WHERE registration_id = $1 AND token_address = $2
-     ORDER BY timestamp ASC, block_number ASC`,
+     ORDER BY timestamp ASC, block_number ASC, id ASC`,
     [registrationId, tokenAddress.toLowerCase()]
   );
 
-  const trades = tradesResult.rows;
-
-  if (trades.length === 0) {
-    return 0;
-  }
-
-  // FIFO PnL calculation
-  // Note: amount_in and amount_out are stored as NUMERIC in database (may be strings when retrieved)
   // For buys: amount_out = tokens received, amount_in = payment amount
   // For sells: amount_in = tokens sold, amount_out = payment received
-  let position = 0; // Net position in tokens
-  let costBasis = 0; // Total cost basis in USD
-  let realizedPnL = 0;
-
-  for (const trade of trades) {
-    // Parse NUMERIC fields (they may be strings from database)
-    const amountIn = typeof trade.amount_in === 'string' ? parseFloat(trade.amount_in) : Number(trade.amount_in || 0);
-    const amountOut = typeof trade.amount_out === 'string' ? parseFloat(trade.amount_out) : Number(trade.amount_out || 0);
-    const priceUsd = typeof trade.price_usd === 'string' ? parseFloat(trade.price_usd) : Number(trade.price_usd || 0);
-
-    if (trade.trade_type === 'buy') {
-      // Buy: amount_out is tokens received, amount_in is payment
-      // price_usd should be per token, or total USD value of the buy
-      const tokensReceived = amountOut;
-
-      // Calculate cost basis
-      let costBasisForBuy = 0;
-      if (priceUsd > 0) {
-        // If price_usd is per token
-        costBasisForBuy = tokensReceived * priceUsd;
-      } else {
-        // Fallback: assume price_usd represents total value
-        // This is approximate - ideally price_usd should always be per token
-        costBasisForBuy = amountIn > 0 ? amountIn : 0;
-      }
-
-      position += tokensReceived;
-      costBasis += costBasisForBuy;
-
-      logInfo(`[UserIndexer] BUY: +${tokensReceived.toFixed(6)} tokens, cost basis +$${costBasisForBuy.toFixed(2)}`);
-    } else if (trade.trade_type === 'sell') {
-      // Sell: amount_in is tokens sold, amount_out is payment received
-      const tokensSold = amountIn;
-
-      if (position <= 0 || tokensSold <= 0) {
-        logError(`[UserIndexer] Invalid sell: position=${position}, tokensSold=${tokensSold}`);
-        continue;
-      }
-
-      // Calculate sell value
-      const sellValue = tokensSold * priceUsd;
-
-      // Calculate cost basis for sold tokens (FIFO - average cost)
-      const avgCostPerToken = costBasis / position;
-      const costOfSold = tokensSold * avgCostPerToken;
-      const tradePnL = sellValue - costOfSold;
-
-      realizedPnL += tradePnL;
-      position -= tokensSold;
-      costBasis -= costOfSold;
+  return tradesResult.rows.map((trade: any) => {
+    const side = trade.trade_type === 'buy' ? 'BUY' : 'SELL';
+    const tokenAmount = parseTokenAmount(side === 'BUY' ? trade.amount_out : trade.amount_in);
+    const priceUsd = trade.price_usd !== null ? parseFloat(trade.price_usd.toString()) : 0;
+
+    return {
+      side,
+      tokenAmount,
+      usdValue: tokenAmountToUsd(tokenAmount, decimals, priceUsd),
+      feeUsd: trade.gas_fee_usd !== null && trade.gas_fee_usd !== undefined ? parseFloat(trade.gas_fee_usd.toString()) : 0,
+      timestamp: trade.timestamp ? new Date(trade.timestamp) : undefined,
+      txHash: trade.tx_hash
+    } as NormalizedTrade;
+  });
+}
 
-      // Ensure non-negative values
-      if (position < 0) {
-        logError(`[UserIndexer] Position went negative: ${position}, resetting to 0`);
-        position = 0;
-      }
-      if (costBasis < 0) {
-        logError(`[UserIndexer] Cost basis went negative: ${costBasis}, resetting to 0`);
-        costBasis = 0;
-      }
+/**
+ * Get decimals for a tracked token (defaults to 18)
+ */
+async function getTrackedTokenDecimals(tokenAddress: string): Promise<number> {
+  const result = await query(
+    'SELECT decimals FROM tracked_tokens WHERE token_address = $1',
+    [tokenAddress.toLowerCase()]
+  );
+  const decimals = result.rows[0]?.decimals;
+  return decimals !== undefined && decimals !== null ? Number(decimals) : 18;
+}
 
-      logInfo(`[UserIndexer] SELL: -${tokensSold.toFixed(6)} tokens, realized PnL: $${tradePnL.toFixed(2)}`);
-    }
+/**
+ * Calculate the full PnL breakdown for a user's contest registration
+ * Uses the shared PnL engine with the token's cost basis method
+ */
+export async function calculateUserPnLDetails(
+  registrationId: number,
+  tokenAddress: string,
+  markPriceUsd?: number | null // Price for unrealized PnL; fetched when omitted (end price for replays)
+): Promise<PnLResult> {
+  const decimals = await getTrackedTokenDecimals(tokenAddress);
+  const trades = await loadRegistrationTrades(registrationId, tokenAddress, decimals);
+  const method = await getCostBasisMethod(tokenAddress);
+
+  // Get current price for unrealized PnL (continue without it if the fetch fails)
+  let currentPriceUsd: number | null = markPriceUsd ?? null;
+  if (markPriceUsd === undefined && trades.some(trade => trade.side === 'BUY')) {
+    currentPriceUsd = await getRegistrationMarkPrice(registrationId, tokenAddress);
   }
 
-  // Get current price for unrealized PnL
-  let unrealizedPnL = 0;
-  if (position > 0) {
-    try {
-      const currentPrice = await getCurrentPrice(tokenAddress);
-      if (currentPrice && currentPrice > 0) {
-        const avgCostPerToken = costBasis / position;
-        unrealizedPnL = position * (currentPrice - avgCostPerToken);
-        logInfo(`[UserIndexer] Unrealized PnL: position=${position.toFixed(6)}, avgCost=$${avgCostPerToken.toFixed(6)}, currentPrice=$${currentPrice.toFixed(6)}, unrealized=$${unrealizedPnL.toFixed(2)}`);
-      }
-    } catch (error: any) {
-      logError(`[UserIndexer] Error getting current price for ${tokenAddress}: ${error.message}`);
-      // Continue without unrealized PnL if price fetch fails
-    }
+  const result = computePnL(trades, { decimals, method, currentPriceUsd });
+
+  if (result.skippedSells > 0) {
+    logInfo(`[UserIndexer] Skipped ${result.skippedSells} sell(s) with no open position for registration ${registrationId}`);
   }
+  logInfo(`[UserIndexer] Total PnL: realized=$${result.realizedPnlUsd.toFixed(2)}, unrealized=$${result.unrealizedPnlUsd.toFixed(2)}, total=$${result.totalPnlUsd.toFixed(2)}, fees=$${result.feesUsd.toFixed(2)}, net=$${result.netPnlUsd.toFixed(2)}`);
 
-  const totalPnL = realizedPnL + unrealizedPnL;
-  logInfo(`[UserIndexer] Total PnL: realized=$${realizedPnL.toFixed(2)}, unrealized=$${unrealizedPnL.toFixed(2)}, total=$${totalPnL.toFixed(2)}`);
+  return result;
+}
 
-  return totalPnL;
+/**
+ * USD volume (buys + sells at trade-time prices) and trade count for a registration
+ */
+export async function calculateRegistrationVolume(
+  registrationId: number,
+  tokenAddress: string
+): Promise<{ volumeUsd: number; tradeCount: number }> {
+  const decimals = await getTrackedTokenDecimals(tokenAddress);
+  const trades = await loadRegistrationTrades(registrationId, tokenAddress, decimals);
+  return {
+    volumeUsd: trades.reduce((sum, trade) => sum + trade.usdValue, 0),
+    tradeCount: trades.length
+  };
 }
 
 /**
- * Get block number for a specific date
+ * Calculate PnL for a user's contest registration
+ * Returns realized + unrealized PnL in USD
  */
-async function getBlockNumberForDate(
-  provider: ethers.Provider,
-  date: Date
+export async function calculateUserPnL(
+  registrationId: number,
+  tokenAddress: string
 ): Promise<number> {
-  const currentBlock = await provider.getBlockNumber();
-  const currentTime = Date.now();
-  const targetTime = date.getTime();
-  const blockTime = 2; // Base block time is ~2 seconds
-
-  // Estimate block number based on time difference
-  const timeDiff = targetTime - currentTime;
-  const blocksDiff = Math.floor(timeDiff / (blockTime * 1000));
-  const estimatedBlock = currentBlock + blocksDiff;
-
-  // Clamp to reasonable values
-  return Math.max(0, Math.min(estimatedBlock, currentBlock));
+  const result = await calculateUserPnLDetails(registrationId, tokenAddress);
+  return result.totalPnlUsd;
 }
-
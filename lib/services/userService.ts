@@ -1,5 +1,6 @@
 // lib/services/userService.ts
 import { query } from '@/lib/db/connection';
+import { syncFarcasterWallets } from './identityService';
 
 export interface User {
   id: number;
@@ -63,6 +64,15 @@ async function registerWalletForIndexing(walletAddress: string): Promise<void> {
   }
 }
 
+// The registering wallet only joins the FID's identity if it is verified on Farcaster
+async function syncIdentity(fid: number): Promise<void> {
+  try {
+    await syncFarcasterWallets(fid);
+  } catch (error) {
+    console.warn(`Error syncing Farcaster wallets for FID ${fid}:`, error);
+  }
+}
+
 /**
  * Register a user (opt-in to competition)
  */
@@ -93,6 +103,7 @@ export async function registerUser(
 
       // Register wallet for indexing
       await registerWalletForIndexing(walletAddress);
+      await syncIdentity(fid);
 
       return result.rows[0] as User;
     } else {
@@ -106,6 +117,7 @@ export async function registerUser(
 
       // Register wallet for indexing
       await registerWalletForIndexing(walletAddress);
+      await syncIdentity(fid);
 
       return result.rows[0] as User;
     }
@@ -0,0 +1,356 @@
+// lib/services/votingService.ts
+// Token votes: verifies EIP-712 signed ballots, records one vote per wallet per period and derives
+// tallies from user_votes. Periods with weighting 'balance' weight each vote by the voter's
+// $BADTRADERS balance at the period's snapshot block.
+//
+// At end_date a period is closed (voting.close_period job): the winner is recorded, the next weekly
+// contest is created for the winning token, the token is tracked and those who voted for it are notified.
+
+import { ethers } from 'ethers';
+import { getClient, query } from '@/lib/db/connection';
+import { Ballot, BALLOT_DOMAIN, BALLOT_TYPES } from '@/lib/utils/ballot';
+import { enqueueJob } from './jobQueueService';
+import { dispatchNotificationEvent } from './notificationRules';
+import { getTokenMetadata } from './tokenMetadataService';
+import { getBadTradersBalanceAtBlock } from './tokenService';
+
+export type VoteWeighting = 'equal' | 'balance';
+
+// Ballots older than this are rejected; a fresh one is signed for every vote
+const BALLOT_MAX_AGE_SECONDS = 10 * 60;
+const BALLOT_MAX_CLOCK_SKEW_SECONDS = 60;
+
+// Length of the contest created from a period's winner
+const VOTED_CONTEST_DURATION_DAYS = process.env.VOTED_CONTEST_DURATION_DAYS
+  ? parseInt(process.env.VOTED_CONTEST_DURATION_DAYS, 10)
+  : 7;
+
+export class BallotError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'BallotError';
+  }
+}
+
+export interface OptionTally {
+  id: number;
+  tokenAddress: string;
+  tokenSymbol: string | null;
+  tokenName: string | null;
+  description: string | null;
+  voteCount: number;
+  voteWeight: number;
+}
+
+export interface ClosePeriodResult {
+  votingPeriodId: number;
+  alreadyClosed: boolean;
+  winner: OptionTally | null;
+  contestId: number | null;
+}
+
+export interface CastVoteResult {
+  voter: string;
+  weight: number;
+  changed: boolean;
+  alreadyVoted: boolean;
+}
+
+/**
+ * Check a ballot's signature and freshness; returns the voter address (lowercase)
+ */
+export function verifyBallot(ballot: Ballot, signature: string, nowSeconds: number = Math.floor(Date.now() / 1000)): string {
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(BALLOT_DOMAIN, BALLOT_TYPES, ballot, signature);
+  } catch {
+    throw new BallotError('Invalid ballot signature', 401);
+  }
+
+  if (signer.toLowerCase() !== ballot.voter.toLowerCase()) {
+    throw new BallotError('Ballot was not signed by the voter', 401);
+  }
+
+  if (ballot.issuedAt < nowSeconds - BALLOT_MAX_AGE_SECONDS || ballot.issuedAt > nowSeconds + BALLOT_MAX_CLOCK_SKEW_SECONDS) {
+    throw new BallotError('Ballot has expired, please vote again', 401);
+  }
+
+  return signer.toLowerCase();
+}
+
+/**
+ * Weight of a vote in a period: 1, or the voter's balance at the snapshot block
+ */
+export async function getVoteWeight(
+  period: { weighting: VoteWeighting; snapshot_block: string | number | null },
+  walletAddress: string
+): Promise<number> {
+  if (period.weighting !== 'balance') {
+    return 1;
+  }
+
+  if (period.snapshot_block === null) {
+    throw new Error('Voting period has no balance snapshot block');
+  }
+
+  return getBadTradersBalanceAtBlock(walletAddress, Number(period.snapshot_block));
+}
+
+/**
+ * Record a signed ballot - replaces the voter's earlier vote in the period, if any
+ */
+export async function castVote(ballot: Ballot, signature: string): Promise<CastVoteResult> {
+  const voter = verifyBallot(ballot, signature);
+
+  const userResult = await query(
+    'SELECT fid, opt_in_status FROM users WHERE wallet_address = $1',
+    [voter]
+  );
+
+  if (userResult.rows.length === 0 || !userResult.rows[0].opt_in_status) {
+    throw new BallotError('You must be registered to vote. Please register first.', 403);
+  }
+
+  const optionResult = await query(
+    `SELECT vo.id, vo.voting_period_id, vo.token_address, vp.status, vp.end_date, vp.weighting, vp.snapshot_block
+     FROM voting_options vo
+     JOIN voting_periods vp ON vo.voting_period_id = vp.id
+     WHERE vo.id = $1 AND vp.status = 'active'`,
+    [ballot.optionId]
+  );
+
+  if (optionResult.rows.length === 0) {
+    throw new BallotError('Voting option not found or voting period is not active', 404);
+  }
+
+  const option = optionResult.rows[0];
+
+  if (option.voting_period_id !== ballot.votingPeriodId
+      || option.token_address.toLowerCase() !== ballot.tokenAddress.toLowerCase()) {
+    throw new BallotError('Ballot does not match the voting option');
+  }
+
+  if (new Date(option.end_date) < new Date()) {
+    throw new BallotError('Voting period has ended');
+  }
+
+  const existing = await query(
+    'SELECT option_id, weight FROM user_votes WHERE voting_period_id = $1 AND wallet_address = $2',
+    [option.voting_period_id, voter]
+  );
+  const previous = existing.rows[0];
+
+  if (previous?.option_id === option.id) {
+    return { voter, weight: parseFloat(previous.weight), changed: false, alreadyVoted: true };
+  }
+
+  // The balance snapshot doesn't change within a period, so a changed vote keeps its weight
+  const weight = previous ? parseFloat(previous.weight) : await getVoteWeight(option, voter);
+
+  // Only a newer ballot may replace a vote, so an old signed ballot can't be replayed
+  const upsert = await query(
+    `INSERT INTO user_votes (
+      voting_period_id, option_id, wallet_address, fid, signature, ballot_issued_at, weight, voted_at
+    ) VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7, NOW())
+    ON CONFLICT (voting_period_id, wallet_address) DO UPDATE
+      SET option_id = EXCLUDED.option_id,
+          signature = EXCLUDED.signature,
+          ballot_issued_at = EXCLUDED.ballot_issued_at,
+          voted_at = NOW()
+      WHERE user_votes.ballot_issued_at IS NULL
+         OR user_votes.ballot_issued_at < EXCLUDED.ballot_issued_at`,
+    [option.voting_period_id, option.id, voter, userResult.rows[0].fid, signature, ballot.issuedAt, weight]
+  );
+
+  if (upsert.rowCount === 0) {
+    throw new BallotError('A newer ballot has already been recorded', 409);
+  }
+
+  return { voter, weight, changed: !!previous, alreadyVoted: false };
+}
+
+function toTally(row: any): OptionTally {
+  return {
+    id: row.id,
+    tokenAddress: row.token_address,
+    tokenSymbol: row.token_symbol,
+    tokenName: row.token_name,
+    description: row.description,
+    voteCount: parseInt(row.vote_count, 10),
+    voteWeight: parseFloat(row.vote_weight)
+  };
+}
+
+/**
+ * Vote count and total weight per option, derived from user_votes (highest weight first)
+ */
+export async function getVotingTallies(votingPeriodId: number): Promise<OptionTally[]> {
+  const result = await query(
+    `SELECT
+      vo.id,
+      vo.token_address,
+      vo.token_symbol,
+      vo.token_name,
+      vo.description,
+      COUNT(uv.id) AS vote_count,
+      COALESCE(SUM(uv.weight), 0) AS vote_weight
+    FROM voting_options vo
+    LEFT JOIN user_votes uv ON uv.option_id = vo.id
+    WHERE vo.voting_period_id = $1
+    GROUP BY vo.id
+    ORDER BY vote_weight DESC, vote_count DESC, vo.id ASC`,
+    [votingPeriodId]
+  );
+  return result.rows.map(toTally);
+}
+
+/**
+ * Winner of a period (pure): highest total weight, then most votes, then the option added first
+ * (lowest id). With no votes at all the first option wins, so the weekly loop keeps going.
+ */
+export function pickWinningOption(tallies: OptionTally[]): OptionTally | null {
+  const ranked = [...tallies].sort((a, b) =>
+    b.voteWeight - a.voteWeight || b.voteCount - a.voteCount || a.id - b.id
+  );
+  return ranked[0] ?? null;
+}
+
+/**
+ * Close an ended period: record the winner, create the next contest for the winning token and
+ * track the token. Idempotent - a period that is already closed is left as is.
+ */
+export async function closeVotingPeriod(votingPeriodId: number): Promise<ClosePeriodResult> {
+  const periodResult = await query('SELECT * FROM voting_periods WHERE id = $1', [votingPeriodId]);
+  if (periodResult.rows.length === 0) {
+    throw new Error(`Voting period ${votingPeriodId} not found`);
+  }
+
+  const period = periodResult.rows[0];
+  if (period.closed_at) {
+    return { votingPeriodId, alreadyClosed: true, winner: null, contestId: null };
+  }
+
+  if (new Date(period.end_date).getTime() > Date.now()) {
+    throw new Error(`Voting period ${votingPeriodId} ends at ${new Date(period.end_date).toISOString()}`);
+  }
+
+  // Votes are rejected after end_date, so the tally is final
+  const tallies = await getVotingTallies(votingPeriodId);
+  const winner = pickWinningOption(tallies);
+
+  const tokenAddress = winner?.tokenAddress.toLowerCase() ?? null;
+  let symbol: string | null = null;
+  let decimals: number | null = null;
+  if (winner && tokenAddress) {
+    const metadata = await getTokenMetadata(tokenAddress);
+    symbol = metadata.symbol || winner.tokenSymbol;
+    decimals = metadata.decimals;
+    if (!symbol || decimals === null) {
+      // The indexer needs both; retry rather than track the token with made-up metadata
+      throw new Error(`Could not read symbol/decimals for ${tokenAddress}`);
+    }
+  }
+
+  const client = await getClient();
+  let contestId: number | null = null;
+  try {
+    await client.query('BEGIN');
+
+    const locked = await client.query(
+      'SELECT closed_at FROM voting_periods WHERE id = $1 FOR UPDATE',
+      [votingPeriodId]
+    );
+    if (locked.rows[0].closed_at) {
+      await client.query('ROLLBACK');
+      return { votingPeriodId, alreadyClosed: true, winner: null, contestId: null };
+    }
+
+    if (winner && tokenAddress) {
+      // Starts when the current contest ends, or now if none is running
+      const contestResult = await client.query(
+        `INSERT INTO weekly_contests (token_address, token_symbol, start_date, end_date, status, voting_period_id, created_at, updated_at)
+         SELECT $1, $2, s.start_date, s.start_date + ($3 || ' days')::interval, 'active', $4, NOW(), NOW()
+         FROM (
+           SELECT GREATEST(NOW(), COALESCE(MAX(end_date), NOW())) AS start_date
+           FROM weekly_contests
+           WHERE status = 'active' AND finalized_at IS NULL
+         ) s
+         RETURNING id`,
+        [tokenAddress, symbol, VOTED_CONTEST_DURATION_DAYS, votingPeriodId]
+      );
+      contestId = contestResult.rows[0].id;
+
+      await client.query(
+        `INSERT INTO tracked_tokens (token_address, symbol, decimals)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (token_address) DO NOTHING`,
+        [tokenAddress, symbol, decimals]
+      );
+    }
+
+    await client.query(
+      `UPDATE voting_periods
+       SET status = 'completed', winning_option_id = $2, winning_token_address = $3,
+           final_tally = $4, closed_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [votingPeriodId, winner?.id ?? null, tokenAddress, JSON.stringify(tallies)]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`[Voting] Closed period ${votingPeriodId}: winner ${winner ? `${symbol} (${tokenAddress})` : 'none'}, contest ${contestId ?? '-'}`);
+
+  return { votingPeriodId, alreadyClosed: false, winner, contestId };
+}
+
+/**
+ * Tell everyone who voted for the winning token (vote_won rule, see notificationRules)
+ * Returns the number of FIDs notified (0 when already done)
+ */
+export async function notifyVotersOfResult(votingPeriodId: number): Promise<number> {
+  const periodResult = await query(
+    'SELECT closed_at, voters_notified_at, winning_option_id FROM voting_periods WHERE id = $1',
+    [votingPeriodId]
+  );
+
+  const period = periodResult.rows[0];
+  if (!period?.closed_at || period.voters_notified_at || !period.winning_option_id) {
+    return 0;
+  }
+
+  const dispatches = await dispatchNotificationEvent({ type: 'voting.closed', votingPeriodId });
+
+  await query(
+    'UPDATE voting_periods SET voters_notified_at = NOW(), updated_at = NOW() WHERE id = $1',
+    [votingPeriodId]
+  );
+
+  return dispatches.reduce((sum, dispatch) => sum + dispatch.sent, 0);
+}
+
+/**
+ * Queue a close for every active period past its end date
+ * Returns the number of periods queued
+ */
+export async function scheduleVotingPeriodClose(): Promise<number> {
+  const result = await query(
+    `SELECT id FROM voting_periods
+     WHERE status = 'active' AND closed_at IS NULL AND end_date <= NOW()`
+  );
+
+  for (const row of result.rows) {
+    await enqueueJob(
+      'voting.close_period',
+      { votingPeriodId: row.id },
+      { dedupeKey: `voting.close_period:${row.id}` }
+    );
+  }
+
+  return result.rows.length;
+}
@@ -0,0 +1,368 @@
+// lib/services/webhookService.ts
+// Farcaster mini app webhook ingestion (/api/webhooks/farcaster).
+//
+// Events arrive either as a JSON Farcaster Signature straight from the client, verified against the
+// user's app key, or forwarded by Neynar as plain JSON signed with an HMAC of the raw body
+// (x-neynar-signature, NEYNAR_WEBHOOK_SECRET). Anything that does not verify is rejected. Every
+// request is appended to webhook_events with its outcome; a failed one can be replayed, which applies
+// its stored event again and logs the replay as a new row.
+//
+// Notification tokens belong to one Farcaster client (its app FID): enabling notifications replaces
+// that client's previous token for the user, and disabling or removing the app only drops that
+// client's tokens.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { parseWebhookEvent, verifyAppKeyWithNeynar } from '@farcaster/miniapp-node';
+import { query } from '@/lib/db/connection';
+
+export const WEBHOOK_EVENT_NAMES = [
+  'miniapp_added',
+  'miniapp_removed',
+  'notifications_enabled',
+  'notifications_disabled'
+] as const;
+
+export type WebhookEventName = typeof WEBHOOK_EVENT_NAMES[number];
+export type WebhookSource = 'farcaster' | 'neynar';
+export type WebhookEventStatus = 'processed' | 'rejected' | 'failed';
+
+export class WebhookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export interface MiniAppWebhookEvent {
+  fid: number;
+  appFid: number | null; // Farcaster client the event came from (null when Neynar does not say)
+  event: WebhookEventName;
+  notificationDetails: { token: string; url: string } | null;
+}
+
+export interface WebhookEventRecord {
+  id: number;
+  source: WebhookSource;
+  fid: number | null;
+  appFid: number | null;
+  event: string | null;
+  status: WebhookEventStatus;
+  error: string | null;
+  replayOf: number | null;
+  replayedByFid: number | null;
+  replayed: boolean; // A replay of this event was processed
+  receivedAt: string;
+}
+
+export interface WebhookOutcome {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Check Neynar's x-neynar-signature: hex HMAC-SHA512 of the raw body (pure)
+ */
+export function verifyNeynarSignature(rawBody: string, signature: string | null, secret: string): boolean {
+  if (!signature) {
+    return false;
+  }
+  const expected = createHmac('sha512', secret).update(rawBody).digest();
+  const given = Buffer.from(signature.trim(), 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+const toFid = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return Number.isInteger(parsed) && (parsed as number) > 0 ? (parsed as number) : null;
+};
+
+/**
+ * Validate an event's fields and shape it (pure)
+ * notifications_enabled must carry a token and url; miniapp_added may (notifications are optional)
+ */
+export function toWebhookEvent(input: {
+  fid: unknown;
+  appFid?: unknown;
+  event: unknown;
+  notificationDetails?: any;
+}): MiniAppWebhookEvent {
+  const fid = toFid(input.fid);
+  if (fid === null) {
+    throw new WebhookError('fid is required in verified payload');
+  }
+  if (!WEBHOOK_EVENT_NAMES.includes(input.event as WebhookEventName)) {
+    throw new WebhookError(`Unknown event type: ${input.event}`);
+  }
+  const event = input.event as WebhookEventName;
+
+  const details = input.notificationDetails;
+  const notificationDetails = details?.token && details?.url
+    ? { token: String(details.token), url: String(details.url) }
+    : null;
+  if (event === 'notifications_enabled' && !notificationDetails) {
+    throw new WebhookError('notificationDetails with token and url are required');
+  }
+
+  return {
+    fid,
+    appFid: toFid(input.appFid),
+    event,
+    notificationDetails: event === 'miniapp_added' || event === 'notifications_enabled' ? notificationDetails : null
+  };
+}
+
+/**
+ * Shape a Neynar-forwarded body into an event (pure) - field names vary between Neynar payloads
+ */
+export function parseForwardedEvent(body: any): MiniAppWebhookEvent {
+  return toWebhookEvent({
+    fid: body.fid ?? body.user_fid ?? body.user?.fid ?? body.notificationDetails?.fid,
+    appFid: body.appFid ?? body.app_fid ?? body.client_fid,
+    event: body.event,
+    notificationDetails: body.notificationDetails || body.notification_details || { token: body.token, url: body.url }
+  });
+}
+
+/**
+ * Verify a request body and turn it into an event
+ */
+async function verifyWebhook(
+  body: any,
+  rawBody: string,
+  signature: string | null
+): Promise<{ source: WebhookSource; event: MiniAppWebhookEvent }> {
+  if (body?.header && body?.payload && body?.signature) {
+    let result;
+    try {
+      result = await parseWebhookEvent(body, verifyAppKeyWithNeynar);
+    } catch (error: any) {
+      // Per Farcaster docs: bad data is a 400, a bad app key a 401, a failed key lookup a 500
+      const status = error.name === 'VerifyJsonFarcasterSignature.InvalidDataError' ||
+        error.name === 'VerifyJsonFarcasterSignature.InvalidEventDataError'
+        ? 400
+        : error.name === 'VerifyJsonFarcasterSignature.VerifyAppKeyError' ? 500 : 401;
+      throw new WebhookError(`Invalid webhook signature: ${error.message}`, status);
+    }
+
+    const payload: any = result.event;
+    return {
+      source: 'farcaster',
+      event: toWebhookEvent({
+        fid: result.fid,
+        appFid: result.appFid,
+        event: payload.event,
+        notificationDetails: payload.notificationDetails
+      })
+    };
+  }
+
+  if (body?.event) {
+    const secret = process.env.NEYNAR_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new WebhookError('NEYNAR_WEBHOOK_SECRET not configured - forwarded events cannot be verified', 500);
+    }
+    if (!verifyNeynarSignature(rawBody, signature, secret)) {
+      throw new WebhookError('Invalid x-neynar-signature', 401);
+    }
+    return { source: 'neynar', event: parseForwardedEvent(body) };
+  }
+
+  throw new WebhookError('Unknown webhook format. Expected Farcaster signature or Neynar forwarded format.');
+}
+
+/**
+ * Store or drop the event's notification tokens, scoped to the client it came from
+ * Events from an unknown client only touch tokens that were stored without a client. Tokens stored
+ * before clients were tracked have no client either, so a known client turning notifications off
+ * drops those too - they may have been its token.
+ */
+export async function applyWebhookEvent(event: MiniAppWebhookEvent): Promise<string> {
+  const clientApp = event.appFid !== null ? String(event.appFid) : null;
+
+  if (event.event === 'miniapp_added' || event.event === 'notifications_enabled') {
+    if (!event.notificationDetails) {
+      return 'Mini app added without notifications';
+    }
+
+    const { token, url } = event.notificationDetails;
+    await query(
+      `INSERT INTO notification_tokens (fid, token, url, client_app, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, NOW(), NOW())
+       ON CONFLICT (fid, token) DO UPDATE SET url = $3, client_app = $4, updated_at = NOW()`,
+      [event.fid, token, url, clientApp]
+    );
+    // A client keeps one token per user; the new one replaces whatever it sent before
+    await query(
+      'DELETE FROM notification_tokens WHERE fid = $1 AND client_app IS NOT DISTINCT FROM $2 AND token <> $3',
+      [event.fid, clientApp, token]
+    );
+    return 'Notification token received and stored';
+  }
+
+  const removed = await query(
+    'DELETE FROM notification_tokens WHERE fid = $1 AND (client_app IS NOT DISTINCT FROM $2 OR client_app IS NULL)',
+    [event.fid, clientApp]
+  );
+  return `Notification disabled (${removed.rowCount ?? 0} token(s) removed)`;
+}
+
+async function recordWebhookEvent(entry: {
+  source: WebhookSource | null;
+  rawBody: string;
+  signature: string | null;
+  event: MiniAppWebhookEvent | null;
+  status: WebhookEventStatus;
+  error: string | null;
+  replayOf?: number;
+  replayedByFid?: number;
+}): Promise<number> {
+  const result = await query(
+    `INSERT INTO webhook_events (
+      source, raw_body, signature, fid, app_fid, event, payload, status, error, replay_of, replayed_by_fid
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING id`,
+    [
+      entry.source ?? 'farcaster',
+      entry.rawBody,
+      entry.signature,
+      entry.event?.fid ?? null,
+      entry.event?.appFid ?? null,
+      entry.event?.event ?? null,
+      entry.event ? JSON.stringify(entry.event) : null,
+      entry.status,
+      entry.error,
+      entry.replayOf ?? null,
+      entry.replayedByFid ?? null
+    ]
+  );
+  return Number(result.rows[0].id);
+}
+
+/**
+ * Verify, apply and log one webhook request
+ * Returns the HTTP status and body for the route; every outcome is in webhook_events
+ */
+export async function ingestFarcasterWebhook(rawBody: string, signature: string | null): Promise<WebhookOutcome> {
+  let body: any;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    await recordWebhookEvent({ source: null, rawBody, signature, event: null, status: 'rejected', error: 'Body is not JSON' });
+    return { status: 400, body: { error: 'Body is not JSON' } };
+  }
+
+  const source: WebhookSource = body?.header && body?.payload && body?.signature ? 'farcaster' : 'neynar';
+  let verified: { source: WebhookSource; event: MiniAppWebhookEvent };
+  try {
+    verified = await verifyWebhook(body, rawBody, signature);
+  } catch (error: any) {
+    const status = error instanceof WebhookError ? error.status : 500;
+    await recordWebhookEvent({ source, rawBody, signature, event: null, status: 'rejected', error: error.message });
+    console.warn(`⚠️ Webhook rejected (${status}): ${error.message}`);
+    return { status, body: { error: error.message } };
+  }
+
+  try {
+    const message = await applyWebhookEvent(verified.event);
+    const eventId = await recordWebhookEvent({ ...verified, rawBody, signature, status: 'processed', error: null });
+    console.log(`✅ Webhook ${verified.event.event} for FID ${verified.event.fid} (client ${verified.event.appFid ?? 'unknown'}): ${message}`);
+    return { status: 200, body: { success: true, message, eventId } };
+  } catch (error: any) {
+    const eventId = await recordWebhookEvent({ ...verified, rawBody, signature, status: 'failed', error: error.message });
+    console.error(`❌ Webhook ${verified.event.event} for FID ${verified.event.fid} failed (event ${eventId}):`, error);
+    return { status: 500, body: { error: error.message || 'Failed to process webhook', eventId } };
+  }
+}
+
+function toWebhookEventRecord(row: any): WebhookEventRecord {
+  return {
+    id: Number(row.id),
+    source: row.source,
+    fid: row.fid,
+    appFid: row.app_fid,
+    event: row.event,
+    status: row.status,
+    error: row.error,
+    replayOf: row.replay_of !== null ? Number(row.replay_of) : null,
+    replayedByFid: row.replayed_by_fid,
+    replayed: row.replayed === true,
+    receivedAt: row.received_at
+  };
+}
+
+/**
+ * Latest webhook events, optionally by status
+ */
+export async function listWebhookEvents(
+  filters: { status?: WebhookEventStatus; limit?: number } = {}
+): Promise<WebhookEventRecord[]> {
+  const params: unknown[] = [];
+  let where = '';
+  if (filters.status) {
+    params.push(filters.status);
+    where = `WHERE e.status = $${params.length}`;
+  }
+  params.push(filters.limit ?? 100);
+
+  const result = await query(
+    `SELECT e.*,
+            EXISTS (SELECT 1 FROM webhook_events r WHERE r.replay_of = e.id AND r.status = 'processed') AS replayed
+     FROM webhook_events e
+     ${where}
+     ORDER BY e.received_at DESC, e.id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+  return result.rows.map(toWebhookEventRecord);
+}
+
+/**
+ * Apply a failed event's stored event again, logging the attempt as a new row
+ * Only failed events are replayable: they were verified when received, so the stored event is trusted
+ */
+export async function replayWebhookEvent(eventId: number, replayedByFid: number): Promise<WebhookEventRecord> {
+  const [original] = await getWebhookEventRows(eventId);
+  if (!original) {
+    throw new WebhookError(`Webhook event ${eventId} not found`, 404);
+  }
+  if (original.status !== 'failed' || !original.payload) {
+    throw new WebhookError(`Webhook event ${eventId} is ${original.status}; only failed events can be replayed`, 409);
+  }
+  if (original.replayed) {
+    throw new WebhookError(`Webhook event ${eventId} was already replayed`, 409);
+  }
+
+  const event: MiniAppWebhookEvent = original.payload;
+  let status: WebhookEventStatus = 'processed';
+  let error: string | null = null;
+  try {
+    await applyWebhookEvent(event);
+  } catch (err: any) {
+    status = 'failed';
+    error = err.message;
+  }
+
+  const id = await recordWebhookEvent({
+    source: original.source,
+    rawBody: original.raw_body,
+    signature: original.signature,
+    event,
+    status,
+    error,
+    replayOf: eventId,
+    replayedByFid
+  });
+  const [replay] = await getWebhookEventRows(id);
+  return toWebhookEventRecord(replay);
+}
+
+async function getWebhookEventRows(eventId: number): Promise<any[]> {
+  const result = await query(
+    `SELECT e.*,
+            EXISTS (SELECT 1 FROM webhook_events r WHERE r.replay_of = e.id AND r.status = 'processed') AS replayed
+     FROM webhook_events e
+     WHERE e.id = $1`,
+    [eventId]
+  );
+  return result.rows;
+}
@@ -0,0 +1,86 @@
+// EIP-712 ballots for token votes, and token nominations for the next voting period
+// Shared by the voting UI (signTypedData) and the verifiers in lib/services/votingService.ts
+// and lib/services/nominationService.ts
+
+export const BALLOT_DOMAIN = {
+  name: 'BadTraders Voting',
+  version: '1',
+  chainId: 8453 // Base mainnet
+};
+
+export const BALLOT_TYPES = {
+  Ballot: [
+    { name: 'votingPeriodId', type: 'uint256' },
+    { name: 'optionId', type: 'uint256' },
+    { name: 'tokenAddress', type: 'address' },
+    { name: 'voter', type: 'address' },
+    { name: 'issuedAt', type: 'uint256' }
+  ]
+};
+
+export const NOMINATION_TYPES = {
+  Nomination: [
+    { name: 'tokenAddress', type: 'address' },
+    { name: 'nominator', type: 'address' },
+    { name: 'issuedAt', type: 'uint256' }
+  ]
+};
+
+export interface Ballot {
+  votingPeriodId: number;
+  optionId: number;
+  tokenAddress: string; // Token of the option, so a ballot can't be moved to another option id
+  voter: string;
+  issuedAt: number; // Unix seconds
+}
+
+export interface Nomination {
+  tokenAddress: string;
+  nominator: string;
+  issuedAt: number; // Unix seconds
+}
+
+/**
+ * Ballot for the voter to sign, issued now
+ */
+export function buildBallot(fields: Omit<Ballot, 'issuedAt'>): Ballot {
+  return { ...fields, issuedAt: Math.floor(Date.now() / 1000) };
+}
+
+const isAddress = (address: unknown) => typeof address === 'string' && /^0x[a-fA-F0-9]{40}$/.test(address);
+
+/**
+ * Parse a ballot from a request body - returns null when a field is missing or malformed
+ */
+export function parseBallot(value: any): Ballot | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const votingPeriodId = Number(value.votingPeriodId);
+  const optionId = Number(value.optionId);
+  const issuedAt = Number(value.issuedAt);
+
+  if (!Number.isInteger(votingPeriodId) || !Number.isInteger(optionId) || !Number.isInteger(issuedAt)
+      || !isAddress(value.tokenAddress) || !isAddress(value.voter)) {
+    return null;
+  }
+
+  return { votingPeriodId, optionId, tokenAddress: value.tokenAddress, voter: value.voter, issuedAt };
+}
+
+/**
+ * Parse a nomination from a request body - returns null when a field is missing or malformed
+ */
+export function parseNomination(value: any): Nomination | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const issuedAt = Number(value.issuedAt);
+  if (!Number.isInteger(issuedAt) || !isAddress(value.tokenAddress) || !isAddress(value.nominator)) {
+    return null;
+  }
+
+  return { tokenAddress: value.tokenAddress, nominator: value.nominator, issuedAt };
+}
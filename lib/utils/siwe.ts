@@ -0,0 +1,81 @@
+// Sign-In With Ethereum (EIP-4361) message helpers
+// Shared by the admin sign-in flow in the browser and the verifier in lib/services/authService.ts
+
+export const SIWE_CHAIN_ID = 8453; // Base mainnet
+export const SIWE_STATEMENT = 'Sign in to BadTraders admin';
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+/**
+ * Build an EIP-4361 message for the wallet to sign
+ */
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    ...(fields.statement ? [fields.statement, ''] : []),
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  ];
+
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse an EIP-4361 message - returns null when required fields are missing or malformed
+ */
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split('\n');
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+  const address = lines[1]?.trim();
+
+  if (!header || !address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of lines.slice(2)) {
+    const match = line.match(/^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time): (.+)$/);
+    if (match) {
+      fields[match[1]] = match[2].trim();
+    }
+  }
+
+  // The statement is the optional free-text block between the address and the fields
+  const statement = lines[2] === '' && lines[3] && !lines[3].startsWith('URI: ') ? lines[3] : undefined;
+  const chainId = parseInt(fields['Chain ID'], 10);
+
+  if (!fields['URI'] || !fields['Version'] || isNaN(chainId) || !fields['Nonce'] || !fields['Issued At']) {
+    return null;
+  }
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId,
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time']
+  };
+}
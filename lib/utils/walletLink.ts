@@ -0,0 +1,45 @@
+// EIP-712 wallet links: add a wallet (e.g. one not verified on Farcaster) to a user's identity
+// Signed by both the wallet being added and a wallet already on the identity, so neither side can
+// be attached to the other without consent. Shared by the linking UI and lib/services/identityService.ts
+
+export const WALLET_LINK_DOMAIN = {
+  name: 'BadTraders Identity',
+  version: '1',
+  chainId: 8453 // Base mainnet
+};
+
+export const WALLET_LINK_TYPES = {
+  WalletLink: [
+    { name: 'fid', type: 'uint256' },
+    { name: 'wallet', type: 'address' },
+    { name: 'identityWallet', type: 'address' },
+    { name: 'issuedAt', type: 'uint256' }
+  ]
+};
+
+export interface WalletLink {
+  fid: number;
+  wallet: string; // Wallet being added
+  identityWallet: string; // Wallet already on the FID's identity, countersigning
+  issuedAt: number; // Unix seconds
+}
+
+const isAddress = (address: unknown) => typeof address === 'string' && /^0x[a-fA-F0-9]{40}$/.test(address);
+
+/**
+ * Parse a wallet link from a request body - returns null when a field is missing or malformed
+ */
+export function parseWalletLink(value: any): WalletLink | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const fid = Number(value.fid);
+  const issuedAt = Number(value.issuedAt);
+  if (!Number.isInteger(fid) || fid < 1 || !Number.isInteger(issuedAt)
+      || !isAddress(value.wallet) || !isAddress(value.identityWallet)) {
+    return null;
+  }
+
+  return { fid, wallet: value.wallet, identityWallet: value.identityWallet, issuedAt };
+}
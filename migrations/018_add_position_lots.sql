@@ -0,0 +1,73 @@
+-- Migration: Add lot-level cost basis tracking
+-- Every BUY opens a lot with its acquisition price/time, SELLs consume lots
+-- according to the token's cost basis method (FIFO, LIFO or average cost)
+-- The positions table stays as the per wallet/token summary
+
+BEGIN;
+
+-- 1. Cost basis method per tracked token
+ALTER TABLE tracked_tokens
+  ADD COLUMN IF NOT EXISTS cost_basis_method VARCHAR(10) NOT NULL DEFAULT 'fifo';
+
+ALTER TABLE tracked_tokens
+  DROP CONSTRAINT IF EXISTS tracked_tokens_cost_basis_method_check;
+
+ALTER TABLE tracked_tokens
+  ADD CONSTRAINT tracked_tokens_cost_basis_method_check
+  CHECK (cost_basis_method IN ('fifo', 'lifo', 'average'));
+
+-- 2. position_lots table (one row per acquisition)
+CREATE TABLE IF NOT EXISTS position_lots (
+  id BIGSERIAL PRIMARY KEY,
+  wallet_address VARCHAR(42) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  tx_hash VARCHAR(66),
+  leg_index INTEGER NOT NULL DEFAULT 0,
+  block_number BIGINT,
+  acquired_at TIMESTAMPTZ NOT NULL,
+  original_amount NUMERIC(78, 0) NOT NULL,
+  remaining_amount NUMERIC(78, 0) NOT NULL,
+  price_usd NUMERIC(38, 18) NOT NULL DEFAULT 0,
+  cost_basis_usd NUMERIC(38, 12) NOT NULL DEFAULT 0, -- Cost basis of the remaining amount
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_position_lots_wallet_token
+  ON position_lots(wallet_address, token_address, acquired_at, id);
+
+CREATE INDEX IF NOT EXISTS idx_position_lots_open
+  ON position_lots(wallet_address, token_address) WHERE remaining_amount > 0;
+
+-- Re-processing the same trade must not open a second lot
+CREATE UNIQUE INDEX IF NOT EXISTS u_position_lots_wallet_token_tx
+  ON position_lots(wallet_address, token_address, tx_hash, leg_index) WHERE tx_hash IS NOT NULL;
+
+-- 3. lot_disposals table (how each SELL consumed lots)
+CREATE TABLE IF NOT EXISTS lot_disposals (
+  id BIGSERIAL PRIMARY KEY,
+  lot_id BIGINT NOT NULL REFERENCES position_lots(id) ON DELETE CASCADE,
+  wallet_address VARCHAR(42) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  tx_hash VARCHAR(66),
+  leg_index INTEGER NOT NULL DEFAULT 0,
+  disposed_at TIMESTAMPTZ NOT NULL,
+  amount NUMERIC(78, 0) NOT NULL,
+  proceeds_usd NUMERIC(38, 12) NOT NULL DEFAULT 0,
+  cost_basis_usd NUMERIC(38, 12) NOT NULL DEFAULT 0,
+  realized_pnl_usd NUMERIC(38, 12) NOT NULL DEFAULT 0,
+  method VARCHAR(10) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lot_disposals_lot
+  ON lot_disposals(lot_id);
+
+CREATE INDEX IF NOT EXISTS idx_lot_disposals_wallet_token
+  ON lot_disposals(wallet_address, token_address, disposed_at);
+
+CREATE INDEX IF NOT EXISTS idx_lot_disposals_tx
+  ON lot_disposals(wallet_address, token_address, tx_hash, leg_index);
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Migration: Add price_snapshots cache for historical USD pricing
+-- Each row is a token's USD price resolved at a specific block, with the
+-- source that produced it and a confidence score (0-1)
+
+CREATE TABLE IF NOT EXISTS price_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  token_address VARCHAR(42) NOT NULL,
+  block_number BIGINT NOT NULL,
+  price_usd NUMERIC(38, 18) NOT NULL,
+  source VARCHAR(20) NOT NULL, -- 'stablecoin', 'chainlink', 'pool_at_block', 'swap_derived', 'bitquery', 'current_approx'
+  confidence FLOAT NOT NULL,
+  quote_token VARCHAR(42), -- Token the pool/swap price was denominated in before USD conversion
+  pool_address VARCHAR(42),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(token_address, block_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_token_block
+  ON price_snapshots(token_address, block_number DESC);
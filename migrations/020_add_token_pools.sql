@@ -0,0 +1,28 @@
+-- Migration: Add token_pools for on-chain pool discovery
+-- Pools pairing a tracked token with WETH/ETH or USDC on Uniswap V3, Uniswap V4 and Aerodrome
+-- The deepest pool (is_primary) is used for on-chain pricing
+
+CREATE TABLE IF NOT EXISTS token_pools (
+  id SERIAL PRIMARY KEY,
+  token_address VARCHAR(42) NOT NULL REFERENCES tracked_tokens(token_address) ON DELETE CASCADE,
+  pool_address VARCHAR(66) NOT NULL, -- Pool contract address, or the 32-byte V4 pool id
+  protocol VARCHAR(20) NOT NULL CHECK (protocol IN ('uniswap_v3', 'uniswap_v4', 'aerodrome')),
+  quote_token VARCHAR(42) NOT NULL, -- WETH, USDC, or 0x0 for native ETH (V4)
+  token0 VARCHAR(42) NOT NULL,
+  token1 VARCHAR(42) NOT NULL,
+  fee INTEGER, -- Uniswap fee tier in hundredths of a bip
+  tick_spacing INTEGER, -- Uniswap V4 only
+  stable BOOLEAN, -- Aerodrome only
+  liquidity NUMERIC(78, 0) NOT NULL DEFAULT 0, -- Active liquidity (V3/V4) or quote reserve (Aerodrome)
+  liquidity_usd NUMERIC(38, 2) NOT NULL DEFAULT 0, -- Quote-side depth x 2, used to rank pools
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  discovered_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(token_address, pool_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_pools_token ON token_pools(token_address, liquidity_usd DESC);
+
+
+-- Price snapshots can reference a V4 pool id
+ALTER TABLE price_snapshots ALTER COLUMN pool_address TYPE VARCHAR(66);
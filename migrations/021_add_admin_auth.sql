@@ -0,0 +1,48 @@
+-- Migration: Add signed admin authentication
+-- Admin roles move from hardcoded ADMIN_FIDS arrays into admin_roles
+-- auth_nonces / auth_sessions back Sign-In-With-Ethereum for admins outside the Farcaster client
+
+BEGIN;
+
+-- 1. Admin roles per FID
+CREATE TABLE IF NOT EXISTS admin_roles (
+  id SERIAL PRIMARY KEY,
+  fid BIGINT NOT NULL,
+  role VARCHAR(30) NOT NULL DEFAULT 'admin',
+  granted_by_fid BIGINT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(fid, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_roles_fid ON admin_roles(fid);
+
+-- Seed the admins previously hardcoded in every admin route
+INSERT INTO admin_roles (fid, role) VALUES
+  (474867, 'admin'),
+  (7212, 'admin')
+ON CONFLICT (fid, role) DO NOTHING;
+
+-- 2. SIWE nonces (single use, short lived)
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  nonce VARCHAR(64) PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires ON auth_nonces(expires_at);
+
+-- 3. SIWE sessions (only the SHA-256 of the session token is stored)
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id SERIAL PRIMARY KEY,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  fid BIGINT NOT NULL,
+  wallet_address VARCHAR(42) NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_fid ON auth_sessions(fid);
+
+COMMIT;
@@ -0,0 +1,32 @@
+-- Migration: Granular admin roles and an audit log of admin actions
+-- 'admin' keeps full access; the other roles each unlock one area of the admin panel
+-- admin_audit_log is append-only: one row per mutating admin action
+
+BEGIN;
+
+-- 1. Restrict admin_roles to the known roles
+ALTER TABLE admin_roles
+  DROP CONSTRAINT IF EXISTS admin_roles_role_check;
+
+ALTER TABLE admin_roles
+  ADD CONSTRAINT admin_roles_role_check
+  CHECK (role IN ('admin', 'contest_manager', 'notifier', 'loserboard_curator', 'indexer_operator'));
+
+-- 2. Audit log
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  actor_fid BIGINT, -- NULL for actions triggered with CRON_SECRET
+  auth_method VARCHAR(20) NOT NULL, -- 'quick_auth', 'siwe', 'cron_secret'
+  action VARCHAR(64) NOT NULL, -- e.g. 'contest.create', 'indexer.full_sync'
+  target_type VARCHAR(32),
+  target_id VARCHAR(128),
+  payload JSONB, -- Request parameters
+  diff JSONB, -- { field: { before, after } } for changed fields
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_fid, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON admin_audit_log(action, created_at DESC);
+
+COMMIT;
@@ -0,0 +1,52 @@
+-- Migration: Automated loserboard with frozen weekly snapshots
+-- The loserboard is now computed from indexed trades (lot disposals + open lots) per FID.
+-- Manual entries become pins (always shown on top) or loss overrides.
+-- Each finished week is frozen into loserboard_snapshots and never rewritten.
+
+BEGIN;
+
+-- 1. Manual entries: pin or override
+ALTER TABLE manual_loserboard_entries
+  ADD COLUMN IF NOT EXISTS entry_type VARCHAR(10) NOT NULL DEFAULT 'pin';
+
+ALTER TABLE manual_loserboard_entries
+  ADD COLUMN IF NOT EXISTS loss_override_usd NUMERIC(20, 2);
+
+ALTER TABLE manual_loserboard_entries
+  DROP CONSTRAINT IF EXISTS manual_loserboard_entries_entry_type_check;
+
+ALTER TABLE manual_loserboard_entries
+  ADD CONSTRAINT manual_loserboard_entries_entry_type_check
+  CHECK (entry_type IN ('pin', 'override'));
+
+-- 2. Frozen weekly snapshots (one row per week)
+CREATE TABLE IF NOT EXISTS loserboard_snapshots (
+  id SERIAL PRIMARY KEY,
+  week_start TIMESTAMPTZ NOT NULL UNIQUE, -- Monday 00:00 UTC
+  week_end TIMESTAMPTZ NOT NULL,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  total_loss_usd NUMERIC(20, 2) NOT NULL DEFAULT 0,
+  frozen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS loserboard_snapshot_entries (
+  id SERIAL PRIMARY KEY,
+  snapshot_id INTEGER NOT NULL REFERENCES loserboard_snapshots(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL,
+  fid BIGINT NOT NULL DEFAULT 0, -- 0 when the wallet has no Farcaster account
+  username TEXT,
+  display_name TEXT,
+  pfp_url TEXT,
+  address VARCHAR(42),
+  wallet_addresses TEXT[] NOT NULL DEFAULT '{}',
+  loss_usd NUMERIC(20, 2) NOT NULL DEFAULT 0,
+  realized_pnl_usd NUMERIC(20, 2) NOT NULL DEFAULT 0,
+  unrealized_pnl_usd NUMERIC(20, 2) NOT NULL DEFAULT 0,
+  source VARCHAR(10) NOT NULL, -- 'computed', 'pin', 'override'
+  UNIQUE(snapshot_id, rank)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loserboard_snapshot_entries_fid
+  ON loserboard_snapshot_entries(fid);
+
+COMMIT;
@@ -0,0 +1,81 @@
+-- Migration: Durable Postgres job queue
+-- Background work (contest wallet indexing, PnL recalculation, eligibility cleanup) is enqueued here
+-- instead of being fired and forgotten inside a serverless function. Workers claim jobs with a lease;
+-- a job whose lease expires (worker died) is picked up again. Failures retry with exponential backoff.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id BIGSERIAL PRIMARY KEY,
+  type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'running', 'succeeded', 'dead'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Not claimed before this (backoff)
+  locked_by TEXT, -- Worker id holding the lease
+  locked_until TIMESTAMPTZ, -- Lease expiry, extended by heartbeats
+  last_error TEXT,
+  result JSONB,
+  dedupe_key TEXT, -- At most one pending/running job per key
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT jobs_status_check CHECK (status IN ('pending', 'running', 'succeeded', 'dead'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claimable
+  ON jobs(run_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_lease
+  ON jobs(locked_until)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_type_status
+  ON jobs(type, status, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe_active
+  ON jobs(dedupe_key)
+  WHERE status IN ('pending', 'running');
+
+-- Registration indexing status, visible to the user
+ALTER TABLE contest_registrations
+  ADD COLUMN IF NOT EXISTS index_status VARCHAR(20) NOT NULL DEFAULT 'queued';
+
+ALTER TABLE contest_registrations
+  ADD COLUMN IF NOT EXISTS index_error TEXT;
+
+ALTER TABLE contest_registrations
+  ADD COLUMN IF NOT EXISTS index_job_id BIGINT REFERENCES jobs(id) ON DELETE SET NULL;
+
+ALTER TABLE contest_registrations
+  DROP CONSTRAINT IF EXISTS contest_registrations_index_status_check;
+
+ALTER TABLE contest_registrations
+  ADD CONSTRAINT contest_registrations_index_status_check
+  CHECK (index_status IN ('queued', 'indexing', 'indexed', 'failed'));
+
+UPDATE contest_registrations
+SET index_status = 'indexed'
+WHERE indexed_at IS NOT NULL AND index_status <> 'indexed';
+
+-- Re-queue registrations that were stuck under the old fire-and-forget indexing
+INSERT INTO jobs (type, payload, dedupe_key)
+SELECT
+  'contest.index_wallet',
+  jsonb_build_object('registrationId', cr.id),
+  'contest.index_wallet:' || cr.id
+FROM contest_registrations cr
+WHERE cr.indexed_at IS NULL
+ON CONFLICT (dedupe_key) WHERE status IN ('pending', 'running') DO NOTHING;
+
+UPDATE contest_registrations cr
+SET index_job_id = j.id
+FROM jobs j
+WHERE j.dedupe_key = 'contest.index_wallet:' || cr.id
+  AND j.status = 'pending'
+  AND cr.indexed_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Migration: Continuous contest PnL refresh
+-- Registrations in active contests are re-indexed from their last indexed block on a schedule
+-- (contest.refresh_pnl jobs) and re-marked at the current price. Every refresh appends a point
+-- to contest_pnl_snapshots so each participant's PnL curve can be charted.
+
+BEGIN;
+
+ALTER TABLE contest_registrations
+  ADD COLUMN IF NOT EXISTS last_indexed_block BIGINT;
+
+CREATE TABLE IF NOT EXISTS contest_pnl_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  registration_id INTEGER NOT NULL REFERENCES contest_registrations(id) ON DELETE CASCADE,
+  contest_id INTEGER NOT NULL REFERENCES weekly_contests(id) ON DELETE CASCADE,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  pnl_usd NUMERIC(38, 12) NOT NULL,
+  realized_pnl_usd NUMERIC(38, 12) NOT NULL DEFAULT 0,
+  unrealized_pnl_usd NUMERIC(38, 12) NOT NULL DEFAULT 0,
+  mark_price_usd NUMERIC(38, 18), -- Token price used for unrealized PnL (NULL if unavailable)
+  trade_count INTEGER NOT NULL DEFAULT 0,
+  last_block BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_contest_pnl_snapshots_registration
+  ON contest_pnl_snapshots(registration_id, captured_at);
+
+CREATE INDEX IF NOT EXISTS idx_contest_pnl_snapshots_contest
+  ON contest_pnl_snapshots(contest_id, captured_at);
+
+COMMIT;
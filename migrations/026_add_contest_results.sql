@@ -0,0 +1,85 @@
+-- Migration: Contest finalization and immutable results
+-- At end_date a contest is finalized: PnL is frozen at the end-of-contest price, participants are ranked
+-- (ties share a rank, wallets under the minimum trade volume are unranked) and winners recorded.
+-- Results are append-only: reopening a contest records a reason in contest_reopenings and a later
+-- finalization writes a new result version instead of changing the old one.
+
+BEGIN;
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS min_volume_usd NUMERIC(20, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS winner_count INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS contest_results (
+  id SERIAL PRIMARY KEY,
+  contest_id INTEGER NOT NULL REFERENCES weekly_contests(id),
+  version INTEGER NOT NULL,
+  end_block BIGINT NOT NULL,
+  end_price_usd NUMERIC(38, 18) NOT NULL,
+  min_volume_usd NUMERIC(20, 2) NOT NULL,
+  winner_count INTEGER NOT NULL,
+  participant_count INTEGER NOT NULL,
+  ranked_count INTEGER NOT NULL,
+  finalized_by_fid BIGINT, -- NULL when finalized by cron
+  finalized_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(contest_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS contest_result_entries (
+  id SERIAL PRIMARY KEY,
+  result_id INTEGER NOT NULL REFERENCES contest_results(id),
+  registration_id INTEGER NOT NULL,
+  wallet_address TEXT NOT NULL,
+  fid BIGINT,
+  rank INTEGER, -- NULL when not ranked (see disqualified_reason)
+  is_winner BOOLEAN NOT NULL DEFAULT FALSE,
+  pnl_usd NUMERIC(38, 12) NOT NULL,
+  realized_pnl_usd NUMERIC(38, 12) NOT NULL,
+  unrealized_pnl_usd NUMERIC(38, 12) NOT NULL,
+  volume_usd NUMERIC(38, 12) NOT NULL,
+  trade_count INTEGER NOT NULL,
+  disqualified_reason VARCHAR(30), -- 'below_min_volume', 'not_indexed'
+  UNIQUE(result_id, registration_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contest_result_entries_result
+  ON contest_result_entries(result_id, rank);
+
+CREATE TABLE IF NOT EXISTS contest_reopenings (
+  id SERIAL PRIMARY KEY,
+  contest_id INTEGER NOT NULL REFERENCES weekly_contests(id),
+  result_id INTEGER NOT NULL REFERENCES contest_results(id),
+  reason TEXT NOT NULL,
+  reopened_by_fid BIGINT NOT NULL,
+  reopened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(result_id)
+);
+
+-- Results and reopenings can never be rewritten
+CREATE OR REPLACE FUNCTION prevent_contest_result_changes() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS contest_results_immutable ON contest_results;
+CREATE TRIGGER contest_results_immutable
+  BEFORE UPDATE OR DELETE ON contest_results
+  FOR EACH ROW EXECUTE FUNCTION prevent_contest_result_changes();
+
+DROP TRIGGER IF EXISTS contest_result_entries_immutable ON contest_result_entries;
+CREATE TRIGGER contest_result_entries_immutable
+  BEFORE UPDATE OR DELETE ON contest_result_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_contest_result_changes();
+
+DROP TRIGGER IF EXISTS contest_reopenings_immutable ON contest_reopenings;
+CREATE TRIGGER contest_reopenings_immutable
+  BEFORE UPDATE OR DELETE ON contest_reopenings
+  FOR EACH ROW EXECUTE FUNCTION prevent_contest_result_changes();
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Migration: Signature-verified votes and weighted tallies
+-- Votes are EIP-712 signed ballots naming the voting period and option; the signature is kept with the vote.
+-- Tallies are derived from user_votes, so the voting_options.vote_count counter is dropped.
+-- A period can weight votes by the voter's $BADTRADERS balance at snapshot_block (the period start).
+
+BEGIN;
+
+ALTER TABLE voting_periods
+  ADD COLUMN IF NOT EXISTS weighting TEXT NOT NULL DEFAULT 'equal';
+
+ALTER TABLE voting_periods
+  DROP CONSTRAINT IF EXISTS voting_periods_weighting_check;
+
+ALTER TABLE voting_periods
+  ADD CONSTRAINT voting_periods_weighting_check CHECK (weighting IN ('equal', 'balance'));
+
+ALTER TABLE voting_periods
+  ADD COLUMN IF NOT EXISTS snapshot_block BIGINT;
+
+ALTER TABLE user_votes
+  ADD COLUMN IF NOT EXISTS signature TEXT; -- NULL for votes cast before ballots were signed
+
+ALTER TABLE user_votes
+  ADD COLUMN IF NOT EXISTS ballot_issued_at TIMESTAMPTZ;
+
+ALTER TABLE user_votes
+  ADD COLUMN IF NOT EXISTS weight NUMERIC(38, 18) NOT NULL DEFAULT 1;
+
+DROP INDEX IF EXISTS idx_voting_options_votes;
+
+ALTER TABLE voting_options
+  DROP COLUMN IF EXISTS vote_count;
+
+COMMIT;
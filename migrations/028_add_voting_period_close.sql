@@ -0,0 +1,26 @@
+-- Migration: Automatic voting period close
+-- At end_date a period is tallied, the winner recorded and the next weekly contest created for the
+-- winning token (weekly_contests.voting_period_id links the two; one contest per period).
+
+BEGIN;
+
+ALTER TABLE voting_periods
+  ADD COLUMN IF NOT EXISTS winning_option_id INTEGER REFERENCES voting_options(id);
+
+ALTER TABLE voting_periods
+  ADD COLUMN IF NOT EXISTS final_tally JSONB; -- Tallies at close, in winner-first order
+
+ALTER TABLE voting_periods
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ; -- NULL for periods closed by hand before this migration
+
+ALTER TABLE voting_periods
+  ADD COLUMN IF NOT EXISTS voters_notified_at TIMESTAMPTZ;
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS voting_period_id INTEGER REFERENCES voting_periods(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_weekly_contests_voting_period
+  ON weekly_contests(voting_period_id)
+  WHERE voting_period_id IS NOT NULL;
+
+COMMIT;
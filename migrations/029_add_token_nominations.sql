@@ -0,0 +1,46 @@
+-- Migration: Community token nominations
+-- Registered holders nominate tokens (signed); admins approve or reject them from a moderation queue.
+-- Approved nominations become voting options when the next voting period is created.
+-- A wallet has at most one open nomination (pending or approved, not yet used), and a token can only be
+-- nominated once per round.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS token_nominations (
+  id SERIAL PRIMARY KEY,
+  token_address TEXT NOT NULL,
+  token_symbol TEXT,
+  token_name TEXT,
+  reason TEXT,
+  nominator_wallet TEXT NOT NULL,
+  nominator_fid BIGINT,
+  signature TEXT NOT NULL, -- EIP-712 signature of the nomination
+  pool_address TEXT, -- Deepest pool found at submission
+  liquidity_usd NUMERIC(38, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  review_note TEXT,
+  reviewed_by_fid BIGINT,
+  reviewed_at TIMESTAMPTZ,
+  voting_option_id INTEGER REFERENCES voting_options(id), -- Set when added to a period
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE token_nominations
+  DROP CONSTRAINT IF EXISTS token_nominations_status_check;
+
+ALTER TABLE token_nominations
+  ADD CONSTRAINT token_nominations_status_check CHECK (status IN ('pending', 'approved', 'rejected', 'used'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_nominations_open_wallet
+  ON token_nominations(nominator_wallet)
+  WHERE status IN ('pending', 'approved');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_nominations_open_token
+  ON token_nominations(token_address)
+  WHERE status IN ('pending', 'approved');
+
+CREATE INDEX IF NOT EXISTS idx_token_nominations_status
+  ON token_nominations(status, created_at);
+
+COMMIT;
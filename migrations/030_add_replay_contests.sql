@@ -0,0 +1,30 @@
+-- Migration: Historical "bad week" replay contests
+-- A replay contest covers a past date range: registered wallets are scored on the trades they
+-- actually made in that window, with open positions marked at the price at the window's end block.
+-- The window is resolved to blocks once, when the contest is created, and entries stay open until
+-- registration_ends_at, after which the contest is finalized like a live one.
+
+BEGIN;
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS mode VARCHAR(10) NOT NULL DEFAULT 'live';
+
+ALTER TABLE weekly_contests
+  DROP CONSTRAINT IF EXISTS weekly_contests_mode_check;
+
+ALTER TABLE weekly_contests
+  ADD CONSTRAINT weekly_contests_mode_check CHECK (mode IN ('live', 'replay'));
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS start_block BIGINT; -- Set for replays
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS end_block BIGINT; -- Set for replays
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS registration_ends_at TIMESTAMPTZ; -- Replays only; live contests close at end_date
+
+CREATE INDEX IF NOT EXISTS idx_weekly_contests_mode
+  ON weekly_contests(mode, end_date DESC);
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- Migration: Block timestamp anchors
+-- Known (block number, timestamp) pairs for Base, written by the block-time resolver as it fetches
+-- blocks and by the Bitquery sync from the trades it sees. Date-to-block lookups start their binary
+-- search between the nearest anchors instead of from genesis.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS block_anchors (
+  block_number BIGINT PRIMARY KEY,
+  block_timestamp BIGINT NOT NULL, -- Unix seconds
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_block_anchors_timestamp
+  ON block_anchors(block_timestamp);
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Migration: Record the venue of user-indexed trades
+-- The user indexer decodes swaps from Uniswap V2/V3/V4, Aerodrome/Velodrome, BaseSwap and PancakeSwap
+-- pools (including trades routed through aggregators) and falls back to a net-transfer heuristic;
+-- venue records which one a trade came from ('unknown' for the fallback).
+
+BEGIN;
+
+ALTER TABLE user_trades
+  ADD COLUMN IF NOT EXISTS venue VARCHAR(40);
+
+ALTER TABLE user_trades
+  ADD COLUMN IF NOT EXISTS source VARCHAR(10); -- 'log' (decoded swap event) or 'trace'
+
+COMMIT;
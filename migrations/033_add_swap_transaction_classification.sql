@@ -0,0 +1,16 @@
+-- Migration: Record what each swap transaction was for its trader
+-- txAnalyzer nets the trading wallet's balance changes per asset and classifies the transaction
+-- (buy, sell, transfer, lp_add, lp_remove, airdrop or none) with a 0-1 confidence.
+
+BEGIN;
+
+ALTER TABLE swap_transactions
+  ADD COLUMN IF NOT EXISTS classification VARCHAR(20);
+
+ALTER TABLE swap_transactions
+  ADD COLUMN IF NOT EXISTS classification_confidence NUMERIC(3, 2);
+
+CREATE INDEX IF NOT EXISTS idx_swap_transactions_classification
+  ON swap_transactions(classification);
+
+COMMIT;
@@ -0,0 +1,48 @@
+-- Migration: Fold plain token transfers into position tracking
+-- Airdrops, gifts and wallet-to-wallet moves from token_transfers open and consume lots like trades.
+-- tracked_tokens.transfer_basis_policy sets the cost basis of tokens received by transfer:
+--   zero        - no cost basis (selling them is all gain)
+--   fair_value  - the token's price at the receiving block
+--   carry_over  - the sender's basis moves with the tokens between wallets of the same FID;
+--                 transfers from anyone else get zero basis
+
+BEGIN;
+
+ALTER TABLE tracked_tokens
+  ADD COLUMN IF NOT EXISTS transfer_basis_policy VARCHAR(12) NOT NULL DEFAULT 'carry_over';
+
+ALTER TABLE tracked_tokens
+  DROP CONSTRAINT IF EXISTS tracked_tokens_transfer_basis_policy_check;
+
+ALTER TABLE tracked_tokens
+  ADD CONSTRAINT tracked_tokens_transfer_basis_policy_check
+  CHECK (transfer_basis_policy IN ('zero', 'fair_value', 'carry_over'));
+
+-- Where a lot came from, and whether a disposal was a sell or tokens leaving by transfer
+ALTER TABLE position_lots
+  ADD COLUMN IF NOT EXISTS source VARCHAR(12) NOT NULL DEFAULT 'swap'; -- 'swap' or 'transfer_in'
+
+ALTER TABLE lot_disposals
+  ADD COLUMN IF NOT EXISTS kind VARCHAR(12) NOT NULL DEFAULT 'sell'; -- 'sell' or 'transfer_out' (realizes nothing)
+
+-- One row per wallet side of each applied transfer, so a transfer is folded in exactly once
+CREATE TABLE IF NOT EXISTS position_transfers (
+  id BIGSERIAL PRIMARY KEY,
+  tx_hash VARCHAR(66) NOT NULL,
+  log_index INTEGER NOT NULL,
+  wallet_address VARCHAR(42) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  direction VARCHAR(3) NOT NULL CHECK (direction IN ('in', 'out')),
+  counterparty VARCHAR(42) NOT NULL,
+  amount NUMERIC(78, 0) NOT NULL,
+  block_number BIGINT NOT NULL,
+  basis_policy VARCHAR(12), -- Policy applied to an inbound transfer
+  cost_basis_usd NUMERIC(38, 12) NOT NULL DEFAULT 0, -- Basis received (in) or moved out (out)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(tx_hash, log_index, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_position_transfers_wallet_token
+  ON position_transfers(wallet_address, token_address, block_number);
+
+COMMIT;
@@ -0,0 +1,36 @@
+-- Migration: Link all of a Farcaster user's wallets into one identity
+-- An identity is an FID plus every wallet on it: Farcaster-verified addresses (synced from Neynar),
+-- wallets used to register, and wallets added with a signed link (EIP-712, signed by the new wallet
+-- and countersigned by one already on the identity). A wallet belongs to at most one identity.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS identity_wallets (
+  id BIGSERIAL PRIMARY KEY,
+  fid BIGINT NOT NULL,
+  wallet_address VARCHAR(42) NOT NULL UNIQUE,
+  source VARCHAR(12) NOT NULL CHECK (source IN ('farcaster', 'registration', 'signed')),
+  linked_by_wallet VARCHAR(42), -- Identity wallet that countersigned a signed link
+  signature TEXT, -- Signature of the linked wallet over the link
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_wallets_fid
+  ON identity_wallets(fid);
+
+-- Existing registrations are the first wallets of each identity
+INSERT INTO identity_wallets (fid, wallet_address, source)
+SELECT fid, LOWER(wallet_address), 'registration'
+FROM users
+WHERE wallet_address IS NOT NULL
+ON CONFLICT (wallet_address) DO NOTHING;
+
+INSERT INTO identity_wallets (fid, wallet_address, source)
+SELECT DISTINCT ON (LOWER(wallet_address)) fid, LOWER(wallet_address), 'registration'
+FROM contest_registrations
+WHERE fid IS NOT NULL
+ORDER BY LOWER(wallet_address), created_at DESC
+ON CONFLICT (wallet_address) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration: Track self-hosted notification deliveries per token
+-- Notifications are POSTed straight to each stored token's url (see lib/services/notificationDelivery.ts).
+-- One row per (notificationId, token) makes a resend with the same notificationId idempotent:
+-- tokens already delivered or found invalid are skipped, rate-limited and failed ones are retried.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  notification_id VARCHAR(128) NOT NULL,
+  fid INTEGER NOT NULL,
+  token TEXT NOT NULL,
+  url TEXT NOT NULL,
+  status VARCHAR(12) NOT NULL CHECK (status IN ('sent', 'invalid', 'rate_limited', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(notification_id, token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_fid
+  ON notification_deliveries(fid, created_at DESC);
+
+COMMIT;
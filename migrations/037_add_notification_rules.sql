@@ -0,0 +1,36 @@
+-- Migration: Notification rules engine - per-category opt-outs and a sent log
+-- Weekly-loop events (contest opens/closing, loserboard, indexing done, vote won, eligibility lost)
+-- are turned into templated notifications by lib/services/notificationRules.ts.
+-- A user is opted in to every category unless notification_preferences has enabled = false.
+-- notification_sends has one row per (dedup key, FID) sent, so re-running a rule never notifies twice.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  fid INTEGER NOT NULL,
+  category VARCHAR(32) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (fid, category)
+);
+
+CREATE TABLE IF NOT EXISTS notification_sends (
+  id BIGSERIAL PRIMARY KEY,
+  category VARCHAR(32) NOT NULL,
+  dedup_key VARCHAR(200) NOT NULL,
+  notification_id VARCHAR(128) NOT NULL,
+  fid INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  target_url TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(dedup_key, fid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_sends_created
+  ON notification_sends(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_sends_fid
+  ON notification_sends(fid, created_at DESC);
+
+COMMIT;
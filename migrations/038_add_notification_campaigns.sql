@@ -0,0 +1,38 @@
+-- Migration: Segmented, scheduled notification campaigns
+-- An admin writes a campaign once, picks a segment (registered users, a contest's participants,
+-- a voting period's voters, holders above a balance, Bag NFT holders) and a time. The cron route
+-- queues due campaigns as notifications.campaign jobs; the first run snapshots the audience into
+-- audience_fids, and each run sends the next few batches from sent_count on, so a large audience
+-- is spread over several runs. Delivery counts add up as batches go out.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS notification_campaigns (
+  id SERIAL PRIMARY KEY,
+  title VARCHAR(32) NOT NULL,
+  body VARCHAR(128) NOT NULL,
+  target_url TEXT NOT NULL,
+  segment JSONB NOT NULL, -- { type, contestId? | votingPeriodId? | minBalance? }
+  status VARCHAR(10) NOT NULL DEFAULT 'scheduled',
+  scheduled_for TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by_fid INTEGER NOT NULL,
+  audience_fids INTEGER[], -- Snapshot taken when sending starts
+  sent_count INTEGER NOT NULL DEFAULT 0, -- FIDs of audience_fids handed to the backend so far
+  successful INTEGER NOT NULL DEFAULT 0,
+  invalid INTEGER NOT NULL DEFAULT 0,
+  rate_limited INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT notification_campaigns_status_check
+    CHECK (status IN ('scheduled', 'sending', 'sent', 'cancelled', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_campaigns_due
+  ON notification_campaigns(status, scheduled_for);
+
+COMMIT;
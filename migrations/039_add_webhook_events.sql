@@ -0,0 +1,37 @@
+-- Migration: Append-only log of Farcaster webhook events, and per-client notification tokens
+-- Every request to /api/webhooks/farcaster is stored with its raw body and what became of it:
+-- processed, rejected (bad signature or payload) or failed (error while applying it). A failed event
+-- is replayed from the admin page by applying its stored event again; the replay is a new row
+-- pointing at the original (replay_of), so nothing here is ever updated.
+--
+-- Farcaster clients each hold their own token per user (client_app = the client's app FID), so
+-- notifications_disabled / miniapp_removed from one client only removes that client's tokens.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id BIGSERIAL PRIMARY KEY,
+  source VARCHAR(20) NOT NULL, -- 'farcaster' (JSON Farcaster Signature) or 'neynar' (forwarded, HMAC-signed)
+  raw_body TEXT NOT NULL,
+  signature TEXT, -- x-neynar-signature, when sent
+  fid INTEGER,
+  app_fid INTEGER,
+  event VARCHAR(40),
+  payload JSONB, -- The verified event as applied (what a replay applies again)
+  status VARCHAR(10) NOT NULL CHECK (status IN ('processed', 'rejected', 'failed')),
+  error TEXT,
+  replay_of BIGINT REFERENCES webhook_events(id),
+  replayed_by_fid INTEGER,
+  received_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status
+  ON webhook_events(status, received_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_replay_of
+  ON webhook_events(replay_of);
+
+CREATE INDEX IF NOT EXISTS idx_notification_tokens_client
+  ON notification_tokens(fid, client_app);
+
+COMMIT;
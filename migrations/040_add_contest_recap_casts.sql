@@ -0,0 +1,24 @@
+-- Migration: Weekly recap casts published for a contest
+-- The recap thread (top losers, total lost, next week's voted token, link) is generated from the
+-- finalized result, edited by an admin and published as a cast followed by replies. Each published
+-- cast's hash is stored by its position in the thread, so a thread that failed part-way resumes
+-- under the last published cast; recap_published_at marks the whole thread as out.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS contest_recap_casts (
+  contest_id INTEGER NOT NULL REFERENCES weekly_contests(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL, -- 0 = the top-level cast, then replies in order
+  hash TEXT NOT NULL,
+  parent_hash TEXT,
+  text TEXT NOT NULL,
+  embeds TEXT[] NOT NULL DEFAULT '{}',
+  published_by_fid INTEGER,
+  published_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (contest_id, position)
+);
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS recap_published_at TIMESTAMPTZ;
+
+COMMIT;
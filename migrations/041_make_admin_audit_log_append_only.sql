@@ -0,0 +1,18 @@
+-- Migration: Enforce that admin_audit_log is append-only
+-- Migration 022 documented the log as append-only; this makes the database reject UPDATE and DELETE
+-- on it, the same way migration 026 protects contest results.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION prevent_admin_audit_log_changes() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_immutable ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_immutable
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+COMMIT;
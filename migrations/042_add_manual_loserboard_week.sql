@@ -0,0 +1,23 @@
+-- Migration: Scope manual loserboard entries to a week
+-- A pin or override applies to the live board during its week and is frozen into that week's
+-- snapshot; it no longer applies to every week. Existing entries belong to the week they were added.
+
+BEGIN;
+
+ALTER TABLE manual_loserboard_entries
+  ADD COLUMN IF NOT EXISTS week_start TIMESTAMPTZ; -- Monday 00:00 UTC
+
+UPDATE manual_loserboard_entries
+SET week_start = date_trunc('week', COALESCE(added_at, NOW() AT TIME ZONE 'UTC')) AT TIME ZONE 'UTC'
+WHERE week_start IS NULL;
+
+ALTER TABLE manual_loserboard_entries
+  ALTER COLUMN week_start SET DEFAULT (date_trunc('week', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC');
+
+ALTER TABLE manual_loserboard_entries
+  ALTER COLUMN week_start SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_manual_loserboard_week
+  ON manual_loserboard_entries(week_start);
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Migration: Keep only verified wallets on identities
+-- Migration 035 seeded identities with 'registration' wallets taken from users and
+-- contest_registrations, both written from unauthenticated requests. Identities now only hold
+-- Farcaster-verified addresses (synced from Neynar) and signed links; verified wallets among the
+-- removed rows come back on the next sync.
+
+BEGIN;
+
+DELETE FROM identity_wallets WHERE source = 'registration';
+
+ALTER TABLE identity_wallets DROP CONSTRAINT IF EXISTS identity_wallets_source_check;
+ALTER TABLE identity_wallets
+  ADD CONSTRAINT identity_wallets_source_check CHECK (source IN ('farcaster', 'signed'));
+
+COMMIT;
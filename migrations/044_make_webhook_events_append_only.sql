@@ -0,0 +1,18 @@
+-- Migration: Enforce that webhook_events is append-only
+-- Migration 039 documented the log as append-only (replays are new rows); this makes the database
+-- reject UPDATE and DELETE on it, like admin_audit_log (041).
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION prevent_webhook_events_changes() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS webhook_events_immutable ON webhook_events;
+CREATE TRIGGER webhook_events_immutable
+  BEFORE UPDATE OR DELETE ON webhook_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_webhook_events_changes();
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration: Serialize recap publishing
+-- publishRecap claims the contest (recap_publishing_at) before casting, so two admins publishing at
+-- once cannot both post the thread. The claim is released when publishing stops; one left behind by
+-- a crashed run can be taken over once it is stale.
+
+BEGIN;
+
+ALTER TABLE weekly_contests
+  ADD COLUMN IF NOT EXISTS recap_publishing_at TIMESTAMPTZ;
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration: Gas paid per contest trade
+-- Fee-adjusted PnL subtracts what the trader paid in gas: gasUsed x effectiveGasPrice from the
+-- receipt, priced with the Chainlink ETH/USD round at the trade's block. NULL for trades indexed
+-- before this, or when the gas was paid by a wallet outside the trader's identity.
+
+BEGIN;
+
+ALTER TABLE user_trades
+  ADD COLUMN IF NOT EXISTS gas_fee_usd NUMERIC(30, 12);
+
+COMMIT;
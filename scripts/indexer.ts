@@ -7,12 +7,23 @@
  * - On a separate service (Railway, Render, Fly.io, etc.)
  * - As a long-running process without time limits
  *
+ * Also drains the job queue (contest wallet indexing, PnL refresh/recalculation, eligibility cleanup)
+ * and queues live PnL refreshes for registrations in active contests.
+ * In continuous mode the queue is polled every INDEXER_JOB_POLL_INTERVAL ms (default 30s).
+ *
  * Usage:
  *   npm run indexer              # Run once and exit
  *   npm run indexer:watch       # Run continuously with intervals
  */
 
 import { syncAllWallets } from '../lib/services/indexerService';
+import { scheduleContestPnLRefresh } from '../lib/services/contestPnLService';
+import { scheduleContestFinalization } from '../lib/services/contestResultsService';
+import { scheduleVotingPeriodClose } from '../lib/services/votingService';
+import { scheduleNotificationEvents } from '../lib/services/notificationRules';
+import { scheduleDueCampaigns } from '../lib/services/campaignService';
+import { runJobWorker } from '../lib/services/jobHandlers';
+import { createWorkerId } from '../lib/services/jobQueueService';
 import { query } from '../lib/db/connection';
 
 // Configuration
@@ -20,8 +31,49 @@ const SYNC_INTERVAL_MS = process.env.INDEXER_SYNC_INTERVAL
   ? parseInt(process.env.INDEXER_SYNC_INTERVAL)
   : 12 * 60 * 60 * 1000; // Default: 12 hours
 
+const JOB_POLL_INTERVAL_MS = process.env.INDEXER_JOB_POLL_INTERVAL
+  ? parseInt(process.env.INDEXER_JOB_POLL_INTERVAL)
+  : 30 * 1000; // Default: 30 seconds
+
 const RUN_CONTINUOUSLY = process.env.INDEXER_CONTINUOUS === 'true';
 
+const WORKER_ID = createWorkerId('indexer');
+
+/**
+ * Queue due voting period closes, contest finalizations, PnL refreshes and notifications, then run queued jobs until the queue is empty
+ */
+async function drainJobs(): Promise<void> {
+  const closing = await scheduleVotingPeriodClose();
+  if (closing > 0) {
+    console.log(`🗳️  Queued close for ${closing} ended voting period(s)`);
+  }
+
+  const finalizing = await scheduleContestFinalization();
+  if (finalizing > 0) {
+    console.log(`🏁 Queued finalization for ${finalizing} ended contest(s)`);
+  }
+
+  const scheduled = await scheduleContestPnLRefresh();
+  if (scheduled > 0) {
+    console.log(`📈 Queued PnL refresh for ${scheduled} contest registration(s)`);
+  }
+
+  const notifying = await scheduleNotificationEvents();
+  if (notifying > 0) {
+    console.log(`🔔 Queued ${notifying} notification event(s)`);
+  }
+
+  const campaigns = await scheduleDueCampaigns();
+  if (campaigns > 0) {
+    console.log(`📣 Queued ${campaigns} notification campaign(s)`);
+  }
+
+  const result = await runJobWorker({ workerId: WORKER_ID, maxJobs: 500 });
+  if (result.claimed > 0 || result.reaped > 0) {
+    console.log(`🧾 Jobs: ${result.claimed} claimed, ${result.succeeded} succeeded, ${result.retried} retrying, ${result.dead} dead, ${result.reaped} expired`);
+  }
+}
+
 /**
  * Run a single sync cycle
  */
@@ -47,6 +99,9 @@ async function runSync(): Promise<void> {
     // Run sync
     await syncAllWallets();
 
+    // Run queued contest jobs
+    await drainJobs();
+
     const duration = Date.now() - startTime;
     const minutes = Math.floor(duration / 60000);
     const seconds = Math.floor((duration % 60000) / 1000);
@@ -84,6 +139,7 @@ async function main() {
   console.log('🔍 Indexer Service Starting...');
   console.log(`   Mode: ${RUN_CONTINUOUSLY ? 'Continuous (watch mode)' : 'Single run'}`);
   console.log(`   Sync interval: ${SYNC_INTERVAL_MS / 1000 / 60} minutes`);
+  console.log(`   Job poll interval: ${JOB_POLL_INTERVAL_MS / 1000} seconds`);
   console.log(`   Database: ${process.env.DATABASE_URL ? '✅ Configured' : '❌ Missing DATABASE_URL'}`);
   console.log(`   Alchemy: ${process.env.ALCHEMY_API_KEY ? '✅ Configured' : '❌ Missing ALCHEMY_API_KEY'}`);
 
@@ -113,6 +169,20 @@ async function main() {
       }
     }, SYNC_INTERVAL_MS);
 
+    // Poll the job queue between syncs (one drain at a time)
+    let isDraining = false;
+    setInterval(async () => {
+      if (isDraining) return;
+      isDraining = true;
+      try {
+        await drainJobs();
+      } catch (error) {
+        console.error('Job drain failed, will retry on next poll:', error);
+      } finally {
+        isDraining = false;
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
     // Keep process alive
     console.log(`⏰ Next sync scheduled in ${SYNC_INTERVAL_MS / 1000 / 60} minutes\n`);
     console.log('Press Ctrl+C to stop\n');
@@ -14,104 +14,7 @@
 
 import 'dotenv/config';
 import { query, closePool } from '../lib/db/connection';
-import { getCurrentPrice } from '../lib/services/priceService';
-
-/**
- * Calculate user PnL - script-specific version that uses the standard connection
- * This is a copy of calculateUserPnL from userIndexerService but uses our query function
- */
-async function calculateUserPnL(
-  registrationId: number,
-  tokenAddress: string
-): Promise<number> {
-  // Get all trades for this registration
-  const tradesResult = await query(
-    `SELECT * FROM user_trades
-     WHERE registration_id = $1 AND token_address = $2
-     ORDER BY timestamp ASC, block_number ASC`,
-    [registrationId, tokenAddress.toLowerCase()]
-  );
-
-  const trades = tradesResult.rows;
-
-  if (trades.length === 0) {
-    return 0;
-  }
-
-  // FIFO PnL calculation
-  let position = 0; // Net position in tokens
-  let costBasis = 0; // Total cost basis in USD
-  let realizedPnL = 0;
-
-  for (const trade of trades) {
-    // Parse NUMERIC fields (they may be strings from database)
-    const amountIn = typeof trade.amount_in === 'string' ? parseFloat(trade.amount_in) : Number(trade.amount_in || 0);
-    const amountOut = typeof trade.amount_out === 'string' ? parseFloat(trade.amount_out) : Number(trade.amount_out || 0);
-    const priceUsd = typeof trade.price_usd === 'string' ? parseFloat(trade.price_usd) : Number(trade.price_usd || 0);
-
-    if (trade.trade_type === 'buy') {
-      // Buy: amount_out is tokens received, amount_in is payment
-      const tokensReceived = amountOut;
-
-      // Calculate cost basis
-      let costBasisForBuy = 0;
-      if (priceUsd > 0) {
-        // If price_usd is per token
-        costBasisForBuy = tokensReceived * priceUsd;
-      } else {
-        // Fallback: assume price_usd represents total value
-        costBasisForBuy = amountIn > 0 ? amountIn : 0;
-      }
-
-      position += tokensReceived;
-      costBasis += costBasisForBuy;
-    } else if (trade.trade_type === 'sell') {
-      // Sell: amount_in is tokens sold, amount_out is payment received
-      const tokensSold = amountIn;
-
-      if (position <= 0 || tokensSold <= 0) {
-        continue; // Skip invalid sells
-      }
-
-      const avgCostPerToken = costBasis / position;
-      const costOfSold = tokensSold * avgCostPerToken;
-
-      // Calculate sell value
-      let sellValue = 0;
-      if (priceUsd > 0) {
-        sellValue = tokensSold * priceUsd;
-      } else {
-        sellValue = amountOut; // Fallback to amount_out
-      }
-
-      const tradePnL = sellValue - costOfSold;
-      realizedPnL += tradePnL;
-      position -= tokensSold;
-      costBasis -= costOfSold;
-
-      if (costBasis < 0) {
-        costBasis = 0; // Reset if negative
-      }
-    }
-  }
-
-  // Get current price for unrealized PnL
-  let unrealizedPnL = 0;
-  if (position > 0) {
-    try {
-      const currentPrice = await getCurrentPrice(tokenAddress);
-      if (currentPrice && currentPrice > 0) {
-        const avgCostPerToken = costBasis / position;
-        unrealizedPnL = position * (currentPrice - avgCostPerToken);
-      }
-    } catch (error: any) {
-      // Continue without unrealized PnL if price fetch fails
-    }
-  }
-
-  const totalPnL = realizedPnL + unrealizedPnL;
-  return totalPnL;
-}
+import { calculateUserPnL } from '../lib/services/userIndexerService';
 
 async function closeConnection() {
   await closePool();
@@ -135,7 +38,7 @@ async function recalculatePnL(options: RecalcOptions) {
     // Recalculate specific registration
     console.log(`📋 Fetching registration ${options.registrationId}...`);
     const regResult = await query(
-      `SELECT cr.*, wc.token_address
+      `SELECT cr.*, wc.token_address, wc.finalized_at
        FROM contest_registrations cr
        JOIN weekly_contests wc ON cr.contest_id = wc.id
        WHERE cr.id = $1`,
@@ -153,7 +56,7 @@ async function recalculatePnL(options: RecalcOptions) {
     // Recalculate all registrations for a contest
     console.log(`📋 Fetching registrations for contest ${options.contestId}...`);
     const regResult = await query(
-      `SELECT cr.*, wc.token_address
+      `SELECT cr.*, wc.token_address, wc.finalized_at
        FROM contest_registrations cr
        JOIN weekly_contests wc ON cr.contest_id = wc.id
        WHERE cr.contest_id = $1`,
@@ -166,7 +69,7 @@ async function recalculatePnL(options: RecalcOptions) {
     // Recalculate all registrations
     console.log(`📋 Fetching all registrations...`);
     const regResult = await query(
-      `SELECT cr.*, wc.token_address
+      `SELECT cr.*, wc.token_address, wc.finalized_at
        FROM contest_registrations cr
        JOIN weekly_contests wc ON cr.contest_id = wc.id
        ORDER BY cr.id ASC`
@@ -179,6 +82,14 @@ async function recalculatePnL(options: RecalcOptions) {
     process.exit(1);
   }
 
+  // Final PnL of finalized contests is frozen until an admin reopens them
+  const finalized = registrationsToProcess.filter(reg => reg.finalized_at);
+  if (finalized.length > 0) {
+    const contestIds = [...new Set(finalized.map(reg => reg.contest_id))];
+    console.log(`⏭️  Skipping ${finalized.length} registration(s) in finalized contest(s): ${contestIds.join(', ')}`);
+    registrationsToProcess = registrationsToProcess.filter(reg => !reg.finalized_at);
+  }
+
   if (registrationsToProcess.length === 0) {
     console.log('✅ No registrations to process');
     process.exit(0);
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { diffRecords } from '../lib/services/adminAuditService';
+
+describe('diffRecords', () => {
+  it.each([
+    {
+      name: 'reports only changed fields',
+      before: { status: 'active', token: '0xabc' },
+      after: { status: 'completed', token: '0xabc' },
+      expected: { status: { before: 'active', after: 'completed' } }
+    },
+    {
+      name: 'treats a created record as null -> value',
+      before: null,
+      after: { id: 7 },
+      expected: { id: { before: null, after: 7 } }
+    },
+    {
+      name: 'treats a deleted record as value -> null',
+      before: { id: 7 },
+      after: null,
+      expected: { id: { before: 7, after: null } }
+    },
+    {
+      name: 'compares nested values structurally',
+      before: { options: [{ symbol: 'A' }] },
+      after: { options: [{ symbol: 'A' }] },
+      expected: {}
+    },
+    {
+      name: 'treats undefined and null as equal',
+      before: { note: undefined },
+      after: { note: null },
+      expected: {}
+    }
+  ])('$name', ({ before, after, expected }) => {
+    expect(diffRecords(before, after)).toEqual(expected);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { findBlockAtTimestamp } from '../lib/services/blockTimeService';
+
+// Fake chain: block n was produced at timestamps[n]
+const chain = (timestamps: number[]) => {
+  const lookups: number[] = [];
+  const last = timestamps.length - 1;
+  return {
+    latest: { blockNumber: last, timestamp: timestamps[last] },
+    lookups,
+    getTimestamp: async (blockNumber: number) => {
+      lookups.push(blockNumber);
+      return timestamps[blockNumber];
+    }
+  };
+};
+
+describe('findBlockAtTimestamp', () => {
+  const steady = Array.from({ length: 10_000 }, (_, n) => 1_000_000 + n * 2);
+
+  it('finds the last block at or before the target', async () => {
+    const { latest, getTimestamp } = chain(steady);
+
+    expect(await findBlockAtTimestamp(1_000_000 + 2 * 1234, { lower: null, upper: latest }, getTimestamp)).toBe(1234);
+    expect(await findBlockAtTimestamp(1_000_000 + 2 * 1234 + 1, { lower: null, upper: latest }, getTimestamp)).toBe(1234);
+  });
+
+  it('needs few lookups when blocks are on schedule', async () => {
+    const { latest, getTimestamp, lookups } = chain(steady);
+
+    await findBlockAtTimestamp(1_000_000 + 2 * 500, { lower: null, upper: latest }, getTimestamp);
+    expect(lookups.length).toBeLessThanOrEqual(6);
+  });
+
+  it('copes with blocks drifting from the 2 second estimate', async () => {
+    // First half 2s blocks, then a stretch of 5s blocks
+    const drifting = Array.from({ length: 5_000 }, (_, n) => n < 2_500 ? n * 2 : 5_000 + (n - 2_500) * 5);
+    const { latest, getTimestamp } = chain(drifting);
+
+    for (const block of [0, 1, 2_499, 2_500, 3_777, 4_998]) {
+      expect(await findBlockAtTimestamp(drifting[block], { lower: null, upper: latest }, getTimestamp)).toBe(block);
+    }
+  });
+
+  it('only searches between the anchors it is given', async () => {
+    const drifting = Array.from({ length: 5_000 }, (_, n) => n < 2_500 ? n * 2 : 5_000 + (n - 2_500) * 5);
+    const { getTimestamp, lookups } = chain(drifting);
+    const lower = { blockNumber: 3_000, timestamp: drifting[3_000] };
+    const upper = { blockNumber: 3_100, timestamp: drifting[3_100] };
+
+    expect(await findBlockAtTimestamp(drifting[3_042] + 3, { lower, upper }, getTimestamp)).toBe(3_042);
+    expect(lookups.every(block => block > 3_000 && block < 3_100)).toBe(true);
+  });
+
+  it('clamps to the upper anchor and to genesis', async () => {
+    const { latest, getTimestamp } = chain(steady);
+
+    expect(await findBlockAtTimestamp(latest.timestamp + 3600, { lower: null, upper: latest }, getTimestamp)).toBe(latest.blockNumber);
+    expect(await findBlockAtTimestamp(0, { lower: null, upper: latest }, getTimestamp)).toBe(0);
+  });
+});
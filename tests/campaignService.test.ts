@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { query } from '@/lib/db/connection';
+import { callWithFallback } from '../lib/services/providers';
+import {
+  CampaignError,
+  dispatchCampaign,
+  fidsAtOrAbove,
+  nextCampaignBatches,
+  parseSegment,
+  previewAudience,
+  resolveSegment,
+  validateCampaignContent
+} from '../lib/services/campaignService';
+
+const { publishFrameNotifications } = vi.hoisted(() => ({ publishFrameNotifications: vi.fn() }));
+
+vi.mock('@/lib/db/connection', () => ({ query: vi.fn() }));
+vi.mock('../lib/services/providers', () => ({ callWithFallback: vi.fn() }));
+vi.mock('@neynar/nodejs-sdk', () => ({
+  Configuration: class {},
+  NeynarAPIClient: class {
+    publishFrameNotifications = publishFrameNotifications;
+  }
+}));
+
+const mockQuery = vi.mocked(query);
+const mockCallWithFallback = vi.mocked(callWithFallback);
+const rows = (...list: any[]) => ({ rows: list, rowCount: list.length }) as any;
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  mockCallWithFallback.mockReset();
+  publishFrameNotifications.mockReset();
+});
+
+describe('parseSegment', () => {
+  it('accepts each segment type with its parameter', () => {
+    expect(parseSegment({ type: 'registered' })).toEqual({ type: 'registered' });
+    expect(parseSegment({ type: 'contest_participants', contestId: '12' })).toEqual({ type: 'contest_participants', contestId: 12 });
+    expect(parseSegment({ type: 'voters', votingPeriodId: 3 })).toEqual({ type: 'voters', votingPeriodId: 3 });
+    expect(parseSegment({ type: 'holders', minBalance: '5000000' })).toEqual({ type: 'holders', minBalance: 5_000_000 });
+    expect(parseSegment({ type: 'bag_holders', extra: true })).toEqual({ type: 'bag_holders' });
+  });
+
+  it('rejects unknown types and missing parameters', () => {
+    expect(() => parseSegment({ type: 'everyone' })).toThrow(CampaignError);
+    expect(() => parseSegment({ type: 'contest_participants' })).toThrow('contest_participants needs a contestId');
+    expect(() => parseSegment({ type: 'holders', minBalance: 0 })).toThrow('holders needs a minBalance above 0');
+    expect(() => parseSegment(undefined)).toThrow(CampaignError);
+  });
+});
+
+describe('validateCampaignContent', () => {
+  const valid = { title: 'Contest is live', body: 'Come lose some money', targetUrl: 'https://badtraders.xyz/contests' };
+
+  it('trims and returns valid copy', () => {
+    expect(validateCampaignContent({ ...valid, title: '  Contest is live ' })).toEqual(valid);
+  });
+
+  it('rejects copy over the client limits instead of truncating it', () => {
+    expect(() => validateCampaignContent({ ...valid, title: 'x'.repeat(33) })).toThrow('title is 33 characters (max 32)');
+    expect(() => validateCampaignContent({ ...valid, body: 'x'.repeat(129) })).toThrow('body is 129 characters (max 128)');
+    expect(validateCampaignContent({ ...valid, title: 'x'.repeat(32), body: 'x'.repeat(128) }).body).toHaveLength(128);
+  });
+
+  it('requires every field and an https url', () => {
+    expect(() => validateCampaignContent({ ...valid, body: '   ' })).toThrow('title, body and targetUrl are required');
+    expect(() => validateCampaignContent({ ...valid, targetUrl: 'http://badtraders.xyz' })).toThrow(CampaignError);
+  });
+});
+
+describe('fidsAtOrAbove', () => {
+  it('sums each FID across its wallets', () => {
+    const balances = [
+      { fid: 9, balance: 3_000_000 },
+      { fid: 2, balance: 6_000_000 },
+      { fid: 9, balance: 2_000_000 },
+      { fid: 4, balance: 4_999_999 }
+    ];
+    expect(fidsAtOrAbove(balances, 5_000_000)).toEqual([2, 9]);
+  });
+});
+
+describe('nextCampaignBatches', () => {
+  const audience = Array.from({ length: 250 }, (_, i) => i + 1);
+
+  it('picks up after the FIDs already sent, at most maxBatches at a time', () => {
+    const batches = nextCampaignBatches(audience, 0, 2, 100);
+    expect(batches.map(batch => batch.length)).toEqual([100, 100]);
+    expect(batches[1][0]).toBe(101);
+
+    const rest = nextCampaignBatches(audience, 200, 2, 100);
+    expect(rest).toEqual([audience.slice(200)]);
+  });
+
+  it('has nothing left once the whole audience is sent', () => {
+    expect(nextCampaignBatches(audience, 250, 5, 100)).toEqual([]);
+    expect(nextCampaignBatches([], 0, 5, 100)).toEqual([]);
+  });
+});
+
+describe('dispatchCampaign', () => {
+  it('records delivery stats from the statuses Neynar returns', async () => {
+    vi.stubEnv('NEYNAR_API_KEY', 'test-key');
+    vi.stubEnv('NOTIFICATION_BACKEND', 'neynar');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    publishFrameNotifications.mockResolvedValue({
+      notification_deliveries: [
+        { object: 'notification_delivery', fid: 1, status: 'success' },
+        { object: 'notification_delivery', fid: 2, status: 'success' },
+        { object: 'notification_delivery', fid: 3, status: 'token_disabled' },
+        { object: 'notification_delivery', fid: 4, status: 'token_not_found' },
+        { object: 'notification_delivery', fid: 5, status: 'failed' }
+      ]
+    });
+    mockQuery
+      .mockResolvedValueOnce(rows({
+        id: 1, status: 'sending', audience_fids: [1, 2, 3, 4, 5], sent_count: 0,
+        title: 'Contest is live', body: 'Come lose some money', target_url: 'https://badtraders.xyz'
+      }))
+      .mockResolvedValueOnce(rows({ status: 'sending' })) // status check before the batch
+      .mockResolvedValueOnce(rows()) // stats
+      .mockResolvedValueOnce(rows()); // sent
+
+    const outcome = await dispatchCampaign(1);
+
+    expect(outcome).toEqual({ status: 'sent', sent: 5, remaining: 0 });
+    const [statsSql, statsParams] = mockQuery.mock.calls[2];
+    expect(statsSql).toContain('successful = successful + $3');
+    // sent_count, successful, invalid, rate_limited, failed, skipped
+    expect(statsParams).toEqual([1, 5, 2, 2, 0, 1, 0]);
+
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('on-chain segments', () => {
+  const multicall = new ethers.Interface([
+    'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) view returns (tuple(bool success, bytes returnData)[])'
+  ]);
+  const erc = new ethers.Interface([
+    'function balanceOf(address owner) view returns (uint256)',
+    'function decimals() view returns (uint8)'
+  ]);
+  const wallet = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, '0')}`);
+
+  // Answers each aggregate3 from a balance per wallet, and decimals() with 18
+  const fakeChain = (balances: Record<string, bigint>) => {
+    const call = vi.fn(async (tx: { data: string }) => {
+      if (tx.data.startsWith(erc.getFunction('decimals')!.selector)) {
+        return erc.encodeFunctionResult('decimals', [18]);
+      }
+      const [calls] = multicall.decodeFunctionData('aggregate3', tx.data);
+      const results = calls.map((c: any) => {
+        const [owner] = erc.decodeFunctionData('balanceOf', c.callData);
+        return [true, erc.encodeFunctionResult('balanceOf', [balances[owner] ?? BigInt(0)])];
+      });
+      return multicall.encodeFunctionResult('aggregate3', [results]);
+    });
+    mockCallWithFallback.mockImplementation(fn => fn({ call } as any));
+    return call;
+  };
+
+  it('reads every linked wallet of a Bag segment in one multicall', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BADTRADERS_BAG_CONTRACT_ADDRESS', wallet(999));
+    mockQuery.mockResolvedValueOnce(rows(
+      { fid: 7, wallet_address: wallet(1) },
+      { fid: 7, wallet_address: wallet(2) },
+      { fid: 3, wallet_address: wallet(3) },
+      { fid: 5, wallet_address: wallet(4) }
+    ));
+    const call = fakeChain({ [wallet(2)]: BigInt(1), [wallet(3)]: BigInt(2) });
+
+    expect(await resolveSegment({ type: 'bag_holders' })).toEqual([3, 7]);
+    expect(call).toHaveBeenCalledTimes(1);
+
+    vi.unstubAllEnvs();
+  });
+
+  it('sums token balances per FID for a holders segment', async () => {
+    mockQuery.mockResolvedValueOnce(rows(
+      { fid: 7, wallet_address: wallet(1) },
+      { fid: 7, wallet_address: wallet(2) },
+      { fid: 3, wallet_address: wallet(3) }
+    ));
+    const tokens = (amount: number) => ethers.parseUnits(String(amount), 18);
+    const call = fakeChain({ [wallet(1)]: tokens(3), [wallet(2)]: tokens(3), [wallet(3)]: tokens(5) });
+
+    expect(await resolveSegment({ type: 'holders', minBalance: 6 })).toEqual([7]);
+    expect(call).toHaveBeenCalledTimes(2); // decimals, then one multicall
+  });
+
+  it('previews them as an upper bound without reading balances', async () => {
+    mockQuery.mockResolvedValueOnce(rows({ size: '42' }));
+
+    expect(await previewAudience({ type: 'holders', minBalance: 1 })).toEqual({ size: 42, sample: [], upperBound: true });
+    expect(mockCallWithFallback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildResultsAnnouncement,
+  ContestResult,
+  ContestStanding,
+  rankContestEntries,
+  summarizeContestResult
+} from '../lib/services/contestResultsService';
+
+const standing = (registrationId: number, pnlUsd: number, volumeUsd = 1000, fid: number | null = null): ContestStanding => ({
+  registrationId,
+  walletAddress: `0x${String(registrationId).padStart(40, '0')}`,
+  fid,
+  pnlUsd,
+  realizedPnlUsd: pnlUsd,
+  unrealizedPnlUsd: 0,
+  volumeUsd,
+  tradeCount: 2
+});
+
+describe('rankContestEntries', () => {
+  it('ranks the biggest loss first', () => {
+    const ranked = rankContestEntries(
+      [standing(1, -10), standing(2, -500), standing(3, 25)],
+      { minVolumeUsd: 0, winnerCount: 1 }
+    );
+
+    expect(ranked.map(entry => [entry.registrationId, entry.rank, entry.isWinner])).toEqual([
+      [2, 1, true],
+      [1, 2, false],
+      [3, 3, false]
+    ]);
+  });
+
+  it('gives equal PnL (to the cent) a shared rank and skips the next ranks', () => {
+    const ranked = rankContestEntries(
+      [standing(1, -100.001), standing(2, -99.999), standing(3, -50), standing(4, -200)],
+      { minVolumeUsd: 0, winnerCount: 2 }
+    );
+
+    expect(ranked.map(entry => [entry.registrationId, entry.rank])).toEqual([
+      [4, 1],
+      [1, 2],
+      [2, 2],
+      [3, 4]
+    ]);
+    // Both tied at the last winning rank win
+    expect(ranked.filter(entry => entry.isWinner).map(entry => entry.registrationId)).toEqual([4, 1, 2]);
+  });
+
+  it('lists wallets under the minimum volume after ranked ones, unranked', () => {
+    const ranked = rankContestEntries(
+      [standing(1, -1000, 50), standing(2, -10, 500), standing(3, -5, 100)],
+      { minVolumeUsd: 100, winnerCount: 1 }
+    );
+
+    expect(ranked.map(entry => [entry.registrationId, entry.rank, entry.isWinner, entry.disqualifiedReason])).toEqual([
+      [2, 1, true, null],
+      [3, 2, false, null],
+      [1, null, false, 'below_min_volume']
+    ]);
+  });
+
+  it('keeps an existing disqualification', () => {
+    const ranked = rankContestEntries(
+      [{ ...standing(1, 0, 0), disqualifiedReason: 'not_indexed' }, standing(2, -1)],
+      { minVolumeUsd: 0, winnerCount: 1 }
+    );
+
+    expect(ranked[1]).toMatchObject({ registrationId: 1, rank: null, disqualifiedReason: 'not_indexed' });
+  });
+});
+
+describe('buildResultsAnnouncement', () => {
+  const entries = rankContestEntries(
+    [standing(1, -1234.5, 1000, 42), standing(2, -20), standing(3, 10)],
+    { minVolumeUsd: 0, winnerCount: 1 }
+  );
+
+  it('names the podium and the winner', () => {
+    const announcement = buildResultsAnnouncement(
+      { contestId: 7, tokenSymbol: 'DEGEN', tokenAddress: '0xabc', participantCount: 3, entries },
+      { 42: 'rekt' }
+    );
+
+    expect(announcement.castText).toContain('$DEGEN contest #7 is final');
+    expect(announcement.castText).toContain('1. @rekt -$1,234.5');
+    expect(announcement.castText).toContain('2. 0x0000...0002');
+    expect(announcement.notificationTitle.length).toBeLessThanOrEqual(32);
+    expect(announcement.notificationBody).toContain('@rekt');
+    expect(announcement.notificationBody.length).toBeLessThanOrEqual(128);
+  });
+
+  it('handles a contest where nobody qualified', () => {
+    const announcement = buildResultsAnnouncement(
+      { contestId: 8, tokenSymbol: null, tokenAddress: '0x1234567890', participantCount: 0, entries: [] }
+    );
+
+    expect(announcement.castText).toContain('Nobody qualified');
+    expect(announcement.notificationBody).toBe('Final standings are in. See how you did!');
+  });
+});
+
+describe('summarizeContestResult', () => {
+  const result = (entries: ContestResult['entries']): ContestResult => ({
+    id: 1,
+    contestId: 9,
+    version: 1,
+    mode: 'replay',
+    tokenAddress: '0xabc',
+    tokenSymbol: 'DEGEN',
+    startDate: '2024-03-04T00:00:00Z',
+    endDate: '2024-03-11T00:00:00Z',
+    endBlock: 100,
+    endPriceUsd: 0.01,
+    minVolumeUsd: 100,
+    winnerCount: 1,
+    participantCount: entries.length,
+    rankedCount: entries.filter(entry => entry.rank !== null).length,
+    finalizedByFid: null,
+    finalizedAt: '2024-04-01T00:00:00Z',
+    entries
+  });
+
+  it('summarizes ranked entries only', () => {
+    const summary = summarizeContestResult(result(rankContestEntries(
+      [standing(1, -300), standing(2, -100), standing(3, 50), standing(4, -900, 10)],
+      { minVolumeUsd: 100, winnerCount: 1 }
+    )));
+
+    expect(summary.participantCount).toBe(4);
+    expect(summary.rankedCount).toBe(3);
+    expect(summary.worstPnlUsd).toBe(-300);
+    expect(summary.medianPnlUsd).toBe(-100);
+    expect(summary.totalPnlUsd).toBe(-350);
+    expect(summary.totalVolumeUsd).toBe(3000);
+    expect(summary.lossRate).toBeCloseTo(2 / 3);
+    expect(summary.biggestLoser?.registrationId).toBe(1);
+  });
+
+  it('averages the middle pair for an even count', () => {
+    const summary = summarizeContestResult(result(rankContestEntries(
+      [standing(1, -300), standing(2, -100), standing(3, 50), standing(4, 10)],
+      { minVolumeUsd: 0, winnerCount: 1 }
+    )));
+
+    expect(summary.medianPnlUsd).toBe(-45);
+  });
+
+  it('has no figures when nobody qualified', () => {
+    const summary = summarizeContestResult(result([]));
+
+    expect(summary.worstPnlUsd).toBeNull();
+    expect(summary.medianPnlUsd).toBeNull();
+    expect(summary.lossRate).toBeNull();
+    expect(summary.biggestLoser).toBeNull();
+  });
+});
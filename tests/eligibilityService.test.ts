@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { HoldingItem, lpShareOfReserve, summarizeHoldings, v3PositionAmounts } from '../lib/services/eligibilityService';
+import { getThresholdFor } from '../lib/config/eligibility';
+
+const Q96 = BigInt(2) ** BigInt(96);
+const LIQUIDITY = BigInt(10) ** BigInt(18);
+
+describe('v3PositionAmounts', () => {
+  it('holds only token0 below the range and only token1 above it', () => {
+    const below = v3PositionAmounts(LIQUIDITY, Q96, 100, 200);
+    expect(below.amount1).toBe(0);
+    expect(below.amount0).toBeGreaterThan(0);
+
+    const above = v3PositionAmounts(LIQUIDITY, Q96, -200, -100);
+    expect(above.amount0).toBe(0);
+    expect(above.amount1).toBeGreaterThan(0);
+  });
+
+  it('splits an in-range position around the current price', () => {
+    // Symmetric range around a price of 1: both sides hold the same amount
+    const { amount0, amount1 } = v3PositionAmounts(LIQUIDITY, Q96, -1000, 1000);
+    expect(amount0 / amount1).toBeCloseTo(1, 6);
+    // L * (1 - 1.0001^-500) on each side
+    expect(amount1 / 1e18).toBeCloseTo(1 - Math.pow(1.0001, -500), 9);
+  });
+});
+
+describe('lpShareOfReserve', () => {
+  it('gives the pro-rata share of the reserve', () => {
+    expect(lpShareOfReserve(BigInt(25), BigInt(100), BigInt(4_000_000))).toBe(1_000_000);
+    expect(lpShareOfReserve(BigInt(1), BigInt(3), BigInt(10))).toBeCloseTo(3.333333, 6);
+  });
+
+  it('is zero without LP tokens or supply', () => {
+    expect(lpShareOfReserve(BigInt(0), BigInt(100), BigInt(10))).toBe(0);
+    expect(lpShareOfReserve(BigInt(5), BigInt(0), BigInt(10))).toBe(0);
+  });
+});
+
+describe('summarizeHoldings', () => {
+  const items: HoldingItem[] = [
+    { source: 'wallet', walletAddress: '0xa', amount: 600_000 },
+    { source: 'wallet', walletAddress: '0xb', amount: 250_000 },
+    { source: 'uniswap_v3', walletAddress: '0xa', amount: 100_000, positionId: '7' },
+    { source: 'aerodrome', walletAddress: '0xb', amount: 50_000, staked: true }
+  ];
+
+  it('counts linked wallets and LP shares towards the threshold', () => {
+    expect(summarizeHoldings(items, 1_000_000)).toEqual({
+      walletBalance: 850_000,
+      lpBalance: 150_000,
+      total: 1_000_000,
+      isEligible: true
+    });
+  });
+
+  it('is ineligible when the total falls short', () => {
+    expect(summarizeHoldings(items.slice(0, 2), 1_000_000).isEligible).toBe(false);
+    expect(summarizeHoldings([], 1).total).toBe(0);
+  });
+});
+
+describe('getThresholdFor', () => {
+  it('picks the threshold for each purpose', () => {
+    expect(getThresholdFor('register', true)).toBe(1_000_000);
+    expect(getThresholdFor('register', false)).toBe(2_000_000);
+    expect(getThresholdFor('contest', true)).toBe(5_000_000);
+    expect(getThresholdFor('mint', false)).toBe(10_000_000);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { parseWalletLink, WALLET_LINK_DOMAIN, WALLET_LINK_TYPES, WalletLink } from '../lib/utils/walletLink';
+import { IdentityError, verifyWalletLink } from '../lib/services/identityService';
+
+const newWallet = new ethers.Wallet('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+const identityWallet = new ethers.Wallet('0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6');
+const NOW = 1_760_000_000;
+
+const link = (overrides: Partial<WalletLink> = {}): WalletLink => ({
+  fid: 4242,
+  wallet: newWallet.address,
+  identityWallet: identityWallet.address,
+  issuedAt: NOW,
+  ...overrides
+});
+
+const sign = (signer: ethers.Wallet, value: WalletLink) => signer.signTypedData(WALLET_LINK_DOMAIN, WALLET_LINK_TYPES, value);
+
+describe('verifyWalletLink', () => {
+  it('returns both wallets for a link signed by each of them', async () => {
+    const value = link();
+    expect(verifyWalletLink(value, await sign(newWallet, value), await sign(identityWallet, value), NOW + 30)).toEqual({
+      wallet: newWallet.address.toLowerCase(),
+      identityWallet: identityWallet.address.toLowerCase()
+    });
+  });
+
+  it('requires the countersignature of the identity wallet', async () => {
+    const value = link();
+    const walletSignature = await sign(newWallet, value);
+    const identitySignature = await sign(identityWallet, value);
+    expect(() => verifyWalletLink(value, walletSignature, walletSignature, NOW)).toThrow('not countersigned');
+    expect(() => verifyWalletLink(value, identitySignature, walletSignature, NOW)).toThrow(IdentityError);
+  });
+
+  it('rejects a signature over a different FID', async () => {
+    const value = link();
+    const walletSignature = await sign(newWallet, link({ fid: 1 }));
+    const identitySignature = await sign(identityWallet, value);
+    expect(() => verifyWalletLink(value, walletSignature, identitySignature, NOW)).toThrow('not signed by the wallet being added');
+  });
+
+  it('rejects stale and future-dated links', async () => {
+    for (const issuedAt of [NOW - 11 * 60, NOW + 5 * 60]) {
+      const value = link({ issuedAt });
+      const walletSignature = await sign(newWallet, value);
+      const identitySignature = await sign(identityWallet, value);
+      expect(() => verifyWalletLink(value, walletSignature, identitySignature, NOW)).toThrow('expired');
+    }
+  });
+});
+
+describe('parseWalletLink', () => {
+  it('accepts a well-formed link and coerces numbers', () => {
+    expect(parseWalletLink({ ...link(), fid: '4242', issuedAt: String(NOW) })).toEqual(link());
+  });
+
+  it('rejects missing or malformed fields', () => {
+    expect(parseWalletLink(null)).toBeNull();
+    expect(parseWalletLink({ ...link(), fid: 0 })).toBeNull();
+    expect(parseWalletLink({ ...link(), wallet: '0x1234' })).toBeNull();
+    expect(parseWalletLink({ ...link(), identityWallet: undefined })).toBeNull();
+  });
+});
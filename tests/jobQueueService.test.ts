@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { query } from '@/lib/db/connection';
+import {
+  claimJobs,
+  createWorkerId,
+  drainJobQueue,
+  enqueueJob,
+  failJob,
+  getBackoffSeconds,
+  heartbeatJob,
+  reapExpiredJobs,
+  Job
+} from '../lib/services/jobQueueService';
+
+vi.mock('@/lib/db/connection', () => ({ query: vi.fn() }));
+
+const mockQuery = vi.mocked(query);
+
+const jobRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  type: 'contest.index_wallet',
+  payload: { registrationId: 1 },
+  status: 'running',
+  attempts: 1,
+  max_attempts: 3,
+  run_at: '2026-01-01T00:00:00Z',
+  locked_by: 'worker-a',
+  locked_until: '2026-01-01T00:02:00Z',
+  last_error: null,
+  result: null,
+  dedupe_key: null,
+  created_at: '2026-01-01T00:00:00Z',
+  started_at: '2026-01-01T00:00:00Z',
+  completed_at: null,
+  ...overrides
+});
+
+const rows = (...list: any[]) => ({ rows: list, rowCount: list.length }) as any;
+
+const job = (overrides: Partial<Job> = {}): Job => ({
+  id: 7,
+  type: 'contest.index_wallet',
+  payload: {},
+  status: 'running',
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedBy: 'worker-a',
+  lockedUntil: new Date(),
+  lastError: null,
+  result: null,
+  dedupeKey: null,
+  createdAt: new Date(),
+  startedAt: new Date(),
+  completedAt: null,
+  ...overrides
+});
+
+beforeEach(() => {
+  mockQuery.mockReset();
+});
+
+describe('getBackoffSeconds', () => {
+  it.each([
+    { attempts: 0, expected: 30 },
+    { attempts: 1, expected: 30 },
+    { attempts: 2, expected: 60 },
+    { attempts: 3, expected: 120 },
+    { attempts: 5, expected: 480 },
+    { attempts: 8, expected: 3600 }, // 3840s capped at one hour
+    { attempts: 20, expected: 3600 }
+  ])('attempt $attempts -> $expected s', ({ attempts, expected }) => {
+    expect(getBackoffSeconds(attempts)).toBe(expected);
+  });
+});
+
+describe('createWorkerId', () => {
+  it('is unique per call and carries the prefix', () => {
+    const a = createWorkerId('cron');
+    const b = createWorkerId('cron');
+
+    expect(a).toMatch(/^cron-\d+-[0-9a-f]{8}$/);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('claimJobs', () => {
+  it('claims due jobs with SKIP LOCKED under a lease and counts the attempt', async () => {
+    mockQuery.mockResolvedValueOnce(rows(jobRow()));
+
+    const claimed = await claimJobs('worker-a', 2, 90, ['contest.index_wallet']);
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(sql).toContain("locked_until = NOW() + ($2 || ' seconds')::interval");
+    expect(sql).toContain('attempts = attempts + 1');
+    expect(sql).toContain("status = 'pending' AND run_at <= NOW()");
+    expect(params).toEqual(['worker-a', 90, 2, ['contest.index_wallet']]);
+    expect(claimed).toHaveLength(1);
+    expect(claimed[0]).toMatchObject({ id: 7, lockedBy: 'worker-a', maxAttempts: 3 });
+  });
+
+  it('reclaims a running job whose lease expired while it has attempts left', async () => {
+    mockQuery.mockResolvedValueOnce(rows());
+
+    await claimJobs('worker-b');
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("status = 'running' AND locked_until < NOW() AND attempts < max_attempts");
+    expect(params).toEqual(['worker-b', 120, 1, null]);
+  });
+});
+
+describe('heartbeatJob', () => {
+  it('extends only a lease the worker still holds', async () => {
+    mockQuery.mockResolvedValueOnce(rows({ id: 7 })).mockResolvedValueOnce(rows());
+
+    expect(await heartbeatJob(7, 'worker-a', 60)).toBe(true);
+    expect(await heartbeatJob(7, 'worker-a', 60)).toBe(false);
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("locked_by = $2 AND status = 'running'");
+    expect(params).toEqual([7, 'worker-a', 60]);
+  });
+});
+
+describe('reapExpiredJobs', () => {
+  it('marks expired leases on the last attempt as dead', async () => {
+    mockQuery.mockResolvedValueOnce(rows(jobRow({ status: 'dead', attempts: 3 })));
+
+    const reaped = await reapExpiredJobs();
+
+    expect(mockQuery.mock.calls[0][0]).toContain("status = 'running' AND locked_until < NOW() AND attempts >= max_attempts");
+    expect(reaped.map(reapedJob => reapedJob.status)).toEqual(['dead']);
+  });
+});
+
+describe('failJob', () => {
+  it('reschedules with backoff while attempts remain', async () => {
+    mockQuery.mockResolvedValueOnce(rows());
+
+    const willRetry = await failJob(job({ attempts: 2, maxAttempts: 3 }), 'worker-a', 'boom');
+
+    expect(willRetry).toBe(true);
+    expect(mockQuery.mock.calls[0][1]).toEqual([7, 'worker-a', 'pending', 'boom', 60]);
+  });
+
+  it('marks the job dead on its last attempt', async () => {
+    mockQuery.mockResolvedValueOnce(rows());
+
+    const willRetry = await failJob(job({ attempts: 3, maxAttempts: 3 }), 'worker-a', 'boom');
+
+    expect(willRetry).toBe(false);
+    expect(mockQuery.mock.calls[0][1]).toEqual([7, 'worker-a', 'dead', 'boom', 120]);
+  });
+});
+
+describe('drainJobQueue', () => {
+  it('retries a failing job until max_attempts, then reports it dead', async () => {
+    const onFailure = vi.fn().mockResolvedValue(undefined);
+    const handlers = {
+      'contest.index_wallet': { run: vi.fn().mockRejectedValue(new Error('rpc down')), onFailure }
+    };
+
+    for (const attempts of [1, 2, 3]) {
+      mockQuery
+        .mockResolvedValueOnce(rows()) // reapExpiredJobs
+        .mockResolvedValueOnce(rows(jobRow({ attempts }))) // claimJobs
+        .mockResolvedValueOnce(rows()) // failJob
+        .mockResolvedValueOnce(rows()); // claimJobs - queue empty
+
+      const summary = await drainJobQueue(handlers, { workerId: 'worker-a' });
+
+      expect(summary).toMatchObject({ claimed: 1, retried: attempts < 3 ? 1 : 0, dead: attempts < 3 ? 0 : 1 });
+    }
+
+    expect(onFailure.mock.calls.map(call => call[2])).toEqual([true, true, false]);
+  });
+
+  it('completes a job its handler runs', async () => {
+    const handlers = { 'contest.index_wallet': { run: vi.fn().mockResolvedValue({ stored: 2 }) } };
+    mockQuery
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows(jobRow()))
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows());
+
+    const summary = await drainJobQueue(handlers, { workerId: 'worker-a' });
+
+    expect(summary).toMatchObject({ claimed: 1, succeeded: 1 });
+    const [completeSql, completeParams] = mockQuery.mock.calls[2];
+    expect(completeSql).toContain("SET status = 'succeeded'");
+    expect(completeParams).toEqual([7, 'worker-a', JSON.stringify({ stored: 2 })]);
+  });
+});
+
+describe('enqueueJob', () => {
+  it('inserts under the dedupe key', async () => {
+    mockQuery.mockResolvedValueOnce(rows(jobRow({ status: 'pending', dedupe_key: 'wallet:1' })));
+
+    const queued = await enqueueJob('contest.index_wallet', { registrationId: 1 }, { dedupeKey: 'wallet:1' });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("ON CONFLICT (dedupe_key) WHERE status IN ('pending', 'running') DO NOTHING");
+    expect(params).toEqual(['contest.index_wallet', JSON.stringify({ registrationId: 1 }), null, 5, 'wallet:1']);
+    expect(queued.dedupeKey).toBe('wallet:1');
+  });
+
+  it('returns the queued job when the dedupe key is taken', async () => {
+    mockQuery
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows(jobRow({ id: 3, status: 'running', dedupe_key: 'wallet:1' })));
+
+    const queued = await enqueueJob('contest.index_wallet', {}, { dedupeKey: 'wallet:1' });
+
+    expect(queued.id).toBe(3);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls[1][1]).toEqual(['wallet:1']);
+  });
+
+  it('inserts again when the conflicting job finished in between', async () => {
+    mockQuery
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows(jobRow({ id: 9, status: 'pending', dedupe_key: 'wallet:1' })));
+
+    const queued = await enqueueJob('contest.index_wallet', {}, { dedupeKey: 'wallet:1' });
+
+    expect(queued.id).toBe(9);
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after repeated races on the same key', async () => {
+    mockQuery.mockResolvedValue(rows());
+
+    await expect(enqueueJob('contest.index_wallet', {}, { dedupeKey: 'wallet:1' }))
+      .rejects.toThrow('Could not enqueue contest.index_wallet job (dedupe key wallet:1)');
+    expect(mockQuery).toHaveBeenCalledTimes(6);
+  });
+});
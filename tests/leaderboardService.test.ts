@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateLosersByFid,
+  applyManualEntries,
+  getWeekStart,
+  ManualLoserboardEntry,
+  mergeIdentityProfiles,
+  WalletWindowPnL
+} from '../lib/services/leaderboardService';
+import { FarcasterProfile } from '../types/leaderboard';
+
+const profile = (fid: number, username: string): FarcasterProfile => ({
+  fid,
+  username,
+  display_name: username,
+  pfp_url: `https://pfp/${username}`
+});
+
+const wallet = (address: string, realized: number, unrealized = 0): WalletWindowPnL => ({
+  address,
+  realizedPnlUsd: realized,
+  unrealizedPnlUsd: unrealized
+});
+
+const manual = (fid: number, entryType: 'pin' | 'override', lossOverrideUsd: number | null = null): ManualLoserboardEntry => ({
+  fid,
+  username: `user${fid}`,
+  displayName: `User ${fid}`,
+  address: '',
+  pfpUrl: '',
+  entryType,
+  lossOverrideUsd
+});
+
+describe('aggregateLosersByFid', () => {
+  const profiles = {
+    '0xaaa0000000000000000000000000000000000001': profile(1, 'alice'),
+    '0xaaa0000000000000000000000000000000000002': profile(1, 'alice'),
+    '0xbbb0000000000000000000000000000000000001': profile(2, 'bob')
+  };
+
+  it('sums every verified wallet of a FID, letting gains offset losses', () => {
+    const board = aggregateLosersByFid([
+      wallet('0xAAA0000000000000000000000000000000000001', -500),
+      wallet('0xaaa0000000000000000000000000000000000002', 200, -100),
+      wallet('0xbbb0000000000000000000000000000000000001', -300)
+    ], profiles);
+
+    expect(board.map(e => [e.rank, e.fid, e.loss])).toEqual([[1, 1, 400], [2, 2, 300]]);
+    expect(board[0].wallets).toHaveLength(2);
+    expect(board[0].realizedPnl).toBe(-300);
+    expect(board[0].unrealizedPnl).toBe(-100);
+  });
+
+  it('drops FIDs that are net positive', () => {
+    const board = aggregateLosersByFid([
+      wallet('0xaaa0000000000000000000000000000000000001', -100),
+      wallet('0xaaa0000000000000000000000000000000000002', 150)
+    ], profiles);
+
+    expect(board).toEqual([]);
+  });
+
+  it('keeps wallets without a Farcaster account as their own entry', () => {
+    const board = aggregateLosersByFid([wallet('0xccc0000000000000000000000000000000000001', -50)], profiles);
+
+    expect(board).toHaveLength(1);
+    expect(board[0].fid).toBe(0);
+    expect(board[0].username).toBe('0xccc0...0001');
+  });
+});
+
+describe('applyManualEntries', () => {
+  const computed = aggregateLosersByFid([
+    wallet('0x1', -1000),
+    wallet('0x2', -500),
+    wallet('0x3', -100)
+  ], { '0x1': profile(1, 'a'), '0x2': profile(2, 'b'), '0x3': profile(3, 'c') });
+
+  it('lists pinned users first and keeps their computed loss', () => {
+    const board = applyManualEntries(computed, [manual(3, 'pin')]);
+
+    expect(board.map(e => [e.rank, e.fid, e.loss, e.source])).toEqual([
+      [1, 3, 100, 'pin'],
+      [2, 1, 1000, 'computed'],
+      [3, 2, 500, 'computed']
+    ]);
+  });
+
+  it('re-ranks after an override replaces the computed loss', () => {
+    const board = applyManualEntries(computed, [manual(2, 'override', 5000)]);
+
+    expect(board.map(e => [e.fid, e.loss])).toEqual([[2, 5000], [1, 1000], [3, 100]]);
+    expect(board[0].source).toBe('override');
+  });
+
+  it('adds manual users that have no indexed trades', () => {
+    const board = applyManualEntries(computed, [manual(9, 'pin'), manual(8, 'override', 700)]);
+
+    expect(board.map(e => e.fid)).toEqual([9, 1, 8, 2, 3]);
+    expect(board[0].loss).toBe(0);
+  });
+});
+
+describe('getWeekStart', () => {
+  it.each([
+    { date: '2025-06-04T15:30:00Z', expected: '2025-06-02T00:00:00.000Z' }, // Wednesday
+    { date: '2025-06-02T00:00:00Z', expected: '2025-06-02T00:00:00.000Z' }, // Monday midnight
+    { date: '2025-06-08T23:59:59Z', expected: '2025-06-02T00:00:00.000Z' }  // Sunday night
+  ])('$date -> $expected', ({ date, expected }) => {
+    expect(getWeekStart(new Date(date)).toISOString()).toBe(expected);
+  });
+});
+
+describe('mergeIdentityProfiles', () => {
+  const alice = profile(1, 'alice');
+
+  it('groups a linked wallet unknown to Neynar under its FID', () => {
+    const profiles = mergeIdentityProfiles(
+      { '0xaaa0000000000000000000000000000000000001': alice },
+      new Map([['0xccc0000000000000000000000000000000000001', 1]])
+    );
+
+    const board = aggregateLosersByFid([
+      wallet('0xaaa0000000000000000000000000000000000001', -100),
+      wallet('0xccc0000000000000000000000000000000000001', -50)
+    ], profiles);
+    expect(board.map(e => [e.fid, e.username, e.loss, e.wallets!.length])).toEqual([[1, 'alice', 150, 2]]);
+  });
+
+  it('keeps Neynar profiles and gives FIDs without one a bare profile', () => {
+    const profiles = mergeIdentityProfiles(
+      { '0xaaa0000000000000000000000000000000000001': alice },
+      new Map([['0xaaa0000000000000000000000000000000000001', 9], ['0xddd0000000000000000000000000000000000001', 7]])
+    );
+
+    expect(profiles['0xaaa0000000000000000000000000000000000001']).toBe(alice);
+    expect(profiles['0xddd0000000000000000000000000000000000001']).toEqual({ fid: 7, username: '', display_name: '', pfp_url: '' });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { BALLOT_DOMAIN, Nomination, NOMINATION_TYPES, parseNomination } from '../lib/utils/ballot';
+import { NominationError, verifyNomination } from '../lib/services/nominationService';
+
+const wallet = new ethers.Wallet('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+const NOW = 1_760_000_000;
+
+const nomination = (overrides: Partial<Nomination> = {}): Nomination => ({
+  tokenAddress: '0x4200000000000000000000000000000000000006',
+  nominator: wallet.address,
+  issuedAt: NOW,
+  ...overrides
+});
+
+const sign = (value: Nomination) => wallet.signTypedData(BALLOT_DOMAIN, NOMINATION_TYPES, value);
+
+describe('verifyNomination', () => {
+  it('returns the nominator for a nomination it signed', async () => {
+    const value = nomination();
+    expect(verifyNomination(value, await sign(value), NOW)).toBe(wallet.address.toLowerCase());
+  });
+
+  it('rejects a signature reused for another token', async () => {
+    const signature = await sign(nomination());
+    expect(() => verifyNomination(nomination({ tokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' }), signature, NOW))
+      .toThrow(NominationError);
+  });
+
+  it('rejects a malformed signature', () => {
+    expect(() => verifyNomination(nomination(), '0x00', NOW)).toThrow('Invalid nomination signature');
+  });
+
+  it('rejects an expired nomination', async () => {
+    const value = nomination();
+    const signature = await sign(value);
+    expect(() => verifyNomination(value, signature, NOW + 3600)).toThrow('expired');
+  });
+});
+
+describe('parseNomination', () => {
+  it('parses a well-formed nomination', () => {
+    expect(parseNomination({ ...nomination(), issuedAt: String(NOW) })).toEqual(nomination());
+  });
+
+  it('rejects a malformed token address', () => {
+    expect(parseNomination({ ...nomination(), tokenAddress: '0x1234' })).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { batchTokens, normalizeNotification, postBatch } from '../lib/services/notificationDelivery';
+
+const content = {
+  notificationId: 'contest-results:7',
+  title: 'Results are in',
+  body: 'See who lost the most',
+  targetUrl: 'https://badtraders.xyz/contests'
+};
+
+describe('batchTokens', () => {
+  it('groups tokens per client url in batches of 100', () => {
+    const tokens = [
+      ...Array.from({ length: 150 }, (_, i) => ({ fid: i, token: `w${i}`, url: 'https://warpcast/notify' })),
+      { fid: 1, token: 'o1', url: 'https://other/notify' },
+      { fid: 1, token: 'o1', url: 'https://other/notify' }
+    ];
+
+    expect(batchTokens(tokens).map(batch => [batch.url, batch.tokens.length])).toEqual([
+      ['https://warpcast/notify', 100],
+      ['https://warpcast/notify', 50],
+      ['https://other/notify', 1]
+    ]);
+  });
+});
+
+describe('normalizeNotification', () => {
+  it('clamps fields to the client limits', () => {
+    const normalized = normalizeNotification({ ...content, title: 'x'.repeat(40), body: 'y'.repeat(200) });
+    expect([normalized.title.length, normalized.body.length]).toEqual([32, 128]);
+  });
+});
+
+// Local stand-in for a Farcaster client's notification endpoint
+describe('postBatch', () => {
+  let server: Server;
+  let url: string;
+  const requests: any[] = [];
+  let respond: (tokens: string[], attempt: number) => { status: number; result?: any };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push(body);
+        const { status, result } = respond(body.tokens, requests.length);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result ? { result } : {}));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/notify`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const reset = () => { requests.length = 0; };
+
+  it('sends the notification with its id and sorts tokens by outcome', async () => {
+    reset();
+    respond = () => ({ status: 200, result: { successfulTokens: ['a'], invalidTokens: ['b'], rateLimitedTokens: [] } });
+
+    const outcome = await postBatch(url, content, ['a', 'b', 'c'], { retryDelayMs: 0 });
+
+    expect(requests[0]).toEqual({ ...content, tokens: ['a', 'b', 'c'] });
+    expect(outcome).toMatchObject({ successful: ['a'], invalid: ['b'], failed: ['c'], rateLimited: [], attempts: 1 });
+  });
+
+  it('retries only the rate-limited tokens', async () => {
+    reset();
+    respond = (tokens, attempt) => attempt === 1
+      ? { status: 200, result: { successfulTokens: ['a'], invalidTokens: [], rateLimitedTokens: ['b'] } }
+      : { status: 200, result: { successfulTokens: tokens, invalidTokens: [], rateLimitedTokens: [] } };
+
+    const outcome = await postBatch(url, content, ['a', 'b'], { retryDelayMs: 0 });
+
+    expect(requests.map(request => request.tokens)).toEqual([['a', 'b'], ['b']]);
+    expect(outcome).toMatchObject({ successful: ['a', 'b'], rateLimited: [], attempts: 2 });
+  });
+
+  it('gives up on tokens still rate limited after the last attempt', async () => {
+    reset();
+    respond = tokens => ({ status: 200, result: { successfulTokens: [], invalidTokens: [], rateLimitedTokens: tokens } });
+
+    const outcome = await postBatch(url, content, ['a'], { retryDelayMs: 0, maxAttempts: 2 });
+    expect(outcome).toMatchObject({ rateLimited: ['a'], failed: [], attempts: 2 });
+  });
+
+  it('retries server errors and fails the batch on client errors', async () => {
+    reset();
+    respond = (tokens, attempt) => attempt === 1
+      ? { status: 503 }
+      : { status: 200, result: { successfulTokens: tokens, invalidTokens: [], rateLimitedTokens: [] } };
+    expect(await postBatch(url, content, ['a'], { retryDelayMs: 0 })).toMatchObject({ successful: ['a'], attempts: 2 });
+
+    reset();
+    respond = () => ({ status: 400 });
+    expect(await postBatch(url, content, ['a'], { retryDelayMs: 0 })).toMatchObject({ failed: ['a'], attempts: 1, error: 'HTTP 400' });
+  });
+});
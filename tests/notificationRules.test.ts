@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { NOTIFICATION_CATEGORIES } from '../lib/config/notifications';
+import {
+  deliveredRecipients,
+  eventKey,
+  filterRecipients,
+  notificationIdFor,
+  NotificationRuleError,
+  parseNotificationEvent,
+  renderNotification
+} from '../lib/services/notificationRules';
+
+describe('notificationIdFor', () => {
+  it('derives the same UUID-shaped id from the same key', () => {
+    const id = notificationIdFor('contest_open:7');
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    expect(notificationIdFor('contest_open:7')).toBe(id);
+    expect(notificationIdFor('contest_open:8')).not.toBe(id);
+  });
+});
+
+describe('eventKey', () => {
+  it('keys events by their type and subject', () => {
+    expect(eventKey({ type: 'contest.closing', contestId: 4 })).toBe('contest.closing:4');
+    expect(eventKey({ type: 'registration.indexed', registrationId: 19 })).toBe('registration.indexed:19');
+    expect(eventKey({ type: 'eligibility.lost', fid: 3, balance: 10, threshold: 100, checkedOn: '2026-10-19' }))
+      .toBe('eligibility.lost:3:2026-10-19');
+  });
+});
+
+describe('parseNotificationEvent', () => {
+  it('accepts a well-formed event', () => {
+    expect(parseNotificationEvent({ type: 'voting.closed', votingPeriodId: 2 })).toEqual({ type: 'voting.closed', votingPeriodId: 2 });
+  });
+
+  it('rejects unknown types and missing ids', () => {
+    expect(() => parseNotificationEvent({ type: 'contest.deleted', contestId: 1 })).toThrow(NotificationRuleError);
+    expect(() => parseNotificationEvent({ type: 'contest.ranked' })).toThrow('contest.ranked needs a contestId');
+    expect(() => parseNotificationEvent({ type: 'contest.ranked', contestId: '5' })).toThrow(NotificationRuleError);
+    expect(() => parseNotificationEvent(null)).toThrow(NotificationRuleError);
+  });
+});
+
+describe('renderNotification', () => {
+  it('keeps every category within the client limits', () => {
+    for (const category of NOTIFICATION_CATEGORIES) {
+      const { title, body } = renderNotification(category, {
+        token: '$AVERYLONGTOKENSYMBOLTHATGOESONANDON',
+        rank: 10,
+        pnlUsd: -123456789.5,
+        date: new Date('2026-10-26T00:00:00Z'),
+        balance: 999_999,
+        threshold: 1_000_000
+      });
+      expect(title.length).toBeGreaterThan(0);
+      expect(title.length).toBeLessThanOrEqual(32);
+      expect(body.length).toBeLessThanOrEqual(128);
+    }
+  });
+
+  it('fills in the rank and PnL for the loserboard', () => {
+    const { body } = renderNotification('loserboard', { token: '$DEGEN', rank: 3, pnlUsd: -1520.456 });
+    expect(body).toBe("You're #3 worst in the $DEGEN contest at -$1,520.46. Keep it up.");
+  });
+
+  it('tells vote winners when the contest opens', () => {
+    expect(renderNotification('vote_won', { token: '$DEGEN', date: new Date('2999-01-04T00:00:00Z') }).body)
+      .toBe('$DEGEN won! The contest opens Fri, 04 Jan 2999.');
+    expect(renderNotification('vote_won', { token: '$DEGEN', date: new Date('2020-01-01T00:00:00Z') }).body)
+      .toBe('$DEGEN won! The contest is open - come lose some money.');
+  });
+});
+
+describe('filterRecipients', () => {
+  it('drops opt-outs and FIDs already sent to, counting each once', () => {
+    const result = filterRecipients([1, 2, 3, 4, 4, 5], new Set([2, 5]), new Set([3, 5]));
+    expect(result).toEqual({ recipients: [1, 4], optedOut: 2, alreadySent: 1 });
+  });
+
+  it('returns no recipients for an empty audience', () => {
+    expect(filterRecipients([], new Set(), new Set()).recipients).toEqual([]);
+  });
+});
+
+describe('deliveredRecipients', () => {
+  it('keeps only the FIDs of the batch that were delivered', () => {
+    expect(deliveredRecipients([1, 2, 3, 4], [4, 2, 9])).toEqual([2, 4]);
+  });
+
+  it('keeps nothing when the backend reports no deliveries', () => {
+    expect(deliveredRecipients([1, 2], [])).toEqual([]);
+  });
+});
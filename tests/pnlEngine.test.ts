@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computePnL,
+  planLotConsumption,
+  allocateSell,
+  parseTokenAmount,
+  tokenAmountToUsd,
+  gasFeeUsd,
+  CostBasisMethod,
+  NormalizedTrade,
+  OpenLot
+} from '../lib/services/pnlEngine';
+
+const ONE = BigInt(10) ** BigInt(18);
+const buy = (tokens: number, usdValue: number, feeUsd = 0): NormalizedTrade => ({
+  side: 'BUY',
+  tokenAmount: BigInt(tokens) * ONE,
+  usdValue,
+  feeUsd
+});
+const sell = (tokens: number, usdValue: number, feeUsd = 0): NormalizedTrade => ({
+  side: 'SELL',
+  tokenAmount: BigInt(tokens) * ONE,
+  usdValue,
+  feeUsd
+});
+
+const lots: OpenLot[] = [
+  { id: 1, acquiredAt: new Date('2025-01-01T00:00:00Z'), remainingAmount: BigInt(100), costBasisUsd: 100 },
+  { id: 2, acquiredAt: new Date('2025-01-02T00:00:00Z'), remainingAmount: BigInt(100), costBasisUsd: 300 },
+  { id: 3, acquiredAt: new Date('2025-01-03T00:00:00Z'), remainingAmount: BigInt(50), costBasisUsd: 50 },
+];
+
+function totalAmount(consumptions: { amount: bigint }[]): bigint {
+  return consumptions.reduce((sum, c) => sum + c.amount, BigInt(0));
+}
+
+describe('computePnL', () => {
+  const cases: Array<{
+    name: string;
+    trades: NormalizedTrade[];
+    method?: CostBasisMethod;
+    currentPriceUsd?: number;
+    expected: {
+      realized: number;
+      unrealized: number;
+      fees?: number;
+      net?: number;
+      remainingTokens: number;
+      costBasis: number;
+      skippedSells?: number;
+    };
+  }> = [
+    {
+      name: 'no trades',
+      trades: [],
+      expected: { realized: 0, unrealized: 0, remainingTokens: 0, costBasis: 0 }
+    },
+    {
+      name: 'single buy marked to market',
+      trades: [buy(10, 10)],
+      currentPriceUsd: 3,
+      expected: { realized: 0, unrealized: 20, remainingTokens: 10, costBasis: 10 }
+    },
+    {
+      name: 'buy then full sell',
+      trades: [buy(10, 10), sell(10, 25)],
+      expected: { realized: 15, unrealized: 0, remainingTokens: 0, costBasis: 0 }
+    },
+    {
+      name: 'FIFO sells the cheap lot first',
+      trades: [buy(10, 10), buy(10, 30), sell(10, 20)],
+      method: 'fifo',
+      currentPriceUsd: 2,
+      expected: { realized: 10, unrealized: -10, remainingTokens: 10, costBasis: 30 }
+    },
+    {
+      name: 'LIFO sells the expensive lot first',
+      trades: [buy(10, 10), buy(10, 30), sell(10, 20)],
+      method: 'lifo',
+      currentPriceUsd: 2,
+      expected: { realized: -10, unrealized: 10, remainingTokens: 10, costBasis: 10 }
+    },
+    {
+      name: 'average cost uses the pooled price',
+      trades: [buy(10, 10), buy(10, 30), sell(10, 20)],
+      method: 'average',
+      currentPriceUsd: 2,
+      expected: { realized: 0, unrealized: 0, remainingTokens: 10, costBasis: 20 }
+    },
+    {
+      name: 'sell without a position is skipped',
+      trades: [sell(5, 50), buy(10, 10)],
+      expected: { realized: 0, unrealized: 0, remainingTokens: 10, costBasis: 10, skippedSells: 1 }
+    },
+    {
+      name: 'oversell only realizes the covered part',
+      trades: [buy(10, 10), sell(20, 40)],
+      expected: { realized: 10, unrealized: 0, remainingTokens: 0, costBasis: 0 }
+    },
+    {
+      name: 'fees reduce net PnL but not realized PnL',
+      trades: [buy(10, 10, 1.5), sell(10, 20, 0.5)],
+      expected: { realized: 10, unrealized: 0, fees: 2, net: 8, remainingTokens: 0, costBasis: 0 }
+    },
+    {
+      name: 'no current price leaves unrealized at zero',
+      trades: [buy(10, 10)],
+      expected: { realized: 0, unrealized: 0, remainingTokens: 10, costBasis: 10 }
+    }
+  ];
+
+  it.each(cases)('$name', ({ trades, method, currentPriceUsd, expected }) => {
+    const result = computePnL(trades, { decimals: 18, method, currentPriceUsd });
+
+    expect(result.realizedPnlUsd).toBeCloseTo(expected.realized, 8);
+    expect(result.unrealizedPnlUsd).toBeCloseTo(expected.unrealized, 8);
+    expect(result.totalPnlUsd).toBeCloseTo(expected.realized + expected.unrealized, 8);
+    expect(result.feesUsd).toBeCloseTo(expected.fees ?? 0, 8);
+    expect(result.netPnlUsd).toBeCloseTo(expected.net ?? expected.realized + expected.unrealized, 8);
+    expect(result.remainingAmount).toBe(BigInt(expected.remainingTokens) * ONE);
+    expect(result.costBasisUsd).toBeCloseTo(expected.costBasis, 8);
+    expect(result.skippedSells).toBe(expected.skippedSells ?? 0);
+  });
+
+  it('is deterministic for the same input', () => {
+    const trades = [buy(3, 7), buy(5, 11), sell(4, 13), buy(1, 2), sell(2, 9)];
+
+    expect(computePnL(trades, { decimals: 18, method: 'average', currentPriceUsd: 2 }))
+      .toEqual(computePnL(trades, { decimals: 18, method: 'average', currentPriceUsd: 2 }));
+  });
+
+  it('applies token decimals to raw amounts', () => {
+    const result = computePnL(
+      [{ side: 'BUY', tokenAmount: BigInt(5_000_000), usdValue: 4 }],
+      { decimals: 6, currentPriceUsd: 1 }
+    );
+
+    expect(result.unrealizedPnlUsd).toBeCloseTo(1, 8);
+  });
+});
+
+describe('planLotConsumption', () => {
+  const cases: Array<{
+    name: string;
+    method: CostBasisMethod;
+    amount: number;
+    lotIds: number[];
+    amounts: number[];
+    cost: number;
+  }> = [
+    { name: 'FIFO consumes oldest lots first', method: 'fifo', amount: 150, lotIds: [1, 2], amounts: [100, 50], cost: 250 },
+    { name: 'LIFO consumes newest lots first', method: 'lifo', amount: 150, lotIds: [3, 2], amounts: [50, 100], cost: 350 },
+    { name: 'average reduces every lot pro-rata', method: 'average', amount: 125, lotIds: [1, 2, 3], amounts: [50, 50, 25], cost: 225 },
+    { name: 'FIFO caps at the open amount', method: 'fifo', amount: 1000, lotIds: [1, 2, 3], amounts: [100, 100, 50], cost: 450 },
+    { name: 'average caps at the open amount', method: 'average', amount: 1000, lotIds: [1, 2, 3], amounts: [100, 100, 50], cost: 450 }
+  ];
+
+  it.each(cases)('$name', ({ method, amount, lotIds, amounts, cost }) => {
+    const result = planLotConsumption(lots, BigInt(amount), method);
+
+    expect(result.map(c => c.lotId)).toEqual(lotIds);
+    expect(result.map(c => c.amount)).toEqual(amounts.map(a => BigInt(a)));
+    expect(result.reduce((sum, c) => sum + c.costBasisUsd, 0)).toBeCloseTo(cost, 8);
+  });
+
+  it('hands average-cost rounding dust to the oldest lots so totals stay exact', () => {
+    expect(totalAmount(planLotConsumption(lots, BigInt(7), 'average'))).toBe(BigInt(7));
+  });
+
+  it('ignores closed lots and zero amounts', () => {
+    const withClosed = [{ ...lots[0], remainingAmount: BigInt(0) }, lots[1]];
+
+    expect(planLotConsumption(withClosed, BigInt(10), 'fifo').map(c => c.lotId)).toEqual([2]);
+    expect(planLotConsumption(lots, BigInt(0), 'fifo')).toEqual([]);
+  });
+});
+
+describe('allocateSell', () => {
+  it('splits proceeds across lots by amount', () => {
+    const result = allocateSell(lots, BigInt(150), 300, 'fifo');
+
+    expect(result[0].proceedsUsd).toBeCloseTo(200, 8);
+    expect(result[1].proceedsUsd).toBeCloseTo(100, 8);
+    expect(result.reduce((sum, a) => sum + a.proceedsUsd, 0)).toBe(300);
+    expect(result[0].realizedPnlUsd).toBeCloseTo(100, 8);
+    expect(result[1].realizedPnlUsd).toBeCloseTo(-50, 8);
+  });
+});
+
+describe('amount helpers', () => {
+  it.each([
+    { input: '123456789012345678901234567890', expected: BigInt('123456789012345678901234567890') },
+    { input: '42.9', expected: BigInt(42) },
+    { input: 17, expected: BigInt(17) },
+    { input: null, expected: BigInt(0) },
+    { input: 'not-a-number', expected: BigInt(0) }
+  ])('parseTokenAmount($input)', ({ input, expected }) => {
+    expect(parseTokenAmount(input)).toBe(expected);
+  });
+
+  it('converts raw amounts beyond float precision without losing whole tokens', () => {
+    const amount = BigInt('123456789') * ONE + BigInt(1);
+
+    expect(tokenAmountToUsd(amount, 18, 2)).toBeCloseTo(246913578, 4);
+  });
+
+  it('prices receipt gas in ETH, and as free without a price', () => {
+    // 150k gas at 2 gwei = 0.0003 ETH
+    expect(gasFeeUsd(BigInt(150000), BigInt(2000000000), 3000)).toBeCloseTo(0.9, 10);
+    expect(gasFeeUsd(BigInt(150000), BigInt(2000000000), null)).toBe(0);
+  });
+});
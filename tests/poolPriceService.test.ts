@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { computeV3PoolAddress, computeV4PoolId } from '../lib/services/poolPriceService';
+import { WETH_ADDRESS, USDC_ADDRESS } from '../lib/utils/constants';
+
+describe('Pool discovery - address derivation', () => {
+  it('derives the Base WETH/USDC 0.05% Uniswap V3 pool via CREATE2', () => {
+    expect(computeV3PoolAddress(WETH_ADDRESS, USDC_ADDRESS, 500))
+      .toBe('0xd0b53d9277642d899df5c87a3966a349a798f224');
+  });
+
+  it('is independent of token order', () => {
+    expect(computeV3PoolAddress(USDC_ADDRESS, WETH_ADDRESS, 3000))
+      .toBe(computeV3PoolAddress(WETH_ADDRESS, USDC_ADDRESS, 3000));
+    expect(computeV4PoolId(USDC_ADDRESS, '0x0000000000000000000000000000000000000000', 500, 10))
+      .toBe(computeV4PoolId('0x0000000000000000000000000000000000000000', USDC_ADDRESS, 500, 10));
+  });
+
+  it('gives each fee tier its own pool', () => {
+    const addresses = [100, 500, 3000, 10000].map(fee => computeV3PoolAddress(WETH_ADDRESS, USDC_ADDRESS, fee));
+    expect(new Set(addresses).size).toBe(4);
+  });
+});
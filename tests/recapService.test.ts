@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { query } from '@/lib/db/connection';
+import { getContestResult } from '../lib/services/contestResultsService';
+import {
+  CAST_MAX_BYTES,
+  RecapData,
+  RecapError,
+  buildRecapThread,
+  findResumeMismatch,
+  getRecapData,
+  splitCastText,
+  validateRecapThread
+} from '../lib/services/recapService';
+
+vi.mock('@/lib/db/connection', () => ({ query: vi.fn() }));
+vi.mock('../lib/services/contestResultsService', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/services/contestResultsService')>()),
+  getContestResult: vi.fn()
+}));
+
+const byteLength = (text: string) => Buffer.byteLength(text, 'utf8');
+
+describe('splitCastText', () => {
+  it('keeps text that fits in one cast', () => {
+    expect(splitCastText('  gm losers  ')).toEqual(['gm losers']);
+  });
+
+  it('breaks between paragraphs before lines and lines before words', () => {
+    expect(splitCastText('aaaa bbbb\n\ncccc dddd', 12)).toEqual(['aaaa bbbb', 'cccc dddd']);
+    expect(splitCastText('aaaa\nbbbb\ncccc', 10)).toEqual(['aaaa\nbbbb', 'cccc']);
+    expect(splitCastText('aaaa bbbb cccc', 10)).toEqual(['aaaa bbbb', 'cccc']);
+  });
+
+  it('counts bytes, and only cuts a word longer than a whole cast', () => {
+    const casts = splitCastText('📉📉📉 '.repeat(40), 30);
+    expect(casts.every(cast => byteLength(cast) <= 30)).toBe(true);
+    expect(splitCastText('x'.repeat(25), 10)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+  });
+});
+
+describe('buildRecapThread', () => {
+  const data: RecapData = {
+    contestId: 12,
+    tokenSymbol: 'DEGEN',
+    tokenAddress: '0x4ed4e862860bed51a9570b96d89af5e1b0efefed',
+    participantCount: 40,
+    topLosers: [
+      { rank: 1, name: '@alice', pnlUsd: -1234.5 },
+      { rank: 2, name: '0x1234...abcd', pnlUsd: -800 }
+    ],
+    totalLossUsd: 5000,
+    totalVolumeUsd: 120000,
+    loserboard: { entryCount: 25, totalLossUsd: 9000 },
+    nextToken: { votingPeriodId: 3, symbol: 'BRETT', address: '0x532f', voteCount: 17 },
+    link: 'https://badtraders.xyz/contests'
+  };
+
+  it('mentions the top losers, totals and next token, with the link on the first cast', () => {
+    const thread = buildRecapThread(data);
+    const text = thread.map(cast => cast.text).join('\n\n');
+    expect(text).toContain('1. @alice -$1,234.5');
+    expect(text).toContain('40 traders lost $5,000 on $120,000 of volume.');
+    expect(text).toContain('$9,000 lost across 25 traders');
+    expect(text).toContain('$BRETT (17 votes)');
+    expect(thread[0].embeds).toEqual(['https://badtraders.xyz/contests']);
+  });
+
+  it('splits into a reply thread when it does not fit one cast', () => {
+    const thread = buildRecapThread(data, 120);
+    expect(thread.length).toBeGreaterThan(1);
+    expect(thread.every(cast => byteLength(cast.text) <= 120)).toBe(true);
+    expect(thread.slice(1).every(cast => cast.embeds.length === 0)).toBe(true);
+  });
+
+  it('handles a week with no qualifiers, loserboard or vote', () => {
+    const text = buildRecapThread({ ...data, topLosers: [], loserboard: null, nextToken: null })[0].text;
+    expect(text).toContain('Nobody qualified this week.');
+    expect(text).toContain("Next week's token is still up for a vote.");
+  });
+});
+
+describe('validateRecapThread', () => {
+  it('trims casts and defaults embeds', () => {
+    expect(validateRecapThread([{ text: ' gm ' }])).toEqual([{ text: 'gm', embeds: [] }]);
+  });
+
+  it('rejects empty threads, empty or oversized casts and bad embeds', () => {
+    expect(() => validateRecapThread([])).toThrow(RecapError);
+    expect(() => validateRecapThread([{ text: '  ' }])).toThrow('cast 1 has no text');
+    expect(() => validateRecapThread([{ text: 'ok' }, { text: 'x'.repeat(CAST_MAX_BYTES + 1) }]))
+      .toThrow(`cast 2 is ${CAST_MAX_BYTES + 1} bytes (max ${CAST_MAX_BYTES})`);
+    expect(() => validateRecapThread([{ text: 'ok', embeds: ['http://x.test'] }])).toThrow('embed must be an https URL');
+  });
+});
+
+describe('findResumeMismatch', () => {
+  const published = [
+    { text: 'Week 12 recap', embeds: ['https://badtraders.xyz/contests'] },
+    { text: 'Top losers', embeds: [] }
+  ];
+
+  it('accepts a thread that repeats the published casts and adds more', () => {
+    expect(findResumeMismatch(published, [...published, { text: 'Next week', embeds: [] }])).toBeNull();
+    expect(findResumeMismatch([], [{ text: 'Fresh', embeds: [] }])).toBeNull();
+  });
+
+  it('points at the first published cast whose text or embeds changed', () => {
+    expect(findResumeMismatch(published, [published[0], { text: 'Top losers (edited)', embeds: [] }])).toBe(1);
+    expect(findResumeMismatch(published, [{ ...published[0], embeds: [] }, published[1]])).toBe(0);
+  });
+
+  it('rejects a thread shorter than what was published', () => {
+    expect(findResumeMismatch(published, [published[0]])).toBe(1);
+  });
+});
+
+/**
+ * Columns per table after applying every migration in order (CREATE TABLE, ADD COLUMN, DROP COLUMN)
+ */
+function currentSchema(): Map<string, Set<string>> {
+  const dir = path.join(__dirname, '..', 'migrations');
+  const tables = new Map<string, Set<string>>();
+
+  for (const file of readdirSync(dir).filter(name => name.endsWith('.sql')).sort()) {
+    const sql = readFileSync(path.join(dir, file), 'utf8').replace(/--.*$/gm, '');
+    for (const statement of sql.split(';')) {
+      const created = statement.match(/CREATE TABLE\s+(?:IF NOT EXISTS\s+)?(\w+)\s*\(([\s\S]*)\)/i);
+      if (created) {
+        const columns = created[2].split('\n')
+          .map(line => line.trim().split(/\s+/)[0])
+          .filter(word => /^[a-z_]+$/.test(word) && !['unique', 'primary', 'constraint', 'check', 'foreign'].includes(word));
+        tables.set(created[1], new Set([...(tables.get(created[1]) ?? []), ...columns]));
+        continue;
+      }
+      const altered = statement.match(/ALTER TABLE\s+(?:IF EXISTS\s+)?(\w+)/i);
+      if (!altered) continue;
+      const columns = tables.get(altered[1]) ?? new Set<string>();
+      for (const [, column] of statement.matchAll(/ADD COLUMN\s+(?:IF NOT EXISTS\s+)?(\w+)/gi)) columns.add(column);
+      for (const [, column] of statement.matchAll(/DROP COLUMN\s+(?:IF EXISTS\s+)?(\w+)/gi)) columns.delete(column);
+      tables.set(altered[1], columns);
+    }
+  }
+  return tables;
+}
+
+describe('getRecapData', () => {
+  it('reads the next token vote with columns the current schema has', async () => {
+    vi.mocked(getContestResult).mockResolvedValue({
+      contestId: 4, tokenSymbol: 'LOSS', tokenAddress: '0xtoken', participantCount: 0,
+      startDate: '2026-01-01T00:00:00Z', endDate: '2026-01-08T00:00:00Z', entries: []
+    } as any);
+    vi.mocked(query).mockImplementation(async (sql: string) => ({
+      rows: sql.includes('voting_periods')
+        ? [{ id: 2, token_symbol: 'NEXT', token_address: '0xnext', vote_count: '17' }]
+        : []
+    }) as any);
+
+    const data = await getRecapData(4);
+
+    const voteSql = vi.mocked(query).mock.calls.map(call => call[0] as string).find(sql => sql.includes('voting_periods'))!;
+    const schema = currentSchema();
+    const aliases = new Map(
+      Array.from(voteSql.matchAll(/(?:FROM|JOIN)\s+(\w+)\s+(\w+)/g), ([, table, alias]) => [alias, table] as [string, string])
+    );
+    const references = Array.from(voteSql.matchAll(/\b(\w+)\.(\w+)\b/g), ([, alias, column]) => ({ alias, column }));
+
+    expect(references.length).toBeGreaterThan(0);
+    for (const { alias, column } of references) {
+      const table = aliases.get(alias);
+      expect(table, `alias ${alias}`).toBeDefined();
+      expect(schema.get(table!)?.has(column), `${table}.${column}`).toBe(true);
+    }
+    expect(data.nextToken).toEqual({ votingPeriodId: 2, symbol: 'NEXT', address: '0xnext', voteCount: 17 });
+  });
+});
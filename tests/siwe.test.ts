@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildSiweMessage, parseSiweMessage, SiweMessageFields } from '../lib/utils/siwe';
+
+const fields: SiweMessageFields = {
+  domain: 'badtraders.xyz',
+  address: '0x0774409cDA69a47F272907FD5d0D80173167bb07',
+  statement: 'Sign in to BadTraders admin',
+  uri: 'https://badtraders.xyz',
+  version: '1',
+  chainId: 8453,
+  nonce: 'a1b2c3d4e5f60718',
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expirationTime: '2026-01-01T00:10:00.000Z'
+};
+
+describe('SIWE messages', () => {
+  it('round-trips every field', () => {
+    expect(parseSiweMessage(buildSiweMessage(fields))).toEqual(fields);
+  });
+
+  it('parses messages without a statement or expiration', () => {
+    const minimal = { ...fields, statement: undefined, expirationTime: undefined };
+
+    expect(parseSiweMessage(buildSiweMessage(minimal))).toEqual(minimal);
+  });
+
+  it.each([
+    { name: 'wrong header', message: buildSiweMessage(fields).replace('wants you to sign in', 'asks you to log in') },
+    { name: 'bad address', message: buildSiweMessage({ ...fields, address: '0x1234' }) },
+    { name: 'missing nonce', message: buildSiweMessage(fields).replace(/Nonce: .*\n/, '') },
+    { name: 'non-numeric chain id', message: buildSiweMessage(fields).replace('Chain ID: 8453', 'Chain ID: base') }
+  ])('rejects $name', ({ message }) => {
+    expect(parseSiweMessage(message)).toBeNull();
+  });
+});
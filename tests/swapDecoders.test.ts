@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  buildSwapFromPoolSwaps,
+  decodePoolSwaps,
+  getSwapDecoder,
+  listSwapDecoders,
+  PoolSwap,
+  registerSwapDecoder
+} from '../lib/services/swapDecoders';
+
+const WALLET = '0x000000000000000000000000000000000000beef';
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const WETH = '0x4200000000000000000000000000000000000006';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+const context = (trackedTokenDelta: bigint) => ({
+  txHash: '0xabc',
+  blockNumber: 100,
+  timestamp: new Date('2024-05-01T00:00:00Z'),
+  walletAddress: WALLET,
+  trackedTokenAddress: TOKEN,
+  trackedTokenDecimals: 18,
+  trackedTokenDelta
+});
+
+const decimals = (token: string) => token === USDC ? 6 : 18;
+
+const poolSwap = (overrides: Partial<PoolSwap>): PoolSwap => ({
+  venue: 'uniswap-v3',
+  pool: '0x0000000000000000000000000000000000000001',
+  token0: WETH,
+  token1: TOKEN,
+  amount0: BigInt(0),
+  amount1: BigInt(0),
+  logIndex: 0,
+  ...overrides
+});
+
+describe('swap decoder registry', () => {
+  it('covers the V2, V3, V4, PancakeSwap and Aerodrome swap events', () => {
+    const venues = listSwapDecoders().map(decoder => decoder.venue);
+
+    expect(venues).toEqual(expect.arrayContaining(['uniswap-v2-fork', 'uniswap-v3-fork', 'uniswap-v4', 'pancakeswap-v3', 'velodrome-fork']));
+    expect(getSwapDecoder('0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67')?.venue).toBe('uniswap-v3-fork');
+    expect(getSwapDecoder('0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822')?.venue).toBe('uniswap-v2-fork');
+  });
+
+  it('decodes logs with registered decoders in log order and skips the rest', async () => {
+    const topic = ethers.id('TestSwap(uint256)');
+    registerSwapDecoder({
+      venue: 'test-dex',
+      topic,
+      async decode(log) {
+        if (log.data === '0x') throw new Error('bad log');
+        return poolSwap({ venue: 'test-dex', pool: log.address, amount0: BigInt(log.data), logIndex: log.index });
+      }
+    });
+
+    const log = (index: number, topics: string[], data: string) =>
+      ({ index, topics, data, address: `0x${String(index).padStart(40, '0')}`, transactionHash: '0xabc' }) as unknown as ethers.Log;
+
+    const swaps = await decodePoolSwaps([
+      log(3, [topic], '0x02'),
+      log(1, [ethers.id('Transfer(address,address,uint256)')], '0x01'),
+      log(2, [topic], '0x'),
+      log(0, [topic], '0x01')
+    ], {} as ethers.Provider);
+
+    expect(swaps.map(swap => [swap.logIndex, swap.amount0])).toEqual([[0, BigInt(1)], [3, BigInt(2)]]);
+  });
+});
+
+describe('buildSwapFromPoolSwaps', () => {
+  it('builds a buy from the pool that paid out the token', () => {
+    const swap = buildSwapFromPoolSwaps(
+      [poolSwap({ amount0: BigInt(10) ** BigInt(17), amount1: -(BigInt(5000) * BigInt(10) ** BigInt(18)) })],
+      context(BigInt(5000) * BigInt(10) ** BigInt(18)),
+      decimals
+    );
+
+    expect(swap).toMatchObject({
+      side: 'BUY',
+      venue: 'uniswap-v3',
+      source: 'log',
+      tokenIn: WETH,
+      tokenOut: TOKEN,
+      amountIn: BigInt(10) ** BigInt(17),
+      baseTokenAddress: WETH,
+      trackedTokenAmount: BigInt(5000) * BigInt(10) ** BigInt(18)
+    });
+  });
+
+  it('uses the hop that touched the token on an aggregator route', () => {
+    // USDC -> WETH on Aerodrome, then WETH -> TOKEN on Uniswap V4
+    const swap = buildSwapFromPoolSwaps(
+      [
+        poolSwap({ venue: 'aerodrome', token0: WETH, token1: USDC, amount0: BigInt(-2), amount1: BigInt(7_000_000), logIndex: 1 }),
+        poolSwap({ venue: 'uniswap-v4', amount0: BigInt(2), amount1: BigInt(-900), logIndex: 4 })
+      ],
+      context(BigInt(890)),
+      decimals
+    );
+
+    expect(swap?.venue).toBe('uniswap-v4');
+    expect(swap?.baseTokenAmount).toBe(BigInt(2));
+    // The wallet's own transfer (after fees) is the size of the trade
+    expect(swap?.trackedTokenAmount).toBe(BigInt(890));
+    expect(swap?.route?.map(hop => hop.tokenIn)).toEqual([USDC, WETH]);
+  });
+
+  it('builds a sell with the payment received', () => {
+    const swap = buildSwapFromPoolSwaps(
+      [poolSwap({ venue: 'baseswap', token0: TOKEN, token1: USDC, amount0: BigInt(1000), amount1: BigInt(-25_000_000) })],
+      context(BigInt(-1000)),
+      decimals
+    );
+
+    expect(swap).toMatchObject({
+      side: 'SELL',
+      tokenIn: TOKEN,
+      tokenOut: USDC,
+      amountIn: BigInt(1000),
+      amountOut: BigInt(25_000_000),
+      baseTokenDecimals: 6
+    });
+  });
+
+  it('returns null when the wallet did not trade the token', () => {
+    expect(buildSwapFromPoolSwaps([poolSwap({})], context(BigInt(0)), decimals)).toBeNull();
+    expect(buildSwapFromPoolSwaps(
+      [poolSwap({ token1: USDC })],
+      context(BigInt(5)),
+      decimals
+    )).toBeNull();
+  });
+});
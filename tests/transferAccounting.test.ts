@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { resolveTransferBasis } from '../lib/services/transferAccounting';
+
+const TEN_TOKENS = BigInt(10) * BigInt(10) ** BigInt(18);
+
+const transfer = (overrides: Partial<Parameters<typeof resolveTransferBasis>[1]> = {}) => ({
+  amount: TEN_TOKENS,
+  tokenDecimals: 18,
+  sameFid: false,
+  carriedBasisUsd: 0,
+  priceUsd: null,
+  ...overrides
+});
+
+describe('resolveTransferBasis', () => {
+  it('gives airdropped tokens zero basis', () => {
+    expect(resolveTransferBasis('zero', transfer({ priceUsd: 2 }))).toEqual({ policy: 'zero', costBasisUsd: 0, priceUsd: 0 });
+  });
+
+  it('values tokens at the price of the receiving block under fair_value', () => {
+    expect(resolveTransferBasis('fair_value', transfer({ priceUsd: 2 }))).toEqual({ policy: 'fair_value', costBasisUsd: 20, priceUsd: 2 });
+  });
+
+  it('falls back to zero basis when no fair value is known', () => {
+    expect(resolveTransferBasis('fair_value', transfer({ priceUsd: null })).policy).toBe('zero');
+  });
+
+  it('carries the sender basis over between wallets of the same FID', () => {
+    expect(resolveTransferBasis('carry_over', transfer({ sameFid: true, carriedBasisUsd: 15 })))
+      .toEqual({ policy: 'carry_over', costBasisUsd: 15, priceUsd: 1.5 });
+  });
+
+  it('treats a transfer from someone else as zero basis under carry_over', () => {
+    expect(resolveTransferBasis('carry_over', transfer({ sameFid: false, carriedBasisUsd: 15, priceUsd: 2 })))
+      .toEqual({ policy: 'zero', costBasisUsd: 0, priceUsd: 0 });
+  });
+});
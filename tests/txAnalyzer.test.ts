@@ -0,0 +1,289 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  AssetMovement,
+  buildSwapFromAnalysis,
+  buildSwapFromLegs,
+  classifyTransaction,
+  computeNetDeltas,
+  confidenceLevel,
+  movementsFromLogs,
+  nativeMovementsFromTrace
+} from '../lib/services/txAnalyzer';
+import { NATIVE_ETH_ADDRESS } from '../lib/services/swapDecoders';
+import type { SwapDetails } from '../lib/services/swapTypes';
+
+const WALLET = '0x000000000000000000000000000000000000beef';
+const FRIEND = '0x000000000000000000000000000000000000f00d';
+const ROUTER = '0x0000000000000000000000000000000000000a11';
+const POOL = '0x0000000000000000000000000000000000000b22';
+const LP = '0x0000000000000000000000000000000000000c33';
+const ZERO = '0x0000000000000000000000000000000000000000';
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const WETH = '0x4200000000000000000000000000000000000006';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ETH = NATIVE_ETH_ADDRESS;
+
+const move = (asset: string, from: string, to: string, amount: number): AssetMovement => ({
+  asset, from, to, amount: BigInt(amount)
+});
+
+describe('computeNetDeltas', () => {
+  it('nets refunds and ignores hops that never touch the wallet', () => {
+    const deltas = computeNetDeltas([
+      move(ETH, WALLET, ROUTER, 100),
+      move(WETH, ROUTER, POOL, 90),
+      move(USDC, POOL, POOL, 5),
+      move(TOKEN, POOL, WALLET, 1000),
+      move(ETH, ROUTER, WALLET, 10)
+    ], WALLET);
+
+    expect(Array.from(deltas.entries())).toEqual([[ETH, BigInt(-90)], [TOKEN, BigInt(1000)]]);
+  });
+
+  it('drops assets that net to zero', () => {
+    expect(computeNetDeltas([move(TOKEN, WALLET, ROUTER, 5), move(TOKEN, ROUTER, WALLET, 5)], WALLET).size).toBe(0);
+  });
+});
+
+describe('classifyTransaction', () => {
+  it('reads a multi-hop buy paid in ETH with a refund as one buy', () => {
+    const result = classifyTransaction([
+      move(ETH, WALLET, ROUTER, 100),
+      move(USDC, POOL, ROUTER, 300),
+      move(TOKEN, POOL, WALLET, 1000),
+      move(ETH, ROUTER, WALLET, 10)
+    ], WALLET, TOKEN, WALLET);
+
+    expect(result).toMatchObject({ kind: 'buy', counterAsset: ETH, counterAmount: BigInt(90), trackedTokenDelta: BigInt(1000), confidence: 0.95 });
+  });
+
+  it('prefers a base asset as the payment and lowers confidence when several were paid', () => {
+    const result = classifyTransaction([
+      move('0x00000000000000000000000000000000000000dd', WALLET, ROUTER, 7),
+      move(USDC, WALLET, ROUTER, 50),
+      move(TOKEN, POOL, WALLET, 1000)
+    ], WALLET, TOKEN, WALLET);
+
+    expect(result).toMatchObject({ kind: 'buy', counterAsset: USDC, counterAmount: BigInt(50), confidence: 0.8 });
+  });
+
+  it('classifies a sell for ETH paid out by an internal call', () => {
+    const result = classifyTransaction([
+      move(TOKEN, WALLET, POOL, 1000),
+      move(WETH, POOL, ROUTER, 40),
+      move(ETH, ROUTER, WALLET, 40)
+    ], WALLET, TOKEN, WALLET);
+
+    expect(result).toMatchObject({ kind: 'sell', counterAsset: ETH, counterAmount: BigInt(40), trackedTokenDelta: BigInt(-1000) });
+    expect(result.confidence).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('gives a non-base payment a lower confidence', () => {
+    const result = classifyTransaction([
+      move(TOKEN, WALLET, POOL, 1000),
+      move('0x00000000000000000000000000000000000000dd', POOL, WALLET, 3)
+    ], WALLET, TOKEN, WALLET);
+
+    expect(result).toMatchObject({ kind: 'sell', confidence: 0.85 });
+  });
+
+  it('spots LP adds and removes through the LP token', () => {
+    const add = classifyTransaction([
+      move(TOKEN, WALLET, POOL, 1000),
+      move(WETH, WALLET, POOL, 40),
+      move(LP, ZERO, WALLET, 200)
+    ], WALLET, TOKEN, WALLET);
+    expect(add).toMatchObject({ kind: 'lp_add', counterAsset: WETH, confidence: 0.95 });
+
+    const remove = classifyTransaction([
+      move(LP, WALLET, POOL, 200),
+      move(LP, POOL, ZERO, 200),
+      move(TOKEN, POOL, WALLET, 1000),
+      move(WETH, POOL, WALLET, 40)
+    ], WALLET, TOKEN, WALLET);
+    expect(remove).toMatchObject({ kind: 'lp_remove', counterAsset: WETH, confidence: 0.95 });
+  });
+
+  it('treats both assets leaving with no LP token as a lower-confidence LP add', () => {
+    const result = classifyTransaction([
+      move(TOKEN, WALLET, POOL, 1000),
+      move(WETH, WALLET, POOL, 40)
+    ], WALLET, TOKEN, WALLET);
+
+    expect(result).toMatchObject({ kind: 'lp_add', confidence: 0.6 });
+  });
+
+  it('tells transfers from airdrops by who sent the tokens', () => {
+    expect(classifyTransaction([move(TOKEN, FRIEND, WALLET, 5)], WALLET, TOKEN, FRIEND).kind).toBe('transfer');
+    expect(classifyTransaction([move(TOKEN, WALLET, FRIEND, 5)], WALLET, TOKEN, WALLET).kind).toBe('transfer');
+    expect(classifyTransaction([move(TOKEN, ZERO, WALLET, 5)], WALLET, TOKEN, FRIEND)).toMatchObject({ kind: 'airdrop', confidence: 0.9 });
+    expect(classifyTransaction([move(TOKEN, ROUTER, WALLET, 5)], WALLET, TOKEN, WALLET)).toMatchObject({ kind: 'airdrop', confidence: 0.75 });
+    expect(classifyTransaction([move(TOKEN, ROUTER, WALLET, 5)], WALLET, TOKEN, FRIEND)).toMatchObject({ kind: 'airdrop', confidence: 0.6 });
+  });
+
+  it('treats moves between wallets of one identity as neither buys nor sells', () => {
+    expect(classifyTransaction([move(TOKEN, FRIEND, WALLET, 5)], [WALLET, FRIEND], TOKEN, FRIEND).kind).toBe('none');
+
+    const result = classifyTransaction([
+      move(USDC, FRIEND, ROUTER, 50),
+      move(TOKEN, POOL, ROUTER, 1000),
+      move(TOKEN, ROUTER, WALLET, 1000)
+    ], [WALLET, FRIEND], TOKEN, FRIEND);
+    expect(result).toMatchObject({ kind: 'buy', counterAsset: USDC, trackedTokenDelta: BigInt(1000) });
+  });
+
+  it('returns none when the tracked token did not move for the wallet', () => {
+    expect(classifyTransaction([move(WETH, WALLET, POOL, 5)], WALLET, TOKEN, WALLET)).toMatchObject({ kind: 'none', confidence: 1 });
+  });
+});
+
+describe('movementsFromLogs', () => {
+  const topic = (address: string) => ethers.zeroPadValue(address, 32);
+  const log = (address: string, topics: string[], data: string) => ({ address, topics, data } as unknown as ethers.Log);
+  const TRANSFER = ethers.id('Transfer(address,address,uint256)');
+
+  it('reads ERC-20 and ERC-721 transfers and skips other events', () => {
+    const movements = movementsFromLogs([
+      log(TOKEN, [TRANSFER, topic(POOL), topic(WALLET)], ethers.toBeHex(1000, 32)),
+      log(LP, [TRANSFER, topic(ZERO), topic(WALLET), ethers.toBeHex(7, 32)], '0x'),
+      log(TOKEN, [ethers.id('Approval(address,address,uint256)'), topic(WALLET), topic(ROUTER)], ethers.toBeHex(1, 32))
+    ]);
+
+    expect(movements).toEqual([
+      move(TOKEN, POOL, WALLET, 1000),
+      move(LP, ZERO, WALLET, 1)
+    ]);
+  });
+});
+
+describe('nativeMovementsFromTrace', () => {
+  it('reads value from Parity-style traces and skips reverted calls', () => {
+    const traces: any[] = [
+      { type: 'call', action: { callType: 'call', from: WALLET, to: ROUTER, value: '0x64' } },
+      { type: 'call', action: { callType: 'call', from: ROUTER, to: WALLET, value: '0xa' } },
+      { type: 'call', action: { callType: 'call', from: ROUTER, to: FRIEND, value: '0x5' }, error: 'Reverted' },
+      { type: 'call', action: { callType: 'delegatecall', from: ROUTER, to: POOL, value: '0x64' } }
+    ];
+
+    expect(nativeMovementsFromTrace(traces)).toEqual([move(ETH, WALLET, ROUTER, 100), move(ETH, ROUTER, WALLET, 10)]);
+  });
+
+  it('walks geth-style call trees', () => {
+    const traces: any[] = [{
+      type: 'call', from: WALLET, to: ROUTER, value: '0x0', input: '0x',
+      calls: [{ type: 'call', from: ROUTER, to: WALLET, value: '0x28', input: '0x' }]
+    }];
+
+    expect(nativeMovementsFromTrace(traces)).toEqual([move(ETH, ROUTER, WALLET, 40)]);
+  });
+});
+
+describe('buildSwapFromAnalysis', () => {
+  const context = {
+    txHash: '0xabc',
+    blockNumber: 100,
+    timestamp: new Date('2024-05-01T00:00:00Z'),
+    walletAddress: WALLET,
+    trackedTokenAddress: TOKEN,
+    trackedTokenDecimals: 18
+  };
+  const analysis = (movements: AssetMovement[], usedTrace: boolean) => ({
+    ...classifyTransaction(movements, WALLET, TOKEN, WALLET),
+    txHash: '0xabc',
+    blockNumber: 100,
+    movements,
+    usedTrace
+  });
+
+  it('builds a sell paid out in ETH from the trace', () => {
+    const swap = buildSwapFromAnalysis(
+      analysis([move(TOKEN, WALLET, POOL, 1000), move(ETH, ROUTER, WALLET, 40)], true),
+      context,
+      () => 18
+    );
+
+    expect(swap).toMatchObject({
+      side: 'SELL',
+      tokenIn: TOKEN,
+      tokenOut: ETH,
+      amountIn: BigInt(1000),
+      amountOut: BigInt(40),
+      source: 'trace',
+      confidence: 'high',
+      venue: 'unknown',
+      trackedTokenAmount: BigInt(1000),
+      baseTokenAmount: BigInt(40)
+    });
+  });
+
+  it('returns null for anything but a buy or sell', () => {
+    expect(buildSwapFromAnalysis(analysis([move(TOKEN, FRIEND, WALLET, 5)], false), context, () => 18)).toBeNull();
+  });
+
+  it('maps confidence scores onto the SwapDetails scale', () => {
+    expect([confidenceLevel(0.95), confidenceLevel(0.7), confidenceLevel(0.5)]).toEqual(['high', 'medium', 'low']);
+  });
+});
+
+describe('buildSwapFromLegs', () => {
+  const leg = (tokenIn: string, tokenOut: string, amountIn: number, amountOut: number, legIndex: number): SwapDetails => ({
+    tokenIn,
+    tokenOut,
+    amountIn: BigInt(amountIn),
+    amountOut: BigInt(amountOut),
+    side: tokenOut === TOKEN ? 'BUY' : 'SELL',
+    walletAddress: WALLET,
+    source: 'bitquery',
+    confidence: 'high',
+    baseTokenAddress: tokenOut === TOKEN ? tokenIn : tokenOut,
+    baseTokenAmount: BigInt(tokenOut === TOKEN ? amountIn : amountOut),
+    tokenInDecimals: tokenIn === USDC ? 6 : 18,
+    tokenOutDecimals: tokenOut === USDC ? 6 : 18,
+    txHash: '0xabc',
+    blockNumber: 100,
+    timestamp: new Date('2024-05-01T00:00:00Z'),
+    baseTokenUsdValue: 12,
+    legIndex,
+    trackedTokenAddress: TOKEN,
+    trackedTokenAmount: BigInt(tokenOut === TOKEN ? amountOut : amountIn),
+    trackedTokenDecimals: 18,
+    baseTokenDecimals: 18
+  });
+  const settle = (legs: SwapDetails[]) => {
+    const movements = legs.flatMap((l, i) => [
+      move(l.tokenIn, WALLET, `pool${i}`, Number(l.amountIn)),
+      move(l.tokenOut, `pool${i}`, WALLET, Number(l.amountOut))
+    ]);
+    return buildSwapFromLegs(classifyTransaction(movements, WALLET, TOKEN, WALLET), legs);
+  };
+
+  it('sums a buy split across two pools into one trade', () => {
+    const swap = settle([leg(WETH, TOKEN, 10, 600, 0), leg(WETH, TOKEN, 5, 300, 1)]);
+
+    expect(swap).toMatchObject({
+      side: 'BUY',
+      tokenIn: WETH,
+      amountIn: BigInt(15),
+      amountOut: BigInt(900),
+      trackedTokenAmount: BigInt(900),
+      legIndex: 0
+    });
+    expect(swap?.baseTokenUsdValue).toBeUndefined();
+  });
+
+  it('takes the side from the net deltas, not the leg that touched the tracked token', () => {
+    // USDC -> TOKEN -> WETH, keeping a little TOKEN: a buy paid in USDC, not a sell for WETH
+    const swap = settle([leg(USDC, TOKEN, 100, 1000, 0), leg(TOKEN, WETH, 900, 3, 1)]);
+
+    expect(swap).toMatchObject({ side: 'BUY', tokenIn: USDC, amountIn: BigInt(100), amountOut: BigInt(100), tokenInDecimals: 6 });
+  });
+
+  it('drops a route that passes through the tracked token', () => {
+    expect(settle([leg(USDC, TOKEN, 100, 1000, 0), leg(TOKEN, WETH, 1000, 3, 1)])).toBeNull();
+  });
+
+  it('keeps a single leg\'s USD values', () => {
+    expect(settle([leg(TOKEN, WETH, 1000, 3, 0)])).toMatchObject({ side: 'SELL', baseTokenUsdValue: 12 });
+  });
+});
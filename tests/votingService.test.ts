@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { Ballot, BALLOT_DOMAIN, BALLOT_TYPES, parseBallot } from '../lib/utils/ballot';
+import { BallotError, OptionTally, pickWinningOption, verifyBallot } from '../lib/services/votingService';
+
+const wallet = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const NOW = 1_760_000_000;
+
+const ballot = (overrides: Partial<Ballot> = {}): Ballot => ({
+  votingPeriodId: 3,
+  optionId: 12,
+  tokenAddress: '0x0774409Cda69A47f272907fd5D0d80173167BB07',
+  voter: wallet.address,
+  issuedAt: NOW,
+  ...overrides
+});
+
+const sign = (value: Ballot) => wallet.signTypedData(BALLOT_DOMAIN, BALLOT_TYPES, value);
+
+describe('verifyBallot', () => {
+  it('returns the voter for a ballot it signed', async () => {
+    const value = ballot();
+    expect(verifyBallot(value, await sign(value), NOW + 30)).toBe(wallet.address.toLowerCase());
+  });
+
+  it('rejects a ballot claiming another voter', async () => {
+    const value = ballot({ voter: '0x000000000000000000000000000000000000dEaD' });
+    expect(() => verifyBallot(value, '0x1234', NOW)).toThrow('Invalid ballot signature');
+
+    // Signed by the wallet, but names someone else as the voter
+    const signature = await sign(value);
+    expect(() => verifyBallot(value, signature, NOW)).toThrow(BallotError);
+  });
+
+  it('rejects a signature moved to a different option', async () => {
+    const signature = await sign(ballot());
+    expect(() => verifyBallot(ballot({ optionId: 13 }), signature, NOW)).toThrow('not signed by the voter');
+  });
+
+  it('rejects stale and future-dated ballots', async () => {
+    const value = ballot();
+    const signature = await sign(value);
+    expect(() => verifyBallot(value, signature, NOW + 11 * 60)).toThrow('expired');
+    expect(() => verifyBallot(value, signature, NOW - 5 * 60)).toThrow('expired');
+  });
+});
+
+describe('parseBallot', () => {
+  it('accepts numeric strings', () => {
+    expect(parseBallot({ ...ballot(), votingPeriodId: '3', optionId: '12', issuedAt: String(NOW) })).toEqual(ballot());
+  });
+
+  it.each([
+    null,
+    {},
+    { ...ballot(), voter: 'not-an-address' },
+    { ...ballot(), optionId: 1.5 },
+    { ...ballot(), issuedAt: undefined }
+  ])('rejects %j', (value) => {
+    expect(parseBallot(value)).toBeNull();
+  });
+});
+
+describe('pickWinningOption', () => {
+  const option = (id: number, voteWeight: number, voteCount: number): OptionTally => ({
+    id,
+    tokenAddress: `0x${String(id).padStart(40, '0')}`,
+    tokenSymbol: `T${id}`,
+    tokenName: null,
+    description: null,
+    voteCount,
+    voteWeight
+  });
+
+  it('picks the highest weight', () => {
+    expect(pickWinningOption([option(1, 10, 10), option(2, 5000, 2)])?.id).toBe(2);
+  });
+
+  it('breaks a weight tie by vote count, then by the earliest option', () => {
+    expect(pickWinningOption([option(1, 100, 1), option(2, 100, 3)])?.id).toBe(2);
+    expect(pickWinningOption([option(3, 100, 3), option(2, 100, 3)])?.id).toBe(2);
+  });
+
+  it('falls back to the first option when nobody voted', () => {
+    expect(pickWinningOption([option(7, 0, 0), option(4, 0, 0)])?.id).toBe(4);
+    expect(pickWinningOption([])).toBeNull();
+  });
+});
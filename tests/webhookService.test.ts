@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  WebhookError,
+  parseForwardedEvent,
+  toWebhookEvent,
+  verifyNeynarSignature
+} from '../lib/services/webhookService';
+
+describe('verifyNeynarSignature', () => {
+  const secret = 'webhook-secret';
+  const rawBody = '{"event":"notifications_disabled","fid":42}';
+  const signature = createHmac('sha512', secret).update(rawBody).digest('hex');
+
+  it('accepts the HMAC-SHA512 of the exact raw body', () => {
+    expect(verifyNeynarSignature(rawBody, signature, secret)).toBe(true);
+  });
+
+  it('rejects a missing, malformed or mismatched signature', () => {
+    expect(verifyNeynarSignature(rawBody, null, secret)).toBe(false);
+    expect(verifyNeynarSignature(rawBody, 'not-hex', secret)).toBe(false);
+    expect(verifyNeynarSignature(rawBody, signature, 'other-secret')).toBe(false);
+    expect(verifyNeynarSignature(`${rawBody} `, signature, secret)).toBe(false);
+  });
+});
+
+describe('toWebhookEvent', () => {
+  const details = { token: 'tok', url: 'https://api.farcaster.xyz/v1/frame-notifications' };
+
+  it('keeps the client app FID and notification details', () => {
+    expect(toWebhookEvent({ fid: 42, appFid: 9152, event: 'notifications_enabled', notificationDetails: details }))
+      .toEqual({ fid: 42, appFid: 9152, event: 'notifications_enabled', notificationDetails: details });
+  });
+
+  it('allows miniapp_added without notifications and drops details on disable', () => {
+    expect(toWebhookEvent({ fid: 42, event: 'miniapp_added' }).notificationDetails).toBeNull();
+    expect(toWebhookEvent({ fid: 42, appFid: 1, event: 'notifications_disabled', notificationDetails: details }).notificationDetails)
+      .toBeNull();
+  });
+
+  it('rejects unknown events, missing fids and enable without a token', () => {
+    expect(() => toWebhookEvent({ fid: 42, event: 'frame_added' })).toThrow('Unknown event type: frame_added');
+    expect(() => toWebhookEvent({ fid: 0, event: 'miniapp_removed' })).toThrow(WebhookError);
+    expect(() => toWebhookEvent({ fid: 42, event: 'notifications_enabled', notificationDetails: { token: 'tok' } }))
+      .toThrow('notificationDetails with token and url are required');
+  });
+});
+
+describe('parseForwardedEvent', () => {
+  it('reads the fid and details from the field names Neynar uses', () => {
+    expect(parseForwardedEvent({ event: 'notifications_enabled', user: { fid: '7' }, token: 'tok', url: 'https://x.test' }))
+      .toEqual({ fid: 7, appFid: null, event: 'notifications_enabled', notificationDetails: { token: 'tok', url: 'https://x.test' } });
+    expect(parseForwardedEvent({ event: 'miniapp_removed', user_fid: 7, app_fid: 9152 }))
+      .toEqual({ fid: 7, appFid: 9152, event: 'miniapp_removed', notificationDetails: null });
+  });
+});
@@ -6,6 +6,22 @@ export interface LeaderboardEntry {
   pfpUrl: string;
   address: string; // Keep for reference but FID is primary
   loss: number;
+  wallets?: string[]; // Every wallet whose trades count towards this entry
+  realizedPnl?: number;
+  unrealizedPnl?: number;
+  source?: LoserboardSource;
+}
+
+// 'computed' from indexed trades, or a manual 'pin' / 'override' entry
+export type LoserboardSource = 'computed' | 'pin' | 'override';
+
+export interface LoserboardSnapshot {
+  id: number;
+  weekStart: string;
+  weekEnd: string;
+  entryCount: number;
+  totalLossUsd: number;
+  frozenAt: string;
 }
 
 export interface FarcasterProfile {